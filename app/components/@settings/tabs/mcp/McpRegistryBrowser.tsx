@@ -0,0 +1,373 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { useMCPStore } from '~/lib/stores/mcp';
+import type { MCPServerConfig, ServerConfigIssue } from '~/lib/services/mcpService';
+import {
+  buildServerConfig,
+  createServerForm,
+  getMissingVariables,
+  type MCPRegistry,
+  type MCPRegistryEntry,
+  type MCPRegistryVariable,
+  type MCPServerForm,
+} from '~/lib/services/mcp-registry';
+
+type TestServerResponse = {
+  config?: MCPServerConfig;
+  tools?: Array<{ name: string; description?: string }>;
+  error?: string;
+  issues?: ServerConfigIssue[];
+};
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-white dark:bg-bolt-elements-background-depth-4',
+  'border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-1 focus:ring-bolt-elements-focus',
+);
+
+const buttonClassName = classNames(
+  'px-3 py-1.5 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-3 hover:bg-bolt-elements-background-depth-4',
+  'text-bolt-elements-textPrimary',
+  'flex items-center gap-2',
+  'disabled:opacity-50 disabled:cursor-not-allowed',
+);
+
+async function testServer(serverName: string, config: unknown, validateOnly: boolean): Promise<TestServerResponse> {
+  const response = await fetch('/api/mcp-test-server', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ serverName, config, validateOnly }),
+  });
+
+  return (await response.json()) as TestServerResponse;
+}
+
+function Field({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <label className="block">
+      <span className="block text-xs text-bolt-elements-textSecondary mb-1">{label}</span>
+      {children}
+      {hint && <span className="block text-xs text-bolt-elements-textTertiary mt-1">{hint}</span>}
+    </label>
+  );
+}
+
+function VariableFields({
+  variables,
+  values,
+  onChange,
+}: {
+  variables: MCPRegistryVariable[];
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}) {
+  return (
+    <>
+      {variables.map((variable) => (
+        <Field
+          key={variable.name}
+          label={`${variable.name}${variable.required ? ' *' : ''}`}
+          hint={variable.description}
+        >
+          <input
+            type={variable.secret ? 'password' : 'text'}
+            value={values[variable.name] || ''}
+            onChange={(e) => onChange({ ...values, [variable.name]: e.target.value })}
+            className={inputClassName}
+          />
+        </Field>
+      ))}
+    </>
+  );
+}
+
+function ServerForm({ entry, onDone }: { entry: MCPRegistryEntry; onDone: () => void }) {
+  const settings = useMCPStore((state) => state.settings);
+  const updateSettings = useMCPStore((state) => state.updateSettings);
+
+  const [form, setForm] = useState<MCPServerForm>(() => createServerForm(entry));
+  const [issues, setIssues] = useState<ServerConfigIssue[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [tools, setTools] = useState<TestServerResponse['tools'] | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const serverExists = form.serverName in settings.mcpConfig.mcpServers;
+  const missingVariables = getMissingVariables(entry, form);
+
+  const update = (changes: Partial<MCPServerForm>) => {
+    setForm({ ...form, ...changes });
+    setTools(null);
+  };
+
+  const checkResponse = (response: TestServerResponse) => {
+    setIssues(response.issues || []);
+    setError(response.error || null);
+
+    return !response.error && response.config ? response.config : null;
+  };
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTools(null);
+
+    try {
+      const response = await testServer(form.serverName, buildServerConfig(form), false);
+
+      if (checkResponse(response)) {
+        setTools(response.tools || []);
+      }
+    } catch (e) {
+      setError(`Failed to test the server: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+
+    try {
+      const config = checkResponse(await testServer(form.serverName, buildServerConfig(form), true));
+
+      if (!config) {
+        return;
+      }
+
+      await updateSettings({
+        ...settings,
+        mcpConfig: { mcpServers: { ...settings.mcpConfig.mcpServers, [form.serverName]: config } },
+      });
+      toast.success(`Added MCP server "${form.serverName}"`);
+      onDone();
+    } catch (e) {
+      setError(`Failed to add the server: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-3 border-t border-bolt-elements-borderColor pt-3">
+      <Field
+        label="Server name"
+        hint={serverExists ? 'A server with this name exists and will be replaced' : undefined}
+      >
+        <input
+          value={form.serverName}
+          onChange={(e) => update({ serverName: e.target.value.trim() })}
+          className={inputClassName}
+        />
+      </Field>
+
+      {form.transport === 'stdio' ? (
+        <>
+          {entry.installCommand && (
+            <Field label="Install command" hint="Servers run where the MCP proxy runs; install them there first">
+              <code className="block px-3 py-2 rounded-lg text-xs bg-bolt-elements-background-depth-3 text-bolt-elements-textPrimary">
+                {entry.installCommand}
+              </code>
+            </Field>
+          )}
+          <Field label="Command">
+            <input
+              value={form.command}
+              onChange={(e) => update({ command: e.target.value })}
+              className={inputClassName}
+            />
+          </Field>
+          <Field label="Arguments" hint="One argument per line">
+            <textarea
+              value={form.args}
+              onChange={(e) => update({ args: e.target.value })}
+              rows={Math.max(2, form.args.split('\n').length)}
+              className={classNames(inputClassName, 'font-mono resize-none')}
+            />
+          </Field>
+          <Field label="Working directory (optional)">
+            <input value={form.cwd} onChange={(e) => update({ cwd: e.target.value })} className={inputClassName} />
+          </Field>
+          <VariableFields variables={entry.env || []} values={form.env} onChange={(env) => update({ env })} />
+        </>
+      ) : (
+        <>
+          <Field label="URL">
+            <input value={form.url} onChange={(e) => update({ url: e.target.value })} className={inputClassName} />
+          </Field>
+          <VariableFields
+            variables={entry.headers || []}
+            values={form.headers}
+            onChange={(headers) => update({ headers })}
+          />
+        </>
+      )}
+
+      {(error || issues.length > 0) && (
+        <div className="text-sm text-bolt-elements-icon-error">
+          {error && <p>{error}</p>}
+          <ul className="list-disc ml-5">
+            {issues.map((issue) => (
+              <li key={`${issue.path}:${issue.message}`}>
+                {issue.path ? `${issue.path}: ` : ''}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {tools && (
+        <div className="rounded-lg bg-bolt-elements-background-depth-3 p-3">
+          <p className="text-sm text-bolt-elements-textPrimary mb-2">
+            Connected. {tools.length} tool{tools.length === 1 ? '' : 's'} discovered:
+          </p>
+          <ul className="space-y-1 max-h-48 overflow-y-auto">
+            {tools.map((tool) => (
+              <li key={tool.name} className="text-xs">
+                <span className="font-mono text-bolt-elements-textPrimary">{tool.name}</span>
+                {tool.description && (
+                  <span className="text-bolt-elements-textSecondary"> - {tool.description.split('\n')[0]}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {missingVariables.length > 0 && (
+          <span className="mr-auto self-center text-xs text-bolt-elements-textTertiary">
+            Required: {missingVariables.join(', ')}
+          </span>
+        )}
+        <button onClick={onDone} className={buttonClassName}>
+          Cancel
+        </button>
+        <button
+          onClick={handleTest}
+          disabled={isTesting || isAdding || !form.serverName || missingVariables.length > 0}
+          className={buttonClassName}
+        >
+          {isTesting ? (
+            <div className="i-svg-spinners:90-ring-with-bg w-3 h-3 text-bolt-elements-loader-progress animate-spin" />
+          ) : (
+            <div className="i-ph:plugs-connected w-3 h-3" />
+          )}
+          Test connection
+        </button>
+        <button
+          onClick={handleAdd}
+          disabled={isTesting || isAdding || !form.serverName || missingVariables.length > 0}
+          className={classNames(
+            buttonClassName,
+            '!bg-bolt-elements-item-backgroundAccent !text-bolt-elements-item-contentAccent',
+          )}
+        >
+          <div className="i-ph:plus w-3 h-3" />
+          {isAdding ? 'Adding...' : 'Add server'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function McpRegistryBrowser() {
+  const mcpServers = useMCPStore((state) => state.settings.mcpConfig.mcpServers);
+
+  const [registry, setRegistry] = useState<MCPRegistry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/mcp-registry')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Server responded with ${response.status}: ${response.statusText}`);
+        }
+
+        setRegistry((await response.json()) as MCPRegistry);
+      })
+      .catch((e) => setError(`Failed to load the MCP registry: ${e instanceof Error ? e.message : String(e)}`));
+  }, []);
+
+  const entries = useMemo(() => {
+    const normalizedQuery = query.trim().toLowerCase();
+
+    return (registry?.servers || []).filter(
+      (entry) =>
+        !normalizedQuery ||
+        [entry.name, entry.description, ...(entry.tags || [])].some((text) =>
+          text.toLowerCase().includes(normalizedQuery),
+        ),
+    );
+  }, [registry, query]);
+
+  return (
+    <section aria-labelledby="registry-heading">
+      <h2 id="registry-heading" className="text-base font-medium text-bolt-elements-textPrimary mb-3">
+        Add from Registry
+      </h2>
+
+      <input
+        placeholder="Search servers"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        className={classNames(inputClassName, 'mb-3')}
+      />
+
+      {error && <p className="mb-3 text-sm text-bolt-elements-icon-error">{error}</p>}
+      {!registry && !error && <p className="text-sm text-bolt-elements-textSecondary">Loading registry...</p>}
+
+      <ul className="space-y-2 max-h-[32rem] overflow-y-auto">
+        {entries.map((entry) => (
+          <li key={entry.id} className="rounded-lg bg-bolt-elements-background-depth-2 p-3">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-bolt-elements-textPrimary">{entry.name}</span>
+                  <span className="text-xs px-1.5 py-0.5 rounded bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary">
+                    {entry.transport}
+                  </span>
+                  {entry.id in mcpServers && <span className="text-xs text-green-500">configured</span>}
+                  {entry.homepage && (
+                    <a
+                      href={entry.homepage}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-bolt-elements-link"
+                      title="Documentation"
+                    >
+                      <div className="i-ph:arrow-square-out w-3.5 h-3.5" />
+                    </a>
+                  )}
+                </div>
+                <p className="text-xs text-bolt-elements-textSecondary mt-1">{entry.description}</p>
+                {entry.env?.some((variable) => variable.required) && (
+                  <p className="text-xs text-bolt-elements-textTertiary mt-1">
+                    Requires:{' '}
+                    {entry.env
+                      .filter((variable) => variable.required)
+                      .map((variable) => variable.name)
+                      .join(', ')}
+                  </p>
+                )}
+              </div>
+              {selectedId !== entry.id && (
+                <button onClick={() => setSelectedId(entry.id)} className={classNames(buttonClassName, 'shrink-0')}>
+                  <div className="i-ph:plus w-3 h-3" />
+                  Add
+                </button>
+              )}
+            </div>
+            {selectedId === entry.id && <ServerForm entry={entry} onDone={() => setSelectedId(null)} />}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
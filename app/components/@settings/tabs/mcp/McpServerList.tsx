@@ -8,6 +8,11 @@ type McpServerListProps = {
   checkingServers: boolean;
   onlyShowAvailableServers?: boolean;
   toggleServerExpanded: (serverName: string) => void;
+
+  // OAuth sign-in for remote servers; the buttons are hidden without handlers
+  authorizingServer?: string | null;
+  onAuthorize?: (serverName: string) => void;
+  onSignOut?: (serverName: string) => void;
 };
 
 export default function McpServerList({
@@ -16,6 +21,9 @@ export default function McpServerList({
   checkingServers,
   onlyShowAvailableServers = false,
   toggleServerExpanded,
+  authorizingServer = null,
+  onAuthorize,
+  onSignOut,
 }: McpServerListProps) {
   if (serverEntries.length === 0) {
     return <p className="text-sm text-bolt-elements-textSecondary">No MCP servers configured</p>;
@@ -67,6 +75,47 @@ export default function McpServerList({
               </div>
             </div>
 
+            {/* OAuth status */}
+            {mcpServer.auth && (
+              <div className="mt-1.5 ml-6 flex items-center gap-2 text-xs">
+                {mcpServer.auth.status === 'authorized' ? (
+                  <span
+                    className="flex items-center gap-1 text-bolt-elements-textSecondary"
+                    title={
+                      mcpServer.auth.expiresAt
+                        ? `Token expires ${new Date(mcpServer.auth.expiresAt).toLocaleString()}`
+                        : undefined
+                    }
+                  >
+                    <span className="i-ph:lock-key-open w-3 h-3" aria-hidden="true" />
+                    Signed in{mcpServer.auth.scope ? ` (${mcpServer.auth.scope})` : ''}
+                  </span>
+                ) : (
+                  <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400">
+                    <span className="i-ph:lock-key w-3 h-3" aria-hidden="true" />
+                    Sign-in required
+                  </span>
+                )}
+                {mcpServer.auth.status === 'required' && onAuthorize && (
+                  <button
+                    onClick={() => onAuthorize(serverName)}
+                    disabled={authorizingServer !== null}
+                    className="bg-transparent text-bolt-elements-link hover:underline disabled:opacity-50"
+                  >
+                    {authorizingServer === serverName ? 'Signing in...' : 'Sign in'}
+                  </button>
+                )}
+                {mcpServer.auth.status === 'authorized' && onSignOut && (
+                  <button
+                    onClick={() => onSignOut(serverName)}
+                    className="bg-transparent text-bolt-elements-link hover:underline"
+                  >
+                    Sign out
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Error message */}
             {!isAvailable && mcpServer.error && (
               <div className="mt-1.5 ml-6 text-xs text-red-600 dark:text-red-400">Error: {mcpServer.error}</div>
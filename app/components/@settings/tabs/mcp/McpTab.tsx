@@ -4,6 +4,8 @@ import type { MCPConfig } from '~/lib/services/mcpService';
 import { toast } from 'react-toastify';
 import { useMCPStore } from '~/lib/stores/mcp';
 import McpServerList from '~/components/@settings/tabs/mcp/McpServerList';
+import McpToolPolicies from '~/components/@settings/tabs/mcp/McpToolPolicies';
+import McpRegistryBrowser from '~/components/@settings/tabs/mcp/McpRegistryBrowser';
 
 const EXAMPLE_MCP_CONFIG: MCPConfig = {
   mcpServers: {
@@ -47,6 +49,8 @@ export default function McpTab() {
   const initialize = useMCPStore((state) => state.initialize);
   const updateSettings = useMCPStore((state) => state.updateSettings);
   const checkServersAvailabilities = useMCPStore((state) => state.checkServersAvailabilities);
+  const authorizeServer = useMCPStore((state) => state.authorizeServer);
+  const signOutServer = useMCPStore((state) => state.signOutServer);
 
   const [isSaving, setIsSaving] = useState(false);
   const [mcpConfigText, setMCPConfigText] = useState('');
@@ -54,6 +58,7 @@ export default function McpTab() {
   const [error, setError] = useState<string | null>(null);
   const [isCheckingServers, setIsCheckingServers] = useState(false);
   const [expandedServer, setExpandedServer] = useState<string | null>(null);
+  const [authorizingServer, setAuthorizingServer] = useState<string | null>(null);
 
   useEffect(() => {
     if (!isInitialized) {
@@ -93,6 +98,7 @@ export default function McpTab() {
 
     try {
       await updateSettings({
+        ...settings,
         mcpConfig: parsedConfig,
         maxLLMSteps,
       });
@@ -129,6 +135,26 @@ export default function McpTab() {
     }
   };
 
+  const handleAuthorize = async (serverName: string) => {
+    setAuthorizingServer(serverName);
+
+    try {
+      await authorizeServer(serverName);
+    } catch (e) {
+      toast.error(`Failed to sign in to ${serverName}: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setAuthorizingServer(null);
+    }
+  };
+
+  const handleSignOut = async (serverName: string) => {
+    try {
+      await signOutServer(serverName);
+    } catch (e) {
+      toast.error(`Failed to sign out of ${serverName}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
   const toggleServerExpanded = (serverName: string) => {
     setExpandedServer(expandedServer === serverName ? null : serverName);
   };
@@ -165,9 +191,16 @@ export default function McpTab() {
           expandedServer={expandedServer}
           serverEntries={serverEntries}
           toggleServerExpanded={toggleServerExpanded}
+          authorizingServer={authorizingServer}
+          onAuthorize={handleAuthorize}
+          onSignOut={handleSignOut}
         />
       </section>
 
+      <McpRegistryBrowser />
+
+      <McpToolPolicies />
+
       <section aria-labelledby="config-section-heading">
         <h2 className="text-base font-medium text-bolt-elements-textPrimary mb-3">Configuration</h2>
 
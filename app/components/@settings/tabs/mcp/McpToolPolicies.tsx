@@ -0,0 +1,326 @@
+import { useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { getToolPolicies, useMCPStore } from '~/lib/stores/mcp';
+import {
+  TOOL_POLICY_LABELS,
+  type ToolArgumentRule,
+  type ToolPolicy,
+  type ToolApprovalPolicies,
+} from '~/lib/services/mcp-tool-policy';
+
+const POLICIES = Object.keys(TOOL_POLICY_LABELS) as ToolPolicy[];
+
+const inputClassName = classNames(
+  'px-2 py-1.5 rounded-lg text-xs',
+  'bg-white dark:bg-bolt-elements-background-depth-4',
+  'border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-1 focus:ring-bolt-elements-focus',
+);
+
+const buttonClassName = classNames(
+  'px-3 py-1.5 rounded-lg text-xs',
+  'bg-bolt-elements-background-depth-3 hover:bg-bolt-elements-background-depth-4',
+  'text-bolt-elements-textPrimary',
+  'flex items-center gap-1.5',
+  'disabled:opacity-50 disabled:cursor-not-allowed',
+);
+
+const EMPTY_RULE: Omit<ToolArgumentRule, 'id'> = {
+  serverName: '',
+  toolName: '',
+  argument: '',
+  pattern: '',
+  flags: 'i',
+  action: 'allow',
+};
+
+function PolicySelect({
+  value,
+  onChange,
+  inheritLabel,
+}: {
+  value: ToolPolicy | undefined;
+  onChange: (policy: ToolPolicy | undefined) => void;
+  inheritLabel: string;
+}) {
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onChange((e.target.value || undefined) as ToolPolicy | undefined)}
+      className={inputClassName}
+    >
+      <option value="">{inheritLabel}</option>
+      {POLICIES.map((policy) => (
+        <option key={policy} value={policy}>
+          {TOOL_POLICY_LABELS[policy]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function McpToolPolicies() {
+  const settings = useMCPStore((state) => state.settings);
+  const serverTools = useMCPStore((state) => state.serverTools);
+  const auditLog = useMCPStore((state) => state.auditLog);
+  const updateToolPolicies = useMCPStore((state) => state.updateToolPolicies);
+  const clearAuditLog = useMCPStore((state) => state.clearAuditLog);
+
+  const [expandedServer, setExpandedServer] = useState<string | null>(null);
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+
+  const policies = getToolPolicies(settings);
+  const serverNames = useMemo(() => Object.keys(settings.mcpConfig.mcpServers), [settings.mcpConfig]);
+
+  const setPolicy = (serverName: string, toolName: string | null, policy: ToolPolicy | undefined) => {
+    const next: ToolApprovalPolicies = {
+      ...policies,
+      servers: { ...policies.servers },
+      tools: { ...policies.tools, [serverName]: { ...policies.tools[serverName] } },
+    };
+    const target = toolName ? next.tools[serverName] : next.servers;
+    const key = toolName || serverName;
+
+    if (policy) {
+      target[key] = policy;
+    } else {
+      delete target[key];
+    }
+
+    updateToolPolicies(next);
+  };
+
+  const addRule = () => {
+    try {
+      new RegExp(newRule.pattern, newRule.flags);
+    } catch (e) {
+      toast.error(`Invalid pattern: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+
+    updateToolPolicies({
+      ...policies,
+      argumentRules: [
+        ...policies.argumentRules,
+        { ...newRule, id: `rule-${Date.now()}`, toolName: newRule.toolName || undefined },
+      ],
+    });
+    setNewRule({ ...EMPTY_RULE, serverName: newRule.serverName });
+  };
+
+  const removeRule = (id: string) => {
+    updateToolPolicies({ ...policies, argumentRules: policies.argumentRules.filter((rule) => rule.id !== id) });
+  };
+
+  const exportAuditLog = () => {
+    try {
+      const blob = new Blob([JSON.stringify(auditLog, null, 2)], { type: 'application/json' });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `mcp-tool-audit-log-${new Date().toISOString()}.json`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error('Failed to export MCP tool audit log:', error);
+      toast.error('Failed to export the audit log');
+    }
+  };
+
+  return (
+    <>
+      <section aria-labelledby="tool-policies-heading">
+        <h2 id="tool-policies-heading" className="text-base font-medium text-bolt-elements-textPrimary mb-1">
+          Tool Approval
+        </h2>
+        <p className="text-xs text-bolt-elements-textSecondary mb-3">
+          Decide which tool calls run without asking. Tool policies override server policies; argument rules override
+          both, and deny rules win over allow rules.
+        </p>
+
+        <ul className="space-y-2">
+          {serverNames.map((serverName) => {
+            const server = serverTools[serverName];
+            const toolNames = server?.status === 'available' ? Object.keys(server.tools) : [];
+            const isExpanded = expandedServer === serverName;
+
+            return (
+              <li key={serverName} className="rounded-lg bg-bolt-elements-background-depth-2 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    onClick={() => setExpandedServer(isExpanded ? null : serverName)}
+                    disabled={toolNames.length === 0}
+                    className="flex items-center gap-1.5 bg-transparent text-sm text-bolt-elements-textPrimary disabled:cursor-default"
+                  >
+                    <div className={isExpanded ? 'i-ph:caret-down' : 'i-ph:caret-right'} />
+                    {serverName}
+                  </button>
+                  <PolicySelect
+                    value={policies.servers[serverName]}
+                    onChange={(policy) => setPolicy(serverName, null, policy)}
+                    inheritLabel="Always ask (default)"
+                  />
+                </div>
+                {isExpanded && (
+                  <ul className="mt-2 ml-5 space-y-1.5">
+                    {toolNames.map((toolName) => (
+                      <li key={toolName} className="flex items-center justify-between gap-2">
+                        <span className="text-xs text-bolt-elements-textSecondary truncate">{toolName}</span>
+                        <PolicySelect
+                          value={policies.tools[serverName]?.[toolName]}
+                          onChange={(policy) => setPolicy(serverName, toolName, policy)}
+                          inheritLabel="Server policy"
+                        />
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      <section aria-labelledby="argument-rules-heading">
+        <h2 id="argument-rules-heading" className="text-base font-medium text-bolt-elements-textPrimary mb-1">
+          Argument Rules
+        </h2>
+        <p className="text-xs text-bolt-elements-textSecondary mb-3">
+          Allow or deny calls whose argument matches a regular expression, e.g. allow read-only SQL with the argument{' '}
+          <code>sql</code> and the pattern <code>^\s*(select|with|explain)\b</code>.
+        </p>
+
+        {policies.argumentRules.length > 0 && (
+          <ul className="space-y-1.5 mb-3">
+            {policies.argumentRules.map((rule) => (
+              <li
+                key={rule.id}
+                className="flex items-center justify-between gap-2 rounded-lg bg-bolt-elements-background-depth-2 px-3 py-2 text-xs"
+              >
+                <span className="text-bolt-elements-textPrimary font-mono truncate">
+                  <span className={rule.action === 'deny' ? 'text-red-500' : 'text-green-500'}>{rule.action}</span>{' '}
+                  {rule.serverName}/{rule.toolName || '*'} {rule.argument} ~ /{rule.pattern}/{rule.flags}
+                </span>
+                <button
+                  onClick={() => removeRule(rule.id)}
+                  title="Remove rule"
+                  className="bg-transparent text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+                >
+                  <div className="i-ph:trash" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={newRule.action}
+            onChange={(e) => setNewRule({ ...newRule, action: e.target.value as ToolArgumentRule['action'] })}
+            className={inputClassName}
+          >
+            <option value="allow">Allow</option>
+            <option value="deny">Deny</option>
+          </select>
+          <select
+            value={newRule.serverName}
+            onChange={(e) => setNewRule({ ...newRule, serverName: e.target.value })}
+            className={inputClassName}
+          >
+            <option value="">Server</option>
+            {serverNames.map((serverName) => (
+              <option key={serverName} value={serverName}>
+                {serverName}
+              </option>
+            ))}
+          </select>
+          <input
+            placeholder="Tool (all if empty)"
+            value={newRule.toolName}
+            onChange={(e) => setNewRule({ ...newRule, toolName: e.target.value })}
+            className={classNames(inputClassName, 'w-32')}
+          />
+          <input
+            placeholder="Argument"
+            value={newRule.argument}
+            onChange={(e) => setNewRule({ ...newRule, argument: e.target.value })}
+            className={classNames(inputClassName, 'w-24')}
+          />
+          <input
+            placeholder="Pattern"
+            value={newRule.pattern}
+            onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+            className={classNames(inputClassName, 'flex-1 min-w-32 font-mono')}
+          />
+          <input
+            placeholder="Flags"
+            value={newRule.flags}
+            onChange={(e) => setNewRule({ ...newRule, flags: e.target.value })}
+            className={classNames(inputClassName, 'w-14 font-mono')}
+          />
+          <button
+            onClick={addRule}
+            disabled={!newRule.serverName || !newRule.argument || !newRule.pattern}
+            className={buttonClassName}
+          >
+            <div className="i-ph:plus w-3 h-3" />
+            Add rule
+          </button>
+        </div>
+      </section>
+
+      <section aria-labelledby="audit-log-heading">
+        <div className="flex justify-between items-center mb-3">
+          <h2 id="audit-log-heading" className="text-base font-medium text-bolt-elements-textPrimary">
+            Tool Audit Log
+          </h2>
+          <div className="flex gap-2">
+            <button onClick={exportAuditLog} disabled={auditLog.length === 0} className={buttonClassName}>
+              <div className="i-ph:download-simple w-3 h-3" />
+              Export JSON
+            </button>
+            <button onClick={clearAuditLog} disabled={auditLog.length === 0} className={buttonClassName}>
+              <div className="i-ph:trash w-3 h-3" />
+              Clear
+            </button>
+          </div>
+        </div>
+
+        {auditLog.length === 0 ? (
+          <p className="text-xs text-bolt-elements-textSecondary">No tool calls recorded yet.</p>
+        ) : (
+          <ul className="space-y-1 max-h-64 overflow-y-auto">
+            {auditLog
+              .slice()
+              .reverse()
+              .map((entry) => (
+                <li
+                  key={entry.toolCallId}
+                  className="flex items-center gap-2 rounded-lg bg-bolt-elements-background-depth-2 px-3 py-1.5 text-xs"
+                >
+                  <div
+                    className={
+                      entry.decision === 'approved'
+                        ? 'i-ph:check text-bolt-elements-icon-success'
+                        : 'i-ph:x text-bolt-elements-icon-error'
+                    }
+                  />
+                  <span className="text-bolt-elements-textPrimary font-mono truncate">
+                    {entry.serverName}/{entry.toolName}
+                  </span>
+                  <span className="text-bolt-elements-textTertiary">{entry.decidedBy}</span>
+                  <span className="ml-auto text-bolt-elements-textTertiary shrink-0">
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+          </ul>
+        )}
+      </section>
+    </>
+  );
+}
@@ -15,13 +15,29 @@ import {
   isCheckingConfig,
   addZoomApp,
   removeZoomApp,
+  updatingZoomAppId,
+  syncZoomAppFromMarketplace,
+  pushZoomAppScopes,
+  updateZoomAppOAuthSettings,
+  regenerateZoomAppSecret,
+  deleteZoomAppFromMarketplace,
+  zoomAppDrift,
+  checkZoomAppManifestDrift,
+  reconcileZoomAppManifestDrift,
   type ZoomApp,
 } from '~/lib/stores/zoom';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { WORK_DIR } from '~/utils/constants';
+import type { ReconcileDirection } from '~/lib/services/zoom-manifest-drift';
 import { ZoomConnection } from './components/ZoomConnection';
 import { ZoomAppCard } from './components/ZoomAppCard';
 import { ZoomStats } from './components/ZoomStats';
 import { ZoomCredentialsModal } from './components/ZoomCredentialsModal';
 import { WebhookEventLog } from './components/WebhookEventLog';
+import { WebhookFixtureLibrary } from './components/WebhookFixtureLibrary';
+import { ProjectTokenList } from './components/ProjectTokenList';
+import { ScopeAnalysisPanel } from './components/ScopeAnalysisPanel';
+import { MockApiPanel } from './components/MockApiPanel';
 import type { ZoomAppCredentials } from '~/types/zoom';
 
 // API response type
@@ -39,6 +55,38 @@ interface ZoomAppCreateResponse {
   error?: string;
 }
 
+const PROJECT_MANIFEST_PATH = `${WORK_DIR}/public/manifest.json`;
+
+/**
+ * Read the current project's public/manifest.json from the workbench
+ */
+function readProjectManifest(): string | null {
+  const file = workbenchStore.files.get()[PROJECT_MANIFEST_PATH];
+
+  return file && file.type === 'file' && !file.isBinary ? file.content : null;
+}
+
+/**
+ * Read the OAuth scopes from the current project's public/manifest.json
+ * This is where the LLM records the scopes the generated app needs.
+ */
+function readProjectManifestScopes(): string[] | null {
+  const content = readProjectManifest();
+
+  if (!content) {
+    return null;
+  }
+
+  try {
+    const manifest = JSON.parse(content) as { oauth?: { scopes?: unknown } };
+    const scopes = manifest.oauth?.scopes;
+
+    return Array.isArray(scopes) ? scopes.filter((scope): scope is string => typeof scope === 'string') : null;
+  } catch {
+    return null;
+  }
+}
+
 // Zoom logo SVG component
 const ZoomLogo = () => (
   <svg viewBox="0 0 24 24" className="w-5 h-5">
@@ -53,9 +101,15 @@ export default function ZoomTab() {
   const connection = useStore(zoomConnection);
   const fetchingStats = useStore(isFetchingStats);
   const checkingConfig = useStore(isCheckingConfig);
+  const updatingAppId = useStore(updatingZoomAppId);
+  const driftReports = useStore(zoomAppDrift);
   const [isStatsOpen, setIsStatsOpen] = useState(true);
   const [isAppsExpanded, setIsAppsExpanded] = useState(true);
   const [isWebhooksExpanded, setIsWebhooksExpanded] = useState(false);
+  const [isFixturesExpanded, setIsFixturesExpanded] = useState(false);
+  const [isTokensExpanded, setIsTokensExpanded] = useState(false);
+  const [isScopesExpanded, setIsScopesExpanded] = useState(false);
+  const [isMockExpanded, setIsMockExpanded] = useState(false);
   const [selectedApp, setSelectedApp] = useState<ZoomApp | null>(null);
   const [showCredentialsModal, setShowCredentialsModal] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
@@ -131,6 +185,85 @@ export default function ZoomTab() {
     }
   };
 
+  const handleSyncScopes = async (app: ZoomApp) => {
+    const scopes = readProjectManifestScopes();
+
+    if (!scopes || scopes.length === 0) {
+      toast.error('No scopes found in public/manifest.json of the current project');
+      return;
+    }
+
+    const added = scopes.filter((scope) => !app.scopes.includes(scope));
+    const removed = app.scopes.filter((scope) => !scopes.includes(scope));
+
+    if (added.length === 0 && removed.length === 0) {
+      toast.info('Marketplace scopes already match the project manifest');
+      return;
+    }
+
+    const summary = [
+      added.length > 0 ? `Add: ${added.join(', ')}` : '',
+      removed.length > 0 ? `Remove: ${removed.join(', ')}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    if (confirm(`Update scopes of "${app.appName}" in Zoom Marketplace?\n\n${summary}`)) {
+      await pushZoomAppScopes(app.appId, scopes);
+    }
+  };
+
+  const handleCheckDrift = async (app: ZoomApp) => {
+    await checkZoomAppManifestDrift(app.appId, readProjectManifest() || undefined);
+  };
+
+  const handleReconcileDrift = async (app: ZoomApp, direction: ReconcileDirection) => {
+    const manifestJson = readProjectManifest();
+
+    if (!manifestJson) {
+      toast.error('No public/manifest.json in the current project');
+      return;
+    }
+
+    const message =
+      direction === 'file-to-marketplace'
+        ? `Overwrite the Marketplace settings of "${app.appName}" with public/manifest.json?`
+        : `Overwrite public/manifest.json with the Marketplace settings of "${app.appName}"?`;
+
+    if (!confirm(message)) {
+      return;
+    }
+
+    const updatedManifest = await reconcileZoomAppManifestDrift(app.appId, manifestJson, direction);
+
+    if (updatedManifest === null) {
+      return;
+    }
+
+    if (direction === 'marketplace-to-file' && updatedManifest) {
+      await workbenchStore.createFile(PROJECT_MANIFEST_PATH, updatedManifest);
+      toast.success('public/manifest.json updated from Marketplace');
+    } else {
+      toast.success('Marketplace updated from public/manifest.json');
+    }
+  };
+
+  const handleRegenerateSecret = async (app: ZoomApp) => {
+    if (
+      confirm(
+        `Regenerate the client secret of "${app.appName}"? The current secret stops working immediately. The OAuth proxy is updated automatically.`,
+      )
+    ) {
+      await regenerateZoomAppSecret(app.appId);
+    }
+  };
+
+  const handleDeleteFromMarketplace = async (app: ZoomApp) => {
+    if (confirm(`Permanently delete "${app.appName}" from Zoom Marketplace? This cannot be undone.`)) {
+      await deleteZoomAppFromMarketplace(app.appId);
+    }
+  };
+
   const handleOpenMarketplace = (app: ZoomApp) => {
     window.open(`https://marketplace.zoom.us/develop/apps/${app.appId}`, '_blank');
   };
@@ -299,6 +432,15 @@ export default function ZoomTab() {
                     onViewCredentials={() => handleViewCredentials(app)}
                     onDelete={() => handleDeleteApp(app.appId)}
                     onOpenMarketplace={() => handleOpenMarketplace(app)}
+                    isUpdating={updatingAppId === app.appId}
+                    onRefresh={() => syncZoomAppFromMarketplace(app.appId)}
+                    onSyncScopes={() => handleSyncScopes(app)}
+                    onUpdateOAuth={(settings) => updateZoomAppOAuthSettings(app.appId, settings)}
+                    onRegenerateSecret={() => handleRegenerateSecret(app)}
+                    onDeleteFromMarketplace={() => handleDeleteFromMarketplace(app)}
+                    driftReport={driftReports[app.appId]}
+                    onCheckDrift={() => handleCheckDrift(app)}
+                    onReconcileDrift={(direction) => handleReconcileDrift(app, direction)}
                   />
                 ))}
               </div>
@@ -339,6 +481,109 @@ export default function ZoomTab() {
         </motion.div>
       )}
 
+      {/* Webhook Fixtures */}
+      {connection.isConfigured && (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.5 }}>
+          <Collapsible open={isFixturesExpanded} onOpenChange={setIsFixturesExpanded}>
+            <CollapsibleTrigger asChild>
+              <div className="flex items-center justify-between p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor hover:border-bolt-elements-borderColorActive/70 transition-all duration-200 cursor-pointer">
+                <div className="flex items-center gap-2">
+                  <div className="i-ph:flask w-4 h-4 text-bolt-elements-item-contentAccent" />
+                  <span className="text-sm font-medium text-bolt-elements-textPrimary">Webhook Fixtures & Replay</span>
+                  {connection.webhookFixtures.length > 0 && (
+                    <Badge variant="outline" className="ml-2">
+                      {connection.webhookFixtures.length}
+                    </Badge>
+                  )}
+                </div>
+                <div
+                  className={classNames(
+                    'i-ph:caret-down w-4 h-4 transform transition-transform duration-200 text-bolt-elements-textSecondary',
+                    isFixturesExpanded ? 'rotate-180' : '',
+                  )}
+                />
+              </div>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="overflow-hidden">
+              <div className="mt-4">
+                <WebhookFixtureLibrary />
+              </div>
+            </CollapsibleContent>
+          </Collapsible>
+        </motion.div>
+      )}
+
+      {/* OAuth Tokens */}
+      {connection.isConfigured && (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.6 }}>
+          <Collapsible open={isTokensExpanded} onOpenChange={setIsTokensExpanded}>
+            <CollapsibleTrigger asChild>
+              <div className="flex items-center justify-between p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor hover:border-bolt-elements-borderColorActive/70 transition-all duration-200 cursor-pointer">
+                <div className="flex items-center gap-2">
+                  <div className="i-ph:key w-4 h-4 text-bolt-elements-item-contentAccent" />
+                  <span className="text-sm font-medium text-bolt-elements-textPrimary">OAuth Tokens</span>
+                </div>
+                <div
+                  className={classNames(
+                    'i-ph:caret-down w-4 h-4 transform transition-transform duration-200 text-bolt-elements-textSecondary',
+                    isTokensExpanded ? 'rotate-180' : '',
+                  )}
+                />
+              </div>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="overflow-hidden">
+              <div className="mt-4">{isTokensExpanded && <ProjectTokenList />}</div>
+            </CollapsibleContent>
+          </Collapsible>
+        </motion.div>
+      )}
+
+      {/* Scope Analysis */}
+      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.7 }}>
+        <Collapsible open={isScopesExpanded} onOpenChange={setIsScopesExpanded}>
+          <CollapsibleTrigger asChild>
+            <div className="flex items-center justify-between p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor hover:border-bolt-elements-borderColorActive/70 transition-all duration-200 cursor-pointer">
+              <div className="flex items-center gap-2">
+                <div className="i-ph:shield-check w-4 h-4 text-bolt-elements-item-contentAccent" />
+                <span className="text-sm font-medium text-bolt-elements-textPrimary">Scope Analysis</span>
+              </div>
+              <div
+                className={classNames(
+                  'i-ph:caret-down w-4 h-4 transform transition-transform duration-200 text-bolt-elements-textSecondary',
+                  isScopesExpanded ? 'rotate-180' : '',
+                )}
+              />
+            </div>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="overflow-hidden">
+            <div className="mt-4">{isScopesExpanded && <ScopeAnalysisPanel />}</div>
+          </CollapsibleContent>
+        </Collapsible>
+      </motion.div>
+
+      {/* Mock Zoom API */}
+      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.8 }}>
+        <Collapsible open={isMockExpanded} onOpenChange={setIsMockExpanded}>
+          <CollapsibleTrigger asChild>
+            <div className="flex items-center justify-between p-4 rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor hover:border-bolt-elements-borderColorActive/70 transition-all duration-200 cursor-pointer">
+              <div className="flex items-center gap-2">
+                <div className="i-ph:plugs-connected w-4 h-4 text-bolt-elements-item-contentAccent" />
+                <span className="text-sm font-medium text-bolt-elements-textPrimary">Mock Zoom API</span>
+              </div>
+              <div
+                className={classNames(
+                  'i-ph:caret-down w-4 h-4 transform transition-transform duration-200 text-bolt-elements-textSecondary',
+                  isMockExpanded ? 'rotate-180' : '',
+                )}
+              />
+            </div>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="overflow-hidden">
+            <div className="mt-4">{isMockExpanded && <MockApiPanel />}</div>
+          </CollapsibleContent>
+        </Collapsible>
+      </motion.div>
+
       {/* Last Updated */}
       {connection.lastRefreshed && (
         <div className="text-xs text-bolt-elements-textSecondary text-center">
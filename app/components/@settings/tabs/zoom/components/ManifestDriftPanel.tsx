@@ -0,0 +1,131 @@
+import React from 'react';
+import { classNames } from '~/utils/classNames';
+import { Button } from '~/components/ui/Button';
+import { Badge } from '~/components/ui/Badge';
+import { formatDistanceToNow } from 'date-fns';
+import type { DriftField, ManifestDriftReport, ReconcileDirection } from '~/lib/services/zoom-manifest-drift';
+
+interface ManifestDriftPanelProps {
+  report?: ManifestDriftReport;
+  isUpdating?: boolean;
+  onCheck: () => void;
+  onReconcile: (direction: ReconcileDirection) => void;
+}
+
+const FIELD_LABELS: Record<DriftField, string> = {
+  scopes: 'Scopes',
+  redirectUrls: 'Redirect URLs',
+  allowList: 'Allow list',
+  eventTypes: 'Event subscriptions',
+};
+
+function ValueList({ values, className }: { values: string[]; className: string }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {values.map((value) => (
+        <span key={value} className={classNames('px-1.5 py-0.5 text-xs rounded border font-mono', className)}>
+          {value}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export function ManifestDriftPanel({ report, isUpdating = false, onCheck, onReconcile }: ManifestDriftPanelProps) {
+  const hasFile = report?.sources.includes('file') ?? false;
+  const driftedFields = report?.fields.filter((field) => !field.inSync) || [];
+
+  return (
+    <div className="mb-4" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <div className="text-xs font-medium text-bolt-elements-textPrimary">Manifest Drift</div>
+          {report &&
+            (report.hasDrift ? (
+              <Badge variant="outline" className="text-xs text-yellow-500 border-yellow-500/30">
+                {driftedFields.length} out of sync
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="text-xs text-green-500 border-green-500/30">
+                in sync
+              </Badge>
+            ))}
+        </div>
+        <button
+          onClick={onCheck}
+          disabled={isUpdating}
+          className="text-xs text-bolt-elements-item-contentAccent hover:underline disabled:opacity-50"
+        >
+          {report ? 'Re-check' : 'Check'}
+        </button>
+      </div>
+
+      {!report && (
+        <div className="text-xs text-bolt-elements-textSecondary">
+          Compare public/manifest.json with the app registered in Zoom Marketplace.
+        </div>
+      )}
+
+      {report && (
+        <div className="space-y-2">
+          <div className="text-xs text-bolt-elements-textTertiary">
+            Compared {report.sources.join(', ')} · {formatDistanceToNow(new Date(report.checkedAt))} ago
+            {!hasFile && ' · no public/manifest.json in the current project'}
+          </div>
+
+          {driftedFields.map((field) => (
+            <div
+              key={field.field}
+              className="p-2 rounded bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor space-y-1"
+            >
+              <div className="text-xs font-medium text-bolt-elements-textPrimary">{FIELD_LABELS[field.field]}</div>
+              {field.missingInMarketplace.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-xs text-bolt-elements-textSecondary">Only in manifest.json:</div>
+                  <ValueList
+                    values={field.missingInMarketplace}
+                    className="text-green-500 border-green-500/30 bg-green-500/5"
+                  />
+                </div>
+              )}
+              {field.missingInFile.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-xs text-bolt-elements-textSecondary">Only in Marketplace:</div>
+                  <ValueList values={field.missingInFile} className="text-red-500 border-red-500/30 bg-red-500/5" />
+                </div>
+              )}
+              {field.changedOutsideRegistry && (
+                <div className="text-xs text-yellow-500">Changed in Marketplace outside bolt.diy since last sync</div>
+              )}
+            </div>
+          ))}
+
+          {report.hasDrift && hasFile && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onReconcile('file-to-marketplace')}
+                disabled={isUpdating}
+                className="flex items-center gap-1"
+              >
+                <div className="i-ph:upload-simple w-4 h-4" />
+                Apply file to Marketplace
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onReconcile('marketplace-to-file')}
+                disabled={isUpdating}
+                className="flex items-center gap-1"
+              >
+                <div className="i-ph:download-simple w-4 h-4" />
+                Update file from Marketplace
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
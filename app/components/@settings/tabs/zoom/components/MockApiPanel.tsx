@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { Button } from '~/components/ui/Button';
+import { Badge } from '~/components/ui/Badge';
+import { useZoomMockApi, ZOOM_API_BASE_URL_ENV, ZOOM_MOCK_TOKEN_ENV } from '~/lib/hooks/useZoomMockApi';
+
+export function MockApiPanel() {
+  const { isConfiguring, isEnabled, enable, disable } = useZoomMockApi();
+  const [enabled, setEnabled] = useState(isEnabled);
+
+  const handleEnable = async () => {
+    if (await enable()) {
+      setEnabled(true);
+      toast.success('Preview now uses the mock Zoom API. Restart the dev server if it does not pick up .env.local.');
+    }
+  };
+
+  const handleDisable = async () => {
+    await disable();
+    setEnabled(false);
+    toast.success('Preview now uses the real Zoom API');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-xs text-bolt-elements-textSecondary">
+          Serves every Zoom REST endpoint with example responses, validates requests and enforces the scopes in
+          public/manifest.json. No network or Zoom account needed.
+        </p>
+        {enabled ? (
+          <Button variant="outline" size="sm" onClick={handleDisable} className="flex items-center gap-1 shrink-0">
+            <div className="i-ph:plugs w-4 h-4" />
+            Use Real API
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleEnable}
+            disabled={isConfiguring}
+            className="flex items-center gap-1 shrink-0"
+          >
+            <div className={classNames('i-ph:plugs-connected w-4 h-4', isConfiguring ? 'animate-pulse' : '')} />
+            {isConfiguring ? 'Configuring...' : 'Use Mock API'}
+          </Button>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 text-xs text-bolt-elements-textTertiary">
+        {enabled ? (
+          <Badge variant="outline" className="text-xs text-green-500 border-green-500/30">
+            mock enabled
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="text-xs">
+            mock disabled
+          </Badge>
+        )}
+        <span>
+          Sets <code className="font-mono">{ZOOM_API_BASE_URL_ENV}</code> and{' '}
+          <code className="font-mono">{ZOOM_MOCK_TOKEN_ENV}</code> in .env.local
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { Button } from '~/components/ui/Button';
+import { Badge } from '~/components/ui/Badge';
+import { formatDistanceToNow } from 'date-fns';
+
+// Project entry returned by GET /api/oauth/projects
+interface OAuthProjectSummary {
+  projectId: string;
+  appId: string;
+  appName: string;
+  clientId: string;
+  createdAt: string;
+  hasTokens: boolean;
+  hasRefreshToken: boolean;
+  accessTokenExpiresAt: string | null;
+  lastRefreshedAt: string | null;
+  refreshCount: number;
+}
+
+interface OAuthProjectsResponse {
+  success: boolean;
+  projects?: OAuthProjectSummary[];
+  error?: string;
+}
+
+interface TokenRefreshResponse {
+  success: boolean;
+  error?: string;
+  hint?: string;
+}
+
+function ExpiryBadge({ project }: { project: OAuthProjectSummary }) {
+  if (!project.accessTokenExpiresAt) {
+    return (
+      <Badge variant="outline" className="text-xs">
+        awaiting authorization
+      </Badge>
+    );
+  }
+
+  const expiresAt = new Date(project.accessTokenExpiresAt);
+
+  if (expiresAt.getTime() <= Date.now()) {
+    return (
+      <Badge variant="outline" className="text-xs text-red-500 border-red-500/30">
+        expired {formatDistanceToNow(expiresAt)} ago
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className="text-xs text-green-500 border-green-500/30">
+      expires in {formatDistanceToNow(expiresAt)}
+    </Badge>
+  );
+}
+
+interface ProjectItemProps {
+  project: OAuthProjectSummary;
+  onRefreshed: () => void;
+}
+
+function ProjectItem({ project, onRefreshed }: ProjectItemProps) {
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+
+    try {
+      const response = await fetch(`/api/oauth/tokens/${project.projectId}/refresh`, { method: 'POST' });
+      const data = (await response.json()) as TokenRefreshResponse;
+
+      if (!data.success) {
+        toast.error(data.hint ? `${data.error}. ${data.hint}` : data.error || 'Token refresh failed');
+        return;
+      }
+
+      toast.success(`Refreshed tokens for ${project.appName}`);
+      onRefreshed();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Token refresh failed');
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-1">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-bolt-elements-textPrimary truncate">{project.appName}</div>
+          <div className="flex flex-wrap items-center gap-2 mt-1">
+            <ExpiryBadge project={project} />
+            {project.hasTokens && (
+              <Badge variant="default" className="text-xs">
+                pending pickup
+              </Badge>
+            )}
+            <span className="text-xs text-bolt-elements-textSecondary">
+              {project.lastRefreshedAt
+                ? `refreshed ${formatDistanceToNow(new Date(project.lastRefreshedAt))} ago (${project.refreshCount}x)`
+                : 'never refreshed'}
+            </span>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleRefresh}
+          disabled={isRefreshing || !project.hasRefreshToken}
+          title={project.hasRefreshToken ? 'Refresh access token' : 'No refresh token stored yet'}
+          className="flex items-center gap-1 shrink-0"
+        >
+          <div
+            className={classNames('w-4 h-4', isRefreshing ? 'i-ph:spinner-gap animate-spin' : 'i-ph:arrows-clockwise')}
+          />
+          Refresh
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ProjectTokenList() {
+  const [projects, setProjects] = useState<OAuthProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadProjects = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/oauth/projects');
+      const data = (await response.json()) as OAuthProjectsResponse;
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load OAuth projects');
+      }
+
+      setProjects(data.projects || []);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load OAuth projects');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProjects();
+  }, [loadProjects]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-bolt-elements-textSecondary">
+          Access tokens expire after an hour. Apps renew them via POST /api/oauth/tokens/&#123;projectId&#125;/refresh.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={loadProjects}
+          disabled={isLoading}
+          className="flex items-center gap-1 shrink-0"
+        >
+          <div
+            className={classNames('w-4 h-4', isLoading ? 'i-ph:spinner-gap animate-spin' : 'i-ph:arrows-clockwise')}
+          />
+          Reload
+        </Button>
+      </div>
+
+      {projects.length === 0 ? (
+        <div className="text-center py-8 text-bolt-elements-textSecondary">
+          <div className="i-ph:key w-12 h-12 mx-auto mb-3 opacity-50" />
+          <p className="text-sm">No OAuth projects registered</p>
+          <p className="text-xs mt-1">Projects appear here once a Zoom App is created for a preview</p>
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {projects.map((project) => (
+            <ProjectItem key={project.projectId} project={project} onRefreshed={loadProjects} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import React from 'react';
+import { classNames } from '~/utils/classNames';
+import { Button } from '~/components/ui/Button';
+import { Badge } from '~/components/ui/Badge';
+import { formatDistanceToNow } from 'date-fns';
+import { useZoomScopeAnalysis } from '~/lib/hooks/useZoomScopeAnalysis';
+
+function ScopeList({ label, scopes, className }: { label: string; scopes: string[]; className: string }) {
+  if (scopes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-bolt-elements-textSecondary">{label}</div>
+      <div className="flex flex-wrap gap-1">
+        {scopes.map((scope) => (
+          <span key={scope} className={classNames('px-1.5 py-0.5 text-xs rounded border font-mono', className)}>
+            {scope}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ScopeAnalysisPanel() {
+  const { report, isAnalyzing, isZoomProject, analyze } = useZoomScopeAnalysis();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-bolt-elements-textSecondary">
+          Scans the current project for Zoom REST calls and Zoom Apps SDK usage and compares them with
+          public/manifest.json.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={analyze}
+          disabled={isAnalyzing || !isZoomProject()}
+          className="flex items-center gap-1 shrink-0"
+        >
+          <div className={classNames('i-ph:magnifying-glass w-4 h-4', isAnalyzing ? 'animate-pulse' : '')} />
+          {isAnalyzing ? 'Analyzing...' : 'Analyze'}
+        </Button>
+      </div>
+
+      {!isZoomProject() && (
+        <div className="text-xs text-bolt-elements-textTertiary">The current project has no public/manifest.json.</div>
+      )}
+
+      {report && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-xs text-bolt-elements-textTertiary">
+            {report.hasIssues ? (
+              <Badge variant="outline" className="text-xs text-red-500 border-red-500/30">
+                issues found
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="text-xs text-green-500 border-green-500/30">
+                no issues
+              </Badge>
+            )}
+            <span>
+              {report.endpoints.length} endpoints · analyzed {formatDistanceToNow(new Date(report.analyzedAt))} ago
+            </span>
+          </div>
+
+          <ScopeList
+            label="Missing scopes (add to manifest.json):"
+            scopes={report.missingScopes}
+            className="text-red-500 border-red-500/30 bg-red-500/5"
+          />
+          <ScopeList
+            label="Possibly unused scopes:"
+            scopes={report.unusedScopes}
+            className="text-yellow-500 border-yellow-500/30 bg-yellow-500/5"
+          />
+          <ScopeList
+            label="Capabilities used but missing from zoomSdk.config():"
+            scopes={report.capabilities.missing}
+            className="text-red-500 border-red-500/30 bg-red-500/5"
+          />
+          <ScopeList
+            label="Capabilities declared but not used:"
+            scopes={report.capabilities.unused}
+            className="text-yellow-500 border-yellow-500/30 bg-yellow-500/5"
+          />
+
+          {report.endpoints.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs text-bolt-elements-textSecondary">Endpoints</div>
+              {report.endpoints.map((endpoint) => (
+                <div
+                  key={`${endpoint.method} ${endpoint.path}`}
+                  className="flex items-center justify-between gap-2 p-2 rounded bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-mono text-bolt-elements-textPrimary truncate">
+                        {endpoint.method} {endpoint.path}
+                      </span>
+                      {endpoint.deprecated && (
+                        <Badge variant="outline" className="text-xs text-yellow-500 border-yellow-500/30 shrink-0">
+                          deprecated
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-bolt-elements-textTertiary truncate">
+                      {endpoint.sites.map((site) => `${site.file}:${site.line}`).join(', ')}
+                    </div>
+                  </div>
+                  <div
+                    className={classNames(
+                      'w-4 h-4 shrink-0',
+                      endpoint.satisfied ? 'i-ph:check-circle text-green-500' : 'i-ph:x-circle text-red-500',
+                    )}
+                    title={endpoint.scopes.join(', ') || 'No scopes required'}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {report.unresolvedCalls.length > 0 && (
+            <div className="text-xs text-bolt-elements-textTertiary">
+              Could not match {report.unresolvedCalls.length} call(s) to a Zoom API endpoint:{' '}
+              {report.unresolvedCalls.map((call) => `${call.method} ${call.path}`).join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,8 @@ import { classNames } from '~/utils/classNames';
 import { Button } from '~/components/ui/Button';
 import { Badge } from '~/components/ui/Badge';
 import { formatDistanceToNow } from 'date-fns';
-import { zoomConnection, clearWebhookEvents, type ZoomWebhookEvent } from '~/lib/stores/zoom';
+import { toast } from 'react-toastify';
+import { zoomConnection, clearWebhookEvents, saveEventAsFixture, type ZoomWebhookEvent } from '~/lib/stores/zoom';
 
 const getEventTypeConfig = (eventType: string) => {
   if (eventType.includes('started')) {
@@ -67,7 +68,22 @@ function EventItem({ event, onExpand, isExpanded }: EventItemProps) {
 
       {isExpanded && (
         <div className="mt-3 pt-3 border-t border-bolt-elements-borderColor">
-          <div className="text-xs font-medium text-bolt-elements-textSecondary mb-2">Payload</div>
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-xs font-medium text-bolt-elements-textSecondary">Payload</div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation();
+                saveEventAsFixture(event);
+                toast.success('Event saved as fixture');
+              }}
+              className="flex items-center gap-1"
+            >
+              <div className="i-ph:floppy-disk w-4 h-4" />
+              Save as Fixture
+            </Button>
+          </div>
           <pre
             className={classNames(
               'text-xs p-2 rounded overflow-auto max-h-48',
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { classNames } from '~/utils/classNames';
+import { Button } from '~/components/ui/Button';
+import { Badge } from '~/components/ui/Badge';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  zoomConnection,
+  addWebhookFixture,
+  updateWebhookFixture,
+  removeWebhookFixture,
+  replayWebhookFixture,
+  type ZoomWebhookFixture,
+} from '~/lib/stores/zoom';
+import { ZOOM_WEBHOOK_EVENTS } from '~/lib/services/zoom-marketplace';
+import { buildSyntheticZoomEvent, type ZoomWebhookEventType } from '~/lib/services/zoom-webhook-samples';
+
+const inputClassName = classNames(
+  'px-3 py-1.5 rounded-lg text-sm',
+  'bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-1 focus:ring-bolt-elements-borderColorActive',
+);
+
+interface FixtureEditorProps {
+  fixture: ZoomWebhookFixture;
+  onClose: () => void;
+}
+
+function FixtureEditor({ fixture, onClose }: FixtureEditorProps) {
+  const [name, setName] = useState(fixture.name);
+  const [headers, setHeaders] = useState(JSON.stringify(fixture.headers, null, 2));
+  const [body, setBody] = useState(fixture.body);
+
+  const handleSave = () => {
+    let parsedHeaders: Record<string, string>;
+
+    try {
+      parsedHeaders = JSON.parse(headers);
+    } catch {
+      toast.error('Headers must be a valid JSON object');
+      return;
+    }
+
+    // Keep eventType in sync with the body when it is a Zoom event
+    let eventType = fixture.eventType;
+
+    try {
+      eventType = JSON.parse(body).event || eventType;
+    } catch {
+      // Non-JSON bodies are allowed; keep the existing event type
+    }
+
+    updateWebhookFixture(fixture.id, { name: name.trim() || fixture.name, headers: parsedHeaders, body, eventType });
+    toast.success('Fixture saved');
+    onClose();
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-bolt-elements-borderColor space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div>
+        <div className="text-xs font-medium text-bolt-elements-textSecondary mb-1">Name</div>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={`${inputClassName} w-full`}
+        />
+      </div>
+      <div>
+        <div className="text-xs font-medium text-bolt-elements-textSecondary mb-1">Headers (JSON)</div>
+        <textarea
+          value={headers}
+          onChange={(e) => setHeaders(e.target.value)}
+          rows={4}
+          className={`${inputClassName} w-full font-mono text-xs`}
+        />
+      </div>
+      <div>
+        <div className="text-xs font-medium text-bolt-elements-textSecondary mb-1">Body</div>
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={10}
+          className={`${inputClassName} w-full font-mono text-xs`}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="default" size="sm" onClick={handleSave}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface FixtureItemProps {
+  fixture: ZoomWebhookFixture;
+  sessionId: string;
+  secretToken: string;
+}
+
+function FixtureItem({ fixture, sessionId, secretToken }: FixtureItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+
+  const handleReplay = async () => {
+    if (!sessionId.trim()) {
+      toast.error('Enter a webhook session ID to replay into');
+      return;
+    }
+
+    setIsReplaying(true);
+    await replayWebhookFixture(fixture, sessionId.trim(), secretToken.trim() || undefined);
+    setIsReplaying(false);
+  };
+
+  const handleDelete = () => {
+    if (confirm(`Delete fixture "${fixture.name}"?`)) {
+      removeWebhookFixture(fixture.id);
+    }
+  };
+
+  return (
+    <div
+      className={classNames(
+        'p-3 rounded-lg border transition-all',
+        'bg-bolt-elements-background-depth-1',
+        isEditing ? 'border-bolt-elements-item-contentAccent' : 'border-bolt-elements-borderColor',
+      )}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <div className="text-sm font-medium text-bolt-elements-textPrimary truncate">{fixture.name}</div>
+          <div className="flex items-center gap-2 mt-1">
+            <Badge variant="outline" className="text-xs">
+              {fixture.eventType}
+            </Badge>
+            <Badge variant={fixture.source === 'recorded' ? 'default' : 'outline'} className="text-xs">
+              {fixture.source}
+            </Badge>
+            <span className="text-xs text-bolt-elements-textSecondary">
+              updated {formatDistanceToNow(new Date(fixture.updatedAt))} ago
+            </span>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleReplay}
+            disabled={isReplaying}
+            className="flex items-center gap-1"
+          >
+            <div className={classNames('w-4 h-4', isReplaying ? 'i-ph:spinner-gap animate-spin' : 'i-ph:play')} />
+            Replay
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setIsEditing(!isEditing)} title="Edit fixture">
+            <div className="i-ph:pencil-simple w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleDelete} title="Delete fixture">
+            <div className="i-ph:trash w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isEditing && <FixtureEditor fixture={fixture} onClose={() => setIsEditing(false)} />}
+    </div>
+  );
+}
+
+export function WebhookFixtureLibrary() {
+  const connection = useStore(zoomConnection);
+  const [sessionId, setSessionId] = useState(connection.webhookSessions[0]?.sessionId || '');
+  const [secretToken, setSecretToken] = useState('');
+  const [syntheticType, setSyntheticType] = useState<ZoomWebhookEventType>(ZOOM_WEBHOOK_EVENTS[0]);
+
+  const handleAddSynthetic = () => {
+    const request = buildSyntheticZoomEvent(syntheticType);
+
+    addWebhookFixture({
+      name: `Sample ${request.eventType}`,
+      eventType: request.eventType,
+      headers: request.headers,
+      body: request.body,
+      source: 'synthetic',
+    });
+    toast.success(`Added sample ${request.eventType} fixture`);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={sessionId}
+            onChange={(e) => setSessionId(e.target.value)}
+            placeholder="Webhook session ID"
+            list="zoom-webhook-sessions"
+            className={`${inputClassName} w-64`}
+          />
+          <datalist id="zoom-webhook-sessions">
+            {connection.webhookSessions.map((session) => (
+              <option key={session.sessionId} value={session.sessionId} />
+            ))}
+          </datalist>
+          <input
+            type="password"
+            value={secretToken}
+            onChange={(e) => setSecretToken(e.target.value)}
+            placeholder="Secret token (if set)"
+            autoComplete="off"
+            className={`${inputClassName} w-48`}
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={syntheticType}
+            onChange={(e) => setSyntheticType(e.target.value as ZoomWebhookEventType)}
+            className={inputClassName}
+          >
+            {ZOOM_WEBHOOK_EVENTS.map((eventType) => (
+              <option key={eventType} value={eventType}>
+                {eventType}
+              </option>
+            ))}
+          </select>
+          <Button variant="outline" size="sm" onClick={handleAddSynthetic} className="flex items-center gap-1">
+            <div className="i-ph:plus w-4 h-4" />
+            Add Sample
+          </Button>
+        </div>
+      </div>
+
+      {/* Fixtures List */}
+      {connection.webhookFixtures.length === 0 ? (
+        <div className="text-center py-8 text-bolt-elements-textSecondary">
+          <div className="i-ph:flask w-12 h-12 mx-auto mb-3 opacity-50" />
+          <p className="text-sm">No webhook fixtures saved yet</p>
+          <p className="text-xs mt-1">Save a received event from the event log, or add a sample event above</p>
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {connection.webhookFixtures.map((fixture) => (
+            <FixtureItem key={fixture.id} fixture={fixture} sessionId={sessionId} secretToken={secretToken} />
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-bolt-elements-textSecondary">
+        Replayed events are queued in the session like real webhooks, marked with an x-bolt-webhook-replay header and a
+        signatureStatus of "replayed". They are never signed. Replaying into a session with a secret token requires that
+        token (or the admin login).
+      </p>
+    </div>
+  );
+}
@@ -4,12 +4,23 @@ import { Badge } from '~/components/ui/Badge';
 import { Button } from '~/components/ui/Button';
 import { formatDistanceToNow } from 'date-fns';
 import type { ZoomApp, ZoomAppStatus } from '~/lib/stores/zoom';
+import type { ManifestDriftReport, ReconcileDirection } from '~/lib/services/zoom-manifest-drift';
+import { ManifestDriftPanel } from './ManifestDriftPanel';
 
 interface ZoomAppCardProps {
   app: ZoomApp;
+  isUpdating?: boolean;
+  driftReport?: ManifestDriftReport;
   onViewCredentials: () => void;
   onDelete: () => void;
   onOpenMarketplace: () => void;
+  onRefresh: () => void;
+  onSyncScopes: () => void;
+  onUpdateOAuth: (settings: { redirectUri?: string; allowList?: string[] }) => Promise<boolean>;
+  onRegenerateSecret: () => void;
+  onDeleteFromMarketplace: () => void;
+  onCheckDrift: () => void;
+  onReconcileDrift: (direction: ReconcileDirection) => void;
 }
 
 const getStatusConfig = (status: ZoomAppStatus) => {
@@ -53,10 +64,47 @@ const getStatusConfig = (status: ZoomAppStatus) => {
   }
 };
 
-export function ZoomAppCard({ app, onViewCredentials, onDelete, onOpenMarketplace }: ZoomAppCardProps) {
+export function ZoomAppCard({
+  app,
+  isUpdating = false,
+  driftReport,
+  onViewCredentials,
+  onDelete,
+  onOpenMarketplace,
+  onRefresh,
+  onSyncScopes,
+  onUpdateOAuth,
+  onRegenerateSecret,
+  onDeleteFromMarketplace,
+  onCheckDrift,
+  onReconcileDrift,
+}: ZoomAppCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isEditingOAuth, setIsEditingOAuth] = useState(false);
+  const [redirectUri, setRedirectUri] = useState('');
+  const [allowList, setAllowList] = useState('');
   const statusConfig = getStatusConfig(app.status);
 
+  const handleEditOAuth = () => {
+    setRedirectUri(app.redirectUri || '');
+    setAllowList((app.allowList || []).join('\n'));
+    setIsEditingOAuth(true);
+  };
+
+  const handleSaveOAuth = async () => {
+    const saved = await onUpdateOAuth({
+      redirectUri: redirectUri.trim() || undefined,
+      allowList: allowList
+        .split(/[\n,]/)
+        .map((url) => url.trim())
+        .filter(Boolean),
+    });
+
+    if (saved) {
+      setIsEditingOAuth(false);
+    }
+  };
+
   return (
     <div
       className={classNames(
@@ -76,10 +124,15 @@ export function ZoomAppCard({ app, onViewCredentials, onDelete, onOpenMarketplac
             <div className="text-xs text-bolt-elements-textSecondary">ID: {app.appId}</div>
           </div>
         </div>
-        <Badge variant={statusConfig.variant} className="flex items-center gap-1">
-          <div className={classNames(statusConfig.icon, 'w-3 h-3', statusConfig.color)} />
-          {statusConfig.label}
-        </Badge>
+        <div className="flex items-center gap-2">
+          {driftReport?.hasDrift && (
+            <div className="i-ph:warning w-4 h-4 text-yellow-500" title="Manifest out of sync with Marketplace" />
+          )}
+          <Badge variant={statusConfig.variant} className="flex items-center gap-1">
+            <div className={classNames(statusConfig.icon, 'w-3 h-3', statusConfig.color)} />
+            {statusConfig.label}
+          </Badge>
+        </div>
       </div>
 
       {/* Meta info */}
@@ -120,6 +173,98 @@ export function ZoomAppCard({ app, onViewCredentials, onDelete, onOpenMarketplac
             </div>
           )}
 
+          {/* OAuth settings */}
+          <div className="mb-4" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-xs font-medium text-bolt-elements-textPrimary">OAuth Settings</div>
+              {!isEditingOAuth && (
+                <button
+                  onClick={handleEditOAuth}
+                  disabled={isUpdating}
+                  className="text-xs text-bolt-elements-item-contentAccent hover:underline disabled:opacity-50"
+                >
+                  Edit
+                </button>
+              )}
+            </div>
+            {isEditingOAuth ? (
+              <div className="space-y-2">
+                <input
+                  type="url"
+                  value={redirectUri}
+                  onChange={(e) => setRedirectUri(e.target.value)}
+                  placeholder="Redirect URL"
+                  className="w-full px-3 py-2 text-xs rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:ring-1 focus:ring-bolt-elements-item-contentAccent"
+                />
+                <textarea
+                  value={allowList}
+                  onChange={(e) => setAllowList(e.target.value)}
+                  placeholder="Allow list (one URL per line)"
+                  rows={3}
+                  className="w-full px-3 py-2 text-xs rounded-lg bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:ring-1 focus:ring-bolt-elements-item-contentAccent"
+                />
+                <div className="flex items-center gap-2">
+                  <Button size="sm" onClick={handleSaveOAuth} disabled={isUpdating}>
+                    Save
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setIsEditingOAuth(false)} disabled={isUpdating}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-1 text-xs text-bolt-elements-textSecondary">
+                <div className="truncate">Redirect URL: {app.redirectUri || 'Not loaded'}</div>
+                <div className="truncate">
+                  Allow list: {app.allowList && app.allowList.length > 0 ? app.allowList.join(', ') : 'None'}
+                </div>
+                {app.lastSyncedAt && <div>Synced {formatDistanceToNow(new Date(app.lastSyncedAt))} ago</div>}
+              </div>
+            )}
+          </div>
+
+          <ManifestDriftPanel
+            report={driftReport}
+            isUpdating={isUpdating}
+            onCheck={onCheckDrift}
+            onReconcile={onReconcileDrift}
+          />
+
+          {/* Marketplace lifecycle */}
+          <div className="flex flex-wrap items-center gap-2 mb-2" onClick={(e) => e.stopPropagation()}>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onRefresh}
+              disabled={isUpdating}
+              className="flex items-center gap-1"
+            >
+              <div className={classNames('i-ph:arrows-clockwise w-4 h-4', isUpdating ? 'animate-spin' : '')} />
+              Refresh
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onSyncScopes}
+              disabled={isUpdating}
+              className="flex items-center gap-1"
+              title="Push the scopes in the project's public/manifest.json to the Marketplace"
+            >
+              <div className="i-ph:upload-simple w-4 h-4" />
+              Sync Scopes
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onRegenerateSecret}
+              disabled={isUpdating}
+              className="flex items-center gap-1"
+            >
+              <div className="i-ph:key w-4 h-4" />
+              Regenerate Secret
+            </Button>
+          </div>
+
           {/* Actions */}
           <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
             <Button variant="outline" size="sm" onClick={onViewCredentials} className="flex items-center gap-1">
@@ -130,10 +275,20 @@ export function ZoomAppCard({ app, onViewCredentials, onDelete, onOpenMarketplac
               <div className="i-ph:arrow-square-out w-4 h-4" />
               Marketplace
             </Button>
-            <Button variant="destructive" size="sm" onClick={onDelete} className="flex items-center gap-1 ml-auto">
-              <div className="i-ph:trash w-4 h-4" />
+            <Button variant="outline" size="sm" onClick={onDelete} className="flex items-center gap-1 ml-auto">
+              <div className="i-ph:x w-4 h-4" />
               Remove
             </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={onDeleteFromMarketplace}
+              disabled={isUpdating}
+              className="flex items-center gap-1"
+            >
+              <div className="i-ph:trash w-4 h-4" />
+              Delete
+            </Button>
           </div>
         </div>
       )}
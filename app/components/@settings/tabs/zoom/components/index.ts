@@ -3,3 +3,8 @@ export { ZoomAppCard } from './ZoomAppCard';
 export { ZoomStats } from './ZoomStats';
 export { ZoomCredentialsModal } from './ZoomCredentialsModal';
 export { WebhookEventLog } from './WebhookEventLog';
+export { WebhookFixtureLibrary } from './WebhookFixtureLibrary';
+export { ProjectTokenList } from './ProjectTokenList';
+export { ManifestDriftPanel } from './ManifestDriftPanel';
+export { ScopeAnalysisPanel } from './ScopeAnalysisPanel';
+export { MockApiPanel } from './MockApiPanel';
@@ -1,8 +1,11 @@
+import { useStore } from '@nanostores/react';
 import { memo, useState } from 'react';
 import { useAutoExecution } from '~/lib/hooks/useAutoExecution';
+import { chatId } from '~/lib/persistence';
+import { actionAllowLists, removeAllowedAction } from '~/lib/stores/actionConfirmation';
 import { classNames } from '~/utils/classNames';
 import type { PlanStep } from '~/types/plan';
-import type { AutoExecutionState } from '~/lib/services/autoExecutionService';
+import type { AutoExecutionState, StepFixRequest, StepResult } from '~/lib/services/autoExecutionService';
 
 /**
  * Auto-Execution Controls
@@ -13,14 +16,7 @@ import type { AutoExecutionState } from '~/lib/services/autoExecutionService';
  */
 
 interface AutoExecutionControlsProps {
-  onExecuteStep: (
-    step: PlanStep,
-    index: number,
-  ) => Promise<{
-    tokensUsed: number;
-    success: boolean;
-    error?: string;
-  }>;
+  onExecuteStep: (step: PlanStep, index: number, fix?: StepFixRequest) => Promise<StepResult>;
   onConfirmationNeeded?: (step: PlanStep, reason: string) => Promise<boolean>;
   className?: string;
 }
@@ -28,6 +24,9 @@ interface AutoExecutionControlsProps {
 export const AutoExecutionControls = memo(
   ({ onExecuteStep, onConfirmationNeeded, className }: AutoExecutionControlsProps) => {
     const [showSettings, setShowSettings] = useState(false);
+    const projectId = useStore(chatId);
+    const allowLists = useStore(actionAllowLists);
+    const allowedActions = projectId ? allowLists[projectId] || [] : [];
 
     const {
       state,
@@ -42,6 +41,7 @@ export const AutoExecutionControls = memo(
       setMaxSteps,
       setTokenBudget,
       setAutoApprove,
+      setMaxFixAttempts,
       getPauseReasonMessage,
       getProgressPercent,
       getTokenUsagePercent,
@@ -224,6 +224,22 @@ export const AutoExecutionControls = memo(
               </div>
             </div>
 
+            {/* Fix Attempts */}
+            <div className="mb-3">
+              <label className="flex items-center justify-between text-xs text-bolt-elements-textSecondary mb-1">
+                <span>Fix attempts after failed checks</span>
+                <span className="text-bolt-elements-textPrimary">{config.maxFixAttempts}</span>
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="5"
+                value={config.maxFixAttempts}
+                onChange={(e) => setMaxFixAttempts(parseInt(e.target.value))}
+                className="w-full h-1 bg-bolt-elements-background-depth-3 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+
             {/* Auto-Approve Dangerous Actions */}
             <div className="flex items-center justify-between">
               <span className="text-xs text-bolt-elements-textSecondary">Auto-approve dangerous actions</span>
@@ -243,6 +259,27 @@ export const AutoExecutionControls = memo(
               </button>
             </div>
 
+            {/* Dangerous actions allowed for this project from the confirmation dialog */}
+            {projectId && allowedActions.length > 0 && (
+              <div>
+                <span className="text-xs text-bolt-elements-textSecondary">Always allowed in this project</span>
+                <ul className="mt-1 space-y-1">
+                  {allowedActions.map((key) => (
+                    <li key={key} className="flex items-center gap-2">
+                      <code className="flex-1 truncate text-[10px] text-bolt-elements-textPrimary" title={key}>
+                        {key}
+                      </code>
+                      <button
+                        onClick={() => removeAllowedAction(projectId, key)}
+                        className="i-ph:x text-xs text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+                        title="Ask again"
+                      />
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Stats */}
             <div className="mt-3 pt-3 border-t border-bolt-elements-borderColor">
               <div className="grid grid-cols-2 gap-2 text-[10px]">
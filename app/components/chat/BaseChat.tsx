@@ -34,10 +34,16 @@ import type { DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
 import LlmErrorAlert from './LLMApiAlert';
 import { PlanSteps } from '~/components/chat/PlanSteps';
+import { PlanHistory } from '~/components/chat/PlanHistory';
+import { DangerousActionDialog } from '~/components/chat/DangerousActionDialog';
 import { planStore } from '~/lib/stores/plan';
+import { waitForChatResponse } from '~/lib/stores/chat';
+import { workbenchStore } from '~/lib/stores/workbench';
 import { TaskProgressDisplay } from '~/components/chat/TaskProgressDisplay';
 import { AutoExecutionControls } from '~/components/chat/AutoExecutionControls';
 import type { PlanStep } from '~/types/plan';
+import type { StepFixRequest } from '~/lib/services/autoExecutionService';
+import { formatCheckFailures } from '~/utils/planChecks';
 
 const TEXTAREA_MIN_HEIGHT = 76;
 
@@ -430,6 +436,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                   )}
                   {llmErrorAlert && <LlmErrorAlert alert={llmErrorAlert} clearAlert={() => clearLlmErrorAlert?.()} />}
                 </div>
+                <DangerousActionDialog />
                 {progressAnnotations && <ProgressCompilation data={progressAnnotations} />}
 
                 {/* Task Progress Display - Shows during streaming */}
@@ -451,28 +458,41 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                   />
                 )}
 
+                {/* Plan History - Plans of this chat saved in IndexedDB */}
+                {chatStarted && <PlanHistory className="max-w-chat mx-auto mb-2" />}
+
                 {/* Auto-Execution Controls - Show when plan is approved */}
                 {chatStarted && planState.isPlanApproved && (
                   <AutoExecutionControls
                     className="max-w-chat mx-auto mb-2"
-                    onExecuteStep={async (step: PlanStep, index: number) => {
-                      // Execute step by sending message to LLM
-                      return new Promise((resolve) => {
-                        if (sendMessage) {
-                          const stepMessage = `[AUTO-EXECUTE] Step ${index + 1}: ${step.title}\n\n${step.description}`;
-                          sendMessage({} as any, stepMessage);
-
-                          // For now, assume success - in production this would track actual response
-                          setTimeout(() => {
-                            resolve({ tokensUsed: 1000, success: true });
-                          }, 5000);
-                        } else {
-                          resolve({ tokensUsed: 0, success: false, error: 'sendMessage not available' });
-                        }
-                      });
+                    onExecuteStep={async (step: PlanStep, index: number, fix?: StepFixRequest) => {
+                      if (!sendMessage) {
+                        return { tokensUsed: 0, success: false, error: 'sendMessage not available' };
+                      }
+
+                      // Execute step by sending message to LLM and waiting for the full response
+                      const stepMessage = fix
+                        ? `[AUTO-EXECUTE] Fix step ${index + 1} (attempt ${fix.attempt}): ${step.title}\n\n${formatCheckFailures(step, index, fix.failures)}`
+                        : `[AUTO-EXECUTE] Step ${index + 1}: ${step.title}\n\n${step.description}`;
+                      const response = waitForChatResponse();
+
+                      sendMessage({} as any, stepMessage);
+
+                      const { usage, error } = await response;
+                      const tokensUsed = usage?.totalTokens ?? 0;
+
+                      if (error) {
+                        return { tokensUsed, success: false, error };
+                      }
+
+                      // Checks inspect what the response changed: let its final actions get queued, then run
+                      await new Promise((resolve) => setTimeout(resolve, 0));
+                      await workbenchStore.waitForQueuedActions();
+
+                      return { tokensUsed, success: true };
                     }}
                     onConfirmationNeeded={async (step: PlanStep, reason: string) => {
-                      // Show confirmation dialog for dangerous actions
+                      // Show confirmation dialog for steps that need it, e.g. a high token estimate
                       return window.confirm(`Step "${step.title}" requires confirmation:\n\n${reason}\n\nProceed?`);
                     }}
                   />
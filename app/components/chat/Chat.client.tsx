@@ -5,8 +5,8 @@ import { useAnimate } from 'framer-motion';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'react-toastify';
 import { useMessageParser, usePromptEnhancer, useShortcuts } from '~/lib/hooks';
-import { description, useChatHistory } from '~/lib/persistence';
-import { chatStore } from '~/lib/stores/chat';
+import { description, useChatHistory, usePlanPersistence } from '~/lib/persistence';
+import { chatStore, notifyChatResponseFinished } from '~/lib/stores/chat';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST } from '~/utils/constants';
 import { cubicEasingFn } from '~/utils/easings';
@@ -27,6 +27,7 @@ import { defaultDesignScheme, type DesignScheme } from '~/types/design-scheme';
 import type { ElementInfo } from '~/components/workbench/Inspector';
 import type { TextUIPart, FileUIPart, Attachment } from '@ai-sdk/ui-utils';
 import { useMCPStore } from '~/lib/stores/mcp';
+import { formatResourceAttachment } from '~/utils/mcpChat';
 import type { LlmErrorAlertType } from '~/types/actions';
 import { planStore, isPlanMode, parsePlanFromResponse, setGeneratingPlan } from '~/lib/stores/plan';
 import { updateTaskProgressFromStream } from '~/lib/stores/taskProgress';
@@ -38,6 +39,8 @@ export function Chat() {
   renderLogger.trace('Chat');
 
   const { ready, initialMessages, storeMessageHistory, importChat, exportChat } = useChatHistory();
+  usePlanPersistence();
+
   const title = useStore(description);
   useEffect(() => {
     workbenchStore.setReloadedMessages(initialMessages.map((m) => m.id));
@@ -163,6 +166,7 @@ export const ChatImpl = memo(
       onError: (e) => {
         setFakeLoading(false);
         handleError(e, 'chat');
+        notifyChatResponseFinished({ error: e.message || 'Chat request failed' });
       },
       onFinish: (message, response) => {
         const usage = response.usage;
@@ -205,6 +209,16 @@ export const ChatImpl = memo(
           updateTaskProgressFromStream(message.content);
         }
 
+        notifyChatResponseFinished({
+          usage: usage
+            ? {
+                promptTokens: usage.promptTokens || 0,
+                completionTokens: usage.completionTokens || 0,
+                totalTokens: usage.totalTokens || 0,
+              }
+            : undefined,
+        });
+
         logger.debug('Finished streaming');
       },
       initialMessages,
@@ -256,6 +270,7 @@ export const ChatImpl = memo(
       stop();
       chatStore.setKey('aborted', true);
       workbenchStore.abortAllActions();
+      notifyChatResponseFinished({ error: 'Response stopped' });
 
       logStore.logProvider('Chat response aborted', {
         component: 'Chat',
@@ -441,6 +456,13 @@ export const ChatImpl = memo(
         finalMessageContent = messageContent + elementInfo;
       }
 
+      const { attachedResources, clearAttachedResources } = useMCPStore.getState();
+
+      if (attachedResources.length > 0) {
+        finalMessageContent += attachedResources.map(formatResourceAttachment).join('');
+        clearAttachedResources();
+      }
+
       runAnimation();
 
       if (!chatStarted) {
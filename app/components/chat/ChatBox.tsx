@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { ClientOnly } from 'remix-utils/client-only';
 import { classNames } from '~/utils/classNames';
 import { PROVIDER_LIST } from '~/utils/constants';
@@ -21,6 +21,8 @@ import type { ElementInfo } from '~/components/workbench/Inspector';
 import { McpTools } from './MCPTools';
 import { useStore } from '@nanostores/react';
 import { planStore, setMode } from '~/lib/stores/plan';
+import { useMCPStore } from '~/lib/stores/mcp';
+import { formatPromptCommand, getPromptCommands, parsePromptCommand, type PromptCommand } from '~/utils/mcpChat';
 
 interface ChatBoxProps {
   isModelSettingsCollapsed: boolean;
@@ -67,6 +69,60 @@ interface ChatBoxProps {
 
 export const ChatBox: React.FC<ChatBoxProps> = (props) => {
   const { mode: planMode } = useStore(planStore);
+  const serverCatalogs = useMCPStore((state) => state.serverCatalogs);
+  const attachedResources = useMCPStore((state) => state.attachedResources);
+  const detachResource = useMCPStore((state) => state.detachResource);
+  const getPrompt = useMCPStore((state) => state.getPrompt);
+  const [activeCommandIndex, setActiveCommandIndex] = useState(0);
+  const [isExpandingPrompt, setIsExpandingPrompt] = useState(false);
+
+  const promptCommands = useMemo(() => getPromptCommands(serverCatalogs), [serverCatalogs]);
+
+  // Suggest MCP prompts while the input is a bare "/name" without arguments yet
+  const commandSuggestions = useMemo(() => {
+    const match = props.input.match(/^\/(\S*)$/);
+
+    if (!match) {
+      return [];
+    }
+
+    return promptCommands.filter((command) => command.prompt.name.startsWith(match[1]));
+  }, [props.input, promptCommands]);
+
+  const selectCommand = (command: PromptCommand) => {
+    const hasArgs = (command.prompt.arguments || []).length > 0;
+    props.handleInputChange?.({
+      target: { value: `/${command.prompt.name}${hasArgs ? ' ' : ''}` },
+    } as React.ChangeEvent<HTMLTextAreaElement>);
+    setActiveCommandIndex(0);
+    props.textareaRef?.current?.focus();
+  };
+
+  // Expand "/name args" into the MCP prompt text before sending
+  const sendMessage = async (event: React.UIEvent) => {
+    const command = parsePromptCommand(props.input, promptCommands);
+
+    if (!command) {
+      props.handleSendMessage?.(event);
+      return;
+    }
+
+    if (command.missingArgs.length > 0) {
+      toast.error(`Missing ${command.missingArgs.join(', ')}. Usage: ${formatPromptCommand(command.prompt)}`);
+      return;
+    }
+
+    setIsExpandingPrompt(true);
+
+    try {
+      const text = await getPrompt(command.serverName, command.prompt.name, command.args);
+      props.handleSendMessage?.(event, text);
+    } catch (error) {
+      toast.error(`Failed to get prompt: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsExpandingPrompt(false);
+    }
+  };
 
   return (
     <div
@@ -170,9 +226,59 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
           </button>
         </div>
       )}
+      {attachedResources.length > 0 && (
+        <div className="flex flex-wrap gap-2 mx-1.5 mb-2">
+          {attachedResources.map((resource) => (
+            <div
+              key={`${resource.serverName}:${resource.uri}`}
+              className="flex items-center gap-1.5 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-3 px-2 py-1 text-xs text-bolt-elements-textPrimary"
+              title={resource.uri}
+            >
+              <div className="i-ph:file-text" />
+              {resource.name}
+              <span className="text-bolt-elements-textTertiary">{resource.serverName}</span>
+              <button
+                className="bg-transparent text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary"
+                title="Remove resource"
+                onClick={() => detachResource(resource.serverName, resource.uri)}
+              >
+                <div className="i-ph:x" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
       <div
         className={classNames('relative shadow-xs border border-bolt-elements-borderColor backdrop-blur rounded-lg')}
       >
+        {commandSuggestions.length > 0 && (
+          <ul className="absolute bottom-full left-0 mb-2 w-full max-h-60 overflow-y-auto rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 py-1 shadow-lg z-10">
+            {commandSuggestions.map((command, index) => (
+              <li key={command.prompt.name}>
+                <button
+                  className={classNames(
+                    'w-full bg-transparent px-3 py-1.5 text-left text-sm',
+                    index === activeCommandIndex
+                      ? 'bg-bolt-elements-background-depth-4'
+                      : 'hover:bg-bolt-elements-background-depth-3',
+                  )}
+                  onMouseDown={(event) => {
+                    // Keep the focus in the textarea
+                    event.preventDefault();
+                    selectCommand(command);
+                  }}
+                >
+                  <div className="font-mono text-bolt-elements-textPrimary">{formatPromptCommand(command.prompt)}</div>
+                  {command.prompt.description && (
+                    <div className="text-xs text-bolt-elements-textSecondary truncate">
+                      {command.prompt.description}
+                    </div>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
         <textarea
           ref={props.textareaRef}
           className={classNames(
@@ -211,6 +317,26 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
             });
           }}
           onKeyDown={(event) => {
+            if (commandSuggestions.length > 0) {
+              if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+                event.preventDefault();
+
+                const step = event.key === 'ArrowDown' ? 1 : -1;
+                setActiveCommandIndex(
+                  (index) => (index + step + commandSuggestions.length) % commandSuggestions.length,
+                );
+
+                return;
+              }
+
+              if (event.key === 'Tab' || (event.key === 'Enter' && !event.shiftKey)) {
+                event.preventDefault();
+                selectCommand(commandSuggestions[Math.min(activeCommandIndex, commandSuggestions.length - 1)]);
+
+                return;
+              }
+            }
+
             if (event.key === 'Enter') {
               if (event.shiftKey) {
                 return;
@@ -228,19 +354,24 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
                 return;
               }
 
-              props.handleSendMessage?.(event);
+              if (!isExpandingPrompt) {
+                sendMessage(event);
+              }
             }
           }}
           value={props.input}
           onChange={(event) => {
             props.handleInputChange?.(event);
+            setActiveCommandIndex(0);
           }}
           onPaste={props.handlePaste}
           style={{
             minHeight: props.TEXTAREA_MIN_HEIGHT,
             maxHeight: props.TEXTAREA_MAX_HEIGHT,
           }}
-          placeholder="How can I help you today?"
+          placeholder={
+            promptCommands.length > 0 ? 'How can I help you today? Type / for MCP prompts' : 'How can I help you today?'
+          }
           translate="no"
         />
         <ClientOnly>
@@ -255,8 +386,8 @@ export const ChatBox: React.FC<ChatBoxProps> = (props) => {
                   return;
                 }
 
-                if (props.input.length > 0 || props.uploadedFiles.length > 0) {
-                  props.handleSendMessage?.(event);
+                if ((props.input.length > 0 || props.uploadedFiles.length > 0) && !isExpandingPrompt) {
+                  sendMessage(event);
                 }
               }}
             />
@@ -0,0 +1,74 @@
+import { useStore } from '@nanostores/react';
+import { useEffect, useState } from 'react';
+import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
+import { Checkbox } from '~/components/ui/Checkbox';
+import { Label } from '~/components/ui/Label';
+import { DANGEROUS_ACTION_LABELS } from '~/lib/services/action-safety';
+import { pendingActionConfirmations, resolveActionConfirmation } from '~/lib/stores/actionConfirmation';
+
+/**
+ * Asks the user to confirm the dangerous actions the model emitted before they run
+ */
+export function DangerousActionDialog() {
+  const [request] = useStore(pendingActionConfirmations);
+  const [allowForProject, setAllowForProject] = useState(false);
+
+  useEffect(() => {
+    setAllowForProject(false);
+  }, [request?.id]);
+
+  if (!request) {
+    return null;
+  }
+
+  return (
+    <DialogRoot open onOpenChange={(open) => !open && resolveActionConfirmation(request.id, false)}>
+      <Dialog onClose={() => resolveActionConfirmation(request.id, false)}>
+        <div className="p-6">
+          <DialogTitle>
+            <div className="i-ph:warning-duotone text-amber-500" />
+            Confirm actions
+          </DialogTitle>
+          <DialogDescription>
+            The assistant wants to run {request.actions.length === 1 ? 'an action' : 'actions'} that can't easily be
+            undone.
+          </DialogDescription>
+
+          <ul className="mt-4 space-y-2 max-h-[300px] overflow-y-auto">
+            {request.actions.map((action) => (
+              <li
+                key={`${action.type}:${action.key}`}
+                className="p-3 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2"
+              >
+                <p className="text-xs font-medium text-amber-500">{DANGEROUS_ACTION_LABELS[action.type]}</p>
+                <code className="block mt-1 text-xs text-bolt-elements-textPrimary whitespace-pre-wrap break-all">
+                  {action.detail}
+                </code>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center gap-2 mt-4">
+            <Checkbox
+              id="allow-actions-for-project"
+              checked={allowForProject}
+              onCheckedChange={(checked) => setAllowForProject(checked === true)}
+            />
+            <Label htmlFor="allow-actions-for-project" className="text-sm text-bolt-elements-textSecondary">
+              Always allow {request.actions.length === 1 ? 'this action' : 'these actions'} in this project
+            </Label>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-6">
+            <DialogButton type="secondary" onClick={() => resolveActionConfirmation(request.id, false)}>
+              Reject
+            </DialogButton>
+            <DialogButton type="danger" onClick={() => resolveActionConfirmation(request.id, true, allowForProject)}>
+              Run
+            </DialogButton>
+          </div>
+        </div>
+      </Dialog>
+    </DialogRoot>
+  );
+}
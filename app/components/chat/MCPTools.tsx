@@ -3,6 +3,7 @@ import { classNames } from '~/utils/classNames';
 import { Dialog, DialogRoot, DialogClose, DialogTitle, DialogButton } from '~/components/ui/Dialog';
 import { IconButton } from '~/components/ui/IconButton';
 import { useMCPStore } from '~/lib/stores/mcp';
+import type { MCPResource } from '~/lib/services/mcpService';
 import McpServerList from '~/components/@settings/tabs/mcp/McpServerList';
 
 export function McpTools() {
@@ -10,16 +11,25 @@ export function McpTools() {
   const serverTools = useMCPStore((state) => state.serverTools);
   const initialize = useMCPStore((state) => state.initialize);
   const checkServersAvailabilities = useMCPStore((state) => state.checkServersAvailabilities);
+  const serverCatalogs = useMCPStore((state) => state.serverCatalogs);
+  const loadCatalogs = useMCPStore((state) => state.loadCatalogs);
+  const attachedResources = useMCPStore((state) => state.attachedResources);
+  const attachResource = useMCPStore((state) => state.attachResource);
 
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isCheckingServers, setIsCheckingServers] = useState(false);
   const [expandedServer, setExpandedServer] = useState<string | null>(null);
+  const [attachingUri, setAttachingUri] = useState<string | null>(null);
 
   useEffect(() => {
     if (!isInitialized) {
       initialize();
+      return;
     }
+
+    // Prompts are also used as slash commands in the chat box, so load them up front
+    loadCatalogs().catch((e) => console.error('Failed to load MCP resources and prompts:', e));
   }, [isInitialized]);
 
   const checkServerAvailability = async () => {
@@ -28,6 +38,7 @@ export function McpTools() {
 
     try {
       await checkServersAvailabilities();
+      await loadCatalogs();
     } catch (e) {
       setError(`Failed to check server availability: ${e instanceof Error ? e.message : String(e)}`);
     } finally {
@@ -43,7 +54,27 @@ export function McpTools() {
     setIsDialogOpen(open);
   };
 
+  const handleAttachResource = async (serverName: string, resource: MCPResource) => {
+    setAttachingUri(resource.uri);
+    setError(null);
+
+    try {
+      await attachResource(serverName, resource);
+    } catch (e) {
+      setError(`Failed to attach resource: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setAttachingUri(null);
+    }
+  };
+
   const serverEntries = useMemo(() => Object.entries(serverTools), [serverTools]);
+  const resourceEntries = useMemo(
+    () =>
+      Object.entries(serverCatalogs).flatMap(([serverName, catalog]) =>
+        catalog.resources.map((resource) => ({ serverName, resource })),
+      ),
+    [serverCatalogs],
+  );
 
   return (
     <div className="relative">
@@ -110,6 +141,56 @@ export function McpTools() {
                   )}
                 </div>
 
+                {resourceEntries.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-medium text-bolt-elements-textPrimary mb-2">Resources</h3>
+                    <ul className="space-y-1">
+                      {resourceEntries.map(({ serverName, resource }) => {
+                        const isAttached = attachedResources.some(
+                          (item) => item.serverName === serverName && item.uri === resource.uri,
+                        );
+
+                        return (
+                          <li
+                            key={`${serverName}:${resource.uri}`}
+                            className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-bolt-elements-background-depth-2"
+                          >
+                            <div className="min-w-0">
+                              <div className="text-sm text-bolt-elements-textPrimary truncate">
+                                {resource.name}
+                                <span className="ml-2 text-xs text-bolt-elements-textTertiary">{serverName}</span>
+                              </div>
+                              {resource.description && (
+                                <div className="text-xs text-bolt-elements-textSecondary truncate">
+                                  {resource.description}
+                                </div>
+                              )}
+                            </div>
+                            <button
+                              onClick={() => handleAttachResource(serverName, resource)}
+                              disabled={isAttached || attachingUri !== null}
+                              className={classNames(
+                                'px-2 py-1 rounded-md text-xs shrink-0',
+                                'bg-bolt-elements-background-depth-3 hover:bg-bolt-elements-background-depth-4',
+                                'text-bolt-elements-textPrimary',
+                                'flex items-center gap-1',
+                                'disabled:opacity-50 disabled:cursor-not-allowed',
+                              )}
+                            >
+                              {attachingUri === resource.uri ? (
+                                <div className="i-svg-spinners:90-ring-with-bg w-3 h-3 text-bolt-elements-loader-progress animate-spin" />
+                              ) : (
+                                <div className={isAttached ? 'i-ph:check w-3 h-3' : 'i-ph:paperclip w-3 h-3'} />
+                              )}
+                              {isAttached ? 'Attached' : 'Attach'}
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
+
                 <div>{error && <p className="mt-2 text-sm text-bolt-elements-icon-error">{error}</p>}</div>
               </div>
 
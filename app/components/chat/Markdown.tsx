@@ -83,6 +83,19 @@ export const Markdown = memo(
             );
           }
 
+          if (className?.includes('__boltMcpResource__')) {
+            return (
+              <div
+                className="inline-flex items-center gap-2 bg-bolt-elements-background-depth-3 border border-bolt-elements-borderColor rounded-lg px-2.5 py-1.5 my-1 mr-2 text-xs"
+                title={node?.properties.dataUri as string}
+              >
+                <div className="i-ph:file-text text-sm text-bolt-elements-textSecondary" />
+                <span className="text-bolt-elements-textPrimary">{node?.properties.dataName as string}</span>
+                <span className="text-bolt-elements-textTertiary">{node?.properties.dataServer as string}</span>
+              </div>
+            );
+          }
+
           if (className?.includes('__boltThought__')) {
             return <ThoughtBox title="Thought process">{children}</ThoughtBox>;
           }
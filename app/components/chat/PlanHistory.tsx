@@ -0,0 +1,154 @@
+import { useStore } from '@nanostores/react';
+import React from 'react';
+import { deletePlanFromHistory, openPlanRecord, planHistory } from '~/lib/persistence';
+import type { PlanRecord } from '~/lib/persistence/types';
+import type { ExecutionHistoryEntry } from '~/lib/services/autoExecutionService';
+import { planStore } from '~/lib/stores/plan';
+import type { Plan } from '~/types/plan';
+import { classNames } from '~/utils/classNames';
+import { stripBoltTags } from '~/utils/planSanitization';
+
+/**
+ * Plan History
+ *
+ * Lists the plans of the open chat with their execution history,
+ * newest first. Older plans can be opened again, e.g. to retry a failed step.
+ */
+
+interface PlanHistoryProps {
+  className?: string;
+}
+
+const PLAN_STATUS_STYLES: Record<Plan['status'], string> = {
+  draft: 'bg-gray-500/20 text-gray-300',
+  approved: 'bg-purple-500/20 text-purple-300',
+  executing: 'bg-yellow-500/20 text-yellow-300',
+  completed: 'bg-green-500/20 text-green-300',
+  failed: 'bg-red-500/20 text-red-300',
+  cancelled: 'bg-gray-600/20 text-gray-400',
+};
+
+const ENTRY_STATUS_ICONS: Record<ExecutionHistoryEntry['status'], string> = {
+  running: 'i-ph:circle-notch text-purple-400',
+  success: 'i-ph:check-circle text-green-400',
+  error: 'i-ph:x-circle text-red-400',
+  skipped: 'i-ph:minus-circle text-gray-400',
+  paused: 'i-ph:pause-circle text-yellow-400',
+};
+
+export function PlanHistory({ className }: PlanHistoryProps) {
+  const records = useStore(planHistory);
+  const { currentPlan } = useStore(planStore);
+  const [isOpen, setIsOpen] = React.useState(false);
+
+  if (records.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className={classNames(
+        'bg-bolt-elements-background-depth-2 rounded-lg border border-bolt-elements-borderColor',
+        className,
+      )}
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-3 py-2 flex items-center justify-between text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+      >
+        <span className="flex items-center gap-2">
+          <div className="i-ph:clock-counter-clockwise w-4 h-4" />
+          Plan history ({records.length})
+        </span>
+        <div className={classNames('w-4 h-4', isOpen ? 'i-ph:caret-up' : 'i-ph:caret-down')} />
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2 max-h-[300px] overflow-y-auto">
+          {[...records].reverse().map((record) => (
+            <PlanHistoryItem key={record.id} record={record} isCurrent={currentPlan?.id === record.id} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface PlanHistoryItemProps {
+  record: PlanRecord;
+  isCurrent: boolean;
+}
+
+function PlanHistoryItem({ record, isCurrent }: PlanHistoryItemProps) {
+  const [isExpanded, setIsExpanded] = React.useState(false);
+  const { plan, history } = record;
+  const completedSteps = plan.steps.filter((step) => step.status === 'complete').length;
+
+  return (
+    <div className="rounded-md border border-bolt-elements-borderColor bg-bolt-elements-background-depth-1">
+      <div className="px-3 py-2 flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left"
+        >
+          <div className={classNames('w-3 h-3 flex-shrink-0', isExpanded ? 'i-ph:caret-down' : 'i-ph:caret-right')} />
+          <span className="truncate text-sm text-bolt-elements-textPrimary">{stripBoltTags(plan.title)}</span>
+          <span
+            className={classNames('px-1.5 py-0.5 rounded text-[10px] flex-shrink-0', PLAN_STATUS_STYLES[plan.status])}
+          >
+            {plan.status}
+          </span>
+        </button>
+        <span className="text-[10px] text-bolt-elements-textTertiary flex-shrink-0">
+          {completedSteps}/{plan.steps.length} steps · {new Date(plan.createdAt).toLocaleString()}
+        </span>
+        {!isCurrent && (
+          <button
+            type="button"
+            onClick={() => openPlanRecord(record)}
+            className="p-1 rounded text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary hover:bg-bolt-elements-background-depth-3"
+            title="Open plan"
+          >
+            <div className="i-ph:arrow-square-out w-4 h-4" />
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => deletePlanFromHistory(record)}
+          className="p-1 rounded text-bolt-elements-textSecondary hover:text-red-400 hover:bg-bolt-elements-background-depth-3"
+          title="Delete plan"
+        >
+          <div className="i-ph:trash w-4 h-4" />
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="px-3 pb-2 space-y-1">
+          {history.length === 0 ? (
+            <p className="text-xs text-bolt-elements-textTertiary">No steps were executed.</p>
+          ) : (
+            history.map((entry, index) => (
+              <div key={`${entry.stepId}-${index}`} className="flex items-start gap-2 text-xs">
+                <div className={classNames('w-3.5 h-3.5 mt-0.5 flex-shrink-0', ENTRY_STATUS_ICONS[entry.status])} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate text-bolt-elements-textSecondary">
+                      {entry.stepIndex + 1}. {stripBoltTags(entry.stepTitle)}
+                    </span>
+                    <span className="text-[10px] text-bolt-elements-textTertiary flex-shrink-0">
+                      {entry.endTime !== null && `${Math.round((entry.endTime - entry.startTime) / 1000)}s`}
+                      {entry.tokensUsed > 0 && ` · ${entry.tokensUsed.toLocaleString()} tokens`}
+                    </span>
+                  </div>
+                  {entry.error && <p className="text-red-400 break-words">{entry.error}</p>}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,26 @@
 import { useStore } from '@nanostores/react';
 import { motion, AnimatePresence } from 'framer-motion';
 import React from 'react';
+import { toast } from 'react-toastify';
 import {
   planStore,
   approvePlan,
   rejectPlan,
   clearPlan,
   skipStep,
+  retryStep,
   getPlanProgress,
   pauseExecution,
   resumeExecution,
   executionPaused,
 } from '~/lib/stores/plan';
+import { autoExecutionState, resumeExecution as resumeAutoExecution } from '~/lib/services/autoExecutionService';
+import { revertToCheckpoint, showStepDiff } from '~/lib/services/planCheckpoints';
 import type { PlanStep, PlanStepStatus } from '~/types/plan';
 import { classNames } from '~/utils/classNames';
 import { sanitizePlanSummary, stripBoltTags } from '~/utils/planSanitization';
+import { getReadySteps, getStepDependencies, getStepLayers } from '~/utils/planGraph';
+import { describeCheck } from '~/utils/planChecks';
 
 interface PlanStepsProps {
   onExecute?: () => void;
@@ -24,17 +30,65 @@ interface PlanStepsProps {
 export function PlanSteps({ onExecute, className }: PlanStepsProps) {
   const { currentPlan, mode } = useStore(planStore);
   const isPaused = useStore(executionPaused);
+  const { pauseReason, isAutoExecuting, isPaused: isAutoExecutionPaused } = useStore(autoExecutionState);
+  const [view, setView] = React.useState<'list' | 'graph'>('list');
 
   if (!currentPlan) {
     return null;
   }
 
+  const layers = getStepLayers(currentPlan.steps);
+  const hasBranches = layers.some((layer) => layer.length > 1);
+  const stepNumbers = new Map(currentPlan.steps.map((step, index) => [step.id, index + 1]));
+  const getDependencyNumbers = (step: PlanStep) =>
+    getStepDependencies(currentPlan.steps, step)
+      .map((id) => stepNumbers.get(id))
+      .filter((stepNumber): stepNumber is number => stepNumber !== undefined);
+
   const progress = getPlanProgress();
   const isExecuting = currentPlan.status === 'executing';
   const isCompleted = currentPlan.status === 'completed';
   const isFailed = currentPlan.status === 'failed';
   const isDraft = currentPlan.status === 'draft';
 
+  // Restored from the chat history after the page went away mid-execution
+  const isInterrupted = isExecuting && pauseReason === 'interrupted';
+  const resumeStep = isInterrupted ? getReadySteps(currentPlan.steps)[0] : undefined;
+
+  // Files can only be reverted while no step is changing them
+  const canRevert =
+    (!isAutoExecuting || isAutoExecutionPaused) && !currentPlan.steps.some((step) => step.status === 'in-progress');
+
+  const handleRevert = async (index: number) => {
+    const confirmed = window.confirm(
+      `Revert the files to how they were before step ${index + 1}? Changes made since then will be lost.`,
+    );
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      const keptFiles = await revertToCheckpoint(index);
+
+      if (keptFiles.length > 0) {
+        toast.warning(`Reverted to step ${index + 1}, locked files were kept: ${keptFiles.join(', ')}`);
+      } else {
+        toast.success(`Reverted to step ${index + 1}`);
+      }
+    } catch (error) {
+      toast.error(`Failed to revert: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleShowChanges = async (index: number) => {
+    try {
+      await showStepDiff(index);
+    } catch (error) {
+      toast.error(`Failed to load the changes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleApprove = () => {
     approvePlan();
     onExecute?.();
@@ -66,10 +120,20 @@ export function PlanSteps({ onExecute, className }: PlanStepsProps) {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            {hasBranches && (
+              <button
+                type="button"
+                onClick={() => setView(view === 'list' ? 'graph' : 'list')}
+                className="px-3 py-1.5 text-sm font-medium rounded-md text-gray-400 hover:text-white hover:bg-gray-700/50 transition-colors"
+                title={view === 'list' ? 'Show dependency graph' : 'Show step list'}
+              >
+                {view === 'list' ? 'Graph' : 'List'}
+              </button>
+            )}
             {isExecuting && (
               <button
                 type="button"
-                onClick={isPaused ? resumeExecution : pauseExecution}
+                onClick={isInterrupted ? resumeAutoExecution : isPaused ? resumeExecution : pauseExecution}
                 className={classNames(
                   'px-3 py-1.5 text-sm font-medium rounded-md transition-colors',
                   isPaused
@@ -119,22 +183,49 @@ export function PlanSteps({ onExecute, className }: PlanStepsProps) {
         )}
       </div>
 
+      {/* Interrupted execution */}
+      {isInterrupted && (
+        <div className="px-4 py-3 border-b border-yellow-500/30 bg-yellow-500/10 flex items-center justify-between gap-3">
+          <p className="text-sm text-yellow-400">
+            Execution was interrupted by a page reload.
+            {resumeStep && ` Resuming continues with step ${stepNumbers.get(resumeStep.id)}.`}
+          </p>
+          <button
+            type="button"
+            onClick={resumeAutoExecution}
+            className="px-3 py-1.5 text-sm font-medium rounded-md bg-green-500/20 text-green-400 hover:bg-green-500/30 transition-colors flex-shrink-0"
+          >
+            ▶ Resume
+          </button>
+        </div>
+      )}
+
       {/* Steps list */}
-      <div className="p-3 space-y-2 max-h-[400px] overflow-y-auto">
-        <AnimatePresence>
-          {currentPlan.steps.map((step, index) => (
-            <StepItem
-              key={step.id}
-              step={step}
-              index={index}
-              totalSteps={currentPlan.steps.length}
-              isActive={step.status === 'in-progress'}
-              canSkip={isDraft || (isExecuting && step.status === 'pending')}
-              onSkip={() => skipStep(index)}
-            />
-          ))}
-        </AnimatePresence>
-      </div>
+      {view === 'graph' && hasBranches ? (
+        <PlanGraph layers={layers} stepNumbers={stepNumbers} getDependencyNumbers={getDependencyNumbers} />
+      ) : (
+        <div className="p-3 space-y-2 max-h-[400px] overflow-y-auto">
+          <AnimatePresence>
+            {currentPlan.steps.map((step, index) => (
+              <StepItem
+                key={step.id}
+                step={step}
+                index={index}
+                totalSteps={currentPlan.steps.length}
+                isActive={step.status === 'in-progress'}
+                canSkip={isDraft || (isExecuting && step.status === 'pending')}
+                onSkip={() => skipStep(index)}
+                onRetry={() => retryStep(index)}
+                canRevert={canRevert}
+                onRevert={() => handleRevert(index)}
+                onShowChanges={() => handleShowChanges(index)}
+                dependencyNumbers={step.dependsOn ? getDependencyNumbers(step) : []}
+                blockedByNumber={step.blockedBy ? stepNumbers.get(step.blockedBy) : undefined}
+              />
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
 
       {/* Actions */}
       {isDraft && mode === 'plan' && (
@@ -187,7 +278,9 @@ export function PlanSteps({ onExecute, className }: PlanStepsProps) {
             </div>
             <div>
               <p className="font-semibold text-red-400">Execution failed</p>
-              <p className="text-sm text-gray-400">Check the failed step for details. You can retry or skip it.</p>
+              <p className="text-sm text-gray-400">
+                Check the failed step for details. Steps that depend on it were skipped; retry it to run them.
+              </p>
             </div>
           </div>
         </div>
@@ -203,9 +296,32 @@ interface StepItemProps {
   isActive: boolean;
   canSkip: boolean;
   onSkip: () => void;
+  onRetry: () => void;
+
+  // Steps with a checkpoint can be reverted to, and their changes viewed
+  canRevert: boolean;
+  onRevert: () => void;
+  onShowChanges: () => void;
+
+  // Numbers of the steps this step explicitly depends on
+  dependencyNumbers: number[];
+  blockedByNumber?: number;
 }
 
-function StepItem({ step, index, totalSteps, isActive, canSkip, onSkip }: StepItemProps) {
+function StepItem({
+  step,
+  index,
+  totalSteps,
+  isActive,
+  canSkip,
+  onSkip,
+  onRetry,
+  canRevert,
+  onRevert,
+  onShowChanges,
+  dependencyNumbers,
+  blockedByNumber,
+}: StepItemProps) {
   const [isExpanded, setIsExpanded] = React.useState(isActive);
 
   React.useEffect(() => {
@@ -306,6 +422,7 @@ function StepItem({ step, index, totalSteps, isActive, canSkip, onSkip }: StepIt
           </p>
           <p className="text-xs text-gray-500 mt-0.5">
             Step {index + 1} of {totalSteps}
+            {dependencyNumbers.length > 0 && ` • after ${dependencyNumbers.join(', ')}`}
             {step.estimatedTokens && ` • ~${step.estimatedTokens.toLocaleString()} tokens`}
           </p>
         </div>
@@ -317,6 +434,11 @@ function StepItem({ step, index, totalSteps, isActive, canSkip, onSkip }: StepIt
               In Progress
             </span>
           )}
+          {step.status === 'skipped' && (
+            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-600/20 text-gray-400">
+              {blockedByNumber ? `Blocked by ${blockedByNumber}` : 'Skipped'}
+            </span>
+          )}
           <ChevronIcon
             className={classNames(
               'w-5 h-5 text-gray-500 transition-transform duration-200',
@@ -357,6 +479,39 @@ function StepItem({ step, index, totalSteps, isActive, canSkip, onSkip }: StepIt
                 </div>
               )}
 
+              {/* Acceptance checks */}
+              {step.checks && step.checks.length > 0 && (
+                <div className="mb-3">
+                  <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+                    Acceptance checks
+                    {!!step.fixAttempts && (
+                      <span className="ml-2 normal-case tracking-normal text-gray-400">
+                        {step.fixAttempts} fix attempt{step.fixAttempts === 1 ? '' : 's'}
+                      </span>
+                    )}
+                  </p>
+                  <ul className="space-y-1.5">
+                    {step.checks.map((check, checkIndex) => {
+                      const result = step.checkResults?.[checkIndex];
+
+                      return (
+                        <li key={checkIndex} className="text-sm">
+                          <div className="flex items-center gap-2">
+                            <SubstepStatusIcon status={result ? (result.passed ? 'complete' : 'failed') : 'pending'} />
+                            <span className="text-gray-300">{describeCheck(check)}</span>
+                          </div>
+                          {result && !result.passed && result.output && (
+                            <pre className="mt-1 ml-6 p-2 max-h-32 overflow-auto rounded bg-gray-900/60 text-xs text-red-300 whitespace-pre-wrap">
+                              {result.output}
+                            </pre>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+
               {/* Error message */}
               {step.error && (
                 <div className="mb-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
@@ -374,6 +529,20 @@ function StepItem({ step, index, totalSteps, isActive, canSkip, onSkip }: StepIt
                 </div>
               )}
 
+              {/* Retry action */}
+              {step.status === 'failed' && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRetry();
+                  }}
+                  className="mr-4 text-xs font-medium text-gray-500 hover:text-gray-300 transition-colors"
+                >
+                  Retry this step ↻
+                </button>
+              )}
+
               {/* Skip action */}
               {canSkip && step.status === 'pending' && (
                 <button
@@ -387,6 +556,34 @@ function StepItem({ step, index, totalSteps, isActive, canSkip, onSkip }: StepIt
                   Skip this step →
                 </button>
               )}
+
+              {/* Checkpoint actions */}
+              {step.checkpointId && step.startedAt !== undefined && (
+                <div className="flex items-center gap-4 mt-2">
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onShowChanges();
+                    }}
+                    className="text-xs font-medium text-gray-500 hover:text-gray-300 transition-colors"
+                  >
+                    View changes
+                  </button>
+                  {canRevert && (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onRevert();
+                      }}
+                      className="text-xs font-medium text-gray-500 hover:text-gray-300 transition-colors"
+                    >
+                      Revert to here ↺
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </motion.div>
         )}
@@ -395,6 +592,62 @@ function StepItem({ step, index, totalSteps, isActive, canSkip, onSkip }: StepIt
   );
 }
 
+interface PlanGraphProps {
+  layers: PlanStep[][];
+  stepNumbers: Map<string, number>;
+  getDependencyNumbers: (step: PlanStep) => number[];
+}
+
+/**
+ * Steps grouped by dependency depth; the steps in a row are independent branches
+ */
+function PlanGraph({ layers, stepNumbers, getDependencyNumbers }: PlanGraphProps) {
+  const nodeColor = (step: PlanStep) => {
+    switch (step.status) {
+      case 'in-progress':
+        return 'border-purple-500/50 bg-purple-500/10 text-white';
+      case 'complete':
+        return 'border-green-500/30 bg-green-500/5 text-gray-300';
+      case 'failed':
+        return 'border-red-500/30 bg-red-500/5 text-red-300';
+      case 'skipped':
+        return 'border-gray-600/30 bg-gray-600/5 text-gray-500 line-through';
+      default:
+        return 'border-gray-700 bg-bolt-elements-background-depth-2 text-white';
+    }
+  };
+
+  return (
+    <div className="p-3 max-h-[400px] overflow-y-auto">
+      {layers.map((layer, layerIndex) => (
+        <div key={layerIndex}>
+          {layerIndex > 0 && <div className="mx-auto my-1 w-px h-3 bg-gray-600" />}
+          <div className="flex flex-wrap justify-center gap-2">
+            {layer.map((step) => {
+              const dependencyNumbers = getDependencyNumbers(step);
+
+              return (
+                <div
+                  key={step.id}
+                  className={classNames('px-3 py-2 rounded-lg border text-xs max-w-[200px]', nodeColor(step))}
+                  title={sanitizePlanSummary(step.description)}
+                >
+                  <p className="font-medium truncate">
+                    {stepNumbers.get(step.id)}. {stripBoltTags(step.title)}
+                  </p>
+                  {dependencyNumbers.length > 0 && (
+                    <p className="mt-0.5 text-gray-500 no-underline">after {dependencyNumbers.join(', ')}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function SubstepStatusIcon({ status }: { status: PlanStepStatus }) {
   switch (status) {
     case 'complete':
@@ -1,6 +1,6 @@
 import type { ToolInvocationUIPart } from '@ai-sdk/ui-utils';
 import { AnimatePresence, motion } from 'framer-motion';
-import { memo, useMemo, useState, useEffect } from 'react';
+import { memo, useMemo, useState, useEffect, useRef } from 'react';
 import { createHighlighter, type BundledLanguage, type BundledTheme, type HighlighterGeneric } from 'shiki';
 import { classNames } from '~/utils/classNames';
 import {
@@ -14,6 +14,9 @@ import { logger } from '~/utils/logger';
 import { themeStore, type Theme } from '~/lib/stores/theme';
 import { useStore } from '@nanostores/react';
 import type { ToolCallAnnotation } from '~/types/context';
+import { chatGrantKey, getToolPolicies, useMCPStore, type ToolAuditEntry } from '~/lib/stores/mcp';
+import { evaluateToolPolicy, type ToolApprovalDecision } from '~/lib/services/mcp-tool-policy';
+import { chatId } from '~/lib/persistence';
 
 const highlighterOptions = {
   langs: ['json'],
@@ -70,6 +73,10 @@ function JsonCodeBlock({ className, code, theme }: JsonCodeBlockProps) {
   );
 }
 
+type DecideToolCall = (tool: ToolInvocationUIPart, approved: boolean, decidedBy: ToolAuditEntry['decidedBy']) => void;
+
+const APPROVAL_RESULTS: unknown[] = [TOOL_EXECUTION_APPROVAL.APPROVE, TOOL_EXECUTION_APPROVAL.REJECT];
+
 interface ToolInvocationsProps {
   toolInvocations: ToolInvocationUIPart[];
   toolCallAnnotations: ToolCallAnnotation[];
@@ -78,7 +85,13 @@ interface ToolInvocationsProps {
 
 export const ToolInvocations = memo(({ toolInvocations, toolCallAnnotations, addToolResult }: ToolInvocationsProps) => {
   const theme = useStore(themeStore);
+  const currentChatId = useStore(chatId) || '';
+  const settings = useMCPStore((state) => state.settings);
+  const chatGrants = useMCPStore((state) => state.chatGrants);
+  const recordToolDecision = useMCPStore((state) => state.recordToolDecision);
+  const completeToolAudit = useMCPStore((state) => state.completeToolAudit);
   const [showDetails, setShowDetails] = useState(false);
+  const autoDecidedCalls = useRef(new Set<string>());
 
   const toggleDetails = () => {
     setShowDetails((prev) => !prev);
@@ -94,7 +107,76 @@ export const ToolInvocations = memo(({ toolInvocations, toolCallAnnotations, add
     [toolInvocations],
   );
 
-  const hasToolCalls = toolCalls.length > 0;
+  // Calls without an annotation yet cannot be matched to a server, so they wait for the user
+  const decisions = useMemo(() => {
+    const policies = getToolPolicies(settings);
+    const grants = chatGrants[currentChatId] || [];
+    const result: Record<string, ToolApprovalDecision> = {};
+
+    for (const tool of toolCalls) {
+      const { toolCallId, toolName, args } = tool.toolInvocation;
+      const annotation = toolCallAnnotations.find((item) => item.toolCallId === toolCallId);
+
+      if (annotation) {
+        result[toolCallId] = evaluateToolPolicy(policies, {
+          serverName: annotation.serverName,
+          toolName,
+          args,
+          grantedForChat: grants.includes(chatGrantKey(annotation.serverName, toolName)),
+        });
+      }
+    }
+
+    return result;
+  }, [toolCalls, toolCallAnnotations, settings, chatGrants, currentChatId]);
+
+  const decideToolCall: DecideToolCall = (tool, approved, decidedBy) => {
+    const { toolCallId, toolName, args } = tool.toolInvocation;
+    const annotation = toolCallAnnotations.find((item) => item.toolCallId === toolCallId);
+
+    recordToolDecision({
+      toolCallId,
+      chatId: currentChatId || undefined,
+      serverName: annotation?.serverName || 'unknown',
+      toolName,
+      args,
+      decision: approved ? 'approved' : 'denied',
+      decidedBy,
+    });
+    addToolResult({
+      toolCallId,
+      result: approved ? TOOL_EXECUTION_APPROVAL.APPROVE : TOOL_EXECUTION_APPROVAL.REJECT,
+    });
+  };
+
+  useEffect(() => {
+    for (const tool of toolCalls) {
+      const { toolCallId } = tool.toolInvocation;
+      const decision = decisions[toolCallId];
+
+      if (decision && decision.action !== 'ask' && !autoDecidedCalls.current.has(toolCallId)) {
+        autoDecidedCalls.current.add(toolCallId);
+        decideToolCall(tool, decision.action === 'allow', decision.reason);
+      }
+    }
+  }, [decisions]);
+
+  useEffect(() => {
+    for (const tool of toolResults) {
+      const { toolCallId, result } = tool.toolInvocation as { toolCallId: string; result: unknown };
+
+      if (!APPROVAL_RESULTS.includes(result)) {
+        completeToolAudit(toolCallId, result);
+      }
+    }
+  }, [toolResults]);
+
+  const pendingToolCalls = useMemo(
+    () => toolCalls.filter((tool) => (decisions[tool.toolInvocation.toolCallId]?.action ?? 'ask') === 'ask'),
+    [toolCalls, decisions],
+  );
+
+  const hasToolCalls = pendingToolCalls.length > 0;
   const hasToolResults = toolResults.length > 0;
 
   if (!hasToolCalls && !hasToolResults) {
@@ -155,9 +237,10 @@ export const ToolInvocations = memo(({ toolInvocations, toolCallAnnotations, add
 
             <div className="px-3 py-3 text-left bg-bolt-elements-background-depth-2">
               <ToolCallsList
-                toolInvocations={toolCalls}
+                toolInvocations={pendingToolCalls}
                 toolCallAnnotations={toolCallAnnotations}
-                addToolResult={addToolResult}
+                decisions={decisions}
+                decideToolCall={decideToolCall}
                 theme={theme}
               />
             </div>
@@ -269,141 +352,206 @@ const ToolResultsList = memo(({ toolInvocations, toolCallAnnotations, theme }: T
 interface ToolCallsListProps {
   toolInvocations: ToolInvocationUIPart[];
   toolCallAnnotations: ToolCallAnnotation[];
-  addToolResult: ({ toolCallId, result }: { toolCallId: string; result: any }) => void;
+  decisions: Record<string, ToolApprovalDecision>;
+  decideToolCall: DecideToolCall;
   theme: Theme;
 }
 
-const ToolCallsList = memo(({ toolInvocations, toolCallAnnotations, addToolResult }: ToolCallsListProps) => {
-  const [expanded, setExpanded] = useState<{ [id: string]: boolean }>({});
-
-  // OS detection for shortcut display
-  const isMac = typeof navigator !== 'undefined' && /Mac|iPod|iPhone|iPad/.test(navigator.platform);
-
-  useEffect(() => {
-    const expandedState: { [id: string]: boolean } = {};
-    toolInvocations.forEach((inv) => {
-      if (inv.toolInvocation.state === 'call') {
-        expandedState[inv.toolInvocation.toolCallId] = true;
-      }
-    });
-    setExpanded(expandedState);
-  }, [toolInvocations]);
-
-  // Keyboard shortcut logic
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Ignore if focus is in an input/textarea/contenteditable
-      const active = document.activeElement as HTMLElement | null;
-
-      if (active && (active.tagName === 'INPUT' || active.tagName === 'TEXTAREA' || active.isContentEditable)) {
-        return;
-      }
-
-      if (Object.keys(expanded).length === 0) {
-        return;
-      }
-
-      const openId = Object.keys(expanded).find((id) => expanded[id]);
-
-      if (!openId) {
-        return;
+const ToolCallsList = memo(
+  ({ toolInvocations, toolCallAnnotations, decisions, decideToolCall }: ToolCallsListProps) => {
+    const [expanded, setExpanded] = useState<{ [id: string]: boolean }>({});
+    const currentChatId = useStore(chatId) || '';
+    const settings = useMCPStore((state) => state.settings);
+    const grantToolForChat = useMCPStore((state) => state.grantToolForChat);
+    const updateToolPolicies = useMCPStore((state) => state.updateToolPolicies);
+
+    const findTool = (toolCallId: string) =>
+      toolInvocations.find((inv) => inv.toolInvocation.toolCallId === toolCallId);
+    const findServerName = (toolCallId: string) =>
+      toolCallAnnotations.find((annotation) => annotation.toolCallId === toolCallId)?.serverName;
+
+    const approve = (tool: ToolInvocationUIPart) => {
+      const { toolCallId, toolName } = tool.toolInvocation;
+      const serverName = findServerName(toolCallId);
+
+      // An approval of an 'allow-chat' tool covers the rest of the chat
+      if (serverName && decisions[toolCallId]?.policy === 'allow-chat') {
+        grantToolForChat(currentChatId, serverName, toolName);
       }
 
-      // Cancel: Cmd/Ctrl + Backspace
-      if ((isMac ? e.metaKey : e.ctrlKey) && e.key === 'Backspace') {
-        e.preventDefault();
-        addToolResult({
-          toolCallId: openId,
-          result: TOOL_EXECUTION_APPROVAL.REJECT,
-        });
-      }
-
-      // Run tool: Cmd/Ctrl + Enter
-      if ((isMac ? e.metaKey : e.ctrlKey) && (e.key === 'Enter' || e.key === 'Return')) {
-        e.preventDefault();
-        addToolResult({
-          toolCallId: openId,
-          result: TOOL_EXECUTION_APPROVAL.APPROVE,
-        });
-      }
+      decideToolCall(tool, true, 'user');
     };
-    window.addEventListener('keydown', handleKeyDown);
-
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [expanded, addToolResult, isMac]);
-
-  return (
-    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.15 }}>
-      <ul className="list-none space-y-4">
-        {toolInvocations.map((tool, index) => {
-          const toolCallState = tool.toolInvocation.state;
 
-          if (toolCallState !== 'call') {
-            return null;
-          }
+    const allowForChat = (tool: ToolInvocationUIPart, serverName: string) => {
+      grantToolForChat(currentChatId, serverName, tool.toolInvocation.toolName);
+      decideToolCall(tool, true, 'user');
+    };
 
-          const { toolName, toolCallId } = tool.toolInvocation;
-          const annotation = toolCallAnnotations.find((annotation) => annotation.toolCallId === toolCallId);
+    const alwaysAllow = (tool: ToolInvocationUIPart, serverName: string) => {
+      const policies = getToolPolicies(settings);
+
+      updateToolPolicies({
+        ...policies,
+        tools: {
+          ...policies.tools,
+          [serverName]: { ...policies.tools[serverName], [tool.toolInvocation.toolName]: 'allow' },
+        },
+      });
+      decideToolCall(tool, true, 'user');
+    };
 
-          return (
-            <motion.li
-              key={index}
-              variants={toolVariants}
-              initial="hidden"
-              animate="visible"
-              transition={{ duration: 0.2, ease: cubicEasingFn }}
-            >
-              <div className="bg-bolt-elements-background-depth-3 rounded-lg p-2">
-                <div key={toolCallId} className="flex gap-1">
-                  <div className="flex flex-col items-center ">
-                    <span className="mr-auto font-light font-normal text-md text-bolt-elements-textPrimary rounded-md">
-                      {toolName}
-                    </span>
-                    <span className="text-xs text-bolt-elements-textSecondary font-light break-words max-w-64">
-                      {annotation?.toolDescription}
-                    </span>
-                  </div>
-                  <div className="flex items-center justify-end gap-2 ml-auto">
-                    <button
-                      className={classNames(
-                        'h-10 px-2.5 py-1.5 rounded-lg text-xs h-auto',
-                        'bg-transparent',
-                        'text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary',
-                        'transition-all duration-200',
-                        'flex items-center gap-2',
-                      )}
-                      onClick={() =>
-                        addToolResult({
-                          toolCallId,
-                          result: TOOL_EXECUTION_APPROVAL.REJECT,
-                        })
-                      }
-                    >
-                      Cancel <span className="opacity-70 text-xs ml-1">{isMac ? '⌘⌫' : 'Ctrl+Backspace'}</span>
-                    </button>
-                    <button
-                      className={classNames(
-                        'h-10 inline-flex items-center gap-2 px-3 py-1.5 text-xs font-normal rounded-lg transition-colors',
-                        'bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor',
-                        'text-accent-500 hover:text-bolt-elements-textPrimary',
-                        'disabled:opacity-50 disabled:cursor-not-allowed',
+    // OS detection for shortcut display
+    const isMac = typeof navigator !== 'undefined' && /Mac|iPod|iPhone|iPad/.test(navigator.platform);
+
+    useEffect(() => {
+      const expandedState: { [id: string]: boolean } = {};
+      toolInvocations.forEach((inv) => {
+        if (inv.toolInvocation.state === 'call') {
+          expandedState[inv.toolInvocation.toolCallId] = true;
+        }
+      });
+      setExpanded(expandedState);
+    }, [toolInvocations]);
+
+    // Keyboard shortcut logic
+    useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+        // Ignore if focus is in an input/textarea/contenteditable
+        const active = document.activeElement as HTMLElement | null;
+
+        if (active && (active.tagName === 'INPUT' || active.tagName === 'TEXTAREA' || active.isContentEditable)) {
+          return;
+        }
+
+        if (Object.keys(expanded).length === 0) {
+          return;
+        }
+
+        const openId = Object.keys(expanded).find((id) => expanded[id]);
+
+        if (!openId) {
+          return;
+        }
+
+        const openTool = findTool(openId);
+
+        if (!openTool) {
+          return;
+        }
+
+        // Cancel: Cmd/Ctrl + Backspace
+        if ((isMac ? e.metaKey : e.ctrlKey) && e.key === 'Backspace') {
+          e.preventDefault();
+          decideToolCall(openTool, false, 'user');
+        }
+
+        // Run tool: Cmd/Ctrl + Enter
+        if ((isMac ? e.metaKey : e.ctrlKey) && (e.key === 'Enter' || e.key === 'Return')) {
+          e.preventDefault();
+          approve(openTool);
+        }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [expanded, toolInvocations, decideToolCall, isMac]);
+
+    return (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        transition={{ duration: 0.15 }}
+      >
+        <ul className="list-none space-y-4">
+          {toolInvocations.map((tool, index) => {
+            const toolCallState = tool.toolInvocation.state;
+
+            if (toolCallState !== 'call') {
+              return null;
+            }
+
+            const { toolName, toolCallId } = tool.toolInvocation;
+            const annotation = toolCallAnnotations.find((annotation) => annotation.toolCallId === toolCallId);
+
+            return (
+              <motion.li
+                key={index}
+                variants={toolVariants}
+                initial="hidden"
+                animate="visible"
+                transition={{ duration: 0.2, ease: cubicEasingFn }}
+              >
+                <div className="bg-bolt-elements-background-depth-3 rounded-lg p-2">
+                  <div key={toolCallId} className="flex gap-1">
+                    <div className="flex flex-col items-center ">
+                      <span className="mr-auto font-light font-normal text-md text-bolt-elements-textPrimary rounded-md">
+                        {toolName}
+                      </span>
+                      <span className="text-xs text-bolt-elements-textSecondary font-light break-words max-w-64">
+                        {annotation?.toolDescription}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-end gap-2 ml-auto">
+                      <button
+                        className={classNames(
+                          'h-10 px-2.5 py-1.5 rounded-lg text-xs h-auto',
+                          'bg-transparent',
+                          'text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary',
+                          'transition-all duration-200',
+                          'flex items-center gap-2',
+                        )}
+                        onClick={() => decideToolCall(tool, false, 'user')}
+                      >
+                        Cancel <span className="opacity-70 text-xs ml-1">{isMac ? '⌘⌫' : 'Ctrl+Backspace'}</span>
+                      </button>
+                      {annotation && (
+                        <>
+                          <button
+                            className={classNames(
+                              'h-10 px-2.5 py-1.5 rounded-lg text-xs h-auto',
+                              'bg-transparent',
+                              'text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary',
+                              'transition-all duration-200',
+                            )}
+                            title={`Run ${toolName} without asking for the rest of this chat`}
+                            onClick={() => allowForChat(tool, annotation.serverName)}
+                          >
+                            Allow for this chat
+                          </button>
+                          <button
+                            className={classNames(
+                              'h-10 px-2.5 py-1.5 rounded-lg text-xs h-auto',
+                              'bg-transparent',
+                              'text-bolt-elements-textTertiary hover:text-bolt-elements-textPrimary',
+                              'transition-all duration-200',
+                            )}
+                            title={`Always run ${toolName} of ${annotation.serverName} without asking`}
+                            onClick={() => alwaysAllow(tool, annotation.serverName)}
+                          >
+                            Always allow
+                          </button>
+                        </>
                       )}
-                      onClick={() =>
-                        addToolResult({
-                          toolCallId,
-                          result: TOOL_EXECUTION_APPROVAL.APPROVE,
-                        })
-                      }
-                    >
-                      Run tool <span className="opacity-70 text-xs ml-1">{isMac ? '⌘↵' : 'Ctrl+Enter'}</span>
-                    </button>
+                      <button
+                        className={classNames(
+                          'h-10 inline-flex items-center gap-2 px-3 py-1.5 text-xs font-normal rounded-lg transition-colors',
+                          'bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor',
+                          'text-accent-500 hover:text-bolt-elements-textPrimary',
+                          'disabled:opacity-50 disabled:cursor-not-allowed',
+                        )}
+                        onClick={() => approve(tool)}
+                      >
+                        Run tool <span className="opacity-70 text-xs ml-1">{isMac ? '⌘↵' : 'Ctrl+Enter'}</span>
+                      </button>
+                    </div>
                   </div>
                 </div>
-              </div>
-            </motion.li>
-          );
-        })}
-      </ul>
-    </motion.div>
-  );
-});
+              </motion.li>
+            );
+          })}
+        </ul>
+      </motion.div>
+    );
+  },
+);
@@ -15,6 +15,7 @@ import { useGitHubDeploy } from '~/components/deploy/GitHubDeploy.client';
 import { useGitLabDeploy } from '~/components/deploy/GitLabDeploy.client';
 import { GitHubDeploymentDialog } from '~/components/deploy/GitHubDeploymentDialog';
 import { GitLabDeploymentDialog } from '~/components/deploy/GitLabDeploymentDialog';
+import { useZoomScopeAnalysis } from '~/lib/hooks/useZoomScopeAnalysis';
 
 interface DeployButtonProps {
   onVercelDeploy?: () => Promise<void>;
@@ -42,6 +43,7 @@ export const DeployButton = ({
   const { handleNetlifyDeploy } = useNetlifyDeploy();
   const { handleGitHubDeploy } = useGitHubDeploy();
   const { handleGitLabDeploy } = useGitLabDeploy();
+  const { confirmBeforeDeploy } = useZoomScopeAnalysis();
   const [showGitHubDeploymentDialog, setShowGitHubDeploymentDialog] = useState(false);
   const [showGitLabDeploymentDialog, setShowGitLabDeploymentDialog] = useState(false);
   const [githubDeploymentFiles, setGithubDeploymentFiles] = useState<Record<string, string> | null>(null);
@@ -50,6 +52,11 @@ export const DeployButton = ({
   const [gitlabProjectName, setGitlabProjectName] = useState('');
 
   const handleVercelDeployClick = async () => {
+    // Catch Zoom scope mistakes before they surface as 4700 errors in the Zoom client
+    if (!(await confirmBeforeDeploy())) {
+      return;
+    }
+
     setIsDeploying(true);
     setDeployingTo('vercel');
 
@@ -66,6 +73,10 @@ export const DeployButton = ({
   };
 
   const handleNetlifyDeployClick = async () => {
+    if (!(await confirmBeforeDeploy())) {
+      return;
+    }
+
     setIsDeploying(true);
     setDeployingTo('netlify');
 
@@ -82,6 +93,10 @@ export const DeployButton = ({
   };
 
   const handleGitHubDeployClick = async () => {
+    if (!(await confirmBeforeDeploy())) {
+      return;
+    }
+
     setIsDeploying(true);
     setDeployingTo('github');
 
@@ -104,6 +119,10 @@ export const DeployButton = ({
   };
 
   const handleGitLabDeployClick = async () => {
+    if (!(await confirmBeforeDeploy())) {
+      return;
+    }
+
     setIsDeploying(true);
     setDeployingTo('gitlab');
 
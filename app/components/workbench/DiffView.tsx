@@ -10,6 +10,8 @@ import { diffFiles, extractRelativePath } from '~/utils/diff';
 import type { FileHistory } from '~/types/actions';
 import { getLanguageFromExtension } from '~/utils/getLanguageFromExtension';
 import { themeStore } from '~/lib/stores/theme';
+import { stepDiff, type StepDiff } from '~/lib/services/planCheckpoints';
+import { classNames } from '~/utils/classNames';
 
 interface CodeComparisonProps {
   beforeCode: string;
@@ -660,6 +662,86 @@ const InlineDiffComparison = memo(({ beforeCode, afterCode, filename, language }
   );
 });
 
+const StepDiffView = memo(({ diff }: { diff: StepDiff }) => {
+  const filePaths = Object.keys(diff.files).sort();
+  const [selectedPath, setSelectedPath] = useState(filePaths[0]);
+  const selectedDiff = selectedPath ? diff.files[selectedPath] : undefined;
+
+  useEffect(() => {
+    setSelectedPath(filePaths[0]);
+  }, [diff]);
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-bolt-elements-borderColor bg-bolt-elements-background-depth-1">
+        <span className="text-sm font-medium text-bolt-elements-textPrimary truncate">
+          Changes of step {diff.stepNumber}: {diff.stepTitle}
+        </span>
+        <span className="text-xs text-bolt-elements-textTertiary flex-shrink-0">
+          {filePaths.length} file{filePaths.length === 1 ? '' : 's'}
+        </span>
+        <button
+          type="button"
+          onClick={() => stepDiff.set(null)}
+          className="ml-auto flex items-center gap-1 text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary transition-colors"
+        >
+          <div className="i-ph:x" />
+          Close
+        </button>
+      </div>
+      {filePaths.length === 0 ? (
+        <div className="flex flex-1 justify-center items-center bg-bolt-elements-background-depth-1 text-bolt-elements-textSecondary">
+          This step did not change any files
+        </div>
+      ) : (
+        <div className="flex flex-1 min-h-0">
+          <div className="w-56 flex-shrink-0 overflow-y-auto border-r border-bolt-elements-borderColor bg-bolt-elements-background-depth-1">
+            {filePaths.map((filePath) => {
+              const { before, after } = diff.files[filePath];
+
+              return (
+                <button
+                  key={filePath}
+                  type="button"
+                  onClick={() => setSelectedPath(filePath)}
+                  title={filePath}
+                  className={classNames(
+                    'w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs truncate transition-colors',
+                    filePath === selectedPath
+                      ? 'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent'
+                      : 'text-bolt-elements-textSecondary hover:bg-bolt-elements-item-backgroundActive',
+                  )}
+                >
+                  <span
+                    className={classNames('flex-shrink-0', {
+                      'i-ph:plus-circle text-green-500': !before,
+                      'i-ph:minus-circle text-red-500': !after,
+                      'i-ph:pencil-simple': !!before && !!after,
+                    })}
+                  />
+                  <span className="truncate">{extractRelativePath(filePath)}</span>
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex-1 min-w-0 overflow-hidden">
+            {selectedPath && selectedDiff && (
+              <InlineDiffComparison
+                beforeCode={selectedDiff.before}
+                afterCode={selectedDiff.after}
+                language={getLanguageFromExtension(selectedPath.split('.').pop() || '')}
+                filename={selectedPath}
+                lightTheme="github-light"
+                darkTheme="github-dark"
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
 interface DiffViewProps {
   fileHistory: Record<string, FileHistory>;
   setFileHistory: React.Dispatch<React.SetStateAction<Record<string, FileHistory>>>;
@@ -670,6 +752,7 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
   const selectedFile = useStore(workbenchStore.selectedFile);
   const currentDocument = useStore(workbenchStore.currentDocument) as EditorDocument;
   const unsavedFiles = useStore(workbenchStore.unsavedFiles);
+  const currentStepDiff = useStore(stepDiff);
 
   useEffect(() => {
     if (selectedFile && currentDocument) {
@@ -753,6 +836,10 @@ export const DiffView = memo(({ fileHistory, setFileHistory }: DiffViewProps) =>
     }
   }, [selectedFile, currentDocument?.value, files, setFileHistory, unsavedFiles]);
 
+  if (currentStepDiff) {
+    return <StepDiffView diff={currentStepDiff} />;
+  }
+
   if (!selectedFile || !currentDocument) {
     return (
       <div className="flex w-full h-full justify-center items-center bg-bolt-elements-background-depth-1 text-bolt-elements-textPrimary">
@@ -16,6 +16,8 @@ const PUBLIC_PATHS = [
   '/api/oauth/proxy/callback',
   '/api/webhook/proxy/',
   '/api/webhook/poll/',
+  '/api/webhook/stream/',
+  '/api/webhook/ack/',
   '/api/webhook/session',
   '/api/health',
   '/api/login',
@@ -234,30 +236,15 @@ export function validateCredentials(
 }
 
 /**
- * Check authentication for a request
- * Returns null if authorized, or a redirect/401 Response if not
- * @param cloudflareEnv - Optional Cloudflare environment (for Workers/wrangler)
+ * Check whether a request carries a valid session cookie or Basic Auth credentials
  */
-export async function checkAuth(request: Request, cloudflareEnv?: Record<string, string>): Promise<Response | null> {
-  const url = new URL(request.url);
-  const pathname = url.pathname;
-
-  // Skip auth for public paths
-  if (isPublicPath(pathname)) {
-    return null;
-  }
-
-  // Skip auth if not configured
-  if (!isAuthEnabled(cloudflareEnv)) {
-    return null;
-  }
-
+async function hasValidCredentials(request: Request, cloudflareEnv?: Record<string, string>): Promise<boolean> {
   // Check for valid session cookie
   const cookieHeader = request.headers.get('Cookie');
   const username = await validateSession(cookieHeader);
 
   if (username) {
-    return null;
+    return true;
   }
 
   // Check for Basic Auth header (backward compatibility for API clients)
@@ -269,14 +256,48 @@ export async function checkAuth(request: Request, cloudflareEnv?: Record<string,
       const credentials = atob(base64Credentials);
       const [user, pass] = credentials.split(':');
 
-      if (validateCredentials(user, pass, cloudflareEnv)) {
-        return null;
-      }
+      return validateCredentials(user, pass, cloudflareEnv);
     } catch {
       // Invalid base64
     }
   }
 
+  return false;
+}
+
+/**
+ * Check whether a request is made by the logged-in admin
+ * Unlike checkAuth, this ignores PUBLIC_PATHS and returns false when auth is not configured,
+ * so API routes on public paths can protect admin-only operations themselves.
+ * @param cloudflareEnv - Optional Cloudflare environment (for Workers/wrangler)
+ */
+export async function isAdminRequest(request: Request, cloudflareEnv?: Record<string, string>): Promise<boolean> {
+  return isAuthEnabled(cloudflareEnv) && (await hasValidCredentials(request, cloudflareEnv));
+}
+
+/**
+ * Check authentication for a request
+ * Returns null if authorized, or a redirect/401 Response if not
+ * @param cloudflareEnv - Optional Cloudflare environment (for Workers/wrangler)
+ */
+export async function checkAuth(request: Request, cloudflareEnv?: Record<string, string>): Promise<Response | null> {
+  const url = new URL(request.url);
+  const pathname = url.pathname;
+
+  // Skip auth for public paths
+  if (isPublicPath(pathname)) {
+    return null;
+  }
+
+  // Skip auth if not configured
+  if (!isAuthEnabled(cloudflareEnv)) {
+    return null;
+  }
+
+  if (await hasValidCredentials(request, cloudflareEnv)) {
+    return null;
+  }
+
   // Redirect to login page for browser requests
   const acceptHeader = request.headers.get('Accept') || '';
 
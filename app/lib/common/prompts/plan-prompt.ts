@@ -1,5 +1,6 @@
 import { stripIndents } from '~/utils/stripIndent';
 import type { Plan, PlanStep } from '~/types/plan';
+import { describeCheck } from '~/utils/planChecks';
 
 /**
  * Plan Mode Prompts
@@ -31,10 +32,24 @@ Provide your plan as a JSON code block with the following structure:
   "summary": "1-2 sentence summary of what will be accomplished",
   "steps": [
     {
+      "id": "setup",
       "title": "Step 1 title",
       "description": "Detailed description of what this step accomplishes",
       "estimatedTokens": 500,
-      "substeps": ["Substep 1", "Substep 2"]
+      "substeps": ["Substep 1", "Substep 2"],
+      "dependsOn": []
+    },
+    {
+      "id": "api",
+      "title": "Step 2 title",
+      "description": "Detailed description of what this step accomplishes",
+      "estimatedTokens": 800,
+      "dependsOn": ["setup"],
+      "checks": [
+        { "type": "command", "command": "npm run build" },
+        { "type": "file-exists", "path": "src/api/client.ts" },
+        { "type": "http", "path": "/api/health", "status": 200 }
+      ]
     }
   ],
   "potentialChallenges": ["Challenge 1", "Challenge 2"],
@@ -45,6 +60,9 @@ Provide your plan as a JSON code block with the following structure:
 STEP GUIDELINES:
 - Each step should be a logical unit of work
 - Steps should be ordered by dependency (prerequisite steps first)
+- List in "dependsOn" the ids of the steps a step needs; independent steps (e.g. styling and API work) should not depend on each other, so a failure in one does not block the other
+- A step without "dependsOn" depends on the step before it
+- Add "checks" to steps whose result can be verified: a command that must succeed (build, type check, tests), a file that must exist, or an HTTP request to the running preview server. They run automatically after the step, and failures are sent back to you to fix
 - Keep steps focused but not too granular (aim for 3-10 steps)
 - Include setup steps (dependencies, configuration) before implementation
 - Include verification/testing steps at the end
@@ -71,6 +89,7 @@ CURRENT STEP:
 Title: ${step.title}
 Description: ${step.description}
 ${step.substeps?.length ? `Substeps:\n${step.substeps.map((s, i) => `  ${i + 1}. ${s.title}`).join('\n')}` : ''}
+${step.checks?.length ? `Acceptance checks (run automatically after this step):\n${step.checks.map((check) => `  - ${describeCheck(check)}`).join('\n')}` : ''}
 
 EXECUTION RULES:
 - Focus ONLY on completing this specific step
@@ -260,6 +260,7 @@ export const DEFAULT_SECTIONS: Required<PromptSections> = {
   OAUTH REQUIREMENTS:
   - Use bolt.diy's OAuth proxy: https://zoomvibes.j4red4llen.com/api/oauth/proxy/start?provider=zoom
   - OAuth callback URL: https://zoomvibes.j4red4llen.com/api/oauth/proxy/callback
+  - Other services use the same proxy with provider=slack, microsoft, google, github, gitlab, salesforce or oidc
   - NEVER store OAuth tokens client-side; use httpOnly cookies or server-side sessions
   - Request ONLY necessary scopes: meeting:read, meeting:write, user:read
   - Implement token refresh before expiry using the refresh_token
@@ -267,8 +268,10 @@ export const DEFAULT_SECTIONS: Required<PromptSections> = {
   WEBHOOK HANDLING:
   - Use bolt.diy's webhook proxy for development: POST /api/webhook/session to get sessionId
   - Configure webhooks in Zoom Marketplace to point to: https://zoomvibes.j4red4llen.com/api/webhook/proxy/{sessionId}
-  - Poll GET /api/webhook/poll/{sessionId} to receive webhook events (every 5 seconds recommended)
-  - Validate webhook signatures using the verification token from Zoom
+  - Prefer src/lib/webhook-client.ts (subscribeToWebhooks): streams events over SSE from /api/webhook/stream/{sessionId} and acks them via /api/webhook/ack/{sessionId}
+  - Fallback: poll GET /api/webhook/poll/{sessionId} (events are removed on read, every 5 seconds recommended)
+  - Pass the app's webhook secretToken when creating the session; the proxy then answers endpoint.url_validation and verifies x-zm-signature
+  - Check event.signatureStatus === 'valid' before trusting a webhook payload ('replayed' marks test fixtures replayed from bolt.diy; accept those only in development)
 
   SECURITY REQUIREMENTS:
   - Validate all Zoom context headers (x-zoom-app-context)
@@ -290,6 +293,7 @@ export const DEFAULT_SECTIONS: Required<PromptSections> = {
   - Home URL must be HTTPS and publicly accessible (not WebContainer preview URL)
   - Redirect URLs must include: https://zoomvibes.j4red4llen.com/api/oauth/proxy/callback
   - Scopes in manifest must match OAuth request scopes exactly
+  - When a feature needs new Zoom API scopes, update oauth.scopes in public/manifest.json; the user pushes them to the Marketplace app with "Sync Scopes" in Settings > Zoom
   - Short description: max 50 characters
   - Long description: max 4000 characters
   - Include proper icons: 80x80 for sidebar, 460x460 for listing
@@ -301,6 +305,10 @@ export const DEFAULT_SECTIONS: Required<PromptSections> = {
   - Create src/hooks/useZoom.ts for React hooks
   - Store manifest at public/manifest.json
   - Environment variables in .env.local (gitignored)
+  - Before calling a Zoom REST endpoint, use the zoom_get_schema or zoom_generate_client MCP tools to get its request and response types instead of guessing payload shapes
+  - Do not use Zoom REST endpoints marked deprecated; zoom_get_changes lists which endpoints were removed, deprecated or re-scoped between versions of the Zoom API index
+  - Read the Zoom REST base URL from import.meta.env.VITE_ZOOM_API_BASE_URL (default https://api.zoom.us/v2); when VITE_ZOOM_MOCK_ACCESS_TOKEN is set, use it as the Bearer token so the app works against the mock Zoom API in the preview
+  - When writing webhook handlers, use zoom_list_events and zoom_get_event to get the event payload schema and required subscription scopes
 
   EXAMPLE ZOOM SDK INITIALIZATION:
   \`\`\`typescript
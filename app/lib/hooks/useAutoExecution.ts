@@ -14,13 +14,19 @@ import {
   registerStepExecutor,
   registerProgressCallback,
   registerConfirmationCallback,
+  registerStepVerifier,
+  registerStepCheckpoint,
   type AutoExecutionConfig,
   type AutoExecutionState,
   type ExecutionHistoryEntry,
   type PauseReason,
+  type StepFixRequest,
+  type StepResult,
 } from '~/lib/services/autoExecutionService';
+import { createStepCheckpoint } from '~/lib/services/planCheckpoints';
+import { runStepChecks } from '~/lib/services/planVerification';
 import { planStore } from '~/lib/stores/plan';
-import type { PlanStep } from '~/types/plan';
+import type { PlanCheckResult, PlanStep } from '~/types/plan';
 
 /**
  * Hook for Auto-Execution UI Integration
@@ -30,15 +36,14 @@ import type { PlanStep } from '~/types/plan';
  */
 
 export interface UseAutoExecutionOptions {
-  // Called to execute a step (sends to LLM)
-  onExecuteStep?: (
-    step: PlanStep,
-    index: number,
-  ) => Promise<{
-    tokensUsed: number;
-    success: boolean;
-    error?: string;
-  }>;
+  // Called to execute a step (sends to LLM), again with the failed checks to fix them
+  onExecuteStep?: (step: PlanStep, index: number, fix?: StepFixRequest) => Promise<StepResult>;
+
+  // Runs the acceptance checks of an executed step, in the WebContainer by default
+  onVerifyStep?: (step: PlanStep) => Promise<PlanCheckResult[]>;
+
+  // Saves the workbench files before a step runs, to the chat's snapshots by default
+  onCheckpoint?: (step: PlanStep) => Promise<void>;
 
   // Called when execution state changes
   onProgressUpdate?: (state: AutoExecutionState, currentStep: PlanStep | null) => void;
@@ -68,6 +73,7 @@ export interface UseAutoExecutionReturn {
   setMaxSteps: (max: number) => void;
   setTokenBudget: (budget: number) => void;
   setAutoApprove: (enabled: boolean) => void;
+  setMaxFixAttempts: (max: number) => void;
 
   // Helpers
   getPauseReasonMessage: (reason: PauseReason | null) => string;
@@ -98,6 +104,9 @@ export function useAutoExecution(options: UseAutoExecutionOptions = {}): UseAuto
     if (optionsRef.current.onConfirmationNeeded) {
       registerConfirmationCallback(optionsRef.current.onConfirmationNeeded);
     }
+
+    registerStepVerifier(optionsRef.current.onVerifyStep ?? runStepChecks);
+    registerStepCheckpoint(optionsRef.current.onCheckpoint ?? createStepCheckpoint);
   }, []);
 
   // Computed values
@@ -144,6 +153,10 @@ export function useAutoExecution(options: UseAutoExecutionOptions = {}): UseAuto
     updateAutoExecutionConfig({ pauseOnDangerousActions: !enabled });
   }, []);
 
+  const setMaxFixAttempts = useCallback((max: number) => {
+    updateAutoExecutionConfig({ maxFixAttempts: max });
+  }, []);
+
   // Helpers
   const getPauseReasonMessage = useCallback((reason: PauseReason | null): string => {
     if (!reason) {
@@ -158,6 +171,7 @@ export function useAutoExecution(options: UseAutoExecutionOptions = {}): UseAuto
       step_timeout: 'Step execution timed out',
       dangerous_action: 'Dangerous action detected - confirmation needed',
       plan_complete: 'Plan execution completed',
+      interrupted: 'Execution was interrupted by a page reload - resume to continue after the last completed step',
     };
 
     return messages[reason] || 'Unknown pause reason';
@@ -202,6 +216,7 @@ export function useAutoExecution(options: UseAutoExecutionOptions = {}): UseAuto
     setMaxSteps,
     setTokenBudget,
     setAutoApprove,
+    setMaxFixAttempts,
 
     // Helpers
     getPauseReasonMessage,
@@ -0,0 +1,106 @@
+/**
+ * useZoomMockApi
+ *
+ * React hook for pointing the current project at the mock Zoom REST API.
+ * Writes VITE_ZOOM_API_BASE_URL and VITE_ZOOM_MOCK_ACCESS_TOKEN to the
+ * project's .env.local so generated apps call /api/zoom-mock instead of
+ * api.zoom.us while running in the preview.
+ */
+
+import { useCallback } from 'react';
+import { useStore } from '@nanostores/react';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { isConfiguringMockApi, issueZoomMockToken } from '~/lib/stores/zoom';
+import { WORK_DIR } from '~/utils/constants';
+
+const ENV_PATH = `${WORK_DIR}/.env.local`;
+const MANIFEST_PATH = `${WORK_DIR}/public/manifest.json`;
+
+export const ZOOM_API_BASE_URL_ENV = 'VITE_ZOOM_API_BASE_URL';
+export const ZOOM_MOCK_TOKEN_ENV = 'VITE_ZOOM_MOCK_ACCESS_TOKEN';
+
+const MOCK_BLOCK_START = '# >>> Mock Zoom API (managed by Settings > Zoom)';
+const MOCK_BLOCK_END = '# <<< Mock Zoom API';
+
+function readFile(path: string): string | null {
+  const file = workbenchStore.files.get()[path];
+  return file && file.type === 'file' && !file.isBinary ? file.content : null;
+}
+
+function readManifestScopes(): string[] {
+  try {
+    const scopes = (JSON.parse(readFile(MANIFEST_PATH) || '{}') as { oauth?: { scopes?: unknown } }).oauth?.scopes;
+    return Array.isArray(scopes) ? scopes.filter((scope): scope is string => typeof scope === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Replace (or remove, when block is null) the managed mock block in an env file
+ */
+function withMockBlock(content: string, block: string | null): string {
+  const start = content.indexOf(MOCK_BLOCK_START);
+  const end = content.indexOf(MOCK_BLOCK_END);
+  const stripped =
+    start >= 0 && end > start ? content.slice(0, start) + content.slice(end + MOCK_BLOCK_END.length) : content;
+  const base = stripped.replace(/\n{3,}/g, '\n\n').trimEnd();
+
+  if (!block) {
+    return base ? `${base}\n` : '';
+  }
+
+  return `${base ? `${base}\n\n` : ''}${block}\n`;
+}
+
+export interface UseZoomMockApiReturn {
+  isConfiguring: boolean;
+
+  /** Whether the project's .env.local currently points at the mock API */
+  isEnabled: () => boolean;
+
+  /** Issue a token for the manifest scopes (or the given ones) and write .env.local */
+  enable: (scopes?: string[]) => Promise<boolean>;
+  disable: () => Promise<void>;
+}
+
+export function useZoomMockApi(): UseZoomMockApiReturn {
+  const isConfiguring = useStore(isConfiguringMockApi);
+
+  const isEnabled = useCallback(() => (readFile(ENV_PATH) || '').includes(MOCK_BLOCK_START), []);
+
+  const enable = useCallback(async (scopes?: string[]) => {
+    isConfiguringMockApi.set(true);
+
+    try {
+      const token = await issueZoomMockToken(scopes || readManifestScopes());
+
+      if (!token) {
+        return false;
+      }
+
+      const block = [
+        MOCK_BLOCK_START,
+        `${ZOOM_API_BASE_URL_ENV}=${window.location.origin}/api/zoom-mock/v2`,
+        `${ZOOM_MOCK_TOKEN_ENV}=${token}`,
+        MOCK_BLOCK_END,
+      ].join('\n');
+
+      await workbenchStore.createFile(ENV_PATH, withMockBlock(readFile(ENV_PATH) || '', block));
+
+      return true;
+    } finally {
+      isConfiguringMockApi.set(false);
+    }
+  }, []);
+
+  const disable = useCallback(async () => {
+    const content = readFile(ENV_PATH);
+
+    if (content !== null) {
+      await workbenchStore.createFile(ENV_PATH, withMockBlock(content, null));
+    }
+  }, []);
+
+  return { isConfiguring, isEnabled, enable, disable };
+}
@@ -0,0 +1,103 @@
+/**
+ * useZoomScopeAnalysis
+ *
+ * React hook for checking the current project's Zoom scopes and SDK
+ * capabilities against public/manifest.json. Used by the Zoom settings tab
+ * and as a pre-deploy check.
+ */
+
+import { useCallback } from 'react';
+import { useStore } from '@nanostores/react';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { analyzeZoomProjectScopes, isAnalyzingScopes, zoomScopeReport } from '~/lib/stores/zoom';
+import type { ZoomScopeReport } from '~/lib/services/zoom-scope-analyzer';
+import { WORK_DIR } from '~/utils/constants';
+
+const MANIFEST_PATH = `${WORK_DIR}/public/manifest.json`;
+
+/**
+ * Collect text files from the workbench, keyed by path relative to the project root
+ */
+function getProjectFiles(): Record<string, string> {
+  const files: Record<string, string> = {};
+
+  for (const [path, dirent] of Object.entries(workbenchStore.files.get())) {
+    if (dirent?.type === 'file' && !dirent.isBinary) {
+      files[path.replace(`${WORK_DIR}/`, '')] = dirent.content;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Read the scopes declared in public/manifest.json (null if the project is not a Zoom App)
+ */
+function getManifestScopes(): string[] | null {
+  const manifest = workbenchStore.files.get()[MANIFEST_PATH];
+
+  if (!manifest || manifest.type !== 'file') {
+    return null;
+  }
+
+  try {
+    const scopes = (JSON.parse(manifest.content) as { oauth?: { scopes?: unknown } }).oauth?.scopes;
+    return Array.isArray(scopes) ? scopes.filter((scope): scope is string => typeof scope === 'string') : [];
+  } catch {
+    return null;
+  }
+}
+
+export interface UseZoomScopeAnalysisReturn {
+  report: ZoomScopeReport | null;
+  isAnalyzing: boolean;
+
+  /** Whether the current project has a public/manifest.json */
+  isZoomProject: () => boolean;
+  analyze: () => Promise<ZoomScopeReport | null>;
+
+  /**
+   * Run the analysis and ask for confirmation when scopes or capabilities are missing
+   * Resolves to true when deploying should continue.
+   */
+  confirmBeforeDeploy: () => Promise<boolean>;
+}
+
+export function useZoomScopeAnalysis(): UseZoomScopeAnalysisReturn {
+  const report = useStore(zoomScopeReport);
+  const isAnalyzing = useStore(isAnalyzingScopes);
+
+  const isZoomProject = useCallback(() => getManifestScopes() !== null, []);
+
+  const analyze = useCallback(async () => {
+    const manifestScopes = getManifestScopes();
+
+    if (manifestScopes === null) {
+      return null;
+    }
+
+    return analyzeZoomProjectScopes(getProjectFiles(), manifestScopes);
+  }, []);
+
+  const confirmBeforeDeploy = useCallback(async () => {
+    const result = await analyze();
+
+    // Not a Zoom project, or the analysis could not run: do not block the deploy
+    if (!result || !result.hasIssues) {
+      return true;
+    }
+
+    const problems = [
+      result.missingScopes.length > 0 ? `Missing scopes: ${result.missingScopes.join(', ')}` : '',
+      result.capabilities.missing.length > 0
+        ? `Capabilities used but not in zoomSdk.config(): ${result.capabilities.missing.join(', ')}`
+        : '',
+    ].filter(Boolean);
+
+    return confirm(
+      `The Zoom scope check found problems that will cause 4700 errors in the Zoom client:\n\n${problems.join('\n')}\n\nDeploy anyway?`,
+    );
+  }, [analyze]);
+
+  return { report, isAnalyzing, isZoomProject, analyze, confirmBeforeDeploy };
+}
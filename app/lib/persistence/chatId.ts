@@ -0,0 +1,7 @@
+import { atom } from 'nanostores';
+
+/**
+ * Id of the open chat. It lives apart from useChatHistory, so stores the workbench
+ * imports can read it without importing the workbench back
+ */
+export const chatId = atom<string | undefined>(undefined);
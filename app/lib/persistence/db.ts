@@ -1,7 +1,7 @@
 import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
-import type { Snapshot } from './types'; // Import Snapshot type
+import type { PlanRecord, Snapshot } from './types'; // Import Snapshot type
 
 export interface IChatMetadata {
   gitUrl: string;
@@ -19,7 +19,7 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   }
 
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 2);
+    const request = indexedDB.open('boltHistory', 3);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -38,6 +38,13 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
           db.createObjectStore('snapshots', { keyPath: 'chatId' });
         }
       }
+
+      if (oldVersion < 3) {
+        if (!db.objectStoreNames.contains('plans')) {
+          const store = db.createObjectStore('plans', { keyPath: 'id' });
+          store.createIndex('chatId', 'chatId', { unique: false });
+        }
+      }
     };
 
     request.onsuccess = (event: Event) => {
@@ -123,18 +130,23 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
 
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(['chats', 'snapshots'], 'readwrite'); // Add snapshots store to transaction
+    const transaction = db.transaction(['chats', 'snapshots', 'plans'], 'readwrite'); // Add snapshots store to transaction
     const chatStore = transaction.objectStore('chats');
     const snapshotStore = transaction.objectStore('snapshots');
+    const planStore = transaction.objectStore('plans');
 
     const deleteChatRequest = chatStore.delete(id);
     const deleteSnapshotRequest = snapshotStore.delete(id); // Also delete snapshot
+    const deleteCheckpointsRequest = snapshotStore.delete(getSnapshotPrefixRange(`${id}:`)); // Plan step checkpoints
+    const planCursorRequest = planStore.index('chatId').openCursor(IDBKeyRange.only(id)); // And the chat's plans
 
     let chatDeleted = false;
     let snapshotDeleted = false;
+    let checkpointsDeleted = false;
+    let plansDeleted = false;
 
     const checkCompletion = () => {
-      if (chatDeleted && snapshotDeleted) {
+      if (chatDeleted && snapshotDeleted && checkpointsDeleted && plansDeleted) {
         resolve(undefined);
       }
     };
@@ -159,6 +171,25 @@ export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
       }
     };
 
+    deleteCheckpointsRequest.onsuccess = () => {
+      checkpointsDeleted = true;
+      checkCompletion();
+    };
+    deleteCheckpointsRequest.onerror = () => reject(deleteCheckpointsRequest.error);
+
+    planCursorRequest.onsuccess = () => {
+      const cursor = planCursorRequest.result;
+
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      } else {
+        plansDeleted = true;
+        checkCompletion();
+      }
+    };
+    planCursorRequest.onerror = () => reject(planCursorRequest.error);
+
     transaction.oncomplete = () => {
       // This might resolve before checkCompletion if one operation finishes much faster
     };
@@ -341,3 +372,59 @@ export async function deleteSnapshot(db: IDBDatabase, chatId: string): Promise<v
     };
   });
 }
+
+// Plan step checkpoints are snapshots keyed under their chat, so they are deleted with it
+export function getPlanCheckpointPrefix(chatId: string, planId: string): string {
+  return `${chatId}:plan:${planId}:`;
+}
+
+// Snapshots whose key starts with the prefix
+function getSnapshotPrefixRange(prefix: string): IDBKeyRange {
+  return IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+}
+
+export async function deleteSnapshotsByPrefix(db: IDBDatabase, prefix: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('snapshots', 'readwrite');
+    const store = transaction.objectStore('snapshots');
+    const request = store.delete(getSnapshotPrefixRange(prefix));
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getPlans(db: IDBDatabase, chatId: string): Promise<PlanRecord[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('plans', 'readonly');
+    const store = transaction.objectStore('plans');
+    const request = store.index('chatId').getAll(chatId);
+
+    // Oldest plan first
+    request.onsuccess = () =>
+      resolve((request.result as PlanRecord[]).sort((a, b) => a.plan.createdAt - b.plan.createdAt));
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function setPlanRecord(db: IDBDatabase, record: PlanRecord): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('plans', 'readwrite');
+    const store = transaction.objectStore('plans');
+    const request = store.put(record);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function deletePlanRecord(db: IDBDatabase, planId: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('plans', 'readwrite');
+    const store = transaction.objectStore('plans');
+    const request = store.delete(planId);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
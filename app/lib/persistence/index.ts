@@ -1,3 +1,4 @@
 export * from './localStorage';
 export * from './db';
 export * from './useChatHistory';
+export * from './usePlanPersistence';
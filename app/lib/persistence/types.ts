@@ -1,7 +1,17 @@
 import type { FileMap } from '~/lib/stores/files';
+import type { ExecutionHistoryEntry } from '~/lib/services/autoExecutionService';
+import type { Plan } from '~/types/plan';
 
 export interface Snapshot {
   chatIndex: string;
   files: FileMap;
   summary?: string;
 }
+
+export interface PlanRecord {
+  id: string; // Plan id
+  chatId: string;
+  plan: Plan;
+  history: ExecutionHistoryEntry[];
+  updatedAt: number;
+}
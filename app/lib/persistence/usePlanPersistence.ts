@@ -0,0 +1,158 @@
+import { useStore } from '@nanostores/react';
+import { atom } from 'nanostores';
+import { useEffect, useRef } from 'react';
+import { toast } from 'react-toastify';
+import { executionHistory, resetAutoExecution, restoreInterruptedExecution } from '~/lib/services/autoExecutionService';
+import { clearPlan, planStore, restorePlan } from '~/lib/stores/plan';
+import type { Plan } from '~/types/plan';
+import { createScopedLogger } from '~/utils/logger';
+import { deletePlanRecord, deleteSnapshotsByPrefix, getPlanCheckpointPrefix, getPlans, setPlanRecord } from './db';
+import type { PlanRecord } from './types';
+import { chatId, db } from './useChatHistory';
+
+const logger = createScopedLogger('PlanPersistence');
+
+// Plans of the open chat, oldest first
+export const planHistory = atom<PlanRecord[]>([]);
+
+// The latest plan of a chat is opened again with the chat unless it already finished
+const UNFINISHED_PLAN_STATUSES: Plan['status'][] = ['draft', 'approved', 'executing'];
+
+let isRestoring = false;
+let lastSaved: { plan: Plan; history: PlanRecord['history']; chatId: string } | undefined;
+
+function persistCurrentPlan() {
+  const id = chatId.get();
+  const plan = planStore.get().currentPlan;
+  const history = executionHistory.get();
+
+  if (!db || !id || !plan || isRestoring) {
+    return;
+  }
+
+  // planStore also changes for the mode and other settings
+  if (lastSaved?.plan === plan && lastSaved.history === history && lastSaved.chatId === id) {
+    return;
+  }
+
+  lastSaved = { plan, history, chatId: id };
+
+  // The execution history can still hold the entries of the previous plan
+  const stepIds = new Set(plan.steps.map((step) => step.id));
+  const record: PlanRecord = {
+    id: plan.id,
+    chatId: id,
+    plan,
+    history: history.filter((entry) => stepIds.has(entry.stepId)),
+    updatedAt: Date.now(),
+  };
+
+  const records = planHistory.get();
+  const index = records.findIndex((r) => r.id === record.id);
+  planHistory.set(index === -1 ? [...records, record] : records.map((r, i) => (i === index ? record : r)));
+
+  setPlanRecord(db, record).catch((error) => logger.error('Failed to save plan:', error));
+}
+
+/**
+ * Make a stored plan the current plan
+ * A plan that was executing when the page went away is restored paused, ready to resume
+ * after its last completed step.
+ */
+export function openPlanRecord(record: PlanRecord) {
+  isRestoring = true;
+
+  try {
+    resetAutoExecution();
+
+    const plan = restorePlan(record.plan);
+
+    if (plan.status === 'executing') {
+      restoreInterruptedExecution(record.history);
+    } else {
+      executionHistory.set(record.history);
+    }
+  } finally {
+    isRestoring = false;
+  }
+
+  persistCurrentPlan();
+}
+
+export async function deletePlanFromHistory(record: PlanRecord) {
+  if (!db) {
+    return;
+  }
+
+  if (planStore.get().currentPlan?.id === record.id) {
+    clearPlan();
+    resetAutoExecution();
+  }
+
+  try {
+    await deletePlanRecord(db, record.id);
+    await deleteSnapshotsByPrefix(db, getPlanCheckpointPrefix(record.chatId, record.id));
+    planHistory.set(planHistory.get().filter((r) => r.id !== record.id));
+  } catch (error) {
+    logger.error('Failed to delete plan:', error);
+    toast.error('Failed to delete plan');
+  }
+}
+
+/**
+ * Keep the plans of the open chat and their execution history in IndexedDB
+ */
+export function usePlanPersistence() {
+  const currentChatId = useStore(chatId);
+  const previousChatId = useRef<string | undefined>(undefined);
+
+  useEffect(() => {
+    const previous = previousChatId.current;
+    previousChatId.current = currentChatId;
+
+    if (previous && previous !== currentChatId) {
+      clearPlan();
+      resetAutoExecution();
+    }
+
+    if (!db || !currentChatId) {
+      planHistory.set([]);
+      return undefined;
+    }
+
+    let cancelled = false;
+
+    getPlans(db, currentChatId)
+      .then((records) => {
+        if (cancelled) {
+          return;
+        }
+
+        planHistory.set(records);
+
+        const latest = records.at(-1);
+
+        if (!planStore.get().currentPlan && latest && UNFINISHED_PLAN_STATUSES.includes(latest.plan.status)) {
+          openPlanRecord(latest);
+        } else {
+          // A plan made before a new chat got its id
+          persistCurrentPlan();
+        }
+      })
+      .catch((error) => logger.error('Failed to load plans:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentChatId]);
+
+  useEffect(() => {
+    const unsubscribePlan = planStore.listen(() => persistCurrentPlan());
+    const unsubscribeHistory = executionHistory.listen(() => persistCurrentPlan());
+
+    return () => {
+      unsubscribePlan();
+      unsubscribeHistory();
+    };
+  }, []);
+}
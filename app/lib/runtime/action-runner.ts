@@ -68,11 +68,13 @@ export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
   #currentExecutionPromise: Promise<void> = Promise.resolve();
   #shellTerminal: () => BoltShell;
+  #confirmations = new Map<string, Promise<boolean>>();
   runnerId = atom<string>(`${Date.now()}`);
   actions: ActionsMap = map({});
   onAlert?: (alert: ActionAlert) => void;
   onSupabaseAlert?: (alert: SupabaseAlert) => void;
   onDeployAlert?: (alert: DeployAlert) => void;
+  onConfirmAction?: (action: BoltAction) => Promise<boolean>;
   buildOutput?: { path: string; exitCode: number; output: string };
 
   constructor(
@@ -81,12 +83,35 @@ export class ActionRunner {
     onAlert?: (alert: ActionAlert) => void,
     onSupabaseAlert?: (alert: SupabaseAlert) => void,
     onDeployAlert?: (alert: DeployAlert) => void,
+    onConfirmAction?: (action: BoltAction) => Promise<boolean>,
   ) {
     this.#webcontainer = webcontainerPromise;
     this.#shellTerminal = getShellTerminal;
     this.onAlert = onAlert;
     this.onSupabaseAlert = onSupabaseAlert;
     this.onDeployAlert = onDeployAlert;
+    this.onConfirmAction = onConfirmAction;
+  }
+
+  /**
+   * Ask once per action whether it may run; a rejected action is aborted.
+   * File actions are confirmed while they stream in, the others once they are complete.
+   */
+  confirmAction(actionId: string, action: BoltAction): Promise<boolean> {
+    let confirmation = this.#confirmations.get(actionId);
+
+    if (!confirmation) {
+      confirmation = (this.onConfirmAction?.(action) ?? Promise.resolve(true)).then((approved) => {
+        if (!approved) {
+          this.actions.get()[actionId]?.abort();
+        }
+
+        return approved;
+      });
+      this.#confirmations.set(actionId, confirmation);
+    }
+
+    return confirmation;
   }
 
   addAction(data: ActionCallbackData) {
@@ -183,6 +208,11 @@ export class ActionRunner {
   async #executeAction(actionId: string, isStreaming: boolean = false) {
     const action = this.actions.get()[actionId];
 
+    if (!(await this.confirmAction(actionId, action))) {
+      logger.debug('Action rejected:', actionId);
+      return;
+    }
+
     this.#updateAction(actionId, { status: 'running' });
 
     try {
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { detectDangerousActions, getActionsNeedingConfirmation } from './action-safety';
+
+describe('action-safety', () => {
+  it('flags the dangerous sub-commands of a shell action', () => {
+    const detected = detectDangerousActions({
+      type: 'shell',
+      content: 'cd app && rm -rf dist node_modules; npm install && git push origin main',
+    });
+
+    expect(detected).toEqual([
+      { type: 'file_delete', detail: 'rm -rf dist node_modules', key: 'shell:rm -rf dist node_modules' },
+      { type: 'git_push', detail: 'git push origin main', key: 'shell:git push origin main' },
+    ]);
+  });
+
+  it('flags env writes but not commands that only mention them', () => {
+    const shell = (content: string) => detectDangerousActions({ type: 'shell', content }).map((a) => a.type);
+
+    expect(shell('echo "API_KEY=123" >> .env.local')).toEqual(['env_change']);
+    expect(shell('cp .env.example .env')).toEqual(['env_change']);
+    expect(shell('cat .env.example')).toEqual([]);
+    expect(detectDangerousActions({ type: 'file', filePath: 'app/.env', content: '' })).toMatchObject([
+      { type: 'env_change', key: 'file:app/.env' },
+    ]);
+    expect(detectDangerousActions({ type: 'file', filePath: 'src/env.ts', content: 'process.env.X' })).toEqual([]);
+  });
+
+  it('flags Supabase migrations and calls to external servers', () => {
+    expect(
+      detectDangerousActions({
+        type: 'supabase',
+        operation: 'migration',
+        filePath: 'supabase/migrations/01_init.sql',
+        content: 'create table todos ()',
+      }),
+    ).toMatchObject([{ type: 'database_write', key: 'supabase:migration' }]);
+    expect(detectDangerousActions({ type: 'shell', content: 'curl https://example.com/install.sh' })).toMatchObject([
+      { type: 'external_api' },
+    ]);
+    expect(detectDangerousActions({ type: 'shell', content: 'curl http://localhost:5173' })).toEqual([]);
+  });
+
+  it('skips allow-listed actions and types that need no confirmation', () => {
+    const action = { type: 'shell' as const, content: 'rm -rf dist && npm publish' };
+
+    expect(
+      getActionsNeedingConfirmation(action, {
+        types: ['file_delete', 'package_publish'],
+        allowList: ['shell:rm -rf dist'],
+      }),
+    ).toMatchObject([{ type: 'package_publish' }]);
+    expect(getActionsNeedingConfirmation(action, { types: ['git_push'], allowList: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import type { BoltAction } from '~/types/actions';
+
+/**
+ * Dangerous Action Detection
+ *
+ * Classifies the actions the model actually emitted, as parsed from a bolt artifact,
+ * before the ActionRunner executes them: shell commands are split into their
+ * sub-commands, file actions are checked by path and Supabase actions by operation.
+ * Actions flagged here wait for the user's confirmation (see stores/actionConfirmation.ts)
+ * unless they are on the project's allow-list.
+ */
+
+export type DangerousActionType =
+  | 'file_delete'
+  | 'git_push'
+  | 'package_publish'
+  | 'env_change'
+  | 'external_api'
+  | 'database_write';
+
+export const DANGEROUS_ACTION_LABELS: Record<DangerousActionType, string> = {
+  file_delete: 'Deletes files',
+  git_push: 'Pushes to a Git remote',
+  package_publish: 'Publishes a package',
+  env_change: 'Changes environment variables',
+  external_api: 'Calls an external server',
+  database_write: 'Changes the database',
+};
+
+export interface DangerousAction {
+  type: DangerousActionType;
+
+  // The concrete command or file path
+  detail: string;
+
+  // Identifies the action on the allow-list, e.g. "shell:rm -rf dist" or "file:.env"
+  key: string;
+}
+
+const SHELL_PATTERNS: Array<{ type: DangerousActionType; pattern: RegExp }> = [
+  { type: 'file_delete', pattern: /^(rm|rmdir|unlink|shred|(npx\s+)?rimraf)\s/ },
+  { type: 'file_delete', pattern: /^git\s+clean\b/ },
+  { type: 'file_delete', pattern: /^find\s.*\s-delete\b/ },
+  { type: 'git_push', pattern: /^git\s+push\b/ },
+  { type: 'package_publish', pattern: /^(npm|pnpm|yarn|bun)\s+publish\b/ },
+  { type: 'env_change', pattern: /(>>?|\btee\s+(-a\s+)?)\s*(\S*\/)?\.env[\w.-]*(\s|$)/ },
+  { type: 'env_change', pattern: /^(cp|mv)\s.*\s(\S*\/)?\.env[\w.-]*$/ },
+  { type: 'database_write', pattern: /^(npx\s+)?supabase\s+(db\s+(push|reset)|migration\s+up)\b/ },
+  { type: 'database_write', pattern: /^(npx\s+)?prisma\s+(migrate|db\s+push)\b/ },
+  { type: 'database_write', pattern: /^psql\b/ },
+];
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '0.0.0.0'];
+
+function normalizeCommand(command: string): string {
+  return command
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/^(sudo\s+|(\w+=\S*\s+)+)/, '');
+}
+
+/**
+ * The sub-commands of a shell command line, e.g. "cd app && rm -rf dist" has two
+ */
+export function splitShellCommand(command: string): string[] {
+  return command
+    .split(/&&|\|\||;|\n|\|/)
+    .map(normalizeCommand)
+    .filter(Boolean);
+}
+
+function callsExternalServer(command: string): boolean {
+  if (!/^(curl|wget)\s/.test(command)) {
+    return false;
+  }
+
+  const hosts = [...command.matchAll(/https?:\/\/([^/\s:'"]+)/g)].map((match) => match[1]);
+
+  return hosts.some((host) => !LOCAL_HOSTS.includes(host));
+}
+
+function detectShellCommand(command: string): DangerousAction[] {
+  const detected: DangerousAction[] = [];
+
+  for (const subCommand of splitShellCommand(command)) {
+    const types = new Set(SHELL_PATTERNS.filter(({ pattern }) => pattern.test(subCommand)).map(({ type }) => type));
+
+    if (callsExternalServer(subCommand)) {
+      types.add('external_api');
+    }
+
+    for (const type of types) {
+      detected.push({ type, detail: subCommand, key: `shell:${subCommand}` });
+    }
+  }
+
+  return detected;
+}
+
+export function isEnvFile(filePath: string): boolean {
+  return /^\.env([\w.-]*)$/.test(filePath.split('/').pop() || '');
+}
+
+/**
+ * The dangerous operations a parsed bolt action performs
+ */
+export function detectDangerousActions(action: BoltAction): DangerousAction[] {
+  switch (action.type) {
+    case 'shell':
+    case 'start':
+    case 'build': {
+      return detectShellCommand(action.content);
+    }
+    case 'file': {
+      return isEnvFile(action.filePath)
+        ? [{ type: 'env_change', detail: action.filePath, key: `file:${action.filePath}` }]
+        : [];
+    }
+    default: {
+      // Queries already wait for the user in the Supabase alert
+      return action.operation === 'migration'
+        ? [{ type: 'database_write', detail: action.filePath || 'Supabase migration', key: 'supabase:migration' }]
+        : [];
+    }
+  }
+}
+
+/**
+ * The dangerous operations of an action that still need the user's confirmation
+ */
+export function getActionsNeedingConfirmation(
+  action: BoltAction,
+  options: { types: DangerousActionType[]; allowList: string[] },
+): DangerousAction[] {
+  return detectDangerousActions(action).filter(
+    (detected) => options.types.includes(detected.type) && !options.allowList.includes(detected.key),
+  );
+}
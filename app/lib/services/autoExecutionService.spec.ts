@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { approvePlan, clearPlan, planStore, restorePlan, revertToStep, setAutoExecute } from '~/lib/stores/plan';
+import type { Plan, PlanCheckResult, PlanStep, PlanStepStatus } from '~/types/plan';
+import {
+  autoExecutionState,
+  executionHistory,
+  registerStepCheckpoint,
+  registerStepExecutor,
+  registerStepVerifier,
+  resetAutoExecution,
+  restoreInterruptedExecution,
+  resumeExecution,
+  startAutoExecution,
+  type ExecutionHistoryEntry,
+  type StepFixRequest,
+} from './autoExecutionService';
+
+function step(id: string, status: PlanStepStatus): PlanStep {
+  return { id, order: 0, title: id, description: '', status };
+}
+
+const interruptedPlan: Plan = {
+  id: 'plan',
+  chatId: 'chat',
+  title: 'Plan',
+  summary: '',
+  steps: [step('setup', 'complete'), step('api', 'in-progress'), step('client', 'pending')],
+  createdAt: 1,
+  status: 'executing',
+  currentStepIndex: 1,
+};
+
+const interruptedHistory: ExecutionHistoryEntry[] = [
+  { stepId: 'setup', stepIndex: 0, stepTitle: 'setup', startTime: 1, endTime: 2, tokensUsed: 500, status: 'success' },
+  { stepId: 'api', stepIndex: 1, stepTitle: 'api', startTime: 3, endTime: null, tokensUsed: 0, status: 'running' },
+];
+
+describe('restoring an interrupted plan', () => {
+  afterEach(() => {
+    clearPlan();
+    resetAutoExecution();
+  });
+
+  it('should restore the plan paused with the unfinished step pending again', () => {
+    restorePlan(interruptedPlan);
+    restoreInterruptedExecution(interruptedHistory);
+
+    expect(planStore.get().currentPlan?.steps.map((s) => s.status)).toEqual(['complete', 'pending', 'pending']);
+    expect(autoExecutionState.get()).toMatchObject({
+      isAutoExecuting: true,
+      isPaused: true,
+      pauseReason: 'interrupted',
+      stepsExecuted: 1,
+      totalTokensUsed: 500,
+    });
+    expect(executionHistory.get()[1]).toMatchObject({ status: 'paused', endTime: 3 });
+  });
+
+  it('should resume after the last completed step', async () => {
+    const executor = vi.fn(async (_step: PlanStep, _index: number) => ({ tokensUsed: 100, success: true }));
+    registerStepExecutor(executor);
+
+    restorePlan(interruptedPlan);
+    restoreInterruptedExecution(interruptedHistory);
+    await resumeExecution();
+
+    expect(executor.mock.calls.map(([s]) => s.id)).toEqual(['api', 'client']);
+    expect(planStore.get().currentPlan?.status).toBe('completed');
+    expect(executionHistory.get().map((e) => e.status)).toEqual(['success', 'paused', 'success', 'success']);
+  });
+});
+
+describe('acceptance checks', () => {
+  const buildCheck = { type: 'command' as const, command: 'npm run build' };
+  const checkResult = (passed: boolean): PlanCheckResult[] => [
+    { check: buildCheck, passed, output: passed ? '' : 'error TS2304' },
+  ];
+
+  function startPlan() {
+    restorePlan({
+      ...interruptedPlan,
+      steps: [{ ...step('build', 'pending'), checks: [buildCheck] }],
+      status: 'draft',
+    });
+    approvePlan();
+    setAutoExecute(true);
+
+    return startAutoExecution();
+  }
+
+  afterEach(() => {
+    clearPlan();
+    resetAutoExecution();
+  });
+
+  it('should send the failed checks back to the executor until they pass', async () => {
+    const executor = vi.fn(async (_step: PlanStep, _index: number, _fix?: StepFixRequest) => ({
+      tokensUsed: 100,
+      success: true,
+    }));
+    const verifier = vi.fn().mockResolvedValueOnce(checkResult(false)).mockResolvedValueOnce(checkResult(true));
+    registerStepExecutor(executor);
+    registerStepVerifier(verifier);
+
+    await startPlan();
+
+    expect(executor.mock.calls[1][2]).toMatchObject({ attempt: 1, failures: checkResult(false) });
+    expect(planStore.get().currentPlan?.steps[0]).toMatchObject({ status: 'complete', fixAttempts: 1 });
+    expect(executionHistory.get()[0]).toMatchObject({ status: 'success', tokensUsed: 200, fixAttempts: 1 });
+  });
+
+  it('should fail the step once the fix attempts are used up', async () => {
+    const executor = vi.fn(async (_step: PlanStep, _index: number, _fix?: StepFixRequest) => ({
+      tokensUsed: 100,
+      success: true,
+    }));
+    registerStepExecutor(executor);
+    registerStepVerifier(vi.fn().mockResolvedValue(checkResult(false)));
+
+    await startPlan();
+
+    expect(executor).toHaveBeenCalledTimes(3);
+    expect(planStore.get().currentPlan?.steps[0]).toMatchObject({
+      status: 'failed',
+      error: 'Acceptance checks failed after 2 fix attempts: `npm run build` succeeds',
+      checkResults: checkResult(false),
+    });
+  });
+});
+
+describe('reverting to a step checkpoint', () => {
+  afterEach(() => {
+    clearPlan();
+    resetAutoExecution();
+  });
+
+  it('should reset the step and every step that started after it', async () => {
+    const executor = vi.fn(async (_step: PlanStep, _index: number) => ({ tokensUsed: 100, success: true }));
+    const checkpoint = vi.fn(async (_step: PlanStep) => undefined);
+    registerStepExecutor(executor);
+    registerStepCheckpoint(checkpoint);
+
+    restorePlan({ ...interruptedPlan, steps: [step('setup', 'complete'), step('api', 'pending')], status: 'draft' });
+    approvePlan();
+    setAutoExecute(true);
+    await startAutoExecution();
+
+    expect(checkpoint.mock.calls.map(([s]) => s.id)).toEqual(['api']);
+
+    revertToStep(1);
+
+    expect(planStore.get().currentPlan).toMatchObject({ status: 'executing' });
+    expect(planStore.get().currentPlan?.steps.map((s) => s.status)).toEqual(['complete', 'pending']);
+    expect(planStore.get().currentPlan?.steps[1].startedAt).toBeUndefined();
+  });
+});
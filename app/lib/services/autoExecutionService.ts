@@ -7,8 +7,12 @@ import {
   getNextPendingStep,
   executionPaused,
   currentStepIndex,
+  setAutoExecute,
+  setStepCheckResults,
 } from '~/lib/stores/plan';
-import type { PlanStep } from '~/types/plan';
+import type { DangerousActionType } from '~/lib/services/action-safety';
+import type { PlanCheckResult, PlanStep } from '~/types/plan';
+import { describeCheck } from '~/utils/planChecks';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('AutoExecution');
@@ -25,19 +29,14 @@ const logger = createScopedLogger('AutoExecution');
 export interface AutoExecutionConfig {
   maxSteps: number; // Maximum steps to execute automatically
   maxTotalTokens: number; // Total token budget
-  pauseOnDangerousActions: boolean; // Pause before dangerous operations
+  pauseOnDangerousActions: boolean; // Confirm dangerous actions before they run
   errorThreshold: number; // Pause after N consecutive errors
   stepTimeout: number; // Max milliseconds per step
   requireConfirmationFor: DangerousActionType[]; // Actions needing manual approval
+  maxFixAttempts: number; // Fix attempts after failed acceptance checks before a step fails
 }
 
-export type DangerousActionType =
-  | 'file_delete'
-  | 'git_push'
-  | 'package_publish'
-  | 'env_change'
-  | 'external_api'
-  | 'database_write';
+export type { DangerousActionType };
 
 // Execution state
 export interface AutoExecutionState {
@@ -58,7 +57,8 @@ export type PauseReason =
   | 'error_threshold'
   | 'step_timeout'
   | 'dangerous_action'
-  | 'plan_complete';
+  | 'plan_complete'
+  | 'interrupted';
 
 // Execution history entry
 export interface ExecutionHistoryEntry {
@@ -70,6 +70,7 @@ export interface ExecutionHistoryEntry {
   tokensUsed: number;
   status: 'running' | 'success' | 'error' | 'skipped' | 'paused';
   error?: string;
+  fixAttempts?: number;
 }
 
 // Default configuration
@@ -79,7 +80,8 @@ export const DEFAULT_AUTO_EXECUTION_CONFIG: AutoExecutionConfig = {
   pauseOnDangerousActions: true,
   errorThreshold: 2,
   stepTimeout: 120000, // 2 minutes
-  requireConfirmationFor: ['file_delete', 'git_push', 'package_publish'],
+  requireConfirmationFor: ['file_delete', 'git_push', 'package_publish', 'env_change', 'database_write'],
+  maxFixAttempts: 2,
 };
 
 // Stores
@@ -98,17 +100,30 @@ export const autoExecutionState = map<AutoExecutionState>({
 
 export const executionHistory = atom<ExecutionHistoryEntry[]>([]);
 
+// Passed to the step executor when the acceptance checks of a step failed
+export interface StepFixRequest {
+  attempt: number;
+  failures: PlanCheckResult[];
+}
+
+export interface StepResult {
+  tokensUsed: number;
+  success: boolean;
+  error?: string;
+}
+
 // Callbacks for UI integration
-type StepCallback = (
-  step: PlanStep,
-  index: number,
-) => Promise<{ tokensUsed: number; success: boolean; error?: string }>;
+type StepCallback = (step: PlanStep, index: number, fix?: StepFixRequest) => Promise<StepResult>;
 type ProgressCallback = (state: AutoExecutionState, step: PlanStep | null) => void;
 type ConfirmationCallback = (step: PlanStep, reason: string) => Promise<boolean>;
+type VerifyCallback = (step: PlanStep) => Promise<PlanCheckResult[]>;
+type CheckpointCallback = (step: PlanStep) => Promise<void>;
 
 let executeStepCallback: StepCallback | null = null;
 let progressCallback: ProgressCallback | null = null;
 let confirmationCallback: ConfirmationCallback | null = null;
+let verifyStepCallback: VerifyCallback | null = null;
+let checkpointCallback: CheckpointCallback | null = null;
 
 // Register callbacks
 export function registerStepExecutor(callback: StepCallback) {
@@ -123,44 +138,22 @@ export function registerConfirmationCallback(callback: ConfirmationCallback) {
   confirmationCallback = callback;
 }
 
-// Dangerous action patterns
-const DANGEROUS_PATTERNS: Record<DangerousActionType, RegExp[]> = {
-  file_delete: [/rm\s+-rf/, /unlink\(/, /fs\.rm/, /deleteFile/, /removeSync/],
-  git_push: [/git\s+push/, /git\s+push\s+--force/, /git\s+push\s+-f/],
-  package_publish: [/npm\s+publish/, /pnpm\s+publish/, /yarn\s+publish/],
-  env_change: [/process\.env/, /\.env/, /setEnv/],
-  external_api: [/fetch\(.*https?:\/\/(?!localhost)/, /axios\./, /http\.request/],
-  database_write: [/INSERT\s+INTO/, /UPDATE\s+/, /DELETE\s+FROM/, /DROP\s+TABLE/],
-};
-
-// Detect dangerous actions in step content
-export function detectDangerousActions(stepDescription: string): DangerousActionType[] {
-  const detected: DangerousActionType[] = [];
-
-  for (const [actionType, patterns] of Object.entries(DANGEROUS_PATTERNS)) {
-    for (const pattern of patterns) {
-      if (pattern.test(stepDescription)) {
-        detected.push(actionType as DangerousActionType);
-        break;
-      }
-    }
-  }
+export function registerStepVerifier(callback: VerifyCallback) {
+  verifyStepCallback = callback;
+}
 
-  return detected;
+export function registerStepCheckpoint(callback: CheckpointCallback) {
+  checkpointCallback = callback;
 }
 
 // Check if step requires confirmation
 export function requiresConfirmation(step: PlanStep): { required: boolean; reasons: string[] } {
-  const config = autoExecutionConfig.get();
   const reasons: string[] = [];
 
-  // Check for dangerous actions
-  const dangerousActions = detectDangerousActions(step.description);
-  const needsConfirmation = dangerousActions.filter((a) => config.requireConfirmationFor.includes(a));
-
-  if (needsConfirmation.length > 0 && config.pauseOnDangerousActions) {
-    reasons.push(`Contains dangerous operations: ${needsConfirmation.join(', ')}`);
-  }
+  /*
+   * Dangerous operations are confirmed once the model has emitted the concrete actions,
+   * see stores/actionConfirmation.ts
+   */
 
   // Check for high token estimate
   if (step.estimatedTokens && step.estimatedTokens > 5000) {
@@ -283,6 +276,13 @@ async function executeStep(step: PlanStep, stepIndex: number): Promise<void> {
 
   logger.info('Executing step', { index: stepIndex, title: step.title });
 
+  // A step without a checkpoint can still run, it just cannot be reverted
+  try {
+    await checkpointCallback?.(step);
+  } catch (error) {
+    logger.error('Failed to create checkpoint', { step: step.title, error });
+  }
+
   // Record start
   const startTime = Date.now();
   autoExecutionState.setKey('currentStepStartTime', startTime);
@@ -301,22 +301,21 @@ async function executeStep(step: PlanStep, stepIndex: number): Promise<void> {
   };
   executionHistory.set([...executionHistory.get(), historyEntry]);
 
-  // Set up timeout
-  const timeoutPromise = new Promise<{ tokensUsed: number; success: boolean; error: string }>((resolve) => {
-    setTimeout(() => {
-      resolve({ tokensUsed: 0, success: false, error: 'Step execution timeout' });
-    }, config.stepTimeout);
-  });
-
   try {
-    // Execute with timeout
-    const result = await Promise.race([executeStepCallback(step, stepIndex), timeoutPromise]);
+    // Execute with timeout, then run the acceptance checks of the step
+    const executionResult = await withStepTimeout(executeStepCallback(step, stepIndex), config.stepTimeout);
+    const { fixAttempts, ...result } =
+      executionResult.success && step.checks?.length
+        ? await verifyStep(step, stepIndex, executionResult)
+        : { ...executionResult, fixAttempts: undefined };
 
     const endTime = Date.now();
 
     // Update history
     const history = executionHistory.get();
-    const entryIndex = history.findIndex((e) => e.stepId === step.id);
+
+    // A retried step has an entry per attempt
+    const entryIndex = history.map((e) => e.stepId).lastIndexOf(step.id);
 
     if (entryIndex >= 0) {
       history[entryIndex] = {
@@ -325,6 +324,7 @@ async function executeStep(step: PlanStep, stepIndex: number): Promise<void> {
         tokensUsed: result.tokensUsed,
         status: result.success ? 'success' : 'error',
         error: result.error,
+        fixAttempts,
       };
       executionHistory.set([...history]);
     }
@@ -348,6 +348,7 @@ async function executeStep(step: PlanStep, stepIndex: number): Promise<void> {
       await executeNextStep();
     } else {
       failStep(stepIndex, result.error || 'Unknown error');
+      recordBlockedSteps(step);
       autoExecutionState.setKey('consecutiveErrors', currentState.consecutiveErrors + 1);
       autoExecutionState.setKey('lastError', result.error || 'Unknown error');
 
@@ -358,7 +359,7 @@ async function executeStep(step: PlanStep, stepIndex: number): Promise<void> {
         pauseExecution('error_threshold');
         logger.warn('Error threshold reached', { errors: currentState.consecutiveErrors + 1 });
       } else {
-        // Try next step (optional: could also retry or pause)
+        // Continue with the branches that do not depend on the failed step
         progressCallback?.(autoExecutionState.get(), null);
         await executeNextStep();
       }
@@ -366,12 +367,111 @@ async function executeStep(step: PlanStep, stepIndex: number): Promise<void> {
   } catch (error: any) {
     logger.error('Step execution threw exception', error);
     failStep(stepIndex, error.message);
+    recordBlockedSteps(step);
     autoExecutionState.setKey('consecutiveErrors', autoExecutionState.get().consecutiveErrors + 1);
     autoExecutionState.setKey('lastError', error.message);
     pauseExecution('error_threshold');
   }
 }
 
+function withStepTimeout(execution: Promise<StepResult>, timeout: number): Promise<StepResult> {
+  const timeoutPromise = new Promise<StepResult>((resolve) => {
+    setTimeout(() => {
+      resolve({ tokensUsed: 0, success: false, error: 'Step execution timeout' });
+    }, timeout);
+  });
+
+  return Promise.race([execution, timeoutPromise]);
+}
+
+/**
+ * Run the acceptance checks of an executed step; failures go back to the step executor
+ * until the checks pass or the fix attempts are used up
+ */
+async function verifyStep(
+  step: PlanStep,
+  stepIndex: number,
+  executionResult: StepResult,
+): Promise<StepResult & { fixAttempts: number }> {
+  const config = autoExecutionConfig.get();
+  let tokensUsed = executionResult.tokensUsed;
+
+  if (!verifyStepCallback || !executeStepCallback) {
+    logger.warn('No step verifier registered, skipping acceptance checks', { step: step.title });
+
+    return { ...executionResult, fixAttempts: 0 };
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const checkResults = await verifyStepCallback(step);
+    const failures = checkResults.filter((result) => !result.passed);
+
+    setStepCheckResults(step.id, checkResults, attempt);
+
+    if (failures.length === 0) {
+      logger.info('Acceptance checks passed', { step: step.title, fixAttempts: attempt });
+
+      return { tokensUsed, success: true, fixAttempts: attempt };
+    }
+
+    if (attempt >= config.maxFixAttempts) {
+      const failedChecks = failures.map((failure) => describeCheck(failure.check)).join('; ');
+
+      return {
+        tokensUsed,
+        success: false,
+        error: `Acceptance checks failed after ${attempt} fix attempt${attempt === 1 ? '' : 's'}: ${failedChecks}`,
+        fixAttempts: attempt,
+      };
+    }
+
+    logger.info('Acceptance checks failed, asking for a fix', { step: step.title, attempt: attempt + 1 });
+
+    const fixResult = await withStepTimeout(
+      executeStepCallback(step, stepIndex, { attempt: attempt + 1, failures }),
+      config.stepTimeout,
+    );
+    tokensUsed += fixResult.tokensUsed;
+
+    if (!fixResult.success) {
+      return { ...fixResult, tokensUsed, fixAttempts: attempt + 1 };
+    }
+  }
+}
+
+// Add the steps skipped because of a failed step to the history
+function recordBlockedSteps(failedStep: PlanStep): void {
+  const plan = planStore.get().currentPlan;
+  const blockedSteps = plan?.steps.filter((s) => s.blockedBy === failedStep.id) || [];
+
+  if (!plan || blockedSteps.length === 0) {
+    return;
+  }
+
+  const now = Date.now();
+
+  executionHistory.set([
+    ...executionHistory.get(),
+    ...blockedSteps.map(
+      (s): ExecutionHistoryEntry => ({
+        stepId: s.id,
+        stepIndex: plan.steps.indexOf(s),
+        stepTitle: s.title,
+        startTime: now,
+        endTime: now,
+        tokensUsed: 0,
+        status: 'skipped',
+        error: `Depends on failed step "${failedStep.title}"`,
+      }),
+    ),
+  ]);
+
+  logger.info('Skipped steps depending on failed step', {
+    step: failedStep.title,
+    skipped: blockedSteps.map((s) => s.title),
+  });
+}
+
 // Pause execution
 export function pauseExecution(reason: PauseReason = 'user_requested'): void {
   logger.info('Pausing auto-execution', { reason });
@@ -410,6 +510,33 @@ export async function resumeExecution(): Promise<void> {
   await executeNextStep();
 }
 
+// Restore the execution of a plan interrupted by a page reload; it stays paused until resumed
+export function restoreInterruptedExecution(history: ExecutionHistoryEntry[]): void {
+  const restoredHistory = history.map(
+    (e): ExecutionHistoryEntry => (e.status === 'running' ? { ...e, endTime: e.startTime, status: 'paused' } : e),
+  );
+  const successfulEntries = restoredHistory.filter((e) => e.status === 'success');
+
+  logger.info('Restoring interrupted auto-execution', { stepsExecuted: successfulEntries.length });
+
+  autoExecutionState.set({
+    isAutoExecuting: true,
+    isPaused: true,
+    currentStepStartTime: null,
+    totalTokensUsed: successfulEntries.reduce((sum, e) => sum + e.tokensUsed, 0),
+    stepsExecuted: successfulEntries.length,
+    consecutiveErrors: 0,
+    lastError: null,
+    pauseReason: 'interrupted',
+  });
+
+  executionHistory.set(restoredHistory);
+  executionPaused.set(true);
+
+  // Only auto-execution marks a plan as executing, so it was enabled before the reload
+  setAutoExecute(true);
+}
+
 // Stop execution completely
 export function stopAutoExecution(): void {
   logger.info('Stopping auto-execution');
@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearMCPAuthorization,
+  completeMCPAuthorization,
+  createMCPAuthFetch,
+  getMCPAccessToken,
+  getMCPServerAuth,
+  isMCPOAuthSession,
+  startMCPAuthorization,
+} from './mcp-oauth';
+import { getOAuthSessionByState } from './oauth-proxy';
+import { setSecretStorage, type StoredSecretRecord } from './project-store';
+import { MemoryRecordStorage } from './record-storage';
+
+const SERVER_URL = 'https://mcp.example.com/mcp';
+const AUTH_SERVER_URL = 'https://auth.example.com';
+const REDIRECT_URI = 'https://bolt.example.com/api/oauth/proxy/callback';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+function createAuthorizationServer() {
+  const requests: Array<{ url: string; body?: string }> = [];
+  let issuedTokens = 0;
+
+  const fetchMock = vi.fn(async (input: string | URL, init?: RequestInit) => {
+    const url = input.toString();
+    requests.push({ url, body: init?.body?.toString() });
+
+    if (url === 'https://mcp.example.com/.well-known/oauth-protected-resource/mcp') {
+      return json({ resource: SERVER_URL, authorization_servers: [AUTH_SERVER_URL] });
+    }
+
+    if (url === `${AUTH_SERVER_URL}/.well-known/oauth-authorization-server`) {
+      return json({
+        issuer: AUTH_SERVER_URL,
+        authorization_endpoint: `${AUTH_SERVER_URL}/authorize`,
+        token_endpoint: `${AUTH_SERVER_URL}/token`,
+        registration_endpoint: `${AUTH_SERVER_URL}/register`,
+        response_types_supported: ['code'],
+        code_challenge_methods_supported: ['S256'],
+      });
+    }
+
+    if (url === `${AUTH_SERVER_URL}/register`) {
+      return json({ ...JSON.parse(init!.body as string), client_id: 'registered-client' }, 201);
+    }
+
+    if (url === `${AUTH_SERVER_URL}/token`) {
+      issuedTokens++;
+
+      return json({
+        access_token: `access-${issuedTokens}`,
+        refresh_token: `refresh-${issuedTokens}`,
+        token_type: 'Bearer',
+        expires_in: 3600,
+      });
+    }
+
+    return new Response('Not found', { status: 404 });
+  });
+
+  return { fetchMock, requests };
+}
+
+async function authorize(serverName: string) {
+  const authorizationUrl = new URL(await startMCPAuthorization(serverName, SERVER_URL, REDIRECT_URI));
+  const session = getOAuthSessionByState(authorizationUrl.searchParams.get('state')!)!;
+  await completeMCPAuthorization(session, 'the-code');
+
+  return { authorizationUrl, session };
+}
+
+let secretStorage: MemoryRecordStorage<StoredSecretRecord>;
+
+beforeEach(() => {
+  secretStorage = new MemoryRecordStorage<StoredSecretRecord>();
+  setSecretStorage(secretStorage);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('MCP authorization flow', () => {
+  let server: ReturnType<typeof createAuthorizationServer>;
+
+  beforeEach(() => {
+    server = createAuthorizationServer();
+    vi.stubGlobal('fetch', server.fetchMock);
+  });
+
+  afterEach(async () => {
+    await clearMCPAuthorization('remote');
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should register a client and build a PKCE authorization URL for the resource', async () => {
+    const authorizationUrl = new URL(await startMCPAuthorization('remote', SERVER_URL, REDIRECT_URI));
+    const session = getOAuthSessionByState(authorizationUrl.searchParams.get('state')!);
+
+    expect(authorizationUrl.origin + authorizationUrl.pathname).toBe(`${AUTH_SERVER_URL}/authorize`);
+    expect(authorizationUrl.searchParams.get('client_id')).toBe('registered-client');
+    expect(authorizationUrl.searchParams.get('redirect_uri')).toBe(REDIRECT_URI);
+    expect(authorizationUrl.searchParams.get('code_challenge')).toBe(session?.codeChallenge);
+    expect(authorizationUrl.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(authorizationUrl.searchParams.get('resource')).toBe(SERVER_URL);
+    expect(session && isMCPOAuthSession(session)).toBe(true);
+  });
+
+  it('should keep the server name out of the session provider', async () => {
+    const authorizationUrl = new URL(await startMCPAuthorization("x'</script>", SERVER_URL, REDIRECT_URI));
+    const session = getOAuthSessionByState(authorizationUrl.searchParams.get('state')!);
+
+    expect(session?.provider).toBe('mcp');
+  });
+
+  it('should use the configured client instead of registering one', async () => {
+    const authorizationUrl = new URL(
+      await startMCPAuthorization('remote', SERVER_URL, REDIRECT_URI, { clientId: 'my-client', scopes: ['read'] }),
+    );
+
+    expect(authorizationUrl.searchParams.get('client_id')).toBe('my-client');
+    expect(authorizationUrl.searchParams.get('scope')).toBe('read');
+    expect(server.requests.some((request) => request.url.endsWith('/register'))).toBe(false);
+  });
+
+  it('should exchange the code with the session code verifier and store the tokens', async () => {
+    const { session } = await authorize('remote');
+    const tokenRequest = new URLSearchParams(server.requests.find((request) => request.url.endsWith('/token'))!.body);
+
+    expect(tokenRequest.get('code')).toBe('the-code');
+    expect(tokenRequest.get('code_verifier')).toBe(session.codeVerifier);
+    expect(await getMCPAccessToken('remote', SERVER_URL)).toBe('access-1');
+    expect(getMCPServerAuth('remote', SERVER_URL)?.status).toBe('authorized');
+  });
+
+  it('should not use tokens issued for another server URL', async () => {
+    await authorize('remote');
+
+    expect(await getMCPAccessToken('remote', 'https://other.example.com/mcp')).toBeUndefined();
+    expect(getMCPServerAuth('remote', 'https://other.example.com/mcp')).toBeUndefined();
+  });
+
+  it('should refresh tokens that are about to expire', async () => {
+    await authorize('remote');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 3600 * 1000);
+
+    expect(await getMCPAccessToken('remote', SERVER_URL)).toBe('access-2');
+
+    const refreshRequest = new URLSearchParams(server.requests.at(-1)!.body);
+
+    expect(refreshRequest.get('grant_type')).toBe('refresh_token');
+    expect(refreshRequest.get('refresh_token')).toBe('refresh-1');
+  });
+
+  it('should keep the tokens encrypted in the project store across restarts', async () => {
+    await authorize('remote');
+
+    const [record] = await secretStorage.list();
+    expect(JSON.stringify(record)).not.toContain('access-1');
+
+    vi.resetModules();
+
+    const store = await import('./project-store');
+    store.setSecretStorage(secretStorage);
+
+    const restarted = await import('./mcp-oauth');
+
+    expect(restarted.getMCPServerAuth('remote', SERVER_URL)).toBeUndefined();
+    expect(await restarted.getMCPAccessToken('remote', SERVER_URL)).toBe('access-1');
+    expect(restarted.getMCPServerAuth('remote', SERVER_URL)?.status).toBe('authorized');
+  });
+
+  it('should remove stored tokens on sign out', async () => {
+    await authorize('remote');
+    await clearMCPAuthorization('remote');
+
+    expect(await secretStorage.list()).toEqual([]);
+    expect(await getMCPAccessToken('remote', SERVER_URL)).toBeUndefined();
+  });
+
+  it('should reject the callback once the OAuth session has expired', async () => {
+    const authorizationUrl = new URL(await startMCPAuthorization('remote', SERVER_URL, REDIRECT_URI));
+    const session = getOAuthSessionByState(authorizationUrl.searchParams.get('state')!)!;
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(session.expiresAt + 1);
+
+    await expect(completeMCPAuthorization(session, 'the-code')).rejects.toThrow('expired or invalid');
+    expect(server.requests.some((request) => request.url.endsWith('/token'))).toBe(false);
+  });
+});
+
+describe('createMCPAuthFetch', () => {
+  afterEach(async () => {
+    await clearMCPAuthorization('remote');
+    vi.unstubAllGlobals();
+  });
+
+  it('should report that the server requires authorization after a 401', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('Unauthorized', { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } })),
+    );
+
+    const response = await createMCPAuthFetch('remote', SERVER_URL)(SERVER_URL, { method: 'POST' });
+
+    expect(response.status).toBe(401);
+    expect(getMCPServerAuth('remote', SERVER_URL)).toEqual({ status: 'required' });
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * MCP Server Authorization
+ *
+ * Runs the MCP authorization flow (OAuth 2.1 with PKCE and dynamic client registration)
+ * for remote MCP servers:
+ * 1. Discover the authorization server from the server's protected resource metadata
+ * 2. Register a client, unless the server config provides one
+ * 3. Redirect the user with a PKCE challenge; the code comes back to /api/oauth/proxy/callback
+ * 4. Exchange the code and keep the tokens per server, refreshing them before they expire
+ *
+ * Sessions, PKCE and the callback are shared with the OAuth proxy (oauth-proxy.ts); metadata
+ * discovery, registration and the token requests use the MCP SDK helpers. Tokens are kept
+ * encrypted in the project store (project-store.ts) so they survive restarts, with an
+ * in-memory cache in front; pending authorizations expire with their OAuth session.
+ */
+
+import {
+  discoverOAuthMetadata,
+  discoverOAuthProtectedResourceMetadata,
+  exchangeAuthorization,
+  refreshAuthorization,
+  registerClient,
+} from '@modelcontextprotocol/sdk/client/auth.js';
+import type {
+  OAuthClientInformation,
+  OAuthMetadata,
+  OAuthTokens as MCPOAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import type { FetchLike } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { checkResourceAllowed, resourceUrlFromServerUrl } from '@modelcontextprotocol/sdk/shared/auth-utils.js';
+import { createOAuthSession, type OAuthSession } from './oauth-proxy';
+import { deleteSecret, getSecret, storeSecret } from './project-store';
+
+// Provider of MCP server OAuth sessions; the server name stays out of it, as the callback page shows it
+const MCP_OAUTH_PROVIDER = 'mcp';
+
+// Refresh access tokens this long before they expire
+const TOKEN_REFRESH_MARGIN = 60 * 1000;
+
+export type MCPServerOAuthConfig = {
+  clientId?: string;
+  clientSecret?: string;
+  scopes?: string[];
+};
+
+export type MCPServerAuth = {
+  status: 'authorized' | 'required';
+  expiresAt?: number;
+  scope?: string;
+};
+
+type AuthorizationServer = {
+  url: string;
+  metadata?: OAuthMetadata;
+  resource?: URL;
+};
+
+type MCPServerCredentials = {
+  serverUrl: string;
+  authorizationServer: AuthorizationServer;
+  clientInformation: OAuthClientInformation;
+  tokens: MCPOAuthTokens;
+  expiresAt?: number;
+};
+
+// Credentials as persisted (URLs serialized)
+type StoredMCPServerCredentials = Omit<MCPServerCredentials, 'authorizationServer'> & {
+  authorizationServer: Omit<AuthorizationServer, 'resource'> & { resource?: string };
+};
+
+type PendingAuthorization = Omit<MCPServerCredentials, 'tokens' | 'expiresAt'> & {
+  serverName: string;
+  redirectUri: string;
+  expiresAt: number;
+};
+
+// Cache of the credentials in the project store, by server name
+const credentials = new Map<string, MCPServerCredentials>();
+const pendingAuthorizations = new Map<string, PendingAuthorization>();
+
+// Servers that answered 401 and have no usable tokens, by server name with their URL
+const authorizationRequired = new Map<string, string>();
+
+// Dynamically registered clients by authorization server and redirect URI
+const registeredClients = new Map<string, OAuthClientInformation>();
+
+/**
+ * Find the authorization server of an MCP server
+ * Servers without protected resource metadata are their own authorization server.
+ */
+async function discoverAuthorizationServer(serverUrl: string): Promise<AuthorizationServer> {
+  let resourceMetadata;
+
+  try {
+    resourceMetadata = await discoverOAuthProtectedResourceMetadata(serverUrl);
+  } catch {
+    // Fall back to /.well-known/oauth-authorization-server on the server itself
+  }
+
+  const url = resourceMetadata?.authorization_servers?.[0] || new URL('/', serverUrl).toString();
+  const metadata = await discoverOAuthMetadata(serverUrl, { authorizationServerUrl: url });
+
+  // The resource parameter is only sent when the server publishes its metadata
+  let resource: URL | undefined;
+
+  if (resourceMetadata) {
+    const requestedResource = resourceUrlFromServerUrl(serverUrl);
+
+    if (!checkResourceAllowed({ requestedResource, configuredResource: resourceMetadata.resource })) {
+      throw new Error(`Protected resource ${resourceMetadata.resource} does not match ${requestedResource}`);
+    }
+
+    resource = new URL(resourceMetadata.resource);
+  }
+
+  return { url, metadata, resource };
+}
+
+async function getClientInformation(
+  authorizationServer: AuthorizationServer,
+  redirectUri: string,
+  oauthConfig?: MCPServerOAuthConfig,
+): Promise<OAuthClientInformation> {
+  if (oauthConfig?.clientId) {
+    return { client_id: oauthConfig.clientId, client_secret: oauthConfig.clientSecret };
+  }
+
+  const key = `${authorizationServer.url} ${redirectUri}`;
+  const registered = registeredClients.get(key);
+
+  if (registered) {
+    return registered;
+  }
+
+  if (authorizationServer.metadata && !authorizationServer.metadata.registration_endpoint) {
+    throw new Error('The authorization server does not support dynamic client registration; set oauth.clientId');
+  }
+
+  const clientInformation = await registerClient(authorizationServer.url, {
+    metadata: authorizationServer.metadata,
+    clientMetadata: {
+      client_name: 'bolt.diy',
+      redirect_uris: [redirectUri],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+      scope: oauthConfig?.scopes?.join(' '),
+    },
+  });
+
+  registeredClients.set(key, clientInformation);
+
+  return clientInformation;
+}
+
+function getCredentialsSecretId(serverName: string): string {
+  return `mcp_${Buffer.from(serverName).toString('base64url')}`;
+}
+
+async function storeCredentials(
+  serverName: string,
+  pending: Omit<MCPServerCredentials, 'tokens' | 'expiresAt'>,
+  tokens: MCPOAuthTokens,
+): Promise<void> {
+  const stored: MCPServerCredentials = {
+    serverUrl: pending.serverUrl,
+    authorizationServer: pending.authorizationServer,
+    clientInformation: pending.clientInformation,
+    tokens,
+    expiresAt: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined,
+  };
+
+  credentials.set(serverName, stored);
+  authorizationRequired.delete(serverName);
+
+  const persisted: StoredMCPServerCredentials = {
+    ...stored,
+    authorizationServer: { ...stored.authorizationServer, resource: stored.authorizationServer.resource?.href },
+  };
+
+  try {
+    // Without a refresh token the credentials are useless once the access token expires
+    await storeSecret(
+      getCredentialsSecretId(serverName),
+      persisted,
+      tokens.refresh_token ? undefined : stored.expiresAt,
+    );
+  } catch (error) {
+    console.error(`[MCP OAuth] Failed to persist tokens for ${serverName}:`, error);
+  }
+}
+
+async function loadCredentials(serverName: string): Promise<MCPServerCredentials | undefined> {
+  const cached = credentials.get(serverName);
+
+  if (cached) {
+    return cached;
+  }
+
+  const persisted = await getSecret<StoredMCPServerCredentials>(getCredentialsSecretId(serverName)).catch(() => null);
+
+  if (!persisted) {
+    return undefined;
+  }
+
+  const { resource } = persisted.authorizationServer;
+  const loaded: MCPServerCredentials = {
+    ...persisted,
+    authorizationServer: { ...persisted.authorizationServer, resource: resource ? new URL(resource) : undefined },
+  };
+
+  credentials.set(serverName, loaded);
+
+  return loaded;
+}
+
+async function deleteCredentials(serverName: string): Promise<void> {
+  credentials.delete(serverName);
+
+  try {
+    await deleteSecret(getCredentialsSecretId(serverName));
+  } catch (error) {
+    console.error(`[MCP OAuth] Failed to delete tokens for ${serverName}:`, error);
+  }
+}
+
+function cleanupPendingAuthorizations(now: number = Date.now()): void {
+  for (const [sessionId, pending] of pendingAuthorizations) {
+    if (pending.expiresAt <= now) {
+      pendingAuthorizations.delete(sessionId);
+    }
+  }
+}
+
+/**
+ * Start authorizing an MCP server and return the URL to send the user to
+ */
+export async function startMCPAuthorization(
+  serverName: string,
+  serverUrl: string,
+  redirectUri: string,
+  oauthConfig?: MCPServerOAuthConfig,
+): Promise<string> {
+  const authorizationServer = await discoverAuthorizationServer(serverUrl);
+  const clientInformation = await getClientInformation(authorizationServer, redirectUri, oauthConfig);
+  const scopes = oauthConfig?.scopes || [];
+  const session = await createOAuthSession(MCP_OAUTH_PROVIDER, scopes, redirectUri);
+
+  cleanupPendingAuthorizations();
+  pendingAuthorizations.set(session.id, {
+    serverName,
+    serverUrl,
+    redirectUri,
+    authorizationServer,
+    clientInformation,
+    expiresAt: session.expiresAt,
+  });
+
+  const authorizationUrl = new URL(
+    authorizationServer.metadata?.authorization_endpoint || '/authorize',
+    authorizationServer.url,
+  );
+
+  authorizationUrl.searchParams.set('response_type', 'code');
+  authorizationUrl.searchParams.set('client_id', clientInformation.client_id);
+  authorizationUrl.searchParams.set('redirect_uri', redirectUri);
+  authorizationUrl.searchParams.set('state', session.state);
+  authorizationUrl.searchParams.set('code_challenge', session.codeChallenge!);
+  authorizationUrl.searchParams.set('code_challenge_method', 'S256');
+
+  if (scopes.length > 0) {
+    authorizationUrl.searchParams.set('scope', scopes.join(' '));
+  }
+
+  if (authorizationServer.resource) {
+    authorizationUrl.searchParams.set('resource', authorizationServer.resource.href);
+  }
+
+  return authorizationUrl.toString();
+}
+
+export function isMCPOAuthSession(session: OAuthSession): boolean {
+  return session.provider === MCP_OAUTH_PROVIDER;
+}
+
+/**
+ * Exchange the code of an MCP OAuth session and store the tokens
+ * Returns the name of the authorized server.
+ */
+export async function completeMCPAuthorization(session: OAuthSession, code: string): Promise<string> {
+  const pending = pendingAuthorizations.get(session.id);
+
+  pendingAuthorizations.delete(session.id);
+
+  if (!pending || pending.expiresAt <= Date.now() || !session.codeVerifier) {
+    throw new Error('MCP authorization session expired or invalid. Please try again.');
+  }
+
+  const tokens = await exchangeAuthorization(pending.authorizationServer.url, {
+    metadata: pending.authorizationServer.metadata,
+    clientInformation: pending.clientInformation,
+    authorizationCode: code,
+    codeVerifier: session.codeVerifier,
+    redirectUri: pending.redirectUri,
+    resource: pending.authorizationServer.resource,
+  });
+
+  await storeCredentials(pending.serverName, pending, tokens);
+
+  return pending.serverName;
+}
+
+/**
+ * Get a valid access token for an MCP server, refreshing it when it is about to expire
+ * Tokens issued for another URL (the server config changed) are not used.
+ */
+export async function getMCPAccessToken(serverName: string, serverUrl: string): Promise<string | undefined> {
+  const stored = await loadCredentials(serverName);
+
+  if (!stored || stored.serverUrl !== serverUrl) {
+    return undefined;
+  }
+
+  if (!stored.expiresAt || stored.expiresAt - TOKEN_REFRESH_MARGIN > Date.now()) {
+    return stored.tokens.access_token;
+  }
+
+  if (!stored.tokens.refresh_token) {
+    await deleteCredentials(serverName);
+    authorizationRequired.set(serverName, serverUrl);
+
+    return undefined;
+  }
+
+  try {
+    const tokens = await refreshAuthorization(stored.authorizationServer.url, {
+      metadata: stored.authorizationServer.metadata,
+      clientInformation: stored.clientInformation,
+      refreshToken: stored.tokens.refresh_token,
+      resource: stored.authorizationServer.resource,
+    });
+
+    await storeCredentials(serverName, stored, tokens);
+
+    return tokens.access_token;
+  } catch (error) {
+    console.error(`[MCP OAuth] Token refresh failed for ${serverName}:`, error);
+    await deleteCredentials(serverName);
+    authorizationRequired.set(serverName, serverUrl);
+
+    return undefined;
+  }
+}
+
+/**
+ * Authorization status of an MCP server
+ * Reads the cache only; createMCPAuthFetch loads stored tokens on the server's first request.
+ */
+export function getMCPServerAuth(serverName: string, serverUrl: string): MCPServerAuth | undefined {
+  const stored = credentials.get(serverName);
+
+  if (stored && stored.serverUrl === serverUrl) {
+    return { status: 'authorized', expiresAt: stored.expiresAt, scope: stored.tokens.scope };
+  }
+
+  if (authorizationRequired.get(serverName) === serverUrl) {
+    return { status: 'required' };
+  }
+
+  return undefined;
+}
+
+export async function clearMCPAuthorization(serverName: string): Promise<void> {
+  authorizationRequired.delete(serverName);
+  await deleteCredentials(serverName);
+}
+
+/**
+ * Fetch for MCP transports that sends the server's access token with every request
+ * and records when the server asks for authorization.
+ */
+export function createMCPAuthFetch(serverName: string, serverUrl: string): FetchLike {
+  return async (url, init) => {
+    const accessToken = await getMCPAccessToken(serverName, serverUrl);
+    const headers = new Headers(init?.headers);
+
+    if (accessToken) {
+      headers.set('Authorization', `Bearer ${accessToken}`);
+    }
+
+    const response = await fetch(url, { ...init, headers });
+
+    if (response.status === 401 && /^Bearer\b/i.test(response.headers.get('WWW-Authenticate') || 'Bearer')) {
+      await deleteCredentials(serverName);
+      authorizationRequired.set(serverName, serverUrl);
+    }
+
+    return response;
+  };
+}
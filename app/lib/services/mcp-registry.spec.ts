@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BUNDLED_REGISTRY,
+  buildServerConfig,
+  createServerForm,
+  getMissingVariables,
+  mergeRegistries,
+  type MCPRegistryEntry,
+} from './mcp-registry';
+import { validateServerConfig } from './mcpService';
+
+const supabase: MCPRegistryEntry = {
+  id: 'supabase',
+  name: 'Supabase',
+  description: '',
+  transport: 'stdio',
+  command: 'npx',
+  args: ['-y', '@supabase/mcp-server-supabase@latest', '--read-only'],
+  env: [{ name: 'SUPABASE_ACCESS_TOKEN', required: true }],
+};
+
+describe('mcp-registry', () => {
+  it('has unique ids and valid configs for all bundled servers', () => {
+    const ids = BUNDLED_REGISTRY.servers.map((entry) => entry.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+
+    for (const entry of BUNDLED_REGISTRY.servers) {
+      expect(validateServerConfig(buildServerConfig(createServerForm(entry))).success).toBe(true);
+    }
+  });
+
+  it('builds a stdio config with arguments per line and only filled-in env vars', () => {
+    const form = createServerForm(supabase);
+
+    expect(getMissingVariables(supabase, form)).toEqual(['SUPABASE_ACCESS_TOKEN']);
+
+    form.args += '\n--project-ref=abc def';
+    form.env.SUPABASE_ACCESS_TOKEN = 'token';
+
+    expect(getMissingVariables(supabase, form)).toEqual([]);
+    expect(buildServerConfig(form)).toEqual({
+      type: 'stdio',
+      command: 'npx',
+      args: ['-y', '@supabase/mcp-server-supabase@latest', '--read-only', '--project-ref=abc def'],
+      env: { SUPABASE_ACCESS_TOKEN: 'token' },
+    });
+  });
+
+  it('reports field-level issues from the transport schema', () => {
+    const form = { ...createServerForm({ ...supabase, transport: 'sse', url: 'not a url' }) };
+    const result = validateServerConfig(buildServerConfig(form));
+
+    expect(result).toEqual({ success: false, issues: [{ path: 'url', message: 'URL must be a valid URL format' }] });
+  });
+
+  it('lets extra registries replace bundled entries', () => {
+    const merged = mergeRegistries(BUNDLED_REGISTRY, {
+      version: 1,
+      servers: [{ ...supabase, description: 'internal' }],
+    });
+
+    expect(merged.servers.filter((entry) => entry.id === 'supabase')).toEqual([
+      { ...supabase, description: 'internal' },
+    ]);
+    expect(merged.servers).toHaveLength(BUNDLED_REGISTRY.servers.length);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * MCP Server Registry
+ *
+ * Catalog of MCP servers for the registry browser in the MCP settings tab.
+ * The bundled registry (mcp-registry.json) can be extended with a registry file
+ * served from MCP_REGISTRY_URL (see /api/mcp-registry); entries with the same id
+ * replace the bundled ones.
+ *
+ * Entries describe how to run a server; the browser turns them into an editable
+ * form, and buildServerConfig() turns the form into an mcpServers entry that is
+ * validated with the transport's schema before it is tested or saved.
+ */
+
+import bundledRegistry from './mcp-registry.json';
+
+export type MCPTransportType = 'stdio' | 'sse' | 'streamable-http';
+
+export interface MCPRegistryVariable {
+  name: string;
+  description?: string;
+  required?: boolean;
+
+  // Rendered as a password field
+  secret?: boolean;
+}
+
+export interface MCPRegistryEntry {
+  id: string;
+  name: string;
+  description: string;
+  homepage?: string;
+  tags?: string[];
+  transport: MCPTransportType;
+
+  // stdio
+  command?: string;
+  args?: string[];
+  installCommand?: string;
+  env?: MCPRegistryVariable[];
+
+  // sse and streamable-http
+  url?: string;
+  headers?: MCPRegistryVariable[];
+}
+
+export interface MCPRegistry {
+  version: number;
+  servers: MCPRegistryEntry[];
+}
+
+/**
+ * Editable values of a server before they become a config
+ */
+export interface MCPServerForm {
+  serverName: string;
+  transport: MCPTransportType;
+  command: string;
+
+  // One argument per line, so arguments may contain spaces
+  args: string;
+  cwd: string;
+  url: string;
+  env: Record<string, string>;
+  headers: Record<string, string>;
+}
+
+export const BUNDLED_REGISTRY = bundledRegistry as MCPRegistry;
+
+export function mergeRegistries(base: MCPRegistry, extra: MCPRegistry | null): MCPRegistry {
+  if (!extra) {
+    return base;
+  }
+
+  const extraIds = new Set(extra.servers.map((entry) => entry.id));
+
+  return {
+    version: Math.max(base.version, extra.version),
+    servers: [...extra.servers, ...base.servers.filter((entry) => !extraIds.has(entry.id))],
+  };
+}
+
+export function createServerForm(entry: MCPRegistryEntry): MCPServerForm {
+  const emptyValues = (variables: MCPRegistryVariable[] = []) =>
+    Object.fromEntries(variables.map((variable) => [variable.name, '']));
+
+  return {
+    serverName: entry.id,
+    transport: entry.transport,
+    command: entry.command || '',
+    args: (entry.args || []).join('\n'),
+    cwd: '',
+    url: entry.url || '',
+    env: emptyValues(entry.env),
+    headers: emptyValues(entry.headers),
+  };
+}
+
+/**
+ * Build an mcpServers entry from the form; empty optional values are left out
+ */
+export function buildServerConfig(form: MCPServerForm): Record<string, unknown> {
+  const nonEmpty = (values: Record<string, string>) => {
+    const entries = Object.entries(values).filter(([, value]) => value.trim() !== '');
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  };
+
+  if (form.transport === 'stdio') {
+    return {
+      type: 'stdio',
+      command: form.command.trim(),
+      args: form.args
+        .split('\n')
+        .map((arg) => arg.trim())
+        .filter(Boolean),
+      ...(form.cwd.trim() ? { cwd: form.cwd.trim() } : {}),
+      ...(nonEmpty(form.env) ? { env: nonEmpty(form.env) } : {}),
+    };
+  }
+
+  return {
+    type: form.transport,
+    url: form.url.trim(),
+    ...(nonEmpty(form.headers) ? { headers: nonEmpty(form.headers) } : {}),
+  };
+}
+
+/**
+ * Required variables of the entry that have no value in the form
+ */
+export function getMissingVariables(entry: MCPRegistryEntry, form: MCPServerForm): string[] {
+  const missing = (variables: MCPRegistryVariable[] = [], values: Record<string, string>) =>
+    variables
+      .filter((variable) => variable.required && !values[variable.name]?.trim())
+      .map((variable) => variable.name);
+
+  return form.transport === 'stdio' ? missing(entry.env, form.env) : missing(entry.headers, form.headers);
+}
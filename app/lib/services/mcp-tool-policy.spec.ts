@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateToolPolicy, type ToolApprovalPolicies } from './mcp-tool-policy';
+
+const policies: ToolApprovalPolicies = {
+  servers: { postgres: 'deny', docs: 'allow' },
+  tools: { postgres: { describe_table: 'allow' }, docs: { delete_page: 'allow-chat' } },
+  argumentRules: [
+    {
+      id: 'read-only-sql',
+      serverName: 'postgres',
+      toolName: 'query',
+      argument: 'sql',
+      pattern: '^\\s*(select|with|explain)\\b',
+      flags: 'i',
+      action: 'allow',
+    },
+    {
+      id: 'no-drop',
+      serverName: 'postgres',
+      argument: 'sql',
+      pattern: '\\bdrop\\b',
+      flags: 'i',
+      action: 'deny',
+    },
+    {
+      id: 'nested',
+      serverName: 'docs',
+      argument: 'options.force',
+      pattern: '^true$',
+      action: 'deny',
+    },
+  ],
+};
+
+const evaluate = (serverName: string, toolName: string, args: unknown, grantedForChat = false) =>
+  evaluateToolPolicy(policies, { serverName, toolName, args, grantedForChat });
+
+describe('mcp-tool-policy', () => {
+  it('allows calls matching an allow rule over the server policy', () => {
+    expect(evaluate('postgres', 'query', { sql: 'SELECT * FROM users' })).toMatchObject({
+      action: 'allow',
+      reason: 'rule',
+    });
+    expect(evaluate('postgres', 'query', { sql: 'DELETE FROM users' })).toMatchObject({
+      action: 'deny',
+      reason: 'server-policy',
+    });
+  });
+
+  it('lets deny rules win over allow rules', () => {
+    const decision = evaluate('postgres', 'query', { sql: 'with x as (select 1) drop table users' });
+
+    expect(decision.action).toBe('deny');
+    expect(decision.rule?.id).toBe('no-drop');
+  });
+
+  it('matches nested and non-string arguments', () => {
+    expect(evaluate('docs', 'update_page', { options: { force: true } }).action).toBe('deny');
+    expect(evaluate('docs', 'update_page', { options: { force: false } }).action).toBe('allow');
+  });
+
+  it('prefers tool policies over server policies', () => {
+    expect(evaluate('postgres', 'describe_table', {})).toMatchObject({ action: 'allow', reason: 'tool-policy' });
+  });
+
+  it('asks for allow-chat and unknown tools until granted for the chat', () => {
+    expect(evaluate('docs', 'delete_page', {}).action).toBe('ask');
+    expect(evaluate('docs', 'delete_page', {}, true)).toMatchObject({ action: 'allow', reason: 'chat-grant' });
+    expect(evaluate('other', 'tool', {})).toMatchObject({ action: 'ask', reason: 'default' });
+  });
+});
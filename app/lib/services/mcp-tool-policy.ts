@@ -0,0 +1,147 @@
+/**
+ * MCP Tool Approval Policies
+ *
+ * Decides whether an MCP tool call runs without asking, is denied, or waits for
+ * the user's approval in ToolInvocations. Policies are stored with the MCP
+ * settings (see stores/mcp.ts) and evaluated in the browser before a call is
+ * shown for approval.
+ *
+ * Evaluation order:
+ * 1. Argument rules for the tool: a matching deny rule wins over a matching allow rule
+ * 2. The tool's policy, falling back to the server's policy, falling back to 'ask'
+ * 3. 'allow-chat' asks once per chat; after an approval the tool runs for the rest of that chat
+ *    (any 'ask' tool can also be allowed for the chat from the approval prompt)
+ */
+
+export type ToolPolicy = 'allow' | 'ask' | 'deny' | 'allow-chat';
+
+export const TOOL_POLICY_LABELS: Record<ToolPolicy, string> = {
+  ask: 'Always ask',
+  allow: 'Always allow',
+  'allow-chat': 'Allow for this chat',
+  deny: 'Deny',
+};
+
+/**
+ * Allow or deny calls whose argument matches a regular expression,
+ * e.g. allow read-only SQL: { argument: 'sql', pattern: '^\\s*(select|with|explain)\\b', flags: 'i' }
+ */
+export interface ToolArgumentRule {
+  id: string;
+  serverName: string;
+
+  // Applies to all tools of the server when omitted
+  toolName?: string;
+
+  // Argument name; dot paths reach into nested objects. Non-string values are matched as JSON.
+  argument: string;
+  pattern: string;
+  flags?: string;
+  action: 'allow' | 'deny';
+  description?: string;
+}
+
+export interface ToolApprovalPolicies {
+  servers: Record<string, ToolPolicy>;
+  tools: Record<string, Record<string, ToolPolicy>>;
+  argumentRules: ToolArgumentRule[];
+}
+
+export const DEFAULT_TOOL_POLICIES: ToolApprovalPolicies = {
+  servers: {},
+  tools: {},
+  argumentRules: [],
+};
+
+export interface ToolCallContext {
+  serverName: string;
+  toolName: string;
+  args: unknown;
+
+  // Whether the tool was approved for the current chat
+  grantedForChat: boolean;
+}
+
+export interface ToolApprovalDecision {
+  action: 'allow' | 'deny' | 'ask';
+  reason: 'rule' | 'tool-policy' | 'server-policy' | 'chat-grant' | 'default';
+  policy: ToolPolicy;
+  rule?: ToolArgumentRule;
+}
+
+function getArgument(args: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+      args,
+    );
+}
+
+/**
+ * Whether an argument rule applies to a call; rules with an invalid pattern never match
+ */
+export function matchesArgumentRule(rule: ToolArgumentRule, context: Omit<ToolCallContext, 'grantedForChat'>): boolean {
+  if (rule.serverName !== context.serverName || (rule.toolName && rule.toolName !== context.toolName)) {
+    return false;
+  }
+
+  const value = getArgument(context.args, rule.argument);
+
+  if (value === undefined) {
+    return false;
+  }
+
+  try {
+    return new RegExp(rule.pattern, rule.flags).test(typeof value === 'string' ? value : JSON.stringify(value));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The policy that applies to a tool, without argument rules
+ */
+export function getToolPolicy(
+  policies: ToolApprovalPolicies,
+  serverName: string,
+  toolName: string,
+): { policy: ToolPolicy; reason: ToolApprovalDecision['reason'] } {
+  const toolPolicy = policies.tools[serverName]?.[toolName];
+
+  if (toolPolicy) {
+    return { policy: toolPolicy, reason: 'tool-policy' };
+  }
+
+  const serverPolicy = policies.servers[serverName];
+
+  if (serverPolicy) {
+    return { policy: serverPolicy, reason: 'server-policy' };
+  }
+
+  return { policy: 'ask', reason: 'default' };
+}
+
+/**
+ * Decide whether a tool call is allowed, denied or needs the user's approval
+ */
+export function evaluateToolPolicy(policies: ToolApprovalPolicies, context: ToolCallContext): ToolApprovalDecision {
+  const { policy, reason } = getToolPolicy(policies, context.serverName, context.toolName);
+  const matchingRules = policies.argumentRules.filter((rule) => matchesArgumentRule(rule, context));
+  const rule = matchingRules.find((item) => item.action === 'deny') || matchingRules[0];
+
+  if (rule) {
+    return { action: rule.action, reason: 'rule', policy, rule };
+  }
+
+  if (policy === 'allow' || policy === 'deny') {
+    return { action: policy, reason, policy };
+  }
+
+  // Also covers 'ask' tools the user allowed for the chat from the approval prompt
+  if (context.grantedForChat) {
+    return { action: 'allow', reason: 'chat-grant', policy };
+  }
+
+  return { action: 'ask', reason, policy };
+}
@@ -7,7 +7,16 @@ import {
   formatDataStreamPart,
 } from 'ai';
 import { Experimental_StdioMCPTransport } from 'ai/mcp-stdio';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  GetPromptResultSchema,
+  ListPromptsResultSchema,
+  ListResourcesResultSchema,
+  ReadResourceResultSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import type { ToolCallAnnotation } from '~/types/context';
 import {
@@ -17,6 +26,15 @@ import {
   TOOL_NO_EXECUTE_FUNCTION,
 } from '~/utils/constants';
 import { createScopedLogger } from '~/utils/logger';
+import {
+  clearMCPAuthorization,
+  completeMCPAuthorization,
+  createMCPAuthFetch,
+  getMCPServerAuth,
+  startMCPAuthorization,
+  type MCPServerAuth,
+} from '~/lib/services/mcp-oauth';
+import type { OAuthSession } from '~/lib/services/oauth-proxy';
 
 const logger = createScopedLogger('mcp-service');
 
@@ -36,6 +54,53 @@ const MCP_SERVER_ENV_VARS: Record<string, Record<string, string | undefined>> =
   },
 };
 
+type PromptMessages = Array<{ role: string; content: { type: string; text?: string } }>;
+
+/**
+ * Join the text content of prompt messages into one chat message
+ */
+function promptMessagesToText(messages: PromptMessages): string {
+  return messages
+    .filter((message) => message.content.type === 'text' && message.content.text)
+    .map((message) => message.content.text)
+    .join('\n\n');
+}
+
+/**
+ * Resource and prompt methods backed by a short-lived MCP SDK client,
+ * since the AI SDK client only supports tools
+ */
+function createCatalogMethods(createTransport: () => Transport) {
+  const withClient = async <T>(fn: (client: Client) => Promise<T>): Promise<T> => {
+    const client = new Client({ name: 'bolt-mcp-catalog', version: '1.0.0' });
+    await client.connect(createTransport());
+
+    try {
+      return await fn(client);
+    } finally {
+      await client.close();
+    }
+  };
+
+  return {
+    listCatalog: () =>
+      withClient(async (client) => {
+        const capabilities = client.getServerCapabilities();
+
+        return {
+          resources: capabilities?.resources ? (await client.listResources()).resources : [],
+          prompts: capabilities?.prompts ? (await client.listPrompts()).prompts : [],
+        };
+      }),
+    readResource: (uri: string) =>
+      withClient(async (client) => (await client.readResource({ uri })).contents as MCPResourceContent[]),
+    getPrompt: (name: string, args: Record<string, string>) =>
+      withClient(async (client) =>
+        promptMessagesToText((await client.getPrompt({ name, arguments: args })).messages as PromptMessages),
+      ),
+  };
+}
+
 /**
  * Check if the MCP Proxy is available
  */
@@ -70,6 +135,17 @@ export const stdioServerConfigSchema = z
     args: z.array(z.string()).optional(),
     cwd: z.string().optional(),
     env: z.record(z.string()).optional(),
+
+    // Enforced by the MCP proxy only; unset fields use the proxy limits, which also cap set ones
+    limits: z
+      .object({
+        timeoutMs: z.number().int().positive().optional(),
+        maxOutputBytes: z.number().int().positive().optional(),
+        maxMemoryMb: z.number().int().positive().optional(),
+        allowedCwdRoots: z.array(z.string()).optional(),
+        envAllowList: z.array(z.string()).optional(),
+      })
+      .optional(),
   })
   .transform((data) => ({
     ...data,
@@ -77,11 +153,21 @@ export const stdioServerConfigSchema = z
   }));
 export type STDIOServerConfig = z.infer<typeof stdioServerConfigSchema>;
 
+// Client credentials and scopes for the MCP authorization flow; without a clientId the client is registered dynamically
+const oauthConfigSchema = z
+  .object({
+    clientId: z.string().optional(),
+    clientSecret: z.string().optional(),
+    scopes: z.array(z.string()).optional(),
+  })
+  .optional();
+
 export const sseServerConfigSchema = z
   .object({
     type: z.enum(['sse']).optional(),
     url: z.string().url('URL must be a valid URL format'),
     headers: z.record(z.string()).optional(),
+    oauth: oauthConfigSchema,
   })
   .transform((data) => ({
     ...data,
@@ -94,6 +180,7 @@ export const streamableHTTPServerConfigSchema = z
     type: z.enum(['streamable-http']).optional(),
     url: z.string().url('URL must be a valid URL format'),
     headers: z.record(z.string()).optional(),
+    oauth: oauthConfigSchema,
   })
   .transform((data) => ({
     ...data,
@@ -114,9 +201,76 @@ export const mcpConfigSchema = z.object({
 });
 export type MCPConfig = z.infer<typeof mcpConfigSchema>;
 
+const serverConfigSchemas = {
+  stdio: stdioServerConfigSchema,
+  sse: sseServerConfigSchema,
+  'streamable-http': streamableHTTPServerConfigSchema,
+};
+
+export type ServerConfigIssue = { path: string; message: string };
+
+/**
+ * Validate a single server config with the schema of its transport, keeping field-level issues
+ * (the union schema only reports that none of the transports matched)
+ */
+export function validateServerConfig(
+  config: unknown,
+): { success: true; config: MCPServerConfig } | { success: false; issues: ServerConfigIssue[] } {
+  const type = (config as { type?: string } | null)?.type || 'stdio';
+  const schema = serverConfigSchemas[type as keyof typeof serverConfigSchemas];
+
+  if (!schema) {
+    return {
+      success: false,
+      issues: [{ path: 'type', message: 'Only "stdio", "sse" or "streamable-http" are valid options' }],
+    };
+  }
+
+  const result = schema.safeParse(config);
+
+  if (!result.success) {
+    return {
+      success: false,
+      issues: result.error.errors.map((err) => ({ path: err.path.join('.'), message: err.message })),
+    };
+  }
+
+  return { success: true, config: result.data };
+}
+
+export type MCPResource = {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+};
+
+export type MCPResourceContent = {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+};
+
+export type MCPPrompt = {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+};
+
+export type MCPServerCatalog = {
+  resources: MCPResource[];
+  prompts: MCPPrompt[];
+};
+
 export type MCPClient = {
   tools: () => Promise<ToolSet>;
   close: () => Promise<void>;
+
+  // Resources and prompts; not available for direct stdio servers
+  listCatalog?: () => Promise<MCPServerCatalog>;
+  readResource?: (uri: string) => Promise<MCPResourceContent[]>;
+  getPrompt?: (name: string, args: Record<string, string>) => Promise<string>;
 } & {
   serverName: string;
 };
@@ -135,12 +289,14 @@ export type MCPServerAvailable = {
   tools: ToolSet;
   client: MCPClient;
   config: MCPServerConfig;
+  auth?: MCPServerAuth;
 };
 export type MCPServerUnavailable = {
   status: 'unavailable';
   error: string;
   client: MCPClient | null;
   config: MCPServerConfig;
+  auth?: MCPServerAuth;
 };
 export type MCPServer = MCPServerAvailable | MCPServerUnavailable;
 
@@ -230,25 +386,35 @@ export class MCPService {
       logger.debug(`Injecting API key for ${serverName} from environment`);
     }
 
-    const client = await experimental_createMCPClient({
-      transport: new StreamableHTTPClientTransport(new URL(config.url), {
+    const createTransport = () =>
+      new StreamableHTTPClientTransport(new URL(config.url), {
         requestInit: {
           headers: Object.keys(headers).length > 0 ? headers : undefined,
         },
-      }),
+        fetch: createMCPAuthFetch(serverName, config.url),
+      });
+
+    const client = await experimental_createMCPClient({
+      transport: createTransport(),
     });
 
-    return Object.assign(client, { serverName });
+    return Object.assign(client, { serverName }, createCatalogMethods(createTransport));
   }
 
   private async _createSSEClient(serverName: string, config: SSEServerConfig): Promise<MCPClient> {
     logger.debug(`Creating SSE client for ${serverName} with URL: ${config.url}`);
 
+    const createTransport = () =>
+      new SSEClientTransport(new URL(config.url), {
+        requestInit: { headers: config.headers },
+        fetch: createMCPAuthFetch(serverName, config.url),
+      });
+
     const client = await experimental_createMCPClient({
-      transport: config,
+      transport: createTransport(),
     });
 
-    return Object.assign(client, { serverName });
+    return Object.assign(client, { serverName }, createCatalogMethods(createTransport));
   }
 
   private async _createStdioClient(serverName: string, config: STDIOServerConfig): Promise<MCPClient> {
@@ -302,6 +468,7 @@ export class MCPService {
           args: config.args || [],
           cwd: config.cwd,
           env: Object.keys(mergedEnv).length > 0 ? mergedEnv : undefined,
+          limits: config.limits,
         },
       }),
     });
@@ -319,12 +486,33 @@ export class MCPService {
       error?: string;
     };
 
-    if (spawnResult.status === 'error') {
+    if (spawnResult.status === 'error' || spawnResult.status === 'restarting') {
+      // The proxy keeps retrying a failed start; spawning again restarts it right away
       throw new Error(`Proxy spawn error: ${spawnResult.error}`);
     }
 
     const { sessionId } = spawnResult;
 
+    const proxyRequest = async (method: string, params?: Record<string, unknown>): Promise<unknown> => {
+      const response = await fetch(`${MCP_PROXY_URL}/api/request/${sessionId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ method, params }),
+      });
+
+      const data = (await response.json().catch(() => ({ error: 'Unknown error' }))) as {
+        result?: unknown;
+        error?: string;
+        details?: string;
+      };
+
+      if (!response.ok) {
+        throw new Error(`${method} failed: ${data.details || data.error}`);
+      }
+
+      return data.result;
+    };
+
     // Create a proxy client wrapper
     const proxyClient: MCPClient = {
       serverName,
@@ -379,6 +567,26 @@ export class MCPService {
 
         return toolSet;
       },
+      listCatalog: async () => {
+        // Servers without resources or prompts answer with "Method not found"
+        const [resources, prompts] = await Promise.all([
+          proxyRequest('resources/list')
+            .then((result) => ListResourcesResultSchema.parse(result).resources)
+            .catch(() => []),
+          proxyRequest('prompts/list')
+            .then((result) => ListPromptsResultSchema.parse(result).prompts)
+            .catch(() => []),
+        ]);
+
+        return { resources, prompts };
+      },
+      readResource: async (uri: string) =>
+        ReadResourceResultSchema.parse(await proxyRequest('resources/read', { uri })).contents as MCPResourceContent[],
+      getPrompt: async (name: string, args: Record<string, string>) =>
+        promptMessagesToText(
+          GetPromptResultSchema.parse(await proxyRequest('prompts/get', { name, arguments: args }))
+            .messages as PromptMessages,
+        ),
       close: async () => {
         try {
           await fetch(`${MCP_PROXY_URL}/api/close/${sessionId}`, { method: 'DELETE' });
@@ -422,44 +630,72 @@ export class MCPService {
   private async _createClients() {
     await this._closeClients();
 
-    const createClientPromises = Object.entries(this._config?.mcpServers || []).map(async ([serverName, config]) => {
-      let client: MCPClient | null = null;
+    const createClientPromises = Object.entries(this._config?.mcpServers || []).map(([serverName, config]) =>
+      this._connectServer(serverName, config),
+    );
 
-      try {
-        client = await this._createMCPClient(serverName, config);
+    await Promise.allSettled(createClientPromises);
+  }
 
-        try {
-          const tools = await client.tools();
+  private async _connectServer(serverName: string, config: MCPServerConfig) {
+    let client: MCPClient | null = null;
 
-          this._registerTools(serverName, tools);
+    try {
+      client = await this._createMCPClient(serverName, config);
+
+      try {
+        const tools = await client.tools();
+
+        this._registerTools(serverName, tools);
 
-          this._mcpToolsPerServer[serverName] = {
-            status: 'available',
-            client,
-            tools,
-            config,
-          };
-        } catch (error) {
-          logger.error(`Failed to get tools from server ${serverName}:`, error);
-          this._mcpToolsPerServer[serverName] = {
-            status: 'unavailable',
-            error: 'could not retrieve tools from server',
-            client,
-            config,
-          };
-        }
-      } catch (error) {
-        logger.error(`Failed to initialize MCP client for server: ${serverName}`, error);
         this._mcpToolsPerServer[serverName] = {
-          status: 'unavailable',
-          error: (error as Error).message,
+          status: 'available',
           client,
+          tools,
           config,
+          auth: this._getServerAuth(serverName, config),
         };
+      } catch (error) {
+        logger.error(`Failed to get tools from server ${serverName}:`, error);
+        this._mcpToolsPerServer[serverName] = this._unavailableServer(
+          serverName,
+          config,
+          client,
+          'could not retrieve tools from server',
+        );
       }
-    });
+    } catch (error) {
+      logger.error(`Failed to initialize MCP client for server: ${serverName}`, error);
+      this._mcpToolsPerServer[serverName] = this._unavailableServer(
+        serverName,
+        config,
+        client,
+        (error as Error).message,
+      );
+    }
+  }
 
-    await Promise.allSettled(createClientPromises);
+  private _getServerAuth(serverName: string, config: MCPServerConfig): MCPServerAuth | undefined {
+    return config.type === 'sse' || config.type === 'streamable-http'
+      ? getMCPServerAuth(serverName, config.url)
+      : undefined;
+  }
+
+  private _unavailableServer(
+    serverName: string,
+    config: MCPServerConfig,
+    client: MCPClient | null,
+    error: string,
+  ): MCPServerUnavailable {
+    const auth = this._getServerAuth(serverName, config);
+
+    return {
+      status: 'unavailable',
+      error: auth?.status === 'required' ? 'authorization required' : error,
+      client,
+      config,
+      auth,
+    };
   }
 
   async checkServersAvailabilities() {
@@ -487,26 +723,27 @@ export class MCPService {
             client,
             tools,
             config: server.config,
+            auth: this._getServerAuth(serverName, server.config),
           };
         } catch (error) {
           logger.error(`Failed to get tools from server ${serverName}:`, error);
-          this._mcpToolsPerServer[serverName] = {
-            status: 'unavailable',
-            error: 'could not retrieve tools from server',
+          this._mcpToolsPerServer[serverName] = this._unavailableServer(
+            serverName,
+            server.config,
             client,
-            config: server.config,
-          };
+            'could not retrieve tools from server',
+          );
         }
 
         logger.debug(`Checking MCP server "${serverName}" availability: end`);
       } catch (error) {
         logger.error(`Failed to connect to server ${serverName}:`, error);
-        this._mcpToolsPerServer[serverName] = {
-          status: 'unavailable',
-          error: 'could not connect to server',
+        this._mcpToolsPerServer[serverName] = this._unavailableServer(
+          serverName,
+          server.config,
           client,
-          config: server.config,
-        };
+          'could not connect to server',
+        );
       }
     });
 
@@ -515,6 +752,133 @@ export class MCPService {
     return this._mcpToolsPerServer;
   }
 
+  /**
+   * Connect to a server that is not part of the config and list its tools
+   */
+  async testServerConfig(
+    serverName: string,
+    config: MCPServerConfig,
+  ): Promise<Array<{ name: string; description?: string }>> {
+    const client = await this._createMCPClient(serverName, config);
+
+    try {
+      const tools = await client.tools();
+
+      return Object.entries(tools).map(([name, tool]) => ({ name, description: tool.description }));
+    } finally {
+      await client.close().catch((error) => logger.error(`Error closing test client for ${serverName}:`, error));
+    }
+  }
+
+  /**
+   * Start the OAuth authorization flow of a remote server and return the URL to send the user to
+   */
+  async startAuthorization(serverName: string, redirectUri: string): Promise<string> {
+    const config = this._config.mcpServers[serverName];
+
+    if (!config || (config.type !== 'sse' && config.type !== 'streamable-http')) {
+      throw new Error(`MCP server "${serverName}" is not a configured remote server`);
+    }
+
+    return startMCPAuthorization(serverName, config.url, redirectUri, config.oauth);
+  }
+
+  /**
+   * Finish the OAuth authorization flow from the callback and reconnect the server with its new token
+   */
+  async completeAuthorization(session: OAuthSession, code: string): Promise<string> {
+    const serverName = await completeMCPAuthorization(session, code);
+
+    await this._reconnectServer(serverName);
+
+    return serverName;
+  }
+
+  async signOut(serverName: string): Promise<MCPServerTools> {
+    await clearMCPAuthorization(serverName);
+    await this._reconnectServer(serverName);
+
+    return this._mcpToolsPerServer;
+  }
+
+  private async _reconnectServer(serverName: string) {
+    const config = this._config.mcpServers[serverName];
+    const server = this._mcpToolsPerServer[serverName];
+
+    if (!config) {
+      return;
+    }
+
+    if (server?.client) {
+      await server.client.close().catch((error) => logger.error(`Error closing client for ${serverName}:`, error));
+    }
+
+    for (const [toolName, toolServerName] of this._toolNamesToServerNames) {
+      if (toolServerName === serverName) {
+        delete this._tools[toolName];
+        delete this._toolsWithoutExecute[toolName];
+        this._toolNamesToServerNames.delete(toolName);
+      }
+    }
+
+    await this._connectServer(serverName, config);
+  }
+
+  /**
+   * List resources and prompts of all available servers
+   * Servers that do not support them (or fail to list them) get empty lists.
+   */
+  async listResourcesAndPrompts(): Promise<Record<string, MCPServerCatalog>> {
+    const catalogs: Record<string, MCPServerCatalog> = {};
+
+    const listPromises = Object.entries(this._mcpToolsPerServer).map(async ([serverName, server]) => {
+      if (server.status !== 'available' || !server.client.listCatalog) {
+        return;
+      }
+
+      try {
+        catalogs[serverName] = await server.client.listCatalog();
+      } catch (error) {
+        logger.error(`Failed to list resources and prompts of server ${serverName}:`, error);
+        catalogs[serverName] = { resources: [], prompts: [] };
+      }
+    });
+
+    await Promise.allSettled(listPromises);
+
+    return catalogs;
+  }
+
+  async readResource(serverName: string, uri: string): Promise<MCPResourceContent[]> {
+    const readResource = this._getAvailableClient(serverName).readResource;
+
+    if (!readResource) {
+      throw new Error(`MCP server "${serverName}" does not support resources`);
+    }
+
+    return readResource(uri);
+  }
+
+  async getPrompt(serverName: string, name: string, args: Record<string, string> = {}): Promise<string> {
+    const getPrompt = this._getAvailableClient(serverName).getPrompt;
+
+    if (!getPrompt) {
+      throw new Error(`MCP server "${serverName}" does not support prompts`);
+    }
+
+    return getPrompt(name, args);
+  }
+
+  private _getAvailableClient(serverName: string): MCPClient {
+    const server = this._mcpToolsPerServer[serverName];
+
+    if (!server || server.status !== 'available') {
+      throw new Error(`MCP server "${serverName}" is not available`);
+    }
+
+    return server.client;
+  }
+
   private async _closeClients(): Promise<void> {
     const closePromises = Object.entries(this._mcpToolsPerServer).map(async ([serverName, server]) => {
       if (!server.client) {
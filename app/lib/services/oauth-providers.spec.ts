@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  discoverOpenIdEndpoints,
+  getOAuthProviderDefinition,
+  getOAuthProviderEnvKeys,
+  resolveOAuthProviderEndpoints,
+} from './oauth-providers';
+import {
+  buildAuthorizationUrl,
+  createOAuthSession,
+  exchangeCodeForTokens,
+  exchangeRefreshToken,
+  generatePKCE,
+  getOAuthProviderConfig,
+  parseTokenResponse,
+} from './oauth-proxy';
+
+const FORM = 'application/x-www-form-urlencoded';
+const JSON_TYPE = 'application/json; charset=utf-8';
+
+function mockFetch(body: string, contentType: string, status = 200) {
+  const fetchMock = vi.fn(async () => new Response(body, { status, headers: { 'Content-Type': contentType } }));
+  vi.stubGlobal('fetch', fetchMock);
+
+  return fetchMock;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('OAuth provider registry', () => {
+  it('looks up providers case-insensitively', () => {
+    expect(getOAuthProviderDefinition('Slack')?.scopeSeparator).toBe(',');
+    expect(getOAuthProviderDefinition('unknown')).toBeNull();
+  });
+
+  it('lists credential and URL parameter env keys', () => {
+    const keys = getOAuthProviderEnvKeys();
+
+    expect(keys).toContain('ZOOM_OAUTH_CLIENT_ID');
+    expect(keys).toContain('MICROSOFT_OAUTH_TENANT');
+    expect(keys).toContain('OIDC_ISSUER');
+  });
+
+  it('fills URL placeholders from env or their defaults', async () => {
+    const microsoft = getOAuthProviderDefinition('microsoft')!;
+
+    expect((await resolveOAuthProviderEndpoints(microsoft, {})).tokenUrl).toBe(
+      'https://login.microsoftonline.com/common/oauth2/v2.0/token',
+    );
+    expect(
+      (await resolveOAuthProviderEndpoints(microsoft, { MICROSOFT_OAUTH_TENANT: 'contoso' })).authorizationUrl,
+    ).toBe('https://login.microsoftonline.com/contoso/oauth2/v2.0/authorize');
+  });
+
+  it('fails when a placeholder without default is not configured', async () => {
+    await expect(resolveOAuthProviderEndpoints(getOAuthProviderDefinition('oidc')!, {})).rejects.toThrow(
+      'Missing OIDC_ISSUER',
+    );
+  });
+
+  it('reads the first configured credential env key', async () => {
+    const config = await getOAuthProviderConfig('zoom', { ZOOM_CLIENT_ID: 'fallback', ZOOM_OAUTH_CLIENT_SECRET: 's' });
+
+    expect(config).toMatchObject({ clientId: 'fallback', clientSecret: 's', pkce: false });
+  });
+});
+
+describe('OpenID Connect discovery', () => {
+  it('resolves endpoints from the discovery document and caches them', async () => {
+    const fetchMock = mockFetch(
+      JSON.stringify({
+        authorization_endpoint: 'https://id.example.com/authorize',
+        token_endpoint: 'https://id.example.com/token',
+      }),
+      JSON_TYPE,
+    );
+
+    const env = { OIDC_ISSUER: 'https://id.example.com/' };
+    const endpoints = await resolveOAuthProviderEndpoints(getOAuthProviderDefinition('oidc')!, env);
+    await resolveOAuthProviderEndpoints(getOAuthProviderDefinition('oidc')!, env);
+
+    expect(endpoints).toEqual({
+      authorizationUrl: 'https://id.example.com/authorize',
+      tokenUrl: 'https://id.example.com/token',
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]).toEqual([
+      'https://id.example.com/.well-known/openid-configuration',
+      expect.anything(),
+    ]);
+  });
+
+  it('rejects documents without endpoints', async () => {
+    mockFetch(JSON.stringify({ issuer: 'https://broken.example.com' }), JSON_TYPE);
+
+    await expect(
+      discoverOpenIdEndpoints('https://broken.example.com/.well-known/openid-configuration'),
+    ).rejects.toThrow('missing authorization or token endpoint');
+  });
+});
+
+describe('PKCE', () => {
+  it('derives the S256 challenge from the verifier', async () => {
+    const { codeVerifier, codeChallenge } = await generatePKCE();
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+    const expected = Buffer.from(digest).toString('base64url');
+
+    expect(codeChallenge).toBe(expected);
+  });
+
+  it('sends the challenge only for PKCE providers', async () => {
+    const session = await createOAuthSession('gitlab', ['api'], 'https://app.example.com');
+    const base = { authorizationUrl: 'https://auth.example.com/authorize', clientId: 'client' };
+
+    const withPkce = new URL(buildAuthorizationUrl({ ...base, pkce: true }, session, 'https://bolt.example.com'));
+    const withoutPkce = new URL(buildAuthorizationUrl({ ...base, pkce: false }, session, 'https://bolt.example.com'));
+
+    expect(withPkce.searchParams.get('code_challenge')).toBe(session.codeChallenge);
+    expect(withPkce.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(withoutPkce.searchParams.has('code_challenge')).toBe(false);
+  });
+
+  it('joins scopes with the provider separator', async () => {
+    const session = await createOAuthSession('slack', ['chat:write', 'users:read'], 'https://app.example.com');
+    const url = new URL(
+      buildAuthorizationUrl(
+        { authorizationUrl: 'https://slack.com/oauth/v2/authorize', clientId: 'client', scopeSeparator: ',' },
+        session,
+        'http://bolt.example.com',
+      ),
+    );
+
+    expect(url.searchParams.get('scope')).toBe('chat:write,users:read');
+    expect(url.searchParams.get('redirect_uri')).toBe('https://bolt.example.com/api/oauth/proxy/callback');
+  });
+
+  it('sends the code verifier with the token exchange', async () => {
+    const fetchMock = mockFetch(JSON.stringify({ access_token: 'a', token_type: 'bearer' }), JSON_TYPE);
+
+    await exchangeCodeForTokens(
+      { name: 'gitlab', tokenUrl: 'https://gitlab.com/oauth/token', clientId: 'c', clientSecret: 's', pkce: true },
+      'code',
+      'https://bolt.example.com',
+      'verifier',
+    );
+
+    const body = new URLSearchParams((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body.get('code_verifier')).toBe('verifier');
+  });
+});
+
+describe('parseTokenResponse', () => {
+  it('parses JSON token responses', () => {
+    expect(
+      parseTokenResponse(
+        'zoom',
+        JSON.stringify({ access_token: 'a', token_type: 'bearer', expires_in: 3600 }),
+        JSON_TYPE,
+      ),
+    ).toMatchObject({ access_token: 'a', token_type: 'bearer', expires_in: 3600 });
+  });
+
+  it('parses form-encoded GitHub responses', () => {
+    expect(parseTokenResponse('github', 'access_token=gho_abc&scope=repo%2Cuser&token_type=bearer', FORM)).toEqual({
+      access_token: 'gho_abc',
+      scope: 'repo,user',
+      token_type: 'bearer',
+      expires_in: undefined,
+    });
+  });
+
+  it('converts numeric fields of form-encoded responses', () => {
+    expect(parseTokenResponse('github', 'access_token=a&expires_in=28800&token_type=bearer', FORM).expires_in).toBe(
+      28800,
+    );
+  });
+
+  it('rejects form-encoded GitHub errors', () => {
+    expect(() =>
+      parseTokenResponse(
+        'github',
+        'error=bad_verification_code&error_description=The+code+passed+is+incorrect+or+expired.',
+        FORM,
+      ),
+    ).toThrow('The code passed is incorrect or expired.');
+  });
+
+  it('rejects Slack errors sent with HTTP 200', () => {
+    expect(() => parseTokenResponse('slack', JSON.stringify({ ok: false, error: 'invalid_code' }), JSON_TYPE)).toThrow(
+      'invalid_code',
+    );
+  });
+
+  it('accepts successful Slack responses', () => {
+    const tokens = parseTokenResponse(
+      'slack',
+      JSON.stringify({ ok: true, access_token: 'xoxb-1', token_type: 'bot', scope: 'chat:write' }),
+      JSON_TYPE,
+    );
+
+    expect(tokens).toMatchObject({ access_token: 'xoxb-1', token_type: 'bot', scope: 'chat:write' });
+  });
+
+  it('rejects responses without an access token', () => {
+    expect(() => parseTokenResponse('zoom', '{}', JSON_TYPE)).toThrow('no access token returned');
+  });
+
+  it('is applied to refresh responses', async () => {
+    mockFetch(JSON.stringify({ ok: false, error: 'invalid_refresh_token' }), JSON_TYPE);
+
+    await expect(
+      exchangeRefreshToken(
+        { name: 'slack', tokenUrl: 'https://slack.com/api/oauth.v2.access', clientId: 'c', clientSecret: 's' },
+        'refresh',
+      ),
+    ).rejects.toThrow('invalid_refresh_token');
+  });
+});
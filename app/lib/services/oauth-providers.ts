@@ -0,0 +1,269 @@
+/**
+ * OAuth Provider Registry
+ *
+ * Declarative definitions for the OAuth providers supported by the OAuth proxy.
+ * Adding a provider only requires a new entry here; the proxy routes read
+ * endpoints, scopes and credentials from the registry.
+ *
+ * Endpoint URLs may contain {placeholders} that are filled from env variables
+ * (e.g. the Microsoft tenant). Providers with a discoveryUrl resolve their
+ * endpoints from the OpenID Connect discovery document instead.
+ */
+
+export interface OAuthProviderDefinition {
+  /** Provider ID used in ?provider= */
+  id: string;
+  displayName: string;
+
+  /** Authorization and token endpoints (omit when using discoveryUrl) */
+  authorizationUrl?: string;
+  tokenUrl?: string;
+
+  /** OpenID Connect discovery document (.well-known/openid-configuration) */
+  discoveryUrl?: string;
+
+  /** Env variables checked in order for the client credentials */
+  clientIdEnv: string[];
+  clientSecretEnv: string[];
+
+  /** Values for {placeholders} in URLs, read from env with a fallback */
+  urlParams?: Record<string, { env: string; default?: string }>;
+
+  defaultScopes: string[];
+
+  /** Separator used to join scopes (most providers use a space, Slack uses a comma) */
+  scopeSeparator: string;
+
+  /** Send a PKCE code challenge (S256) with the authorization request */
+  pkce: boolean;
+
+  /** Extra query parameters for the authorization request */
+  additionalParams?: Record<string, string>;
+
+  /** Link to the provider's app registration page */
+  docsUrl?: string;
+}
+
+/**
+ * Resolved endpoints for a provider
+ */
+export interface OAuthProviderEndpoints {
+  authorizationUrl: string;
+  tokenUrl: string;
+}
+
+export const OAUTH_PROVIDERS: Record<string, OAuthProviderDefinition> = {
+  zoom: {
+    id: 'zoom',
+    displayName: 'Zoom',
+    authorizationUrl: 'https://zoom.us/oauth/authorize',
+    tokenUrl: 'https://zoom.us/oauth/token',
+    clientIdEnv: ['ZOOM_OAUTH_CLIENT_ID', 'ZOOM_CLIENT_ID'],
+    clientSecretEnv: ['ZOOM_OAUTH_CLIENT_SECRET', 'ZOOM_CLIENT_SECRET'],
+    defaultScopes: ['meeting:read', 'meeting:write', 'user:read'],
+    scopeSeparator: ' ',
+    pkce: false,
+    docsUrl: 'https://marketplace.zoom.us/develop/create',
+  },
+  github: {
+    id: 'github',
+    displayName: 'GitHub',
+    authorizationUrl: 'https://github.com/login/oauth/authorize',
+    tokenUrl: 'https://github.com/login/oauth/access_token',
+    clientIdEnv: ['GITHUB_OAUTH_CLIENT_ID'],
+    clientSecretEnv: ['GITHUB_OAUTH_CLIENT_SECRET'],
+    defaultScopes: ['repo', 'user'],
+    scopeSeparator: ' ',
+    pkce: false,
+    docsUrl: 'https://github.com/settings/developers',
+  },
+  gitlab: {
+    id: 'gitlab',
+    displayName: 'GitLab',
+    authorizationUrl: '{baseUrl}/oauth/authorize',
+    tokenUrl: '{baseUrl}/oauth/token',
+    clientIdEnv: ['GITLAB_OAUTH_CLIENT_ID'],
+    clientSecretEnv: ['GITLAB_OAUTH_CLIENT_SECRET'],
+    urlParams: { baseUrl: { env: 'VITE_GITLAB_URL', default: 'https://gitlab.com' } },
+    defaultScopes: ['api', 'read_user', 'read_repository', 'write_repository'],
+    scopeSeparator: ' ',
+    pkce: true,
+    docsUrl: 'https://gitlab.com/-/profile/applications',
+  },
+  google: {
+    id: 'google',
+    displayName: 'Google',
+    authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    clientIdEnv: ['GOOGLE_OAUTH_CLIENT_ID'],
+    clientSecretEnv: ['GOOGLE_OAUTH_CLIENT_SECRET'],
+    defaultScopes: ['openid', 'email', 'profile'],
+    scopeSeparator: ' ',
+    pkce: true,
+    additionalParams: {
+      access_type: 'offline',
+      prompt: 'consent',
+    },
+    docsUrl: 'https://console.cloud.google.com/apis/credentials',
+  },
+  slack: {
+    id: 'slack',
+    displayName: 'Slack',
+    authorizationUrl: 'https://slack.com/oauth/v2/authorize',
+    tokenUrl: 'https://slack.com/api/oauth.v2.access',
+    clientIdEnv: ['SLACK_OAUTH_CLIENT_ID'],
+    clientSecretEnv: ['SLACK_OAUTH_CLIENT_SECRET'],
+    defaultScopes: ['chat:write', 'channels:read', 'users:read'],
+    scopeSeparator: ',',
+    pkce: false,
+    docsUrl: 'https://api.slack.com/apps',
+  },
+  microsoft: {
+    id: 'microsoft',
+    displayName: 'Microsoft',
+    authorizationUrl: 'https://login.microsoftonline.com/{tenant}/oauth2/v2.0/authorize',
+    tokenUrl: 'https://login.microsoftonline.com/{tenant}/oauth2/v2.0/token',
+    clientIdEnv: ['MICROSOFT_OAUTH_CLIENT_ID'],
+    clientSecretEnv: ['MICROSOFT_OAUTH_CLIENT_SECRET'],
+    urlParams: { tenant: { env: 'MICROSOFT_OAUTH_TENANT', default: 'common' } },
+    defaultScopes: ['openid', 'profile', 'email', 'offline_access', 'User.Read'],
+    scopeSeparator: ' ',
+    pkce: true,
+    docsUrl: 'https://portal.azure.com/#view/Microsoft_AAD_RegisteredApps/ApplicationsListBlade',
+  },
+  salesforce: {
+    id: 'salesforce',
+    displayName: 'Salesforce',
+    authorizationUrl: '{loginUrl}/services/oauth2/authorize',
+    tokenUrl: '{loginUrl}/services/oauth2/token',
+    clientIdEnv: ['SALESFORCE_OAUTH_CLIENT_ID'],
+    clientSecretEnv: ['SALESFORCE_OAUTH_CLIENT_SECRET'],
+    urlParams: { loginUrl: { env: 'SALESFORCE_LOGIN_URL', default: 'https://login.salesforce.com' } },
+    defaultScopes: ['api', 'refresh_token'],
+    scopeSeparator: ' ',
+    pkce: true,
+    docsUrl: 'https://help.salesforce.com/s/articleView?id=sf.connected_app_create.htm',
+  },
+  oidc: {
+    id: 'oidc',
+    displayName: 'OpenID Connect',
+    discoveryUrl: '{issuer}/.well-known/openid-configuration',
+    clientIdEnv: ['OIDC_OAUTH_CLIENT_ID'],
+    clientSecretEnv: ['OIDC_OAUTH_CLIENT_SECRET'],
+    urlParams: { issuer: { env: 'OIDC_ISSUER' } },
+    defaultScopes: ['openid', 'profile', 'email'],
+    scopeSeparator: ' ',
+    pkce: true,
+  },
+};
+
+// Discovery documents rarely change; cache them for the life of the process
+const discoveryCache = new Map<string, OAuthProviderEndpoints>();
+
+/**
+ * Get a provider definition by ID (case-insensitive)
+ */
+export function getOAuthProviderDefinition(provider: string): OAuthProviderDefinition | null {
+  return OAUTH_PROVIDERS[provider.toLowerCase()] || null;
+}
+
+/**
+ * All env variable names read by the registry (credentials and URL parameters)
+ */
+export function getOAuthProviderEnvKeys(): string[] {
+  const keys = new Set<string>();
+
+  for (const definition of Object.values(OAUTH_PROVIDERS)) {
+    definition.clientIdEnv.forEach((key) => keys.add(key));
+    definition.clientSecretEnv.forEach((key) => keys.add(key));
+    Object.values(definition.urlParams || {}).forEach((param) => keys.add(param.env));
+  }
+
+  return Array.from(keys);
+}
+
+/**
+ * Read the first non-empty env value from a list of keys
+ */
+export function readEnvValue(env: Record<string, string | undefined>, keys: string[]): string {
+  for (const key of keys) {
+    if (env[key]) {
+      return env[key] as string;
+    }
+  }
+
+  return '';
+}
+
+/**
+ * Fill {placeholders} in a provider URL from env
+ */
+function fillUrlParams(
+  url: string,
+  definition: OAuthProviderDefinition,
+  env: Record<string, string | undefined>,
+): string {
+  return url.replace(/\{(\w+)\}/g, (_match, name: string) => {
+    const param = definition.urlParams?.[name];
+    const value = param ? env[param.env] || param.default : undefined;
+
+    if (!value) {
+      throw new Error(`Missing ${param?.env || name} for OAuth provider ${definition.id}`);
+    }
+
+    return value.replace(/\/+$/, '');
+  });
+}
+
+/**
+ * Fetch authorization and token endpoints from an OpenID Connect discovery document
+ */
+export async function discoverOpenIdEndpoints(discoveryUrl: string): Promise<OAuthProviderEndpoints> {
+  const cached = discoveryCache.get(discoveryUrl);
+
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(discoveryUrl, { headers: { Accept: 'application/json' } });
+
+  if (!response.ok) {
+    throw new Error(`OpenID discovery failed for ${discoveryUrl}: HTTP ${response.status}`);
+  }
+
+  const document = (await response.json()) as { authorization_endpoint?: string; token_endpoint?: string };
+
+  if (!document.authorization_endpoint || !document.token_endpoint) {
+    throw new Error(`OpenID discovery document at ${discoveryUrl} is missing authorization or token endpoint`);
+  }
+
+  const endpoints = {
+    authorizationUrl: document.authorization_endpoint,
+    tokenUrl: document.token_endpoint,
+  };
+
+  discoveryCache.set(discoveryUrl, endpoints);
+
+  return endpoints;
+}
+
+/**
+ * Resolve a provider's authorization and token endpoints
+ */
+export async function resolveOAuthProviderEndpoints(
+  definition: OAuthProviderDefinition,
+  env: Record<string, string | undefined>,
+): Promise<OAuthProviderEndpoints> {
+  if (definition.discoveryUrl) {
+    return discoverOpenIdEndpoints(fillUrlParams(definition.discoveryUrl, definition, env));
+  }
+
+  if (!definition.authorizationUrl || !definition.tokenUrl) {
+    throw new Error(`OAuth provider ${definition.id} has no endpoints configured`);
+  }
+
+  return {
+    authorizationUrl: fillUrlParams(definition.authorizationUrl, definition, env),
+    tokenUrl: fillUrlParams(definition.tokenUrl, definition, env),
+  };
+}
@@ -4,8 +4,17 @@
  * Provides OAuth proxy functionality for apps running in WebContainer.
  * Since WebContainer apps have ephemeral URLs (*.webcontainer-api.io),
  * this service allows OAuth flows to use a stable redirect URL.
+ *
+ * Provider endpoints and defaults come from the registry in oauth-providers.ts.
  */
 
+import {
+  getOAuthProviderDefinition,
+  OAUTH_PROVIDERS,
+  readEnvValue,
+  resolveOAuthProviderEndpoints,
+} from './oauth-providers';
+
 export interface OAuthProviderConfig {
   name: string;
   authorizationUrl: string;
@@ -13,14 +22,25 @@ export interface OAuthProviderConfig {
   clientId: string;
   clientSecret: string;
   scopes: string[];
+  scopeSeparator?: string;
+  pkce?: boolean;
   additionalParams?: Record<string, string>;
 }
 
+/**
+ * Provider settings resolved when a dynamic session is created (no credentials)
+ */
+export type OAuthProviderEndpointConfig = Pick<
+  OAuthProviderConfig,
+  'name' | 'authorizationUrl' | 'tokenUrl' | 'scopeSeparator' | 'pkce' | 'additionalParams'
+>;
+
 export interface OAuthSession {
   id: string;
   provider: string;
   state: string;
   codeVerifier?: string;
+  codeChallenge?: string;
   redirectUri: string;
   scopes: string[];
   webcontainerId?: string;
@@ -34,6 +54,9 @@ export interface OAuthSession {
     appId?: string;
     appName?: string;
   };
+
+  // Provider endpoints for dynamic sessions
+  providerConfig?: OAuthProviderEndpointConfig;
 }
 
 export interface OAuthTokens {
@@ -69,57 +92,31 @@ function ensureHttps(url: string): string {
 }
 
 /**
- * Get OAuth provider configuration from environment variables
+ * Get OAuth provider configuration from the provider registry and environment variables
+ * Providers using OpenID Connect discovery fetch their endpoints on first use.
  */
-export function getOAuthProviderConfig(provider: string, env: Record<string, string>): OAuthProviderConfig | null {
-  switch (provider.toLowerCase()) {
-    case 'zoom':
-      return {
-        name: 'zoom',
-        authorizationUrl: 'https://zoom.us/oauth/authorize',
-        tokenUrl: 'https://zoom.us/oauth/token',
-        clientId: env.ZOOM_OAUTH_CLIENT_ID || env.ZOOM_CLIENT_ID || '',
-        clientSecret: env.ZOOM_OAUTH_CLIENT_SECRET || env.ZOOM_CLIENT_SECRET || '',
-        scopes: ['meeting:read', 'meeting:write', 'user:read'],
-      };
-
-    case 'github':
-      return {
-        name: 'github',
-        authorizationUrl: 'https://github.com/login/oauth/authorize',
-        tokenUrl: 'https://github.com/login/oauth/access_token',
-        clientId: env.GITHUB_OAUTH_CLIENT_ID || '',
-        clientSecret: env.GITHUB_OAUTH_CLIENT_SECRET || '',
-        scopes: ['repo', 'user'],
-      };
-
-    case 'gitlab':
-      return {
-        name: 'gitlab',
-        authorizationUrl: `${env.VITE_GITLAB_URL || 'https://gitlab.com'}/oauth/authorize`,
-        tokenUrl: `${env.VITE_GITLAB_URL || 'https://gitlab.com'}/oauth/token`,
-        clientId: env.GITLAB_OAUTH_CLIENT_ID || '',
-        clientSecret: env.GITLAB_OAUTH_CLIENT_SECRET || '',
-        scopes: ['api', 'read_user', 'read_repository', 'write_repository'],
-      };
-
-    case 'google':
-      return {
-        name: 'google',
-        authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
-        tokenUrl: 'https://oauth2.googleapis.com/token',
-        clientId: env.GOOGLE_OAUTH_CLIENT_ID || '',
-        clientSecret: env.GOOGLE_OAUTH_CLIENT_SECRET || '',
-        scopes: ['openid', 'email', 'profile'],
-        additionalParams: {
-          access_type: 'offline',
-          prompt: 'consent',
-        },
-      };
-
-    default:
-      return null;
+export async function getOAuthProviderConfig(
+  provider: string,
+  env: Record<string, string>,
+): Promise<OAuthProviderConfig | null> {
+  const definition = getOAuthProviderDefinition(provider);
+
+  if (!definition) {
+    return null;
   }
+
+  const endpoints = await resolveOAuthProviderEndpoints(definition, env);
+
+  return {
+    name: definition.id,
+    ...endpoints,
+    clientId: readEnvValue(env, definition.clientIdEnv),
+    clientSecret: readEnvValue(env, definition.clientSecretEnv),
+    scopes: definition.defaultScopes,
+    scopeSeparator: definition.scopeSeparator,
+    pkce: definition.pkce,
+    additionalParams: definition.additionalParams,
+  };
 }
 
 /**
@@ -159,13 +156,14 @@ export async function createOAuthSession(
 ): Promise<OAuthSession> {
   const sessionId = generateSecureString(16);
   const state = generateSecureString(16);
-  const { codeVerifier } = await generatePKCE();
+  const { codeVerifier, codeChallenge } = await generatePKCE();
 
   const session: OAuthSession = {
     id: sessionId,
     provider,
     state,
     codeVerifier,
+    codeChallenge,
     redirectUri,
     scopes,
     webcontainerId,
@@ -239,17 +237,26 @@ export function getOAuthTokens(sessionId: string): OAuthTokens | null {
 /**
  * Build authorization URL
  */
-export function buildAuthorizationUrl(config: OAuthProviderConfig, session: OAuthSession, publicUrl: string): string {
+export function buildAuthorizationUrl(
+  config: Pick<OAuthProviderConfig, 'authorizationUrl' | 'clientId' | 'scopeSeparator' | 'pkce' | 'additionalParams'>,
+  session: OAuthSession,
+  publicUrl: string,
+): string {
   const secureUrl = ensureHttps(publicUrl);
   const params = new URLSearchParams({
     client_id: config.clientId,
     redirect_uri: `${secureUrl}/api/oauth/proxy/callback`,
     response_type: 'code',
     state: session.state,
-    scope: session.scopes.join(' '),
+    scope: session.scopes.join(config.scopeSeparator || ' '),
     ...config.additionalParams,
   });
 
+  if (config.pkce && session.codeChallenge) {
+    params.set('code_challenge', session.codeChallenge);
+    params.set('code_challenge_method', 'S256');
+  }
+
   return `${config.authorizationUrl}?${params.toString()}`;
 }
 
@@ -257,9 +264,10 @@ export function buildAuthorizationUrl(config: OAuthProviderConfig, session: OAut
  * Exchange authorization code for tokens
  */
 export async function exchangeCodeForTokens(
-  config: OAuthProviderConfig,
+  config: Pick<OAuthProviderConfig, 'name' | 'tokenUrl' | 'clientId' | 'clientSecret' | 'pkce'>,
   code: string,
   publicUrl: string,
+  codeVerifier?: string,
 ): Promise<OAuthTokens> {
   const secureUrl = ensureHttps(publicUrl);
   const params = new URLSearchParams({
@@ -270,6 +278,10 @@ export async function exchangeCodeForTokens(
     client_secret: config.clientSecret,
   });
 
+  if (config.pkce && codeVerifier) {
+    params.set('code_verifier', codeVerifier);
+  }
+
   const response = await fetch(config.tokenUrl, {
     method: 'POST',
     headers: {
@@ -281,10 +293,83 @@ export async function exchangeCodeForTokens(
 
   if (!response.ok) {
     const error = await response.text();
+    console.error(`[OAuth] Token exchange failed for ${config.name}:`, error);
     throw new Error(`Token exchange failed: ${error}`);
   }
 
-  return response.json();
+  return parseTokenResponse(config.name, await response.text(), response.headers.get('content-type'));
+}
+
+/**
+ * Parse and validate a token endpoint response
+ * GitHub answers with a form-encoded body unless JSON is negotiated, and some providers
+ * (GitHub, Slack) report errors with HTTP 200 and an error field.
+ */
+export function parseTokenResponse(provider: string, text: string, contentType: string | null): OAuthTokens {
+  let body: Partial<Omit<OAuthTokens, 'expires_in'>> & {
+    expires_in?: number | string;
+    error?: string;
+    error_description?: string;
+    ok?: boolean;
+  };
+
+  if (contentType?.includes('application/x-www-form-urlencoded') || !text.trim().startsWith('{')) {
+    body = Object.fromEntries(new URLSearchParams(text));
+  } else {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new Error(`Token exchange failed: invalid response from ${provider}`);
+    }
+  }
+
+  if (body.error || body.ok === false || !body.access_token) {
+    console.error(`[OAuth] Token endpoint returned an error for ${provider}:`, body.error);
+    throw new Error(`Token exchange failed: ${body.error_description || body.error || 'no access token returned'}`);
+  }
+
+  return {
+    ...body,
+    access_token: body.access_token,
+    token_type: body.token_type || 'bearer',
+    expires_in: body.expires_in !== undefined ? Number(body.expires_in) : undefined,
+  } as OAuthTokens;
+}
+
+/**
+ * Exchange a refresh token for new tokens
+ * Client credentials are sent with HTTP Basic auth (required by Zoom) and in the body
+ * for providers that only read them from the form. Providers that rotate refresh
+ * tokens (e.g. Zoom) return a new refresh_token that replaces the old one.
+ */
+export async function exchangeRefreshToken(
+  config: Pick<OAuthProviderConfig, 'name' | 'tokenUrl' | 'clientId' | 'clientSecret'>,
+  refreshToken: string,
+): Promise<OAuthTokens> {
+  const params = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+    client_id: config.clientId,
+    client_secret: config.clientSecret,
+  });
+
+  const response = await fetch(config.tokenUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+      Authorization: `Basic ${btoa(`${config.clientId}:${config.clientSecret}`)}`,
+    },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    console.error(`[OAuth] Token refresh failed for ${config.name}:`, error);
+    throw new Error(`Token refresh failed: ${error}`);
+  }
+
+  return parseTokenResponse(config.name, await response.text(), response.headers.get('content-type'));
 }
 
 /**
@@ -304,7 +389,7 @@ function cleanupExpiredSessions(): void {
  * Get supported OAuth providers
  */
 export function getSupportedProviders(): string[] {
-  return ['zoom', 'github', 'gitlab', 'google'];
+  return Object.keys(OAUTH_PROVIDERS);
 }
 
 /**
@@ -321,22 +406,38 @@ export async function createDynamicOAuthSession(
     appName?: string;
   },
   webcontainerId?: string,
+  env: Record<string, string> = {},
 ): Promise<OAuthSession> {
+  const definition = getOAuthProviderDefinition(provider);
+
+  if (!definition) {
+    throw new Error(`Unsupported provider: ${provider}`);
+  }
+
   const sessionId = generateSecureString(16);
   const state = generateSecureString(16);
-  const { codeVerifier } = await generatePKCE();
+  const { codeVerifier, codeChallenge } = await generatePKCE();
+  const endpoints = await resolveOAuthProviderEndpoints(definition, env);
 
   const session: OAuthSession = {
     id: sessionId,
     provider,
     state,
     codeVerifier,
+    codeChallenge,
     redirectUri: publicUrl,
     scopes,
     webcontainerId,
     createdAt: Date.now(),
     expiresAt: Date.now() + SESSION_TTL,
     dynamicCredentials,
+    providerConfig: {
+      name: definition.id,
+      ...endpoints,
+      scopeSeparator: definition.scopeSeparator,
+      pkce: definition.pkce,
+      additionalParams: definition.additionalParams,
+    },
   };
 
   oauthSessions.set(sessionId, session);
@@ -355,33 +456,15 @@ export async function createDynamicOAuthSession(
  * Build authorization URL with dynamic credentials
  */
 export function buildDynamicAuthorizationUrl(session: OAuthSession, publicUrl: string): string {
-  if (!session.dynamicCredentials) {
+  if (!session.dynamicCredentials || !session.providerConfig) {
     throw new Error('Session does not have dynamic credentials');
   }
 
-  const secureUrl = ensureHttps(publicUrl);
-  const params = new URLSearchParams({
-    client_id: session.dynamicCredentials.clientId,
-    redirect_uri: `${secureUrl}/api/oauth/proxy/callback`,
-    response_type: 'code',
-    state: session.state,
-    scope: session.scopes.join(' '),
-  });
-
-  // Determine authorization URL based on provider
-  let authorizationUrl = 'https://zoom.us/oauth/authorize';
-
-  if (session.provider === 'github') {
-    authorizationUrl = 'https://github.com/login/oauth/authorize';
-  } else if (session.provider === 'gitlab') {
-    authorizationUrl = 'https://gitlab.com/oauth/authorize';
-  } else if (session.provider === 'google') {
-    authorizationUrl = 'https://accounts.google.com/o/oauth2/v2/auth';
-    params.append('access_type', 'offline');
-    params.append('prompt', 'consent');
-  }
-
-  return `${authorizationUrl}?${params.toString()}`;
+  return buildAuthorizationUrl(
+    { ...session.providerConfig, clientId: session.dynamicCredentials.clientId },
+    session,
+    publicUrl,
+  );
 }
 
 /**
@@ -392,49 +475,23 @@ export async function exchangeCodeForTokensWithDynamicCredentials(
   code: string,
   publicUrl: string,
 ): Promise<OAuthTokens> {
-  if (!session.dynamicCredentials) {
+  if (!session.dynamicCredentials || !session.providerConfig) {
     throw new Error('Session does not have dynamic credentials');
   }
 
-  const secureUrl = ensureHttps(publicUrl);
-
-  // Determine token URL based on provider
-  let tokenUrl = 'https://zoom.us/oauth/token';
-
-  if (session.provider === 'github') {
-    tokenUrl = 'https://github.com/login/oauth/access_token';
-  } else if (session.provider === 'gitlab') {
-    tokenUrl = 'https://gitlab.com/oauth/token';
-  } else if (session.provider === 'google') {
-    tokenUrl = 'https://oauth2.googleapis.com/token';
-  }
-
-  const params = new URLSearchParams({
-    grant_type: 'authorization_code',
-    code,
-    redirect_uri: `${secureUrl}/api/oauth/proxy/callback`,
-    client_id: session.dynamicCredentials.clientId,
-    client_secret: session.dynamicCredentials.clientSecret,
-  });
-
   console.log(`[OAuth] Exchanging code for tokens with dynamic credentials for ${session.provider}`);
 
-  const response = await fetch(tokenUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      Accept: 'application/json',
+  const tokens = await exchangeCodeForTokens(
+    {
+      ...session.providerConfig,
+      clientId: session.dynamicCredentials.clientId,
+      clientSecret: session.dynamicCredentials.clientSecret,
     },
-    body: params.toString(),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    console.error(`[OAuth] Token exchange failed for ${session.provider}:`, error);
-    throw new Error(`Token exchange failed: ${error}`);
-  }
+    code,
+    publicUrl,
+    session.codeVerifier,
+  );
 
-  const tokens = (await response.json()) as OAuthTokens;
   console.log(`[OAuth] Token exchange successful for ${session.provider}`);
 
   return tokens;
@@ -0,0 +1,92 @@
+import type { ActionFunctionArgs } from '@remix-run/cloudflare';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { exchangeRefreshToken } from './oauth-proxy';
+import type { StoredProjectRecord } from './project-store';
+import {
+  getProjectRefreshToken,
+  recordProjectRefreshState,
+  setProjectStorage,
+  storeProjectCredentials,
+} from './project-store';
+import { MemoryRecordStorage } from './record-storage';
+import { action } from '~/routes/api.oauth.tokens.$projectId.refresh';
+
+vi.mock('~/lib/services/oauth-proxy', () => ({ exchangeRefreshToken: vi.fn() }));
+
+const PROJECT_ID = 'proj_refresh123';
+
+function refresh(options: { refreshToken?: string; headers?: Record<string, string>; env?: Record<string, string> }) {
+  const request = new Request(`http://localhost/api/oauth/tokens/${PROJECT_ID}/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: JSON.stringify(options.refreshToken ? { refresh_token: options.refreshToken } : {}),
+  });
+
+  return action({
+    request,
+    context: { cloudflare: { env: options.env || {} } },
+    params: { projectId: PROJECT_ID },
+  } as unknown as ActionFunctionArgs);
+}
+
+describe('token refresh endpoint', () => {
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.mocked(exchangeRefreshToken).mockReset();
+    vi.mocked(exchangeRefreshToken).mockResolvedValue({
+      access_token: 'access-2',
+      refresh_token: 'refresh-2',
+      token_type: 'bearer',
+      expires_in: 3600,
+    });
+
+    setProjectStorage(new MemoryRecordStorage<StoredProjectRecord>());
+    await storeProjectCredentials({
+      projectId: PROJECT_ID,
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      appId: 'app-id',
+      appName: 'Test App',
+    });
+    await recordProjectRefreshState(PROJECT_ID, { refresh_token: 'refresh-1', expires_in: 3600 });
+  });
+
+  it('refreshes when the presented token matches the stored one', async () => {
+    const response = await refresh({ refreshToken: 'refresh-1' });
+    const result = (await response.json()) as { success: boolean; tokens?: { refresh_token?: string } };
+
+    expect(response.status).toBe(200);
+    expect(result.tokens?.refresh_token).toBe('refresh-2');
+    expect(vi.mocked(exchangeRefreshToken).mock.calls[0][1]).toBe('refresh-1');
+    expect(await getProjectRefreshToken(PROJECT_ID)).toBe('refresh-2');
+  });
+
+  it('answers 409 without refreshing when the presented token is stale', async () => {
+    const response = await refresh({ refreshToken: 'refresh-0' });
+
+    expect(response.status).toBe(409);
+    expect(exchangeRefreshToken).not.toHaveBeenCalled();
+    expect(await getProjectRefreshToken(PROJECT_ID)).toBe('refresh-1');
+  });
+
+  it('refuses anonymous refreshes without a token', async () => {
+    const response = await refresh({});
+
+    expect(response.status).toBe(401);
+    expect(exchangeRefreshToken).not.toHaveBeenCalled();
+    expect(await getProjectRefreshToken(PROJECT_ID)).toBe('refresh-1');
+  });
+
+  it('lets the admin refresh without a token and stores the tokens for pickup', async () => {
+    const response = await refresh({
+      headers: { Authorization: `Basic ${btoa('admin:admin-password')}` },
+      env: { ADMIN_PASSWORD: 'admin-password' },
+    });
+    const result = (await response.json()) as { success: boolean; pickup?: boolean; tokens?: unknown };
+
+    expect(response.status).toBe(200);
+    expect(result.pickup).toBe(true);
+    expect(result.tokens).toBeUndefined();
+  });
+});
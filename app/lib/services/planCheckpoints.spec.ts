@@ -0,0 +1,102 @@
+import type { WebContainer } from '@webcontainer/api';
+import { describe, expect, it, vi } from 'vitest';
+import { getChangedFiles, restoreFiles } from './planCheckpoints';
+import type { FileMap } from '~/lib/stores/files';
+
+const WORKDIR = '/home/project';
+
+function file(content: string, options: { isBinary?: boolean; isLocked?: boolean } = {}) {
+  return { type: 'file' as const, content, isBinary: options.isBinary ?? false, isLocked: options.isLocked };
+}
+
+function createContainer() {
+  const fs = {
+    rm: vi.fn(async (_path: string, _options?: object) => undefined),
+    mkdir: vi.fn(async (_path: string, _options?: object) => undefined),
+    writeFile: vi.fn(async (_path: string, _content: string, _options?: object) => undefined),
+  };
+
+  return { fs, container: { workdir: WORKDIR, fs } as unknown as Pick<WebContainer, 'fs' | 'workdir'> };
+}
+
+describe('getChangedFiles', () => {
+  it('lists changed, created and deleted text files', () => {
+    const before: FileMap = {
+      [`${WORKDIR}/src`]: { type: 'folder' },
+      [`${WORKDIR}/src/same.ts`]: file('same'),
+      [`${WORKDIR}/src/changed.ts`]: file('old'),
+      [`${WORKDIR}/src/deleted.ts`]: file('gone'),
+    };
+    const after: FileMap = {
+      [`${WORKDIR}/src`]: { type: 'folder' },
+      [`${WORKDIR}/src/same.ts`]: file('same'),
+      [`${WORKDIR}/src/changed.ts`]: file('new'),
+      [`${WORKDIR}/src/created.ts`]: file(''),
+    };
+
+    expect(getChangedFiles(before, after)).toEqual({
+      [`${WORKDIR}/src/changed.ts`]: { before: 'old', after: 'new' },
+      [`${WORKDIR}/src/deleted.ts`]: { before: 'gone', after: '' },
+      [`${WORKDIR}/src/created.ts`]: { before: '', after: '' },
+    });
+  });
+
+  it('ignores folders and binary files', () => {
+    const before: FileMap = { [`${WORKDIR}/logo.png`]: file('', { isBinary: true }) };
+    const after: FileMap = { [`${WORKDIR}/assets`]: { type: 'folder' } };
+
+    expect(getChangedFiles(before, after)).toEqual({});
+  });
+});
+
+describe('restoreFiles', () => {
+  it('removes created files, recreates folders and rewrites changed files', async () => {
+    const { fs, container } = createContainer();
+    const currentFiles: FileMap = {
+      [`${WORKDIR}/src/index.ts`]: file('changed'),
+      [`${WORKDIR}/src/same.ts`]: file('same'),
+      [`${WORKDIR}/created`]: { type: 'folder' },
+      [`${WORKDIR}/created/file.ts`]: file('new'),
+    };
+    const checkpoint: FileMap = {
+      [`${WORKDIR}/src`]: { type: 'folder' },
+      [`${WORKDIR}/src/index.ts`]: file('original'),
+      [`${WORKDIR}/src/same.ts`]: file('same'),
+      [`${WORKDIR}/src/deleted.ts`]: file('deleted'),
+    };
+
+    const keptFiles = await restoreFiles(container, currentFiles, checkpoint);
+
+    expect(keptFiles).toEqual([]);
+    expect(fs.rm.mock.calls.map(([filePath]) => filePath)).toEqual(['created/file.ts', 'created']);
+    expect(fs.mkdir).toHaveBeenCalledWith('src', { recursive: true });
+    expect(fs.writeFile.mock.calls.map(([filePath, content]) => [filePath, content])).toEqual([
+      ['src/index.ts', 'original'],
+      ['src/deleted.ts', 'deleted'],
+    ]);
+  });
+
+  it('keeps locked files and the folders that hold them', async () => {
+    const { fs, container } = createContainer();
+    const currentFiles: FileMap = {
+      [`${WORKDIR}/config.ts`]: file('edited', { isLocked: true }),
+      [`${WORKDIR}/created`]: { type: 'folder' },
+      [`${WORKDIR}/created/locked.ts`]: file('new', { isLocked: true }),
+    };
+    const checkpoint: FileMap = { [`${WORKDIR}/config.ts`]: file('original') };
+
+    const keptFiles = await restoreFiles(container, currentFiles, checkpoint);
+
+    expect(keptFiles).toEqual([`${WORKDIR}/config.ts`, `${WORKDIR}/created/locked.ts`]);
+    expect(fs.rm).not.toHaveBeenCalled();
+    expect(fs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('leaves binary files alone', async () => {
+    const { fs, container } = createContainer();
+
+    await restoreFiles(container, { [`${WORKDIR}/logo.png`]: file('', { isBinary: true }) }, {});
+
+    expect(fs.rm).not.toHaveBeenCalled();
+  });
+});
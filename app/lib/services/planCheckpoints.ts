@@ -0,0 +1,203 @@
+import type { WebContainer } from '@webcontainer/api';
+import { atom } from 'nanostores';
+import { chatId, db, getPlanCheckpointPrefix, getSnapshot, setSnapshot } from '~/lib/persistence';
+import type { FileMap } from '~/lib/stores/files';
+import { planStore, revertToStep, setStepCheckpoint } from '~/lib/stores/plan';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { webcontainer } from '~/lib/webcontainer';
+import type { PlanStep } from '~/types/plan';
+import { createScopedLogger } from '~/utils/logger';
+import { path as nodePath } from '~/utils/path';
+
+const logger = createScopedLogger('PlanCheckpoints');
+
+/**
+ * Plan Step Checkpoints
+ *
+ * Before a step is auto-executed, the workbench files are saved as a snapshot in the
+ * chat's IndexedDB, so the step can be reverted and the changes it made can be diffed.
+ * Binary files are not part of the FileMap content and are left alone.
+ */
+
+export interface StepDiff {
+  stepId: string;
+  stepNumber: number;
+  stepTitle: string;
+
+  // Text files the step changed, keyed by path; an empty side means created or deleted
+  files: Record<string, { before: string; after: string }>;
+}
+
+// Step changes shown in the workbench diff view
+export const stepDiff = atom<StepDiff | null>(null);
+
+export async function createStepCheckpoint(step: PlanStep): Promise<void> {
+  const id = chatId.get();
+  const plan = planStore.get().currentPlan;
+
+  if (!db || !id || !plan) {
+    logger.warn('No chat to store the checkpoint in', { step: step.title });
+    return;
+  }
+
+  const checkpointId = `${getPlanCheckpointPrefix(id, plan.id)}${step.id}`;
+
+  await setSnapshot(db, checkpointId, {
+    chatIndex: step.id,
+    files: workbenchStore.files.get(),
+    summary: step.title,
+  });
+  setStepCheckpoint(step.id, checkpointId);
+}
+
+async function getCheckpointFiles(step: PlanStep): Promise<FileMap> {
+  if (!db || !step.checkpointId) {
+    throw new Error('This step has no checkpoint');
+  }
+
+  const snapshot = await getSnapshot(db, step.checkpointId);
+
+  if (!snapshot) {
+    throw new Error('The checkpoint of this step was not found');
+  }
+
+  return snapshot.files;
+}
+
+/**
+ * Put the files back the way they were before a step ran, and mark that step
+ * and every step after it as pending. Resolves to the locked files that were kept
+ */
+export async function revertToCheckpoint(stepIndex: number): Promise<string[]> {
+  const step = planStore.get().currentPlan?.steps[stepIndex];
+
+  if (!step) {
+    return [];
+  }
+
+  const files = await getCheckpointFiles(step);
+  const keptFiles = await restoreFiles(await webcontainer, workbenchStore.files.get(), files);
+
+  if (keptFiles.length > 0) {
+    logger.warn('Locked files were not reverted', { files: keptFiles });
+  }
+
+  revertToStep(stepIndex);
+  stepDiff.set(null);
+
+  logger.info('Reverted to checkpoint', { step: step.title });
+
+  return keptFiles;
+}
+
+/**
+ * Write the checkpoint files over the current ones. Locked files are left as they are,
+ * and their paths are returned
+ */
+export async function restoreFiles(
+  container: Pick<WebContainer, 'fs' | 'workdir'>,
+  currentFiles: FileMap,
+  files: FileMap,
+): Promise<string[]> {
+  const toRelativePath = (filePath: string) =>
+    filePath.startsWith(container.workdir) ? nodePath.relative(container.workdir, filePath) : filePath;
+  const lockedPaths = Object.keys(currentFiles).filter((filePath) => currentFiles[filePath]?.isLocked);
+  const keptPaths = new Set<string>();
+
+  // Deepest paths first, so created folders are emptied before they are removed
+  const createdPaths = Object.keys(currentFiles)
+    .filter((filePath) => currentFiles[filePath] && !files[filePath])
+    .filter((filePath) => !(currentFiles[filePath]?.type === 'file' && currentFiles[filePath]?.isBinary))
+    .sort((a, b) => b.length - a.length);
+
+  for (const filePath of createdPaths) {
+    if (currentFiles[filePath]?.isLocked) {
+      keptPaths.add(filePath);
+      continue;
+    }
+
+    // A folder that holds a locked file stays too
+    if (lockedPaths.some((lockedPath) => lockedPath.startsWith(`${filePath}/`))) {
+      continue;
+    }
+
+    await container.fs.rm(toRelativePath(filePath), { recursive: true, force: true });
+  }
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    if (dirent?.type === 'folder') {
+      await container.fs.mkdir(toRelativePath(filePath), { recursive: true });
+    }
+  }
+
+  for (const [filePath, dirent] of Object.entries(files)) {
+    const current = currentFiles[filePath];
+
+    if (
+      dirent?.type !== 'file' ||
+      dirent.isBinary ||
+      (current?.type === 'file' && current.content === dirent.content)
+    ) {
+      continue;
+    }
+
+    if (current?.isLocked) {
+      keptPaths.add(filePath);
+      continue;
+    }
+
+    await container.fs.writeFile(toRelativePath(filePath), dirent.content, { encoding: 'utf8' });
+  }
+
+  return [...keptPaths].sort();
+}
+
+/**
+ * Diff a step's checkpoint against the checkpoint of the next step that started after it,
+ * or against the current files when no step ran since
+ */
+export async function showStepDiff(stepIndex: number): Promise<void> {
+  const plan = planStore.get().currentPlan;
+  const step = plan?.steps[stepIndex];
+
+  if (!plan || !step || step.startedAt === undefined) {
+    return;
+  }
+
+  const nextStep = plan.steps
+    .filter((s) => s.checkpointId && s.startedAt !== undefined && s.startedAt > step.startedAt!)
+    .sort((a, b) => a.startedAt! - b.startedAt!)[0];
+
+  const before = await getCheckpointFiles(step);
+  const after = nextStep ? await getCheckpointFiles(nextStep) : workbenchStore.files.get();
+
+  stepDiff.set({
+    stepId: step.id,
+    stepNumber: stepIndex + 1,
+    stepTitle: step.title,
+    files: getChangedFiles(before, after),
+  });
+  workbenchStore.showWorkbench.set(true);
+  workbenchStore.currentView.set('diff');
+}
+
+export function getChangedFiles(before: FileMap, after: FileMap): StepDiff['files'] {
+  const changedFiles: StepDiff['files'] = {};
+
+  for (const filePath of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const beforeFile = before[filePath];
+    const afterFile = after[filePath];
+
+    if (beforeFile?.type === 'folder' || afterFile?.type === 'folder' || beforeFile?.isBinary || afterFile?.isBinary) {
+      continue;
+    }
+
+    const isCreatedOrDeleted = !beforeFile !== !afterFile;
+
+    if (isCreatedOrDeleted || beforeFile?.content !== afterFile?.content) {
+      changedFiles[filePath] = { before: beforeFile?.content ?? '', after: afterFile?.content ?? '' };
+    }
+  }
+
+  return changedFiles;
+}
@@ -2,6 +2,8 @@ import { createScopedLogger } from '~/utils/logger';
 import type { Plan, PlanStep, PlanStepStatus } from '~/types/plan';
 import { generateId } from 'ai';
 import { PLAN_MODE_SYSTEM_PROMPT, PLAN_STEP_EXECUTION_PROMPT } from '~/lib/common/prompts/plan-prompt';
+import { findDependencyCycle, resolveStepDependencies } from '~/utils/planGraph';
+import { parseStepChecks } from '~/utils/planChecks';
 
 const logger = createScopedLogger('plan-service');
 
@@ -73,19 +75,21 @@ export function parsePlanFromText(text: string, chatId: string): Plan | null {
       const planData = JSON.parse(jsonMatch[1]);
 
       if (planData.title && planData.steps && Array.isArray(planData.steps)) {
-        const steps: PlanStep[] = planData.steps.map((step: any, index: number) => ({
+        const parsedSteps: PlanStep[] = planData.steps.map((step: any, index: number) => ({
           id: generateId(),
           order: index + 1,
           title: step.title || step.name || `Step ${index + 1}`,
           description: step.description || step.details || '',
           status: 'pending' as PlanStepStatus,
           estimatedTokens: step.estimatedTokens,
+          checks: parseStepChecks(step.checks),
           substeps: step.substeps?.map((sub: any) => ({
             id: generateId(),
             title: typeof sub === 'string' ? sub : sub.title || sub.name,
             status: 'pending' as PlanStepStatus,
           })),
         }));
+        const steps = resolveStepDependencies(planData.steps, parsedSteps);
 
         const plan: Plan = {
           id: generateId(),
@@ -304,6 +308,19 @@ export function validatePlan(plan: Plan): { valid: boolean; errors: string[] } {
     if (!step.title || step.title.trim().length === 0) {
       errors.push(`Step ${i + 1} must have a title`);
     }
+
+    for (const dependencyId of step.dependsOn || []) {
+      if (!plan.steps.some((s) => s.id === dependencyId)) {
+        errors.push(`Step ${i + 1} depends on an unknown step`);
+      }
+    }
+  }
+
+  const cycle = findDependencyCycle(plan.steps);
+
+  if (cycle) {
+    const stepNumbers = cycle.map((id) => plan.steps.findIndex((s) => s.id === id) + 1);
+    errors.push(`Steps ${stepNumbers.join(', ')} depend on each other`);
   }
 
   return {
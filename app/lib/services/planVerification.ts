@@ -0,0 +1,136 @@
+import type { WebContainer } from '@webcontainer/api';
+import { webcontainer } from '~/lib/webcontainer';
+import { confirmDangerousActions } from '~/lib/stores/actionConfirmation';
+import { workbenchStore } from '~/lib/stores/workbench';
+import type { PlanCheckResult, PlanStep, PlanStepCheck } from '~/types/plan';
+import { createScopedLogger } from '~/utils/logger';
+import { path as nodePath } from '~/utils/path';
+import { describeCheck, truncateCheckOutput } from '~/utils/planChecks';
+import { cleanTerminalOutput } from '~/utils/shell';
+
+const logger = createScopedLogger('PlanVerification');
+
+/**
+ * Plan Step Verification
+ *
+ * Runs the acceptance checks of a plan step in the WebContainer.
+ */
+
+const CHECK_TIMEOUT = 120000; // 2 minutes, enough for a build
+
+export async function runStepChecks(step: PlanStep): Promise<PlanCheckResult[]> {
+  const container = await webcontainer;
+  const results: PlanCheckResult[] = [];
+
+  // Sequential, so a build check does not compete with a test run
+  for (const check of step.checks || []) {
+    const result = await runCheck(container, check);
+    logger.info('Check finished', { step: step.title, check: describeCheck(check), passed: result.passed });
+    results.push(result);
+  }
+
+  return results;
+}
+
+async function runCheck(container: WebContainer, check: PlanStepCheck): Promise<PlanCheckResult> {
+  try {
+    switch (check.type) {
+      case 'command': {
+        // Checks come from the model, so they pass the same gate as its shell actions
+        if (!(await confirmDangerousActions({ type: 'shell', content: check.command }))) {
+          return { check, passed: false, output: 'The command was not confirmed' };
+        }
+
+        return { check, ...(await runCommand(container, 'jsh', ['-c', check.command])) };
+      }
+      case 'file-exists': {
+        return { check, ...(await fileExists(container, check.path)) };
+      }
+      default: {
+        return { check, ...(await probePreview(container, check)) };
+      }
+    }
+  } catch (error) {
+    return { check, passed: false, output: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+async function runCommand(
+  container: WebContainer,
+  command: string,
+  args: string[],
+): Promise<{ passed: boolean; output: string }> {
+  const process = await container.spawn(command, args);
+
+  let output = '';
+  process.output.pipeTo(
+    new WritableStream({
+      write(data) {
+        output += data;
+      },
+    }),
+  );
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<'timeout'>((resolve) => {
+    timeoutId = setTimeout(() => resolve('timeout'), CHECK_TIMEOUT);
+  });
+
+  const exitCode = await Promise.race([process.exit, timeout]);
+  clearTimeout(timeoutId);
+
+  if (exitCode === 'timeout') {
+    process.kill();
+
+    return {
+      passed: false,
+      output: truncateCheckOutput(`${cleanTerminalOutput(output)}\nTimed out after ${CHECK_TIMEOUT / 1000}s`),
+    };
+  }
+
+  return {
+    passed: exitCode === 0,
+    output: truncateCheckOutput(cleanTerminalOutput(output)),
+  };
+}
+
+async function fileExists(container: WebContainer, filePath: string): Promise<{ passed: boolean; output: string }> {
+  const relativePath = filePath.startsWith(container.workdir)
+    ? nodePath.relative(container.workdir, filePath)
+    : filePath.replace(/^\/+/, '');
+  const directory = nodePath.dirname(relativePath);
+
+  try {
+    const entries = await container.fs.readdir(directory);
+
+    if (entries.includes(nodePath.basename(relativePath))) {
+      return { passed: true, output: '' };
+    }
+  } catch {
+    // The directory does not exist either
+  }
+
+  return { passed: false, output: `${relativePath} does not exist` };
+}
+
+/**
+ * The probe runs inside the WebContainer, since preview URLs are cross-origin for the page
+ */
+async function probePreview(
+  container: WebContainer,
+  check: Extract<PlanStepCheck, { type: 'http' }>,
+): Promise<{ passed: boolean; output: string }> {
+  const port = check.port ?? workbenchStore.previews.get().find((preview) => preview.ready)?.port;
+
+  if (!port) {
+    return { passed: false, output: 'No preview server is running' };
+  }
+
+  const url = `http://localhost:${port}${check.path?.startsWith('/') ? check.path : `/${check.path || ''}`}`;
+  const expectation = check.status === undefined ? 'response.ok' : `response.status === ${check.status}`;
+  const script = `fetch(${JSON.stringify(url)})
+    .then((response) => { console.log('HTTP ' + response.status); process.exit(${expectation} ? 0 : 1); })
+    .catch((error) => { console.error(error.message); process.exit(1); });`;
+
+  return runCommand(container, 'node', ['-e', script]);
+}
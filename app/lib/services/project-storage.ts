@@ -0,0 +1,57 @@
+/**
+ * Project Storage
+ *
+ * Persistence for the project credential store. One already-encrypted record is
+ * stored per project, keyed by project ID, and per named secret (see storeSecret).
+ * Storage never sees plaintext secrets; encryption happens in project-store.ts
+ * before records are written.
+ *
+ * Backends (selected with PROJECT_STORE_STORAGE, see record-storage.ts):
+ * - memory: Module-level Map (default, lost on restart)
+ * - kv: Cloudflare KV namespace bound as PROJECT_STORE_KV
+ * - file: JSON files on disk (PROJECT_STORE_DIR), for Docker/k8s volumes
+ */
+
+import type { StoredProjectRecord, StoredSecretRecord } from './project-store';
+import { createRecordStorageBackend, type RecordStorageAdapter, type RecordStorageBackend } from './record-storage';
+
+/**
+ * Storage backend used by the project store
+ */
+export type ProjectStorageAdapter = RecordStorageAdapter<StoredProjectRecord>;
+
+/**
+ * Storage for secrets kept next to project records (e.g. MCP server tokens)
+ */
+export type SecretStorageAdapter = RecordStorageAdapter<StoredSecretRecord>;
+
+function createProjectStorageBackend(env: Record<string, any> | undefined): RecordStorageBackend {
+  return createRecordStorageBackend(env, {
+    name: 'ProjectStorage',
+    typeVar: 'PROJECT_STORE_STORAGE',
+    kvBinding: 'PROJECT_STORE_KV',
+    dirVar: 'PROJECT_STORE_DIR',
+    defaultDir: './run/project-store',
+
+    // Records only hold ciphertext, but keep the files private anyway
+    privateFiles: true,
+  });
+}
+
+/**
+ * Create the storage adapter selected by PROJECT_STORE_STORAGE
+ *
+ * @param env - Cloudflare env bindings (falls back to process.env for plain variables)
+ */
+export function createProjectStorage(env: Record<string, any> | undefined): ProjectStorageAdapter {
+  return createProjectStorageBackend(env).open<StoredProjectRecord>('project');
+}
+
+/**
+ * Create the secret storage on the backend selected by PROJECT_STORE_STORAGE
+ *
+ * @param env - Cloudflare env bindings (falls back to process.env for plain variables)
+ */
+export function createSecretStorage(env: Record<string, any> | undefined): SecretStorageAdapter {
+  return createProjectStorageBackend(env).open<StoredSecretRecord>('secret');
+}
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StoredProjectRecord } from './project-store';
+import { MemoryRecordStorage } from './record-storage';
+
+type ProjectStoreModule = typeof import('./project-store');
+
+/**
+ * Load a fresh copy of the store so master keys are derived from the given env
+ */
+async function loadStore(env: Record<string, string>): Promise<ProjectStoreModule> {
+  vi.resetModules();
+
+  const store = await import('./project-store');
+  store.configureProjectStore(env);
+
+  return store;
+}
+
+const credentials = {
+  projectId: 'proj_test123',
+  clientId: 'client-id',
+  clientSecret: 'super-secret',
+  appId: 'app-id',
+  appName: 'Test App',
+};
+
+describe('project-store', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('encrypts secrets at rest and decrypts them on read', async () => {
+    const store = await loadStore({ PROJECT_STORE_ENCRYPTION_KEY: 'key-one' });
+    const storage = new MemoryRecordStorage<StoredProjectRecord>();
+    store.setProjectStorage(storage);
+
+    await store.storeProjectCredentials(credentials);
+
+    const record = await storage.get(credentials.projectId);
+    expect(record?.clientSecret).not.toContain('super-secret');
+
+    const loaded = await store.getProjectCredentials(credentials.projectId);
+    expect(loaded?.clientSecret).toBe('super-secret');
+  });
+
+  it('re-wraps records with the current master key after rotation', async () => {
+    const storage = new MemoryRecordStorage<StoredProjectRecord>();
+
+    const oldStore = await loadStore({ PROJECT_STORE_ENCRYPTION_KEY: 'key-one' });
+    oldStore.setProjectStorage(storage);
+    await oldStore.storeProjectCredentials(credentials);
+
+    const oldKeyId = (await storage.get(credentials.projectId))?.keyId;
+
+    const newStore = await loadStore({
+      PROJECT_STORE_ENCRYPTION_KEY: 'key-two',
+      PROJECT_STORE_PREVIOUS_KEYS: 'key-one',
+    });
+    newStore.setProjectStorage(storage);
+
+    const result = await newStore.rotateProjectKeys();
+    expect(result).toMatchObject({ rotated: 1, failed: [] });
+    expect((await storage.get(credentials.projectId))?.keyId).not.toBe(oldKeyId);
+
+    // The old key is no longer needed once rotation has completed
+    const rotatedStore = await loadStore({ PROJECT_STORE_ENCRYPTION_KEY: 'key-two' });
+    rotatedStore.setProjectStorage(storage);
+
+    const loaded = await rotatedStore.getProjectCredentials(credentials.projectId);
+    expect(loaded?.clientSecret).toBe('super-secret');
+  });
+
+  it('fails to decrypt when the wrapping master key is not configured', async () => {
+    const storage = new MemoryRecordStorage<StoredProjectRecord>();
+
+    const oldStore = await loadStore({ PROJECT_STORE_ENCRYPTION_KEY: 'key-one' });
+    oldStore.setProjectStorage(storage);
+    await oldStore.storeProjectCredentials(credentials);
+
+    const newStore = await loadStore({ PROJECT_STORE_ENCRYPTION_KEY: 'key-two' });
+    newStore.setProjectStorage(storage);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await newStore.getProjectCredentials(credentials.projectId)).toBeNull();
+    expect((await newStore.rotateProjectKeys()).failed).toEqual([credentials.projectId]);
+  });
+});
+
+describe('projects admin route', () => {
+  const env = { PROJECT_STORE_ENCRYPTION_KEY: 'key-one', ADMIN_PASSWORD: 'admin-password' };
+
+  function callRoute(method: string, headers: Record<string, string> = {}) {
+    return {
+      request: new Request('http://localhost/api/oauth/projects', {
+        method,
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: method === 'POST' ? JSON.stringify({ action: 'rotate-keys' }) : undefined,
+      }),
+      context: { cloudflare: { env } },
+      params: {},
+    } as any;
+  }
+
+  it('requires the admin login to list projects and rotate keys', async () => {
+    const store = await loadStore(env);
+    store.setProjectStorage(new MemoryRecordStorage<StoredProjectRecord>());
+
+    const { action, loader } = await import('~/routes/api.oauth.projects');
+
+    expect((await loader(callRoute('GET'))).status).toBe(401);
+    expect((await action(callRoute('POST'))).status).toBe(401);
+
+    const admin = { Authorization: `Basic ${btoa('admin:admin-password')}` };
+
+    expect((await loader(callRoute('GET', admin))).status).toBe(200);
+    expect((await action(callRoute('POST', admin))).status).toBe(200);
+  });
+});
@@ -2,7 +2,14 @@
  * Project Credential Store Service
  *
  * Securely stores OAuth credentials for dynamically created Zoom Apps.
- * Uses SQLite for persistence and AES-256-GCM for encryption.
+ * Records are persisted through a pluggable storage adapter (see project-storage.ts)
+ * so the OAuth callback keeps working across restarts and redeploys.
+ *
+ * Encryption uses envelope encryption with AES-256-GCM:
+ * - Each project gets its own random data key, which encrypts its secrets
+ * - The data key is wrapped with a master key derived from PROJECT_STORE_ENCRYPTION_KEY
+ * - Retired master keys listed in PROJECT_STORE_PREVIOUS_KEYS can still unwrap data keys;
+ *   records are re-wrapped with the current master key on access or via rotateProjectKeys()
  *
  * This service enables:
  * - Multi-tenant credential storage (each project has its own credentials)
@@ -11,6 +18,13 @@
  */
 
 import { webcrypto } from 'crypto';
+import {
+  createProjectStorage,
+  createSecretStorage,
+  type ProjectStorageAdapter,
+  type SecretStorageAdapter,
+} from './project-storage';
+import type { RecordStorageType } from './record-storage';
 
 /**
  * Project credentials stored after app creation
@@ -37,25 +51,91 @@ export interface ProjectTokens {
   retrievedAt: number;
 }
 
+/**
+ * Refresh token state kept after the access token has been picked up,
+ * so tokens can be renewed server-side without exposing the client secret
+ */
+export interface ProjectRefreshState {
+  refreshToken: string; // Encrypted (JSON-serialized EncryptedData)
+  accessTokenExpiresAt?: number;
+  lastRefreshedAt?: number;
+  refreshCount: number;
+  scope?: string;
+}
+
+/**
+ * Token lifecycle status for a project (no secrets)
+ */
+export interface ProjectTokenStatus {
+  hasPendingTokens: boolean;
+  hasRefreshToken: boolean;
+  accessTokenExpiresAt?: number;
+  lastRefreshedAt?: number;
+  refreshCount: number;
+}
+
+/**
+ * Project record as persisted by the storage adapter (secrets encrypted)
+ */
+export interface StoredProjectRecord extends ProjectCredentials {
+  clientSecret: string; // Encrypted with the data key (JSON-serialized EncryptedData)
+  keyId: string; // ID of the master key that wrapped the data key
+  wrappedKey: string; // Data key encrypted with the master key (JSON-serialized EncryptedData)
+  pendingTokens?: ProjectTokens; // Awaiting one-time pickup, encrypted with the data key
+  refreshState?: ProjectRefreshState;
+}
+
+/**
+ * Secret kept for another server-side service (e.g. MCP server tokens),
+ * encrypted with its own data key like project secrets
+ */
+export interface StoredSecretRecord {
+  id: string;
+  value: string; // JSON value encrypted with the data key (JSON-serialized EncryptedData)
+  keyId: string;
+  wrappedKey: string;
+  expiresAt?: number;
+}
+
+/**
+ * Record whose data key is wrapped with a master key
+ */
+type WrappedKeyRecord = Pick<StoredProjectRecord, 'keyId' | 'wrappedKey'>;
+
+/**
+ * Project summary for admin listings (no secrets)
+ */
+export interface ProjectSummary {
+  projectId: string;
+  appId: string;
+  appName: string;
+  clientId: string;
+  createdAt: number;
+  expiresAt?: number;
+  keyId: string;
+  hasTokens: boolean;
+  tokenStatus: ProjectTokenStatus;
+}
+
 /**
  * Encrypted data structure
  */
-interface EncryptedData {
+export interface EncryptedData {
   iv: string; // Base64 encoded
   ciphertext: string; // Base64 encoded
   tag: string; // Base64 encoded (for GCM)
 }
 
 /**
- * In-memory store (used when SQLite is not available or for development)
+ * Master key used to wrap per-project data keys
  */
-const memoryStore = {
-  projects: new Map<string, ProjectCredentials>(),
-  tokens: new Map<string, ProjectTokens>(),
-};
+interface MasterKey {
+  id: string;
+  key: CryptoKey;
+}
 
-// Encryption key derived from environment variable
-let encryptionKey: CryptoKey | null = null;
+// Development fallback, only used when PROJECT_STORE_ENCRYPTION_KEY is not set
+const DEVELOPMENT_KEY = 'bolt-diy-development-key-do-not-use-in-production';
 
 // Default TTL for credentials: 30 days
 const CREDENTIALS_TTL = 30 * 24 * 60 * 60 * 1000;
@@ -63,21 +143,79 @@ const CREDENTIALS_TTL = 30 * 24 * 60 * 60 * 1000;
 // Token TTL: 1 hour (should be retrieved before this)
 const TOKEN_TTL = 60 * 60 * 1000;
 
+// Storage backend and env, set by configureProjectStore()
+let storage: ProjectStorageAdapter | null = null;
+let secretStorage: SecretStorageAdapter | null = null;
+let storeEnv: Record<string, any> | undefined;
+
+// Master keys (current first, then previous keys), derived lazily
+let masterKeys: Promise<MasterKey[]> | null = null;
+
 /**
- * Initialize or get the encryption key
+ * Configure the storage backend and master keys from env (first call wins)
+ *
+ * @param env - Cloudflare env bindings (falls back to process.env for plain variables)
  */
-async function getEncryptionKey(): Promise<CryptoKey> {
-  if (encryptionKey) {
-    return encryptionKey;
+export function configureProjectStore(env?: Record<string, any>): ProjectStorageAdapter {
+  if (!storage) {
+    storeEnv = env;
+    storage = createProjectStorage(env);
+    console.log(`[ProjectStore] Using ${storage.type} storage`);
   }
 
-  // Get the encryption key from environment or generate a default for development
-  const keyMaterial = process.env.PROJECT_STORE_ENCRYPTION_KEY || 'bolt-diy-development-key-do-not-use-in-production';
+  return storage;
+}
 
-  // Derive a 256-bit key using PBKDF2
+/**
+ * Replace the storage backend (used by tests and custom deployments)
+ */
+export function setProjectStorage(adapter: ProjectStorageAdapter): void {
+  storage = adapter;
+}
+
+/**
+ * Replace the secret storage backend (used by tests)
+ */
+export function setSecretStorage(adapter: SecretStorageAdapter): void {
+  secretStorage = adapter;
+}
+
+function getStorage(): ProjectStorageAdapter {
+  return storage || configureProjectStore();
+}
+
+function getSecretStorage(): SecretStorageAdapter {
+  if (!secretStorage) {
+    // Opened lazily on the same backend, once configureProjectStore() has picked up the env
+    getStorage();
+    secretStorage = createSecretStorage(storeEnv);
+  }
+
+  return secretStorage;
+}
+
+/**
+ * Persist a record under its project ID, expiring together with the credentials
+ */
+function saveRecord(record: StoredProjectRecord): Promise<void> {
+  return getStorage().put(record.projectId, record, { expiresAt: record.expiresAt });
+}
+
+function getEnvVar(key: string): string | undefined {
+  return storeEnv?.[key] || process.env[key];
+}
+
+/**
+ * Derive an AES-GCM master key from key material using PBKDF2
+ */
+async function deriveMasterKey(keyMaterial: string): Promise<MasterKey> {
   const encoder = new TextEncoder();
   const keyData = encoder.encode(keyMaterial);
 
+  // Key ID is a short fingerprint of the material, so records can name their master key
+  const digest = await webcrypto.subtle.digest('SHA-256', keyData);
+  const id = Buffer.from(digest).toString('hex').slice(0, 16);
+
   // Import key material
   const baseKey = await webcrypto.subtle.importKey('raw', keyData, { name: 'PBKDF2' }, false, [
     'deriveBits',
@@ -85,7 +223,7 @@ async function getEncryptionKey(): Promise<CryptoKey> {
   ]);
 
   // Derive AES-GCM key
-  encryptionKey = await webcrypto.subtle.deriveKey(
+  const key = await webcrypto.subtle.deriveKey(
     {
       name: 'PBKDF2',
       salt: encoder.encode('bolt-diy-project-store-salt'),
@@ -98,18 +236,43 @@ async function getEncryptionKey(): Promise<CryptoKey> {
     ['encrypt', 'decrypt'],
   );
 
-  return encryptionKey;
+  return { id, key };
 }
 
 /**
- * Encrypt sensitive data using AES-256-GCM
+ * Get the master keys (current key first)
  */
-async function encryptData(data: string): Promise<EncryptedData> {
-  const key = await getEncryptionKey();
-  const encoder = new TextEncoder();
+function getMasterKeys(): Promise<MasterKey[]> {
+  if (!masterKeys) {
+    const current = getEnvVar('PROJECT_STORE_ENCRYPTION_KEY');
+
+    if (!current) {
+      console.warn('[ProjectStore] PROJECT_STORE_ENCRYPTION_KEY not set, using the development key');
+    }
+
+    const previous = (getEnvVar('PROJECT_STORE_PREVIOUS_KEYS') || '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean);
+
+    masterKeys = Promise.all([current || DEVELOPMENT_KEY, ...previous].map(deriveMasterKey));
+  }
+
+  return masterKeys;
+}
+
+async function getCurrentMasterKey(): Promise<MasterKey> {
+  const keys = await getMasterKeys();
+  return keys[0];
+}
+
+/**
+ * Encrypt bytes using AES-256-GCM
+ */
+async function encryptBytes(key: CryptoKey, data: Uint8Array): Promise<EncryptedData> {
   const iv = webcrypto.getRandomValues(new Uint8Array(12)); // 96-bit IV for GCM
 
-  const ciphertext = await webcrypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(data));
+  const ciphertext = await webcrypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
 
   // AES-GCM includes the authentication tag at the end of the ciphertext
   const ciphertextArray = new Uint8Array(ciphertext);
@@ -124,10 +287,9 @@ async function encryptData(data: string): Promise<EncryptedData> {
 }
 
 /**
- * Decrypt data using AES-256-GCM
+ * Decrypt bytes using AES-256-GCM
  */
-async function decryptData(encrypted: EncryptedData): Promise<string> {
-  const key = await getEncryptionKey();
+async function decryptBytes(key: CryptoKey, encrypted: EncryptedData): Promise<Uint8Array> {
   const iv = new Uint8Array(Buffer.from(encrypted.iv, 'base64'));
   const ciphertext = new Uint8Array(Buffer.from(encrypted.ciphertext, 'base64'));
   const tag = new Uint8Array(Buffer.from(encrypted.tag, 'base64'));
@@ -139,9 +301,126 @@ async function decryptData(encrypted: EncryptedData): Promise<string> {
 
   const decrypted = await webcrypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, combined);
 
-  const decoder = new TextDecoder();
+  return new Uint8Array(decrypted);
+}
+
+/**
+ * Encrypt a string with a data key, serialized for storage
+ */
+async function encryptData(key: CryptoKey, data: string): Promise<string> {
+  return JSON.stringify(await encryptBytes(key, new TextEncoder().encode(data)));
+}
+
+/**
+ * Decrypt a string serialized by encryptData
+ */
+async function decryptData(key: CryptoKey, serialized: string): Promise<string> {
+  const decrypted = await decryptBytes(key, JSON.parse(serialized) as EncryptedData);
+  return new TextDecoder().decode(decrypted);
+}
+
+async function importDataKey(rawKey: Uint8Array): Promise<CryptoKey> {
+  return webcrypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Unwrap a record's raw data key with the master key it was wrapped with
+ */
+async function unwrapDataKey(record: WrappedKeyRecord): Promise<Uint8Array> {
+  const keys = await getMasterKeys();
+  const masterKey = keys.find((key) => key.id === record.keyId);
+
+  if (!masterKey) {
+    throw new Error(`Master key ${record.keyId} is not configured`);
+  }
+
+  return decryptBytes(masterKey.key, JSON.parse(record.wrappedKey) as EncryptedData);
+}
+
+/**
+ * Get the data key used to encrypt a record's secrets
+ */
+async function getDataKey(record: WrappedKeyRecord): Promise<CryptoKey> {
+  return importDataKey(await unwrapDataKey(record));
+}
 
-  return decoder.decode(decrypted);
+/**
+ * Re-wrap a record's data key with the current master key
+ *
+ * @returns True if the record was changed
+ */
+async function rewrapRecord(record: WrappedKeyRecord): Promise<boolean> {
+  const current = await getCurrentMasterKey();
+
+  if (record.keyId === current.id) {
+    return false;
+  }
+
+  const rawKey = await unwrapDataKey(record);
+
+  record.wrappedKey = JSON.stringify(await encryptBytes(current.key, rawKey));
+  record.keyId = current.id;
+
+  return true;
+}
+
+function isExpired(record: { expiresAt?: number }, now: number = Date.now()): boolean {
+  return Boolean(record.expiresAt && record.expiresAt < now);
+}
+
+function hasPendingTokens(record: StoredProjectRecord, now: number = Date.now()): boolean {
+  const pending = record.pendingTokens;
+
+  if (!pending) {
+    return false;
+  }
+
+  const ttl = pending.expiresIn ? Math.min(pending.expiresIn * 1000, TOKEN_TTL) : TOKEN_TTL;
+
+  return pending.retrievedAt + ttl > now;
+}
+
+function toTokenStatus(record: StoredProjectRecord): ProjectTokenStatus {
+  return {
+    hasPendingTokens: hasPendingTokens(record),
+    hasRefreshToken: Boolean(record.refreshState),
+    accessTokenExpiresAt: record.refreshState?.accessTokenExpiresAt,
+    lastRefreshedAt: record.refreshState?.lastRefreshedAt,
+    refreshCount: record.refreshState?.refreshCount || 0,
+  };
+}
+
+/**
+ * Load a project record, removing it if it has expired
+ * Records wrapped with a previous master key are re-wrapped with the current one.
+ */
+async function getActiveRecord(projectId: string): Promise<StoredProjectRecord | null> {
+  const record = await getStorage().get(projectId);
+
+  if (!record) {
+    console.log(`[ProjectStore] Project not found: ${projectId}`);
+    return null;
+  }
+
+  // Check expiration
+  if (isExpired(record)) {
+    console.log(`[ProjectStore] Project credentials expired: ${projectId}`);
+    await getStorage().delete(projectId);
+
+    return null;
+  }
+
+  try {
+    if (await rewrapRecord(record)) {
+      await saveRecord(record);
+      console.log(`[ProjectStore] Re-wrapped data key for project: ${projectId}`);
+    }
+  } catch (error) {
+    // Reads can still succeed with the old key; rotation is retried on next access
+    console.warn(`[ProjectStore] Failed to re-wrap data key for ${projectId}:`, error);
+  }
+
+  return record;
 }
 
 /**
@@ -168,19 +447,19 @@ export async function storeProjectCredentials(
   credentials: Omit<ProjectCredentials, 'createdAt' | 'expiresAt'>,
 ): Promise<void> {
   const now = Date.now();
-  const fullCredentials: ProjectCredentials = {
+  const masterKey = await getCurrentMasterKey();
+
+  // Generate a fresh data key for this project and wrap it with the master key
+  const rawKey = webcrypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await importDataKey(rawKey);
+
+  await saveRecord({
     ...credentials,
+    clientSecret: await encryptData(dataKey, credentials.clientSecret),
     createdAt: now,
     expiresAt: now + CREDENTIALS_TTL,
-  };
-
-  // Encrypt the client secret
-  const encryptedSecret = await encryptData(credentials.clientSecret);
-
-  // Store in memory (SQLite integration can be added later)
-  memoryStore.projects.set(credentials.projectId, {
-    ...fullCredentials,
-    clientSecret: JSON.stringify(encryptedSecret),
+    keyId: masterKey.id,
+    wrappedKey: JSON.stringify(await encryptBytes(masterKey.key, rawKey)),
   });
 
   console.log(`[ProjectStore] Stored credentials for project: ${credentials.projectId}`);
@@ -194,29 +473,24 @@ export async function storeProjectCredentials(
  * @returns The decrypted credentials or null if not found/expired
  */
 export async function getProjectCredentials(projectId: string): Promise<ProjectCredentials | null> {
-  const stored = memoryStore.projects.get(projectId);
-
-  if (!stored) {
-    console.log(`[ProjectStore] Project not found: ${projectId}`);
-    return null;
-  }
-
-  // Check expiration
-  if (stored.expiresAt && stored.expiresAt < Date.now()) {
-    console.log(`[ProjectStore] Project credentials expired: ${projectId}`);
-    memoryStore.projects.delete(projectId);
+  const record = await getActiveRecord(projectId);
 
+  if (!record) {
     return null;
   }
 
   try {
     // Decrypt the client secret
-    const encryptedSecret = JSON.parse(stored.clientSecret) as EncryptedData;
-    const decryptedSecret = await decryptData(encryptedSecret);
+    const dataKey = await getDataKey(record);
 
     return {
-      ...stored,
-      clientSecret: decryptedSecret,
+      projectId: record.projectId,
+      clientId: record.clientId,
+      clientSecret: await decryptData(dataKey, record.clientSecret),
+      appId: record.appId,
+      appName: record.appName,
+      createdAt: record.createdAt,
+      expiresAt: record.expiresAt,
     };
   } catch (error) {
     console.error(`[ProjectStore] Failed to decrypt credentials for ${projectId}:`, error);
@@ -225,19 +499,138 @@ export async function getProjectCredentials(projectId: string): Promise<ProjectC
 }
 
 /**
- * Delete project credentials
+ * Replace the client secret of an existing project
+ * Used after the secret has been regenerated in the Marketplace.
+ *
+ * @param projectId - The project ID
+ * @param clientSecret - The new client secret
+ * @returns Whether the project was found and updated
+ */
+export async function updateProjectClientSecret(projectId: string, clientSecret: string): Promise<boolean> {
+  const record = await getActiveRecord(projectId);
+
+  if (!record) {
+    return false;
+  }
+
+  const dataKey = await getDataKey(record);
+
+  await saveRecord({
+    ...record,
+    clientSecret: await encryptData(dataKey, clientSecret),
+  });
+
+  console.log(`[ProjectStore] Updated client secret for project: ${projectId}`);
+
+  return true;
+}
+
+/**
+ * Delete project credentials (and any tokens)
  *
  * @param projectId - The project ID to delete
  */
-export function deleteProjectCredentials(projectId: string): boolean {
-  const deleted = memoryStore.projects.delete(projectId);
-  memoryStore.tokens.delete(projectId);
+export async function deleteProjectCredentials(projectId: string): Promise<boolean> {
+  const existing = await getStorage().get(projectId);
 
-  if (deleted) {
-    console.log(`[ProjectStore] Deleted project: ${projectId}`);
+  if (!existing) {
+    return false;
   }
 
-  return deleted;
+  await getStorage().delete(projectId);
+  console.log(`[ProjectStore] Deleted project: ${projectId}`);
+
+  return true;
+}
+
+/**
+ * Update a record's refresh state from a token response (mutates the record)
+ */
+async function applyRefreshState(
+  record: StoredProjectRecord,
+  dataKey: CryptoKey,
+  tokens: {
+    refresh_token?: string;
+    expires_in?: number;
+    scope?: string;
+  },
+  refreshed: boolean,
+): Promise<void> {
+  const now = Date.now();
+  const existing = record.refreshState;
+
+  // Zoom rotates refresh tokens; keep the previous one only if no new one was issued
+  const refreshToken = tokens.refresh_token ? await encryptData(dataKey, tokens.refresh_token) : existing?.refreshToken;
+
+  if (!refreshToken) {
+    return;
+  }
+
+  record.refreshState = {
+    refreshToken,
+    accessTokenExpiresAt: tokens.expires_in ? now + tokens.expires_in * 1000 : undefined,
+    lastRefreshedAt: refreshed ? now : existing?.lastRefreshedAt,
+    refreshCount: (existing?.refreshCount || 0) + (refreshed ? 1 : 0),
+    scope: tokens.scope || existing?.scope,
+  };
+}
+
+/**
+ * Record the refresh token and access token expiry for a project
+ *
+ * @param projectId - The project ID
+ * @param tokens - Tokens from an authorization code or refresh token grant
+ * @param refreshed - Whether the tokens came from a refresh (updates refresh counters)
+ */
+export async function recordProjectRefreshState(
+  projectId: string,
+  tokens: {
+    refresh_token?: string;
+    expires_in?: number;
+    scope?: string;
+  },
+  refreshed: boolean = false,
+): Promise<void> {
+  const record = await getActiveRecord(projectId);
+
+  if (!record) {
+    return;
+  }
+
+  await applyRefreshState(record, await getDataKey(record), tokens, refreshed);
+  await saveRecord(record);
+}
+
+/**
+ * Get the current (decrypted) refresh token for a project
+ *
+ * @param projectId - The project ID
+ * @returns The refresh token or null if none is stored
+ */
+export async function getProjectRefreshToken(projectId: string): Promise<string | null> {
+  const record = await getActiveRecord(projectId);
+
+  if (!record?.refreshState) {
+    return null;
+  }
+
+  try {
+    return await decryptData(await getDataKey(record), record.refreshState.refreshToken);
+  } catch (error) {
+    console.error(`[ProjectStore] Failed to decrypt refresh token for ${projectId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get token lifecycle status for a project (safe to expose, contains no secrets)
+ *
+ * @param projectId - The project ID
+ */
+export async function getProjectTokenStatus(projectId: string): Promise<ProjectTokenStatus> {
+  const record = await getActiveRecord(projectId);
+
+  return record ? toTokenStatus(record) : { hasPendingTokens: false, hasRefreshToken: false, refreshCount: 0 };
 }
 
 /**
@@ -245,6 +638,7 @@ export function deleteProjectCredentials(projectId: string): boolean {
  *
  * @param projectId - The project ID
  * @param tokens - The OAuth tokens to store
+ * @param refreshed - Whether the tokens came from a refresh token grant
  */
 export async function storeProjectTokens(
   projectId: string,
@@ -255,33 +649,32 @@ export async function storeProjectTokens(
     expires_in?: number;
     scope?: string;
   },
+  refreshed: boolean = false,
 ): Promise<void> {
-  const now = Date.now();
+  const record = await getActiveRecord(projectId);
 
-  // Encrypt the access token and refresh token
-  const encryptedAccessToken = await encryptData(tokens.access_token);
-  const encryptedRefreshToken = tokens.refresh_token ? await encryptData(tokens.refresh_token) : undefined;
+  if (!record) {
+    console.warn(`[ProjectStore] Cannot store tokens for unknown project: ${projectId}`);
+    return;
+  }
+
+  const dataKey = await getDataKey(record);
+
+  // Keep the refresh token after pickup so the project can be refreshed later
+  await applyRefreshState(record, dataKey, tokens, refreshed);
 
-  const projectTokens: ProjectTokens = {
-    accessToken: JSON.stringify(encryptedAccessToken),
-    refreshToken: encryptedRefreshToken ? JSON.stringify(encryptedRefreshToken) : undefined,
+  // Encrypt the access token and refresh token
+  record.pendingTokens = {
+    accessToken: await encryptData(dataKey, tokens.access_token),
+    refreshToken: tokens.refresh_token ? await encryptData(dataKey, tokens.refresh_token) : undefined,
     tokenType: tokens.token_type,
     expiresIn: tokens.expires_in,
     scope: tokens.scope,
-    retrievedAt: now,
+    retrievedAt: Date.now(),
   };
 
-  memoryStore.tokens.set(projectId, projectTokens);
+  await saveRecord(record);
   console.log(`[ProjectStore] Stored tokens for project: ${projectId}`);
-
-  // Auto-expire tokens after TTL
-  setTimeout(
-    () => {
-      memoryStore.tokens.delete(projectId);
-      console.log(`[ProjectStore] Auto-expired tokens for project: ${projectId}`);
-    },
-    tokens.expires_in ? Math.min(tokens.expires_in * 1000, TOKEN_TTL) : TOKEN_TTL,
-  );
 }
 
 /**
@@ -297,32 +690,26 @@ export async function getAndClearProjectTokens(projectId: string): Promise<{
   expires_in?: number;
   scope?: string;
 } | null> {
-  const stored = memoryStore.tokens.get(projectId);
+  const record = await getActiveRecord(projectId);
+  const stored = record?.pendingTokens;
 
-  if (!stored) {
+  if (!record || !stored || !hasPendingTokens(record)) {
     console.log(`[ProjectStore] No tokens found for project: ${projectId}`);
     return null;
   }
 
   // Remove tokens after retrieval (one-time read for security)
-  memoryStore.tokens.delete(projectId);
+  delete record.pendingTokens;
+  await saveRecord(record);
   console.log(`[ProjectStore] Retrieved and cleared tokens for project: ${projectId}`);
 
   try {
     // Decrypt tokens
-    const encryptedAccessToken = JSON.parse(stored.accessToken) as EncryptedData;
-    const accessToken = await decryptData(encryptedAccessToken);
-
-    let refreshToken: string | undefined;
-
-    if (stored.refreshToken) {
-      const encryptedRefreshToken = JSON.parse(stored.refreshToken) as EncryptedData;
-      refreshToken = await decryptData(encryptedRefreshToken);
-    }
+    const dataKey = await getDataKey(record);
 
     return {
-      access_token: accessToken,
-      refresh_token: refreshToken,
+      access_token: await decryptData(dataKey, stored.accessToken),
+      refresh_token: stored.refreshToken ? await decryptData(dataKey, stored.refreshToken) : undefined,
       token_type: stored.tokenType,
       expires_in: stored.expiresIn,
       scope: stored.scope,
@@ -339,8 +726,10 @@ export async function getAndClearProjectTokens(projectId: string): Promise<{
  * @param projectId - The project ID
  * @returns True if tokens are available
  */
-export function hasProjectTokens(projectId: string): boolean {
-  return memoryStore.tokens.has(projectId);
+export async function hasProjectTokens(projectId: string): Promise<boolean> {
+  const record = await getActiveRecord(projectId);
+
+  return record ? hasPendingTokens(record) : false;
 }
 
 /**
@@ -351,77 +740,213 @@ export function hasProjectTokens(projectId: string): boolean {
  * @returns The project ID or null if not found
  */
 export async function getProjectIdByClientId(clientId: string): Promise<string | null> {
-  for (const [projectId, stored] of memoryStore.projects.entries()) {
-    // Check expiration
-    if (stored.expiresAt && stored.expiresAt < Date.now()) {
-      memoryStore.projects.delete(projectId);
-      continue;
+  const now = Date.now();
+
+  for (const record of await getStorage().list()) {
+    if (record.clientId === clientId && !isExpired(record, now)) {
+      return record.projectId;
     }
+  }
+
+  return null;
+}
+
+/**
+ * Get project by Marketplace app ID (reverse lookup)
+ *
+ * @param appId - The Zoom Marketplace app ID
+ * @returns The project ID or null if not found
+ */
+export async function getProjectIdByAppId(appId: string): Promise<string | null> {
+  const now = Date.now();
 
-    if (stored.clientId === clientId) {
-      return projectId;
+  for (const record of await getStorage().list()) {
+    if (record.appId === appId && !isExpired(record, now)) {
+      return record.projectId;
     }
   }
 
   return null;
 }
 
+/**
+ * Store a secret JSON value under a name, encrypted like project secrets
+ *
+ * @param id - Secret name (letters, digits, "_" and "-", so it is a valid key on every backend)
+ * @param value - Value to encrypt (must survive JSON serialization)
+ * @param expiresAt - Optional expiry; expired secrets are removed on access and during cleanup
+ */
+export async function storeSecret(id: string, value: unknown, expiresAt?: number): Promise<void> {
+  const masterKey = await getCurrentMasterKey();
+  const rawKey = webcrypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await importDataKey(rawKey);
+
+  await getSecretStorage().put(
+    id,
+    {
+      id,
+      value: await encryptData(dataKey, JSON.stringify(value)),
+      keyId: masterKey.id,
+      wrappedKey: JSON.stringify(await encryptBytes(masterKey.key, rawKey)),
+      expiresAt,
+    },
+    { expiresAt },
+  );
+}
+
+/**
+ * Get a secret stored with storeSecret
+ *
+ * @param id - Secret name
+ * @returns The decrypted value or null if not found/expired/undecryptable
+ */
+export async function getSecret<T>(id: string): Promise<T | null> {
+  const record = await getSecretStorage().get(id);
+
+  if (!record) {
+    return null;
+  }
+
+  if (isExpired(record)) {
+    await getSecretStorage().delete(id);
+    return null;
+  }
+
+  try {
+    const value = JSON.parse(await decryptData(await getDataKey(record), record.value)) as T;
+
+    if (await rewrapRecord(record)) {
+      await getSecretStorage().put(id, record, { expiresAt: record.expiresAt });
+    }
+
+    return value;
+  } catch (error) {
+    console.error(`[ProjectStore] Failed to decrypt secret ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Delete a secret stored with storeSecret
+ *
+ * @param id - Secret name
+ */
+export async function deleteSecret(id: string): Promise<void> {
+  await getSecretStorage().delete(id);
+}
+
 /**
  * List all active projects (for debugging/admin)
  *
  * @returns Array of project summaries (no secrets)
  */
-export function listProjects(): Array<{
-  projectId: string;
-  appId: string;
-  appName: string;
-  clientId: string;
-  createdAt: number;
-  hasTokens: boolean;
-}> {
-  const projects: Array<{
-    projectId: string;
-    appId: string;
-    appName: string;
-    clientId: string;
-    createdAt: number;
-    hasTokens: boolean;
-  }> = [];
-
+export async function listProjects(): Promise<ProjectSummary[]> {
   const now = Date.now();
+  const projects: ProjectSummary[] = [];
 
-  for (const [projectId, stored] of memoryStore.projects.entries()) {
+  for (const record of await getStorage().list()) {
     // Skip expired
-    if (stored.expiresAt && stored.expiresAt < now) {
-      memoryStore.projects.delete(projectId);
+    if (isExpired(record, now)) {
       continue;
     }
 
     projects.push({
-      projectId,
-      appId: stored.appId,
-      appName: stored.appName,
-      clientId: stored.clientId,
-      createdAt: stored.createdAt,
-      hasTokens: memoryStore.tokens.has(projectId),
+      projectId: record.projectId,
+      appId: record.appId,
+      appName: record.appName,
+      clientId: record.clientId,
+      createdAt: record.createdAt,
+      expiresAt: record.expiresAt,
+      keyId: record.keyId,
+      hasTokens: hasPendingTokens(record, now),
+      tokenStatus: toTokenStatus(record),
     });
   }
 
   return projects;
 }
 
+/**
+ * Get storage and master key details (for debugging/admin, no key material)
+ */
+export async function getProjectStoreInfo(): Promise<{
+  storage: RecordStorageType;
+  currentKeyId: string;
+  previousKeyIds: string[];
+}> {
+  const [current, ...previous] = await getMasterKeys();
+
+  return {
+    storage: getStorage().type,
+    currentKeyId: current.id,
+    previousKeyIds: previous.map((key) => key.id),
+  };
+}
+
+/**
+ * Re-wrap every project's (and stored secret's) data key with the current master key
+ *
+ * Run after setting a new PROJECT_STORE_ENCRYPTION_KEY (with the old key in
+ * PROJECT_STORE_PREVIOUS_KEYS). Once nothing is left to rotate, the old key
+ * can be removed.
+ *
+ * @returns Counts of rotated records and records that could not be unwrapped
+ */
+export async function rotateProjectKeys(): Promise<{ rotated: number; failed: string[]; currentKeyId: string }> {
+  const current = await getCurrentMasterKey();
+  const failed: string[] = [];
+  let rotated = 0;
+
+  for (const record of await getStorage().list()) {
+    try {
+      if (await rewrapRecord(record)) {
+        await saveRecord(record);
+        rotated++;
+      }
+    } catch (error) {
+      console.error(`[ProjectStore] Failed to rotate key for ${record.projectId}:`, error);
+      failed.push(record.projectId);
+    }
+  }
+
+  for (const record of await getSecretStorage().list()) {
+    try {
+      if (await rewrapRecord(record)) {
+        await getSecretStorage().put(record.id, record, { expiresAt: record.expiresAt });
+        rotated++;
+      }
+    } catch (error) {
+      console.error(`[ProjectStore] Failed to rotate key for secret ${record.id}:`, error);
+      failed.push(record.id);
+    }
+  }
+
+  console.log(`[ProjectStore] Rotated ${rotated} projects to key ${current.id} (${failed.length} failed)`);
+
+  return { rotated, failed, currentKeyId: current.id };
+}
+
 /**
  * Clean up expired entries (garbage collection)
  */
-export function cleanupExpiredEntries(): void {
+export async function cleanupExpiredEntries(): Promise<void> {
   const now = Date.now();
   let cleanedProjects = 0;
 
-  for (const [projectId, stored] of memoryStore.projects.entries()) {
-    if (stored.expiresAt && stored.expiresAt < now) {
-      memoryStore.projects.delete(projectId);
-      memoryStore.tokens.delete(projectId);
+  for (const record of await getStorage().list()) {
+    if (isExpired(record, now)) {
+      await getStorage().delete(record.projectId);
       cleanedProjects++;
+    } else if (record.pendingTokens && !hasPendingTokens(record, now)) {
+      // Drop tokens that were never picked up
+      delete record.pendingTokens;
+      await saveRecord(record);
+    }
+  }
+
+  for (const record of await getSecretStorage().list()) {
+    if (isExpired(record, now)) {
+      await getSecretStorage().delete(record.id);
     }
   }
 
@@ -430,8 +955,15 @@ export function cleanupExpiredEntries(): void {
   }
 }
 
-// Run cleanup periodically (every hour)
-setInterval(cleanupExpiredEntries, 60 * 60 * 1000);
+// Run cleanup periodically (every hour), once a backend has been configured
+setInterval(
+  () => {
+    if (storage) {
+      cleanupExpiredEntries().catch((error) => console.error('[ProjectStore] Cleanup failed:', error));
+    }
+  },
+  60 * 60 * 1000,
+);
 
 /**
  * Get redirect URI for a project
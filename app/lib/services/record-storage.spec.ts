@@ -0,0 +1,165 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createRecordStorageBackend,
+  FileRecordStorage,
+  KVRecordStorage,
+  MemoryRecordStorage,
+  type KVNamespaceLike,
+  type RecordStorageAdapter,
+} from './record-storage';
+
+interface TestRecord {
+  id: string;
+  value: number;
+}
+
+/**
+ * In-memory stand-in for a Cloudflare KV namespace (paginates two keys at a time)
+ */
+function createFakeKV(): KVNamespaceLike & { entries: Map<string, { value: string; expiration?: number }> } {
+  const entries = new Map<string, { value: string; expiration?: number }>();
+
+  return {
+    entries,
+    get: async (key) => entries.get(key)?.value ?? null,
+    put: async (key, value, options) => {
+      entries.set(key, { value, expiration: options?.expiration });
+    },
+    delete: async (key) => {
+      entries.delete(key);
+    },
+    list: async ({ prefix = '', cursor } = {}) => {
+      const names = Array.from(entries.keys())
+        .filter((name) => name.startsWith(prefix))
+        .sort();
+      const start = cursor ? parseInt(cursor, 10) : 0;
+      const page = names.slice(start, start + 2);
+      const complete = start + 2 >= names.length;
+
+      return {
+        keys: page.map((name) => ({ name })),
+        list_complete: complete,
+        cursor: complete ? undefined : String(start + 2),
+      };
+    },
+  };
+}
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'record-storage-'));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe.each([
+  ['memory', () => new MemoryRecordStorage<TestRecord>()],
+  ['kv', () => new KVRecordStorage<TestRecord>(createFakeKV(), 'test')],
+  ['file', () => new FileRecordStorage<TestRecord>(directory, 'test')],
+])('%s record storage', (_type, create: () => RecordStorageAdapter<TestRecord>) => {
+  it('stores, reads and deletes records', async () => {
+    const storage = create();
+
+    await storage.put('a', { id: 'a', value: 1 });
+    expect(await storage.get('a')).toEqual({ id: 'a', value: 1 });
+
+    await storage.put('a', { id: 'a', value: 2 });
+    expect(await storage.get('a')).toEqual({ id: 'a', value: 2 });
+
+    await storage.delete('a');
+    expect(await storage.get('a')).toBeNull();
+  });
+
+  it('lists only records directly under the prefix', async () => {
+    const storage = create();
+
+    await storage.put('top', { id: 'top', value: 0 });
+    await storage.put('group/one', { id: 'one', value: 1 });
+    await storage.put('group/two', { id: 'two', value: 2 });
+    await storage.put('group/three', { id: 'three', value: 3 });
+    await storage.put('other/four', { id: 'four', value: 4 });
+
+    expect((await storage.list()).map((record) => record.id)).toEqual(['top']);
+    expect((await storage.list('group/')).map((record) => record.id).sort()).toEqual(['one', 'three', 'two']);
+  });
+
+  it('keeps every record when many are written concurrently', async () => {
+    const storage = create();
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_, index) => storage.put(`group/r${index}`, { id: `r${index}`, value: index })),
+    );
+
+    expect(await storage.list('group/')).toHaveLength(20);
+  });
+});
+
+describe('KVRecordStorage', () => {
+  it('prefixes keys with the namespace and converts expiry to seconds', async () => {
+    const kv = createFakeKV();
+    const storage = new KVRecordStorage<TestRecord>(kv, 'webhook:event');
+    const expiresAt = Date.now() + 10 * 60 * 1000;
+
+    await storage.put('s1/e1', { id: 'e1', value: 1 }, { expiresAt });
+
+    expect(kv.entries.get('webhook:event:s1/e1')?.expiration).toBe(Math.ceil(expiresAt / 1000));
+  });
+});
+
+describe('FileRecordStorage', () => {
+  it('strips path traversal from keys', async () => {
+    const storage = new FileRecordStorage<TestRecord>(directory, 'test');
+
+    await storage.put('../../escape', { id: 'escape', value: 1 });
+
+    expect(await new FileRecordStorage<TestRecord>(directory, 'test').get('escape')).toEqual({
+      id: 'escape',
+      value: 1,
+    });
+  });
+});
+
+describe('createRecordStorageBackend', () => {
+  const config = {
+    name: 'TestStorage',
+    typeVar: 'TEST_STORAGE',
+    kvBinding: 'TEST_KV',
+    dirVar: 'TEST_STORAGE_DIR',
+    defaultDir: './run/test',
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('defaults to memory storage', () => {
+    expect(createRecordStorageBackend({}, config).type).toBe('memory');
+  });
+
+  it('uses the KV binding when configured', () => {
+    const backend = createRecordStorageBackend({ TEST_STORAGE: 'kv', TEST_KV: createFakeKV() }, config);
+
+    expect(backend.open('test')).toBeInstanceOf(KVRecordStorage);
+  });
+
+  it('falls back to memory when the KV binding is missing or the type is unknown', () => {
+    expect(createRecordStorageBackend({ TEST_STORAGE: 'kv' }, config).type).toBe('memory');
+    expect(createRecordStorageBackend({ TEST_STORAGE: 'redis' }, config).type).toBe('memory');
+  });
+
+  it('uses file storage in the configured directory', async () => {
+    const backend = createRecordStorageBackend({ TEST_STORAGE: 'file', TEST_STORAGE_DIR: directory }, config);
+    const storage = backend.open<TestRecord>('test');
+
+    await storage.put('a', { id: 'a', value: 1 });
+
+    expect(storage).toBeInstanceOf(FileRecordStorage);
+    expect(await new FileRecordStorage<TestRecord>(directory, 'test').get('a')).toEqual({ id: 'a', value: 1 });
+  });
+});
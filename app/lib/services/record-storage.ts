@@ -0,0 +1,328 @@
+/**
+ * Record Storage Adapters
+ *
+ * Generic key/value persistence shared by the server-side stores (webhook proxy,
+ * project credential store). Each adapter stores JSON records under string keys
+ * within a namespace. Keys are made of "/"-separated segments, so related records
+ * can be grouped and listed together (e.g. "<sessionId>/<eventId>").
+ *
+ * Every record has its own key, so writers touching different keys never
+ * overwrite each other's changes.
+ *
+ * Backends:
+ * - memory: Module-level Map (default, lost on restart)
+ * - kv: Cloudflare KV namespace
+ * - file: JSON files on disk, for Docker/k8s volumes
+ */
+
+export type RecordStorageType = 'memory' | 'kv' | 'file';
+
+/**
+ * Options accepted when writing a record
+ */
+export interface RecordPutOptions {
+  // Absolute expiry (ms since epoch); honored by backends with native expiration (KV)
+  expiresAt?: number;
+}
+
+/**
+ * Storage backend for one namespace of records
+ */
+export interface RecordStorageAdapter<T> {
+  readonly type: RecordStorageType;
+  get(key: string): Promise<T | null>;
+  put(key: string, value: T, options?: RecordPutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+
+  /**
+   * List records directly under a prefix ("" for top-level keys, "<segment>/" for a group)
+   * Records nested deeper than the prefix are not included.
+   */
+  list(prefix?: string): Promise<T[]>;
+}
+
+/**
+ * Minimal subset of the Cloudflare KV namespace API used by the KV adapter
+ */
+export interface KVNamespaceLike {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expiration?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: Array<{ name: string }>;
+    list_complete: boolean;
+    cursor?: string;
+  }>;
+}
+
+/**
+ * Environment variables and bindings that select a backend
+ */
+export interface RecordStorageConfig {
+  // Log prefix, e.g. "WebhookStorage"
+  name: string;
+
+  // Variable selecting the backend type ("memory", "kv" or "file")
+  typeVar: string;
+
+  // Env binding holding the KV namespace
+  kvBinding: string;
+
+  // Variable holding the file storage directory, and its default
+  dirVar: string;
+  defaultDir: string;
+
+  // Restrict file storage to the current user (for records holding ciphertext)
+  privateFiles?: boolean;
+}
+
+/**
+ * A resolved backend that opens adapters for individual namespaces
+ */
+export interface RecordStorageBackend {
+  readonly type: RecordStorageType;
+  open<T>(namespace: string): RecordStorageAdapter<T>;
+}
+
+/**
+ * Check whether a key lies directly under a prefix
+ */
+function isDirectChild(key: string, prefix: string): boolean {
+  return key.startsWith(prefix) && !key.slice(prefix.length).includes('/');
+}
+
+/**
+ * In-memory storage (single instance only)
+ */
+export class MemoryRecordStorage<T> implements RecordStorageAdapter<T> {
+  readonly type = 'memory' as const;
+  private _records = new Map<string, T>();
+
+  async get(key: string): Promise<T | null> {
+    return this._records.get(key) ?? null;
+  }
+
+  async put(key: string, value: T): Promise<void> {
+    this._records.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this._records.delete(key);
+  }
+
+  async list(prefix = ''): Promise<T[]> {
+    return Array.from(this._records.entries())
+      .filter(([key]) => isDirectChild(key, prefix))
+      .map(([, value]) => value);
+  }
+}
+
+/**
+ * Cloudflare KV storage
+ * Records written with expiresAt expire automatically, so abandoned records do not accumulate.
+ */
+export class KVRecordStorage<T> implements RecordStorageAdapter<T> {
+  readonly type = 'kv' as const;
+  private _keyPrefix: string;
+
+  constructor(
+    private _namespace: KVNamespaceLike,
+    namespace: string,
+  ) {
+    this._keyPrefix = `${namespace}:`;
+  }
+
+  async get(key: string): Promise<T | null> {
+    const value = await this._namespace.get(this._keyPrefix + key);
+
+    return value ? (JSON.parse(value) as T) : null;
+  }
+
+  async put(key: string, value: T, options?: RecordPutOptions): Promise<void> {
+    await this._namespace.put(
+      this._keyPrefix + key,
+      JSON.stringify(value),
+      options?.expiresAt
+        ? {
+            // KV expects seconds since epoch, at least 60 seconds in the future
+            expiration: Math.max(Math.ceil(options.expiresAt / 1000), Math.ceil(Date.now() / 1000) + 60),
+          }
+        : undefined,
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this._namespace.delete(this._keyPrefix + key);
+  }
+
+  async list(prefix = ''): Promise<T[]> {
+    const records: T[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this._namespace.list({ prefix: this._keyPrefix + prefix, cursor });
+
+      for (const { name } of page.keys) {
+        const key = name.slice(this._keyPrefix.length);
+
+        if (!isDirectChild(key, prefix)) {
+          continue;
+        }
+
+        const record = await this.get(key);
+
+        if (record) {
+          records.push(record);
+        }
+      }
+
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return records;
+  }
+}
+
+/**
+ * File-based storage (one JSON file per record, one directory per key segment)
+ * Intended for Node deployments where the directory is backed by a persistent volume.
+ */
+export class FileRecordStorage<T> implements RecordStorageAdapter<T> {
+  readonly type = 'file' as const;
+  private _directory: string;
+
+  constructor(
+    directory: string,
+    namespace: string,
+    private _privateFiles = false,
+  ) {
+    this._directory = [directory.replace(/\/+$/, ''), ...namespace.split(':').map(sanitizeSegment)].join('/');
+  }
+
+  async get(key: string): Promise<T | null> {
+    const fs = await import('node:fs/promises');
+
+    try {
+      const content = await fs.readFile(this._getPath(key), 'utf-8');
+      return JSON.parse(content) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  async put(key: string, value: T): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const filePath = this._getPath(key);
+    const tempPath = `${filePath}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`;
+    const dirMode = this._privateFiles ? 0o700 : undefined;
+    const fileMode = this._privateFiles ? 0o600 : undefined;
+
+    await fs.mkdir(filePath.slice(0, filePath.lastIndexOf('/')), { recursive: true, mode: dirMode });
+
+    // Write to a temp file first so concurrent readers never see a partial record
+    await fs.writeFile(tempPath, JSON.stringify(value), { encoding: 'utf-8', mode: fileMode });
+    await fs.rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const filePath = this._getPath(key);
+
+    await fs.rm(filePath, { force: true });
+
+    // Remove the group directory once its last record is gone
+    if (key.includes('/')) {
+      await fs.rmdir(filePath.slice(0, filePath.lastIndexOf('/'))).catch(() => undefined);
+    }
+  }
+
+  async list(prefix = ''): Promise<T[]> {
+    const fs = await import('node:fs/promises');
+    const segments = prefix.split('/').filter(Boolean);
+    const directory = [this._directory, ...segments.map(sanitizeSegment)].join('/');
+    let entries: string[];
+
+    try {
+      entries = await fs.readdir(directory);
+    } catch {
+      return [];
+    }
+
+    const records: T[] = [];
+
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) {
+        continue;
+      }
+
+      const record = await this.get([...segments, entry.slice(0, -'.json'.length)].join('/'));
+
+      if (record) {
+        records.push(record);
+      }
+    }
+
+    return records;
+  }
+
+  private _getPath(key: string): string {
+    return `${[this._directory, ...key.split('/').map(sanitizeSegment)].join('/')}.json`;
+  }
+}
+
+/**
+ * Strip anything but ID-safe characters from a key segment to prevent path traversal
+ */
+function sanitizeSegment(segment: string): string {
+  return segment.replace(/[^a-zA-Z0-9_-]/g, '');
+}
+
+/**
+ * Resolve the storage backend selected by config.typeVar
+ *
+ * @param env - Cloudflare env bindings (falls back to process.env for plain variables)
+ */
+export function createRecordStorageBackend(
+  env: Record<string, any> | undefined,
+  config: RecordStorageConfig,
+): RecordStorageBackend {
+  const getVar = (key: string): string | undefined => env?.[key] || process.env[key];
+  const type = (getVar(config.typeVar) || 'memory').toLowerCase();
+
+  const memoryBackend = (): RecordStorageBackend => ({
+    type: 'memory',
+    open: <T>() => new MemoryRecordStorage<T>(),
+  });
+
+  switch (type) {
+    case 'kv': {
+      const namespace = env?.[config.kvBinding] as KVNamespaceLike | undefined;
+
+      if (!namespace) {
+        console.warn(`[${config.name}] ${config.kvBinding} binding not found, falling back to memory storage`);
+        return memoryBackend();
+      }
+
+      return {
+        type: 'kv',
+        open: <T>(name: string) => new KVRecordStorage<T>(namespace, name),
+      };
+    }
+
+    case 'file': {
+      const directory = getVar(config.dirVar) || config.defaultDir;
+
+      return {
+        type: 'file',
+        open: <T>(name: string) => new FileRecordStorage<T>(directory, name, config.privateFiles),
+      };
+    }
+
+    case 'memory':
+      return memoryBackend();
+
+    default:
+      console.warn(`[${config.name}] Unknown storage type "${type}", falling back to memory storage`);
+      return memoryBackend();
+  }
+}
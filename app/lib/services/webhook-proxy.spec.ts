@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ackWebhooks,
+  addWebhookEvent,
+  createWebhookSession,
+  getQueueStatus,
+  peekWebhooks,
+  receiveWebhooks,
+  setWebhookStorage,
+} from './webhook-proxy';
+import { createMemoryWebhookStorage, type WebhookStorage } from './webhook-storage';
+
+let storage: WebhookStorage;
+
+function addEvent(sessionId: string, body = '{}') {
+  return addWebhookEvent(sessionId, 'POST', '/', {}, {}, body, 'application/json');
+}
+
+describe('acknowledged webhook delivery', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = createMemoryWebhookStorage(3600);
+    setWebhookStorage(storage);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('delivers an event once until its acknowledgement times out', async () => {
+    const session = await createWebhookSession();
+    const event = await addEvent(session.id);
+
+    const first = await receiveWebhooks(session.id);
+    expect(first.map((e) => e.id)).toEqual([event?.id]);
+    expect(first[0].deliveryCount).toBe(1);
+
+    expect(await receiveWebhooks(session.id)).toEqual([]);
+    expect(await getQueueStatus(session.id)).toMatchObject({ count: 1, pending: 0, unacked: 1 });
+
+    vi.advanceTimersByTime(31 * 1000);
+
+    const redelivered = await receiveWebhooks(session.id);
+    expect(redelivered.map((e) => e.id)).toEqual([event?.id]);
+    expect(redelivered[0].deliveryCount).toBe(2);
+  });
+
+  it('removes acknowledged events so they are not redelivered', async () => {
+    const session = await createWebhookSession();
+    const acked = await addEvent(session.id, '{"n":1}');
+    const kept = await addEvent(session.id, '{"n":2}');
+
+    await receiveWebhooks(session.id);
+    expect(await ackWebhooks(session.id, [acked!.id, 'evt_unknown'])).toBe(1);
+
+    vi.advanceTimersByTime(31 * 1000);
+
+    expect((await receiveWebhooks(session.id)).map((e) => e.id)).toEqual([kept?.id]);
+    expect(await getQueueStatus(session.id)).toMatchObject({ count: 1, delivered: 1 });
+  });
+
+  it('does not write to storage when there is nothing to deliver', async () => {
+    const session = await createWebhookSession();
+    const putSession = vi.spyOn(storage, 'putSession');
+    const putEvent = vi.spyOn(storage, 'putEvent');
+
+    for (let i = 0; i < 5; i++) {
+      expect(await receiveWebhooks(session.id)).toEqual([]);
+      vi.advanceTimersByTime(2000);
+    }
+
+    expect(putSession).not.toHaveBeenCalled();
+    expect(putEvent).not.toHaveBeenCalled();
+  });
+
+  it('keeps unacknowledged events until they are acked, however old they are', async () => {
+    const session = await createWebhookSession();
+    const event = await addEvent(session.id);
+
+    await receiveWebhooks(session.id);
+
+    // Keep the session active past the old event TTL; creating a session runs cleanup
+    for (let minute = 0; minute < 10; minute++) {
+      vi.advanceTimersByTime(60 * 1000);
+      await receiveWebhooks(session.id);
+    }
+
+    await createWebhookSession();
+
+    expect((await peekWebhooks(session.id)).map((e) => e.id)).toEqual([event?.id]);
+  });
+});
@@ -7,10 +7,18 @@
  *
  * Architecture:
  * - External service sends webhook to /api/webhook/proxy/{sessionId}
- * - Webhook is stored in an in-memory queue
+ * - Webhook is stored in the session queue (see webhook-storage.ts for backends)
  * - WebContainer app polls /api/webhook/poll/{sessionId} to retrieve webhooks
+ *
+ * Acknowledged delivery (at-least-once):
+ * - /api/webhook/stream/{sessionId} pushes events over SSE (or long-poll) without removing them
+ * - Delivered events stay queued until acknowledged via /api/webhook/ack/{sessionId}
+ * - Unacknowledged events are redelivered after ACK_TIMEOUT, and kept until acked or the session expires
  */
 
+import { createWebhookStorage, type WebhookStorage } from './webhook-storage';
+import type { WebhookSignatureStatus } from './zoom-webhook-verification';
+
 export interface WebhookEvent {
   id: string;
   sessionId: string;
@@ -21,6 +29,13 @@ export interface WebhookEvent {
   query: Record<string, string>;
   body: string | null;
   contentType: string | null;
+
+  // Zoom signature verification result (see zoom-webhook-verification.ts)
+  signatureStatus?: WebhookSignatureStatus;
+
+  // Acknowledged delivery tracking (stream/long-poll only)
+  deliveredAt?: number;
+  deliveryCount?: number;
 }
 
 export interface WebhookSession {
@@ -29,16 +44,81 @@ export interface WebhookSession {
   lastPollAt: number;
   webcontainerId?: string;
   description?: string;
+
+  // Zoom webhook secret token, used to answer URL validation and verify signatures
+  secretToken?: string;
+
+  // Reject events whose signature is not valid instead of flagging them
+  rejectUnsigned?: boolean;
+
+  // Total events removed from the queue by polling or acknowledgement
+  deliveredCount?: number;
 }
 
-// In-memory storage (consider Redis for production multi-instance)
-const webhookQueues = new Map<string, WebhookEvent[]>();
-const webhookSessions = new Map<string, WebhookSession>();
+/**
+ * Queue status for a session
+ */
+export interface WebhookQueueStatus {
+  // Events still in the queue (pending + unacked)
+  count: number;
+
+  // Events never delivered
+  pending: number;
+
+  // Events delivered over stream/long-poll but not yet acknowledged
+  unacked: number;
+
+  // Events removed from the queue by polling or acknowledgement
+  delivered: number;
+  oldestTimestamp: number | null;
+}
+
+/**
+ * Options accepted when creating or updating a session
+ */
+export interface WebhookSessionOptions {
+  webcontainerId?: string;
+  description?: string;
+  secretToken?: string;
+  rejectUnsigned?: boolean;
+}
 
 // Configuration
 const MAX_QUEUE_SIZE = parseInt(process.env.WEBHOOK_PROXY_MAX_QUEUE || '100', 10);
 const SESSION_TTL = parseInt(process.env.WEBHOOK_PROXY_TTL || '3600', 10) * 1000; // Default: 1 hour
-const EVENT_TTL = 5 * 60 * 1000; // 5 minutes
+const ACK_TIMEOUT = 30 * 1000; // Redeliver unacknowledged events after 30 seconds
+const TOUCH_INTERVAL = Math.min(60 * 1000, SESSION_TTL / 2); // Refresh lastPollAt at most once a minute while receiving
+
+// Storage backend, resolved on first use from WEBHOOK_PROXY_STORAGE
+let storage: WebhookStorage | null = null;
+
+// In-process listeners notified when an event is queued (used by stream/long-poll)
+const eventListeners = new Map<string, Set<() => void>>();
+
+/**
+ * Configure the storage backend from the request environment
+ * Must be called before other functions when using bindings (e.g. Cloudflare KV).
+ * Subsequent calls are no-ops once a backend has been selected.
+ */
+export function configureWebhookStorage(env?: Record<string, any>): WebhookStorage {
+  if (!storage) {
+    storage = createWebhookStorage(env, SESSION_TTL / 1000);
+    console.log(`[WebhookProxy] Using ${storage.type} storage`);
+  }
+
+  return storage;
+}
+
+/**
+ * Replace the storage backend (used by tests and custom deployments)
+ */
+export function setWebhookStorage(adapter: WebhookStorage): void {
+  storage = adapter;
+}
+
+function getStorage(): WebhookStorage {
+  return storage || configureWebhookStorage();
+}
 
 /**
  * Generate a cryptographically secure session ID
@@ -63,7 +143,7 @@ export function generateEventId(): string {
 /**
  * Create a new webhook session
  */
-export function createWebhookSession(webcontainerId?: string, description?: string): WebhookSession {
+export async function createWebhookSession(options: WebhookSessionOptions = {}): Promise<WebhookSession> {
   const sessionId = generateSessionId();
   const now = Date.now();
 
@@ -71,53 +151,83 @@ export function createWebhookSession(webcontainerId?: string, description?: stri
     id: sessionId,
     createdAt: now,
     lastPollAt: now,
-    webcontainerId,
-    description,
+    webcontainerId: options.webcontainerId,
+    description: options.description,
+    secretToken: options.secretToken,
+    rejectUnsigned: options.rejectUnsigned,
   };
 
-  webhookSessions.set(sessionId, session);
-  webhookQueues.set(sessionId, []);
+  await getStorage().putSession(session);
 
   // Clean up expired sessions periodically
-  cleanupExpiredSessions();
+  await cleanupExpiredSessions();
 
   return session;
 }
 
 /**
- * Get webhook session by ID
+ * Get webhook session by ID, removing it if the session has expired
  */
-export function getWebhookSession(sessionId: string): WebhookSession | null {
-  const session = webhookSessions.get(sessionId);
+export async function getWebhookSession(sessionId: string): Promise<WebhookSession | null> {
+  const session = await getStorage().getSession(sessionId);
 
-  if (session) {
-    const now = Date.now();
+  if (!session) {
+    return null;
+  }
 
-    // Check if session has expired (no activity for SESSION_TTL)
-    if (now - session.lastPollAt > SESSION_TTL) {
-      deleteWebhookSession(sessionId);
+  // Check if session has expired (no activity for SESSION_TTL)
+  if (Date.now() - session.lastPollAt > SESSION_TTL) {
+    await deleteWebhookSession(sessionId);
 
-      return null;
-    }
+    return null;
+  }
 
-    return session;
+  return session;
+}
+
+/**
+ * Update mutable session settings (description, secret token, signature policy)
+ */
+export async function updateWebhookSession(
+  sessionId: string,
+  updates: Omit<WebhookSessionOptions, 'webcontainerId'>,
+): Promise<WebhookSession | null> {
+  const session = await getWebhookSession(sessionId);
+
+  if (!session) {
+    return null;
+  }
+
+  if (updates.description !== undefined) {
+    session.description = updates.description;
+  }
+
+  if (updates.secretToken !== undefined) {
+    // An empty string clears the token
+    session.secretToken = updates.secretToken || undefined;
+  }
+
+  if (updates.rejectUnsigned !== undefined) {
+    session.rejectUnsigned = updates.rejectUnsigned;
   }
 
-  return null;
+  await getStorage().putSession(session);
+
+  return session;
 }
 
 /**
  * Delete webhook session and its queue
  */
-export function deleteWebhookSession(sessionId: string): void {
-  webhookSessions.delete(sessionId);
-  webhookQueues.delete(sessionId);
+export async function deleteWebhookSession(sessionId: string): Promise<void> {
+  await getStorage().deleteSession(sessionId);
 }
 
 /**
  * Add webhook event to session queue
+ * The event is written under its own key, so concurrent deliveries never overwrite each other.
  */
-export function addWebhookEvent(
+export async function addWebhookEvent(
   sessionId: string,
   method: string,
   path: string,
@@ -125,25 +235,14 @@ export function addWebhookEvent(
   query: Record<string, string>,
   body: string | null,
   contentType: string | null,
-): WebhookEvent | null {
-  const session = getWebhookSession(sessionId);
+  signatureStatus?: WebhookSignatureStatus,
+): Promise<WebhookEvent | null> {
+  const session = await getWebhookSession(sessionId);
 
   if (!session) {
     return null;
   }
 
-  const queue = webhookQueues.get(sessionId);
-
-  if (!queue) {
-    return null;
-  }
-
-  // Enforce queue size limit
-  if (queue.length >= MAX_QUEUE_SIZE) {
-    // Remove oldest event
-    queue.shift();
-  }
-
   const event: WebhookEvent = {
     id: generateEventId(),
     sessionId,
@@ -154,9 +253,19 @@ export function addWebhookEvent(
     query,
     body,
     contentType,
+    signatureStatus,
   };
 
-  queue.push(event);
+  await getStorage().putEvent(event);
+
+  // Enforce queue size limit by dropping the oldest events
+  const queue = await getStorage().listEvents(sessionId);
+
+  for (const stale of queue.slice(0, Math.max(0, queue.length - MAX_QUEUE_SIZE))) {
+    await getStorage().deleteEvent(sessionId, stale.id);
+  }
+
+  eventListeners.get(sessionId)?.forEach((listener) => listener());
 
   return event;
 }
@@ -165,91 +274,174 @@ export function addWebhookEvent(
  * Poll webhooks for a session
  * Returns all pending webhooks and clears them from the queue
  */
-export function pollWebhooks(sessionId: string, limit?: number): WebhookEvent[] {
-  const session = getWebhookSession(sessionId);
+export async function pollWebhooks(sessionId: string, limit?: number): Promise<WebhookEvent[]> {
+  const session = await getWebhookSession(sessionId);
 
   if (!session) {
     return [];
   }
 
-  // Update last poll time
+  // Get events (with optional limit)
+  const queue = await getStorage().listEvents(sessionId);
+  const events = limit ? queue.slice(0, limit) : queue;
+
+  for (const event of events) {
+    await getStorage().deleteEvent(sessionId, event.id);
+  }
+
+  // Update last poll time (the delivered count is informational, so a lost increment is harmless)
   session.lastPollAt = Date.now();
+  session.deliveredCount = (session.deliveredCount || 0) + events.length;
+  await getStorage().putSession(session);
 
-  const queue = webhookQueues.get(sessionId);
+  return events;
+}
 
-  if (!queue || queue.length === 0) {
+/**
+ * Receive webhooks for acknowledged delivery
+ * Returns events that were never delivered or whose acknowledgement timed out,
+ * and marks them as delivered. Events stay queued until ackWebhooks is called.
+ *
+ * Streams call this every few seconds, so storage is only written when events are
+ * handed out or the session's activity timestamp is due for a refresh.
+ */
+export async function receiveWebhooks(sessionId: string, limit?: number): Promise<WebhookEvent[]> {
+  const session = await getWebhookSession(sessionId);
+
+  if (!session) {
     return [];
   }
 
-  // Get events (with optional limit)
-  const events = limit ? queue.splice(0, limit) : queue.splice(0, queue.length);
+  const now = Date.now();
+  const queue = await getStorage().listEvents(sessionId);
+  const ready = queue.filter((event) => !event.deliveredAt || now - event.deliveredAt > ACK_TIMEOUT);
+  const events = limit ? ready.slice(0, limit) : ready;
+
+  for (const event of events) {
+    event.deliveredAt = now;
+    event.deliveryCount = (event.deliveryCount || 0) + 1;
+    await getStorage().putEvent(event);
+  }
+
+  if (now - session.lastPollAt >= TOUCH_INTERVAL) {
+    session.lastPollAt = now;
+    await getStorage().putSession(session);
+  }
 
   return events;
 }
 
 /**
- * Peek at webhooks without removing them
+ * Acknowledge delivered webhooks, removing them from the queue
+ *
+ * @returns Number of events acknowledged, or null if the session does not exist
  */
-export function peekWebhooks(sessionId: string, limit?: number): WebhookEvent[] {
-  const session = getWebhookSession(sessionId);
+export async function ackWebhooks(sessionId: string, eventIds: string[]): Promise<number | null> {
+  const session = await getWebhookSession(sessionId);
 
   if (!session) {
-    return [];
+    return null;
+  }
+
+  const ids = new Set(eventIds);
+  const queue = await getStorage().listEvents(sessionId);
+  const acked = queue.filter((event) => ids.has(event.id));
+
+  for (const event of acked) {
+    await getStorage().deleteEvent(sessionId, event.id);
   }
 
-  const queue = webhookQueues.get(sessionId);
+  session.lastPollAt = Date.now();
+  session.deliveredCount = (session.deliveredCount || 0) + acked.length;
+  await getStorage().putSession(session);
+
+  return acked.length;
+}
+
+/**
+ * Wait until an event is queued for a session, the timeout elapses or the signal aborts
+ * Notifications are in-process only; callers should re-check storage after each wait
+ * so events queued by other instances are picked up within the timeout.
+ *
+ * @returns True if woken by a new event
+ */
+export function waitForWebhookEvent(sessionId: string, timeoutMs: number, signal?: AbortSignal): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+
+    const listeners = eventListeners.get(sessionId) || new Set<() => void>();
+    eventListeners.set(sessionId, listeners);
+
+    const finish = (notified: boolean) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      listeners.delete(onEvent);
+
+      if (listeners.size === 0) {
+        eventListeners.delete(sessionId);
+      }
+
+      resolve(notified);
+    };
+    const onEvent = () => finish(true);
+    const onAbort = () => finish(false);
+    const timer = setTimeout(() => finish(false), timeoutMs);
 
-  if (!queue || queue.length === 0) {
+    listeners.add(onEvent);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+/**
+ * Peek at webhooks without removing them
+ */
+export async function peekWebhooks(sessionId: string, limit?: number): Promise<WebhookEvent[]> {
+  if (!(await getWebhookSession(sessionId))) {
     return [];
   }
 
-  return limit ? queue.slice(0, limit) : [...queue];
+  const queue = await getStorage().listEvents(sessionId);
+
+  return limit ? queue.slice(0, limit) : queue;
 }
 
 /**
  * Get queue status for a session
  */
-export function getQueueStatus(sessionId: string): { count: number; oldestTimestamp: number | null } | null {
-  const session = getWebhookSession(sessionId);
+export async function getQueueStatus(sessionId: string): Promise<WebhookQueueStatus | null> {
+  const session = await getWebhookSession(sessionId);
 
   if (!session) {
     return null;
   }
 
-  const queue = webhookQueues.get(sessionId);
-
-  if (!queue) {
-    return null;
-  }
+  const queue = await getStorage().listEvents(sessionId);
+  const unacked = queue.filter((event) => event.deliveredAt).length;
 
   return {
     count: queue.length,
+    pending: queue.length - unacked,
+    unacked,
+    delivered: session.deliveredCount || 0,
     oldestTimestamp: queue.length > 0 ? queue[0].timestamp : null,
   };
 }
 
 /**
- * Clean up expired sessions and events
+ * Clean up expired sessions
+ * Queued events are kept until they are acknowledged (or polled) or their session expires,
+ * so unacknowledged events are never dropped while a consumer may still redeliver them.
  */
-function cleanupExpiredSessions(): void {
+async function cleanupExpiredSessions(): Promise<void> {
   const now = Date.now();
 
-  for (const [sessionId, session] of webhookSessions.entries()) {
+  for (const session of await getStorage().listSessions()) {
     // Remove expired sessions
     if (now - session.lastPollAt > SESSION_TTL) {
-      deleteWebhookSession(sessionId);
-      continue;
-    }
-
-    // Clean up old events in active sessions
-    const queue = webhookQueues.get(sessionId);
-
-    if (queue) {
-      const validEvents = queue.filter((event) => now - event.timestamp < EVENT_TTL);
-
-      if (validEvents.length !== queue.length) {
-        webhookQueues.set(sessionId, validEvents);
-      }
+      await deleteWebhookSession(session.id);
     }
   }
 }
@@ -257,10 +449,10 @@ function cleanupExpiredSessions(): void {
 /**
  * Get all active sessions (for admin/debugging)
  */
-export function getAllSessions(): WebhookSession[] {
-  cleanupExpiredSessions();
+export async function getAllSessions(): Promise<WebhookSession[]> {
+  await cleanupExpiredSessions();
 
-  return Array.from(webhookSessions.values());
+  return getStorage().listSessions();
 }
 
 /**
@@ -0,0 +1,83 @@
+import type { ActionFunctionArgs } from '@remix-run/cloudflare';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createWebhookSession, peekWebhooks, setWebhookStorage } from './webhook-proxy';
+import { WEBHOOK_SECRET_TOKEN_HEADER } from './webhook-session-auth';
+import { createMemoryWebhookStorage } from './webhook-storage';
+import { ZOOM_SIGNATURE_HEADER, ZOOM_TIMESTAMP_HEADER } from './zoom-webhook-verification';
+import { action } from '~/routes/api.webhook.replay.$sessionId';
+
+const SECRET = 'current_secret_token';
+const BODY = JSON.stringify({ event: 'meeting.started', payload: { object: { id: '123' } } });
+
+function replay(sessionId: string, options: { headers?: Record<string, string>; env?: Record<string, string> } = {}) {
+  const request = new Request(`http://localhost/api/webhook/replay/${sessionId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: JSON.stringify({
+      headers: {
+        'content-type': 'application/json',
+        [ZOOM_SIGNATURE_HEADER]: 'v0=recorded',
+        [ZOOM_TIMESTAMP_HEADER]: '1',
+      },
+      body: BODY,
+    }),
+  });
+
+  return action({
+    request,
+    context: { cloudflare: { env: options.env || {} } },
+    params: { sessionId },
+  } as unknown as ActionFunctionArgs);
+}
+
+describe('webhook replay endpoint', () => {
+  beforeEach(() => {
+    setWebhookStorage(createMemoryWebhookStorage(3600));
+  });
+
+  it('rejects anonymous replays into a session with a secret token', async () => {
+    const session = await createWebhookSession({ secretToken: SECRET });
+
+    const response = await replay(session.id);
+
+    expect(response.status).toBe(401);
+    expect(await peekWebhooks(session.id)).toEqual([]);
+  });
+
+  it('stores replays as unsigned "replayed" events', async () => {
+    const session = await createWebhookSession({ secretToken: SECRET });
+
+    const response = await replay(session.id, { headers: { [WEBHOOK_SECRET_TOKEN_HEADER]: SECRET } });
+    const result = (await response.json()) as Record<string, unknown>;
+
+    expect(response.status).toBe(200);
+    expect(result.signatureStatus).toBe('replayed');
+    expect(JSON.stringify(result)).not.toContain('v0=');
+
+    const [event] = await peekWebhooks(session.id);
+
+    expect(event.signatureStatus).toBe('replayed');
+    expect(event.body).toBe(BODY);
+    expect(event.headers['x-bolt-webhook-replay']).toBe('true');
+    expect(event.headers[ZOOM_SIGNATURE_HEADER]).toBeUndefined();
+    expect(event.headers[ZOOM_TIMESTAMP_HEADER]).toBeUndefined();
+  });
+
+  it('requires the admin login for sessions without a secret token when auth is enabled', async () => {
+    const env = { ADMIN_PASSWORD: 'admin-password' };
+    const session = await createWebhookSession();
+
+    expect((await replay(session.id, { env })).status).toBe(401);
+
+    const admin = await replay(session.id, {
+      headers: { Authorization: `Basic ${btoa('admin:admin-password')}` },
+      env,
+    });
+
+    expect(admin.status).toBe(200);
+  });
+
+  it('returns 404 for unknown sessions', async () => {
+    expect((await replay('unknown')).status).toBe(404);
+  });
+});
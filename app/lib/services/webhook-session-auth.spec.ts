@@ -0,0 +1,90 @@
+import type { ActionFunctionArgs } from '@remix-run/cloudflare';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createWebhookSession, getWebhookSession, setWebhookStorage } from './webhook-proxy';
+import { WEBHOOK_SECRET_TOKEN_HEADER } from './webhook-session-auth';
+import { createMemoryWebhookStorage } from './webhook-storage';
+import { action } from '~/routes/api.webhook.session';
+
+const SECRET = 'current_secret_token';
+
+function callAction(
+  method: string,
+  sessionId: string,
+  options: { body?: Record<string, unknown>; headers?: Record<string, string>; env?: Record<string, string> } = {},
+) {
+  const request = new Request(`http://localhost/api/webhook/session?sessionId=${sessionId}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...options.headers },
+    body: options.body ? JSON.stringify(options.body) : undefined,
+  });
+
+  return action({
+    request,
+    context: { cloudflare: { env: options.env || {} } },
+    params: {},
+  } as unknown as ActionFunctionArgs);
+}
+
+describe('webhook session management', () => {
+  beforeEach(() => {
+    setWebhookStorage(createMemoryWebhookStorage(3600));
+  });
+
+  it('rejects an unauthenticated PATCH of a session with a secret token', async () => {
+    const session = await createWebhookSession({ secretToken: SECRET, rejectUnsigned: true });
+
+    const response = await callAction('PATCH', session.id, {
+      body: { secretToken: 'attacker', rejectUnsigned: false },
+    });
+
+    expect(response.status).toBe(401);
+    expect(await getWebhookSession(session.id)).toMatchObject({ secretToken: SECRET, rejectUnsigned: true });
+  });
+
+  it('rejects a PATCH that presents the wrong secret token', async () => {
+    const session = await createWebhookSession({ secretToken: SECRET });
+
+    const response = await callAction('PATCH', session.id, {
+      body: { rejectUnsigned: false },
+      headers: { [WEBHOOK_SECRET_TOKEN_HEADER]: 'wrong_secret_token___' },
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('accepts a PATCH that presents the current secret token', async () => {
+    const session = await createWebhookSession({ secretToken: SECRET });
+
+    const response = await callAction('PATCH', session.id, {
+      body: { secretToken: 'rotated_secret', rejectUnsigned: true },
+      headers: { [WEBHOOK_SECRET_TOKEN_HEADER]: SECRET },
+    });
+
+    expect(response.status).toBe(200);
+    expect(await getWebhookSession(session.id)).toMatchObject({ secretToken: 'rotated_secret', rejectUnsigned: true });
+  });
+
+  it('requires the admin login for sessions without a secret token when auth is enabled', async () => {
+    const env = { ADMIN_PASSWORD: 'admin-password' };
+    const session = await createWebhookSession();
+
+    const anonymous = await callAction('PATCH', session.id, { body: { secretToken: 'attacker' }, env });
+    expect(anonymous.status).toBe(401);
+
+    const admin = await callAction('PATCH', session.id, {
+      body: { secretToken: 'owner' },
+      headers: { Authorization: `Basic ${btoa('admin:admin-password')}` },
+      env,
+    });
+    expect(admin.status).toBe(200);
+  });
+
+  it('rejects an unauthenticated DELETE', async () => {
+    const session = await createWebhookSession({ secretToken: SECRET });
+
+    const response = await callAction('DELETE', session.id);
+
+    expect(response.status).toBe(401);
+    expect(await getWebhookSession(session.id)).not.toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Webhook Session Authorization
+ *
+ * Webhook proxy routes live on public paths (Zoom and WebContainer apps call them
+ * without a login), and the session ID is part of the webhook URL registered with
+ * Zoom, so knowing a session ID must not be enough to manage the session.
+ *
+ * Management operations (changing the secret token or signature policy, deleting,
+ * replaying events) are allowed when the request either:
+ * - is made by the logged-in admin (session cookie or Basic Auth), or
+ * - presents the session's current secret token in the X-Webhook-Secret-Token header
+ *
+ * Sessions without a secret token have nothing to present, so they can only be
+ * managed anonymously while auth is disabled for the whole instance.
+ */
+
+import { isAdminRequest, isAuthEnabled } from '~/lib/auth.server';
+import type { WebhookSession } from './webhook-proxy';
+import { timingSafeEqual } from './zoom-webhook-verification';
+
+export const WEBHOOK_SECRET_TOKEN_HEADER = 'x-webhook-secret-token';
+
+/**
+ * Check whether a request may manage a webhook session
+ *
+ * @returns null if authorized, or a 401 Response if not
+ */
+export async function authorizeWebhookSessionAdmin(
+  request: Request,
+  session: WebhookSession,
+  cloudflareEnv?: Record<string, string>,
+): Promise<Response | null> {
+  if (await isAdminRequest(request, cloudflareEnv)) {
+    return null;
+  }
+
+  const presented = request.headers.get(WEBHOOK_SECRET_TOKEN_HEADER);
+
+  if (session.secretToken) {
+    if (presented && timingSafeEqual(presented, session.secretToken)) {
+      return null;
+    }
+  } else if (!isAuthEnabled(cloudflareEnv)) {
+    return null;
+  }
+
+  return new Response(
+    JSON.stringify({
+      error: session.secretToken
+        ? `Unauthorized: send the current secret token in the ${WEBHOOK_SECRET_TOKEN_HEADER} header`
+        : 'Unauthorized: admin login required',
+    }),
+    {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' },
+    },
+  );
+}
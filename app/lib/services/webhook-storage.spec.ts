@@ -0,0 +1,60 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addWebhookEvent, createWebhookSession, peekWebhooks, setWebhookStorage } from './webhook-proxy';
+import { createMemoryWebhookStorage, createWebhookStorage, type WebhookStorage } from './webhook-storage';
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'webhook-storage-'));
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('createWebhookStorage', () => {
+  it('selects the backend from WEBHOOK_PROXY_STORAGE', () => {
+    expect(createWebhookStorage({}, 3600).type).toBe('memory');
+    expect(createWebhookStorage({ WEBHOOK_PROXY_STORAGE: 'kv' }, 3600).type).toBe('memory');
+    expect(
+      createWebhookStorage({ WEBHOOK_PROXY_STORAGE: 'file', WEBHOOK_PROXY_STORAGE_DIR: directory }, 3600).type,
+    ).toBe('file');
+  });
+});
+
+describe.each([
+  ['memory', () => createMemoryWebhookStorage(3600)],
+  ['file', () => createWebhookStorage({ WEBHOOK_PROXY_STORAGE: 'file', WEBHOOK_PROXY_STORAGE_DIR: directory }, 3600)],
+])('webhook queue on %s storage', (_type, create: () => WebhookStorage) => {
+  it('keeps every event when deliveries arrive concurrently', async () => {
+    setWebhookStorage(create());
+
+    const session = await createWebhookSession();
+    const added = await Promise.all(
+      Array.from({ length: 20 }, (_, index) =>
+        addWebhookEvent(session.id, 'POST', '/', {}, {}, JSON.stringify({ index }), 'application/json'),
+      ),
+    );
+
+    const queued = await peekWebhooks(session.id);
+
+    expect(queued).toHaveLength(20);
+    expect(queued.map((event) => event.id).sort()).toEqual(added.map((event) => event?.id).sort());
+  });
+
+  it('removes queued events together with the session', async () => {
+    const storage = create();
+    setWebhookStorage(storage);
+
+    const session = await createWebhookSession();
+    await addWebhookEvent(session.id, 'POST', '/', {}, {}, '{}', 'application/json');
+    await storage.deleteSession(session.id);
+
+    expect(await storage.getSession(session.id)).toBeNull();
+    expect(await storage.listEvents(session.id)).toEqual([]);
+  });
+});
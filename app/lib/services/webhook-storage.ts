@@ -0,0 +1,107 @@
+/**
+ * Webhook Storage
+ *
+ * Persistence for the webhook proxy. Sessions and queued events are stored as
+ * separate records: each event has its own key ("<sessionId>/<eventId>"), so
+ * concurrent deliveries append without rewriting the session or each other.
+ *
+ * Backends (selected with WEBHOOK_PROXY_STORAGE, see record-storage.ts):
+ * - memory: Module-level Map (default, lost on restart)
+ * - kv: Cloudflare KV namespace bound as WEBHOOK_PROXY_KV
+ * - file: JSON files on disk (WEBHOOK_PROXY_STORAGE_DIR), for Docker/k8s volumes
+ */
+
+import {
+  createRecordStorageBackend,
+  MemoryRecordStorage,
+  type RecordStorageAdapter,
+  type RecordStorageType,
+} from './record-storage';
+import type { WebhookEvent, WebhookSession } from './webhook-proxy';
+
+/**
+ * Storage used by the webhook proxy
+ */
+export class WebhookStorage {
+  constructor(
+    private _sessions: RecordStorageAdapter<WebhookSession>,
+    private _events: RecordStorageAdapter<WebhookEvent>,
+    private _ttlMs: number,
+  ) {}
+
+  get type(): RecordStorageType {
+    return this._sessions.type;
+  }
+
+  getSession(sessionId: string): Promise<WebhookSession | null> {
+    return this._sessions.get(sessionId);
+  }
+
+  putSession(session: WebhookSession): Promise<void> {
+    return this._sessions.put(session.id, session, { expiresAt: Date.now() + this._ttlMs });
+  }
+
+  listSessions(): Promise<WebhookSession[]> {
+    return this._sessions.list();
+  }
+
+  /**
+   * Delete a session together with its queued events
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await this._sessions.delete(sessionId);
+
+    for (const event of await this._events.list(`${sessionId}/`)) {
+      await this._events.delete(`${sessionId}/${event.id}`);
+    }
+  }
+
+  /**
+   * Write a single event; other events in the queue are not touched
+   */
+  putEvent(event: WebhookEvent): Promise<void> {
+    return this._events.put(`${event.sessionId}/${event.id}`, event, { expiresAt: Date.now() + this._ttlMs });
+  }
+
+  deleteEvent(sessionId: string, eventId: string): Promise<void> {
+    return this._events.delete(`${sessionId}/${eventId}`);
+  }
+
+  /**
+   * List the queued events of a session, oldest first
+   */
+  async listEvents(sessionId: string): Promise<WebhookEvent[]> {
+    const events = await this._events.list(`${sessionId}/`);
+
+    return events.sort((a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id));
+  }
+}
+
+/**
+ * Create in-memory storage (single instance only, used by tests)
+ */
+export function createMemoryWebhookStorage(ttlSeconds: number): WebhookStorage {
+  return new WebhookStorage(new MemoryRecordStorage(), new MemoryRecordStorage(), ttlSeconds * 1000);
+}
+
+/**
+ * Create the storage selected by WEBHOOK_PROXY_STORAGE
+ *
+ * @param env - Cloudflare env bindings (falls back to process.env for plain variables)
+ * @param ttlSeconds - Session TTL, used for KV record expiration
+ */
+export function createWebhookStorage(env: Record<string, any> | undefined, ttlSeconds: number): WebhookStorage {
+  const backend = createRecordStorageBackend(env, {
+    name: 'WebhookStorage',
+    typeVar: 'WEBHOOK_PROXY_STORAGE',
+    kvBinding: 'WEBHOOK_PROXY_KV',
+    dirVar: 'WEBHOOK_PROXY_STORAGE_DIR',
+    defaultDir: './run/webhook-proxy',
+  });
+
+  return new WebhookStorage(
+    backend.open<WebhookSession>('webhook:session'),
+    backend.open<WebhookEvent>('webhook:event'),
+    ttlSeconds * 1000,
+  );
+}
@@ -17,11 +17,27 @@ export interface ZoomAppRegistration {
   previewId?: string;
   previewUrl?: string;
   clientId?: string;
+
+  /** Marketplace app ID (the registry itself is keyed by project ID) */
+  marketplaceAppId?: string;
+
+  /** Settings last applied to the Marketplace app, used for drift detection */
+  settings?: ZoomAppSettingsSnapshot;
   createdAt: number;
   updatedAt: number;
   lastAccessAt: number;
 }
 
+/**
+ * Manifest settings compared by the drift checker
+ */
+export interface ZoomAppSettingsSnapshot {
+  scopes: string[];
+  redirectUrls: string[];
+  allowList: string[];
+  eventTypes: string[];
+}
+
 // In-memory storage (consider Redis/KV for production multi-instance)
 const appRegistry = new Map<string, ZoomAppRegistration>();
 
@@ -36,8 +52,10 @@ export function registerZoomApp(options: {
   appName: string;
   clientId?: string;
   previewId?: string;
+  marketplaceAppId?: string;
+  settings?: ZoomAppSettingsSnapshot;
 }): ZoomAppRegistration {
-  const { appId, appName, clientId, previewId } = options;
+  const { appId, appName, clientId, previewId, marketplaceAppId, settings } = options;
   const now = Date.now();
 
   const registration: ZoomAppRegistration = {
@@ -45,6 +63,8 @@ export function registerZoomApp(options: {
     appName,
     clientId,
     previewId,
+    marketplaceAppId,
+    settings,
     previewUrl: previewId ? buildPreviewUrl(previewId) : undefined,
     createdAt: now,
     updatedAt: now,
@@ -81,6 +101,25 @@ export function updateZoomAppPreview(appId: string, previewId: string): ZoomAppR
   return registration;
 }
 
+/**
+ * Record the settings last applied to the Marketplace app
+ */
+export function updateZoomAppSettings(appId: string, settings: ZoomAppSettingsSnapshot): ZoomAppRegistration | null {
+  const registration = appRegistry.get(appId);
+
+  if (!registration) {
+    console.warn(`[ZoomAppRegistry] App not found: ${appId}`);
+    return null;
+  }
+
+  registration.settings = settings;
+  registration.updatedAt = Date.now();
+
+  console.log(`[ZoomAppRegistry] Updated settings for ${appId}`);
+
+  return registration;
+}
+
 /**
  * Get app registration by appId
  */
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applySnapshotToMarketplaceManifest,
+  detectManifestDrift,
+  snapshotFromMarketplaceManifest,
+  snapshotFromProjectManifest,
+} from './zoom-manifest-drift';
+import { buildZoomAppManifest } from './zoom-marketplace-api';
+import { ZOOM_OAUTH_CALLBACK_URL, type ZoomManifest } from './zoom-marketplace';
+
+const projectManifest: ZoomManifest = {
+  appInfo: {
+    appName: 'Test App',
+    shortDescription: 'Test',
+    longDescription: 'Test app',
+    developer: { name: 'Dev', email: 'dev@example.com' },
+  },
+  oauth: {
+    redirectUrl: ZOOM_OAUTH_CALLBACK_URL,
+    scopes: ['meeting:read', 'meeting:write', 'user:read'],
+  },
+  features: { homeUrl: 'https://example.com', meetingApp: true },
+};
+
+const marketplaceManifest = buildZoomAppManifest({
+  appName: 'Test App',
+  scopes: ['meeting:read', 'meeting:write', 'user:read'],
+  projectId: 'proj_test123',
+});
+
+describe('zoom-manifest-drift', () => {
+  it('treats a freshly created app as in sync with the template manifest', () => {
+    const report = detectManifestDrift({
+      file: snapshotFromProjectManifest(projectManifest),
+      registry: snapshotFromMarketplaceManifest(marketplaceManifest),
+      marketplace: snapshotFromMarketplaceManifest(marketplaceManifest),
+    });
+
+    expect(report.sources).toEqual(['file', 'registry', 'marketplace']);
+    expect(report.hasDrift).toBe(false);
+  });
+
+  it('reports scopes and events that differ between the file and the Marketplace', () => {
+    const file = snapshotFromProjectManifest({
+      ...projectManifest,
+      oauth: { ...projectManifest.oauth, scopes: ['meeting:read', 'recording:read'] },
+      webhooks: { eventSubscription: { eventTypes: ['meeting.started'], notificationUrl: 'https://example.com/hook' } },
+    });
+
+    const report = detectManifestDrift({ file, marketplace: snapshotFromMarketplaceManifest(marketplaceManifest) });
+    const scopes = report.fields.find((field) => field.field === 'scopes');
+    const events = report.fields.find((field) => field.field === 'eventTypes');
+
+    expect(report.hasDrift).toBe(true);
+    expect(scopes).toMatchObject({
+      missingInMarketplace: ['recording:read'],
+      missingInFile: ['meeting:write', 'user:read'],
+    });
+    expect(events?.missingInMarketplace).toEqual(['meeting.started']);
+  });
+
+  it('applies file settings without replacing the project-specific redirect URL', () => {
+    const file = snapshotFromProjectManifest({
+      ...projectManifest,
+      oauth: { ...projectManifest.oauth, scopes: ['user:read'], allowList: ['https://example.com'] },
+    });
+
+    const updated = applySnapshotToMarketplaceManifest(marketplaceManifest, file);
+
+    expect(updated.oauth_information.scopes).toEqual([{ scope: 'user:read', optional: false }]);
+    expect(updated.oauth_information.oauth_allow_list).toEqual(['https://example.com']);
+    expect(updated.oauth_information.development_redirect_uri).toBe(
+      marketplaceManifest.oauth_information.development_redirect_uri,
+    );
+    expect(detectManifestDrift({ file, marketplace: snapshotFromMarketplaceManifest(updated) }).hasDrift).toBe(false);
+  });
+
+  it('ignores a production redirect URL that differs from the development one', () => {
+    const published = JSON.parse(JSON.stringify(marketplaceManifest)) as typeof marketplaceManifest;
+    published.oauth_information.production_redirect_uri = 'https://app.example.com/oauth/callback';
+
+    const marketplace = snapshotFromMarketplaceManifest(published);
+    const report = detectManifestDrift({ file: snapshotFromProjectManifest(projectManifest), marketplace });
+
+    expect(marketplace.redirectUrls).toEqual([published.oauth_information.development_redirect_uri]);
+    expect(report.fields.find((field) => field.field === 'redirectUrls')?.inSync).toBe(true);
+  });
+
+  it('reports a development redirect URL that differs from the file', () => {
+    const moved = JSON.parse(JSON.stringify(marketplaceManifest)) as typeof marketplaceManifest;
+    moved.oauth_information.development_redirect_uri = 'https://other.example.com/callback';
+
+    const report = detectManifestDrift({
+      file: snapshotFromProjectManifest(projectManifest),
+      marketplace: snapshotFromMarketplaceManifest(moved),
+    });
+
+    expect(report.fields.find((field) => field.field === 'redirectUrls')).toMatchObject({
+      missingInMarketplace: [ZOOM_OAUTH_CALLBACK_URL],
+      missingInFile: ['https://other.example.com/callback'],
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Zoom Manifest Drift Service
+ *
+ * Compares the settings of a Zoom App across three sources:
+ * - file: public/manifest.json in the workbench (edited by the LLM)
+ * - registry: settings last applied by bolt.diy (zoom-app-registry.ts)
+ * - marketplace: the manifest currently registered with Zoom Marketplace
+ *
+ * Only settings that affect whether the app works are compared: scopes,
+ * redirect URLs, the OAuth domain allow list and webhook event subscriptions.
+ * Reconciliation copies the file settings to the Marketplace or the other way round.
+ */
+
+import type { ZoomAppSettingsSnapshot } from './zoom-app-registry';
+import type { ZoomAppManifest } from './zoom-marketplace-api';
+import { ZOOM_OAUTH_CALLBACK_URL, type ZoomManifest } from './zoom-marketplace';
+
+export type DriftSource = 'file' | 'registry' | 'marketplace';
+
+export type DriftField = keyof ZoomAppSettingsSnapshot;
+
+export type ReconcileDirection = 'file-to-marketplace' | 'marketplace-to-file';
+
+/**
+ * Settings read from one source. A field is undefined when the source does
+ * not declare it (e.g. a manifest.json without an allow list), and is then
+ * left out of the comparison.
+ */
+export type DriftSnapshot = Partial<ZoomAppSettingsSnapshot>;
+
+/**
+ * Comparison of one setting across the available sources
+ */
+export interface DriftFieldReport {
+  field: DriftField;
+  values: Partial<Record<DriftSource, string[]>>;
+
+  /** Values present in the file but not in the Marketplace */
+  missingInMarketplace: string[];
+
+  /** Values present in the Marketplace but not in the file */
+  missingInFile: string[];
+
+  /** The Marketplace was changed outside bolt.diy since the last sync */
+  changedOutsideRegistry: boolean;
+  inSync: boolean;
+}
+
+/**
+ * Drift report for one app
+ */
+export interface ManifestDriftReport {
+  sources: DriftSource[];
+  fields: DriftFieldReport[];
+  hasDrift: boolean;
+  checkedAt: string;
+}
+
+const DRIFT_FIELDS: DriftField[] = ['scopes', 'redirectUrls', 'allowList', 'eventTypes'];
+
+function unique(values: Array<string | undefined>): string[] {
+  return Array.from(new Set(values.map((value) => value?.trim()).filter((value): value is string => !!value)));
+}
+
+/**
+ * Normalize a value for comparison
+ *
+ * URLs ignore trailing slashes, and project-specific proxy callbacks
+ * (…/api/oauth/proxy/callback/{projectId}) match the generic proxy callback,
+ * since the template ships with the generic URL and the proxy routes both.
+ */
+function normalizeValue(field: DriftField, value: string): string {
+  if (field === 'scopes' || field === 'eventTypes') {
+    return value;
+  }
+
+  const url = value.replace(/\/+$/, '');
+
+  if (field === 'redirectUrls' && url.startsWith(`${ZOOM_OAUTH_CALLBACK_URL}/`)) {
+    return ZOOM_OAUTH_CALLBACK_URL;
+  }
+
+  return url;
+}
+
+function difference(field: DriftField, values: string[], other: string[]): string[] {
+  const otherKeys = new Set(other.map((value) => normalizeValue(field, value)));
+  return values.filter((value) => !otherKeys.has(normalizeValue(field, value)));
+}
+
+/**
+ * Extract the compared settings from public/manifest.json
+ */
+export function snapshotFromProjectManifest(manifest: ZoomManifest): DriftSnapshot {
+  return {
+    scopes: unique(manifest.oauth?.scopes || []),
+    redirectUrls: unique([manifest.oauth?.redirectUrl]),
+    allowList: manifest.oauth?.allowList ? unique(manifest.oauth.allowList) : undefined,
+    eventTypes: unique(manifest.webhooks?.eventSubscription.eventTypes || []),
+  };
+}
+
+/**
+ * Extract the compared settings from a Marketplace manifest
+ *
+ * manifest.json declares a single redirect URL, which is applied as the
+ * development redirect URI, so only that one is compared. The production URI
+ * is set when the app is published and may legitimately differ.
+ */
+export function snapshotFromMarketplaceManifest(manifest: ZoomAppManifest): ZoomAppSettingsSnapshot {
+  const oauth = manifest.oauth_information;
+
+  return {
+    scopes: unique((oauth?.scopes || []).map((s) => s.scope)),
+    redirectUrls: unique([oauth?.development_redirect_uri || oauth?.production_redirect_uri]),
+    allowList: unique(oauth?.oauth_allow_list || []),
+    eventTypes: unique(manifest.features?.event_subscription?.events || []),
+  };
+}
+
+/**
+ * Compare the settings of an app across the available sources
+ *
+ * @param snapshots - Settings per source; missing sources are skipped
+ */
+export function detectManifestDrift(
+  snapshots: Partial<Record<DriftSource, DriftSnapshot | null>>,
+): ManifestDriftReport {
+  const sources = (['file', 'registry', 'marketplace'] as DriftSource[]).filter((source) => !!snapshots[source]);
+  const { file, registry, marketplace } = snapshots;
+
+  const fields = DRIFT_FIELDS.map((field): DriftFieldReport => {
+    const values: DriftFieldReport['values'] = {};
+
+    for (const source of sources) {
+      values[source] = snapshots[source]![field];
+    }
+
+    const fileValues = file?.[field];
+    const registryValues = registry?.[field];
+    const marketplaceValues = marketplace?.[field];
+
+    const missingInMarketplace =
+      fileValues && marketplaceValues ? difference(field, fileValues, marketplaceValues) : [];
+    const missingInFile = fileValues && marketplaceValues ? difference(field, marketplaceValues, fileValues) : [];
+
+    const changedOutsideRegistry =
+      !!registryValues &&
+      !!marketplaceValues &&
+      (difference(field, registryValues, marketplaceValues).length > 0 ||
+        difference(field, marketplaceValues, registryValues).length > 0);
+
+    return {
+      field,
+      values,
+      missingInMarketplace,
+      missingInFile,
+      changedOutsideRegistry,
+      inSync: missingInMarketplace.length === 0 && missingInFile.length === 0 && !changedOutsideRegistry,
+    };
+  });
+
+  return {
+    sources,
+    fields,
+    hasDrift: fields.some((field) => !field.inSync),
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Apply the file settings to a Marketplace manifest
+ *
+ * Redirect URLs that already match (see normalizeValue) are left untouched so
+ * project-specific proxy callbacks are not replaced by the generic one.
+ *
+ * @param manifest - Current Marketplace manifest
+ * @param snapshot - Settings from public/manifest.json
+ * @param eventWebhookUrl - Notification URL used when the app has no event subscription yet
+ */
+export function applySnapshotToMarketplaceManifest(
+  manifest: ZoomAppManifest,
+  snapshot: DriftSnapshot,
+  eventWebhookUrl?: string,
+): ZoomAppManifest {
+  const updated: ZoomAppManifest = JSON.parse(JSON.stringify(manifest));
+  const oauth = updated.oauth_information;
+  const current = snapshotFromMarketplaceManifest(manifest);
+
+  if (snapshot.scopes) {
+    oauth.scopes = snapshot.scopes.map((scope) => ({ scope, optional: false }));
+  }
+
+  if (snapshot.allowList) {
+    oauth.oauth_allow_list = snapshot.allowList;
+  }
+
+  const [redirectUrl] = snapshot.redirectUrls || [];
+
+  if (redirectUrl && difference('redirectUrls', [redirectUrl], current.redirectUrls).length > 0) {
+    oauth.development_redirect_uri = redirectUrl;
+    oauth.production_redirect_uri = redirectUrl;
+  }
+
+  const existingSubscription = updated.features.event_subscription;
+
+  if (!snapshot.eventTypes) {
+    return updated;
+  }
+
+  if (snapshot.eventTypes.length === 0) {
+    delete updated.features.event_subscription;
+  } else if (existingSubscription || eventWebhookUrl) {
+    updated.features.event_subscription = {
+      ...existingSubscription,
+      event_webhook_url: existingSubscription?.event_webhook_url || eventWebhookUrl!,
+      events: snapshot.eventTypes,
+    };
+  }
+
+  return updated;
+}
+
+/**
+ * Apply Marketplace settings to public/manifest.json
+ *
+ * @param manifest - Current project manifest
+ * @param snapshot - Settings from the Marketplace
+ * @param eventWebhookUrl - Notification URL used when the manifest has no webhooks section yet
+ */
+export function applySnapshotToProjectManifest(
+  manifest: ZoomManifest,
+  snapshot: ZoomAppSettingsSnapshot,
+  eventWebhookUrl?: string,
+): ZoomManifest {
+  const updated: ZoomManifest = JSON.parse(JSON.stringify(manifest));
+  const current = snapshotFromProjectManifest(manifest);
+
+  updated.oauth.scopes = snapshot.scopes;
+
+  if (snapshot.allowList.length > 0) {
+    updated.oauth.allowList = snapshot.allowList;
+  } else {
+    delete updated.oauth.allowList;
+  }
+
+  const [redirectUrl] = snapshot.redirectUrls;
+
+  if (redirectUrl && difference('redirectUrls', [redirectUrl], current.redirectUrls || []).length > 0) {
+    updated.oauth.redirectUrl = redirectUrl;
+  }
+
+  if (snapshot.eventTypes.length === 0) {
+    delete updated.webhooks;
+  } else if (updated.webhooks || eventWebhookUrl) {
+    updated.webhooks = {
+      eventSubscription: {
+        eventTypes: snapshot.eventTypes,
+        notificationUrl: updated.webhooks?.eventSubscription.notificationUrl || eventWebhookUrl!,
+      },
+    };
+  }
+
+  return updated;
+}
@@ -0,0 +1,273 @@
+import type { ActionFunctionArgs } from '@remix-run/cloudflare';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  configureProjectStore,
+  getProjectCredentials,
+  setProjectStorage,
+  storeProjectCredentials,
+  type StoredProjectRecord,
+} from './project-store';
+import { MemoryRecordStorage } from './record-storage';
+import {
+  clearTokenCache,
+  deleteZoomApp,
+  getZoomApp,
+  regenerateZoomAppSecret,
+  updateZoomAppOAuthSettings,
+  updateZoomAppScopes,
+  ZoomMarketplaceError,
+  type ZoomAppManifest,
+} from './zoom-marketplace-api';
+import { action } from '~/routes/api.zoom-marketplace';
+
+const credentials = { clientId: 's2s-client', clientSecret: 's2s-secret', accountId: 'account' };
+
+const project = {
+  projectId: 'proj_linked',
+  clientId: 'app-client',
+  clientSecret: 'old-secret',
+  appId: 'app_linked',
+  appName: 'Linked App',
+};
+
+type Handler = (init: RequestInit) => { status?: number; body?: unknown };
+
+/**
+ * Stub fetch with the S2S token endpoint and the given Marketplace routes ("METHOD /path")
+ */
+function mockMarketplace(routes: Record<string, Handler>) {
+  const fetchMock = vi.fn(async (url: string, init: RequestInit = {}) => {
+    if (url === 'https://zoom.us/oauth/token') {
+      return Response.json({ access_token: 's2s-token', token_type: 'bearer', expires_in: 3600, scope: '' });
+    }
+
+    const path = url.replace('https://api.zoom.us/v2', '');
+    const handler = routes[`${init.method} ${path}`];
+
+    if (!handler) {
+      return Response.json({ message: `Unexpected ${init.method} ${path}` }, { status: 404 });
+    }
+
+    const { status = 200, body } = handler(init);
+
+    return new Response(body === undefined ? null : JSON.stringify(body), { status });
+  });
+
+  vi.stubGlobal('fetch', fetchMock);
+
+  return fetchMock;
+}
+
+function calledPaths(fetchMock: ReturnType<typeof mockMarketplace>) {
+  return fetchMock.mock.calls.map(([url, init]) => `${init?.method} ${url}`);
+}
+
+function createManifest(): ZoomAppManifest {
+  return {
+    display_information: { display_name: 'Linked App' },
+    oauth_information: {
+      usage: 'USER_OPERATION',
+      development_redirect_uri: 'https://old.example.com/callback',
+      production_redirect_uri: 'https://old.example.com/callback',
+      oauth_allow_list: ['https://old.example.com'],
+      strict_mode: false,
+      subdomain_strict_mode: false,
+      scopes: [{ scope: 'user:read', optional: false }],
+    },
+  } as ZoomAppManifest;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  clearTokenCache();
+  configureProjectStore({ PROJECT_STORE_ENCRYPTION_KEY: 'test-key' });
+  setProjectStorage(new MemoryRecordStorage<StoredProjectRecord>());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('getZoomApp', () => {
+  it('fetches the app with the S2S access token', async () => {
+    const fetchMock = mockMarketplace({
+      'GET /marketplace/apps/app_linked': () => ({ body: { app_id: 'app_linked', app_name: 'Linked App' } }),
+    });
+
+    await expect(getZoomApp(credentials, 'app_linked')).resolves.toMatchObject({ app_id: 'app_linked' });
+
+    const [, init] = fetchMock.mock.calls[1];
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer s2s-token');
+  });
+
+  it('maps API errors to ZoomMarketplaceError with the response status', async () => {
+    mockMarketplace({
+      'GET /marketplace/apps/missing': () => ({ status: 404, body: { message: 'App does not exist' } }),
+    });
+
+    const error = await getZoomApp(credentials, 'missing').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ZoomMarketplaceError);
+    expect(error).toMatchObject({ message: 'App does not exist', code: 'APP_NOT_FOUND', statusCode: 404 });
+  });
+});
+
+describe('manifest updates', () => {
+  it('replaces the scopes and keeps other manifest settings', async () => {
+    let written: { manifest: ZoomAppManifest } | undefined;
+
+    mockMarketplace({
+      'GET /marketplace/apps/app_linked/manifest': () => ({ body: { manifest: createManifest() } }),
+      'PUT /marketplace/apps/app_linked/manifest': (init) => {
+        written = JSON.parse(init.body as string);
+        return { status: 204 };
+      },
+    });
+
+    const scopes = await updateZoomAppScopes(credentials, 'app_linked', ['meeting:read', ' meeting:read', 'user:read']);
+
+    expect(scopes).toEqual(['meeting:read', 'user:read']);
+    expect(written?.manifest.oauth_information.scopes).toEqual([
+      { scope: 'meeting:read', optional: false },
+      { scope: 'user:read', optional: false },
+    ]);
+    expect(written?.manifest.oauth_information.oauth_allow_list).toEqual(['https://old.example.com']);
+  });
+
+  it('rejects an empty scope list without calling the API', async () => {
+    const fetchMock = mockMarketplace({});
+
+    await expect(updateZoomAppScopes(credentials, 'app_linked', [' '])).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('updates the redirect URL and allow list', async () => {
+    mockMarketplace({
+      'GET /marketplace/apps/app_linked/manifest': () => ({ body: { manifest: createManifest() } }),
+      'PUT /marketplace/apps/app_linked/manifest': () => ({ status: 204 }),
+    });
+
+    const oauth = await updateZoomAppOAuthSettings(credentials, 'app_linked', {
+      redirectUri: 'https://new.example.com/callback',
+      allowList: ['https://new.example.com', 'https://new.example.com'],
+    });
+
+    expect(oauth).toMatchObject({
+      development_redirect_uri: 'https://new.example.com/callback',
+      production_redirect_uri: 'https://new.example.com/callback',
+      oauth_allow_list: ['https://new.example.com'],
+    });
+  });
+});
+
+describe('deleteZoomApp', () => {
+  it('removes the stored credentials of the linked project', async () => {
+    await storeProjectCredentials(project);
+    mockMarketplace({ 'DELETE /marketplace/apps/app_linked': () => ({ status: 204 }) });
+
+    await deleteZoomApp(credentials, 'app_linked');
+
+    expect(await getProjectCredentials(project.projectId)).toBeNull();
+  });
+
+  it('keeps the credentials when the Marketplace refuses the deletion', async () => {
+    await storeProjectCredentials(project);
+    mockMarketplace({
+      'DELETE /marketplace/apps/app_linked': () => ({ status: 403, body: { message: 'Forbidden' } }),
+    });
+
+    await expect(deleteZoomApp(credentials, 'app_linked')).rejects.toMatchObject({ statusCode: 403 });
+    expect(await getProjectCredentials(project.projectId)).not.toBeNull();
+  });
+});
+
+describe('regenerateZoomAppSecret', () => {
+  it('stores the new secret for the linked project', async () => {
+    await storeProjectCredentials(project);
+    mockMarketplace({
+      'POST /marketplace/apps/app_linked/rotate_client_secret': () => ({
+        body: { client_id: 'app-client', client_secret: 'new-secret' },
+      }),
+    });
+
+    const result = await regenerateZoomAppSecret(credentials, 'app_linked');
+
+    expect(result.stored).toBe(true);
+    expect((await getProjectCredentials(project.projectId))?.clientSecret).toBe('new-secret');
+  });
+
+  it('refuses to rotate the secret of an app without a linked project', async () => {
+    const fetchMock = mockMarketplace({
+      'POST /marketplace/apps/app_unlinked/rotate_client_secret': () => ({
+        body: { client_id: 'other-client', client_secret: 'lost-secret' },
+      }),
+    });
+
+    await expect(regenerateZoomAppSecret(credentials, 'app_unlinked')).rejects.toMatchObject({
+      code: 'PROJECT_NOT_FOUND',
+      statusCode: 404,
+    });
+    expect(calledPaths(fetchMock)).not.toContain(
+      'POST https://api.zoom.us/v2/marketplace/apps/app_unlinked/rotate_client_secret',
+    );
+  });
+
+  it('fails when the Marketplace returns no secret', async () => {
+    await storeProjectCredentials(project);
+    mockMarketplace({ 'POST /marketplace/apps/app_linked/rotate_client_secret': () => ({ body: {} }) });
+
+    await expect(regenerateZoomAppSecret(credentials, 'app_linked')).rejects.toMatchObject({
+      code: 'SECRET_ROTATION_FAILED',
+    });
+    expect((await getProjectCredentials(project.projectId))?.clientSecret).toBe('old-secret');
+  });
+});
+
+describe('app actions route', () => {
+  const env = {
+    ADMIN_PASSWORD: 'admin-password',
+    ZOOM_CLIENT_ID: credentials.clientId,
+    ZOOM_CLIENT_SECRET: credentials.clientSecret,
+    ZOOM_ACCOUNT_ID: credentials.accountId,
+  };
+
+  function callAction(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+    const request = new Request('http://localhost/api/zoom-marketplace', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+
+    return action({ request, context: { cloudflare: { env } }, params: {} } as unknown as ActionFunctionArgs);
+  }
+
+  it('rejects app actions without the admin login when auth is enabled', async () => {
+    await storeProjectCredentials(project);
+
+    const fetchMock = mockMarketplace({ 'DELETE /marketplace/apps/app_linked': () => ({ status: 204 }) });
+
+    const response = await callAction({ action: 'delete-app', appId: 'app_linked' });
+
+    expect(response.status).toBe(401);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(await getProjectCredentials(project.projectId)).not.toBeNull();
+  });
+
+  it('runs app actions for the admin', async () => {
+    await storeProjectCredentials(project);
+    mockMarketplace({ 'DELETE /marketplace/apps/app_linked': () => ({ status: 204 }) });
+
+    const response = await callAction(
+      { action: 'delete-app', appId: 'app_linked' },
+      { Authorization: `Basic ${btoa('admin:admin-password')}` },
+    );
+
+    expect(response.status).toBe(200);
+    expect(await getProjectCredentials(project.projectId)).toBeNull();
+  });
+});
@@ -95,6 +95,11 @@ export interface ZoomAppManifest {
         enable_join_immediately: boolean;
       };
     };
+    event_subscription?: {
+      subscription_name?: string;
+      event_webhook_url: string;
+      events: string[];
+    };
   };
 }
 
@@ -115,6 +120,29 @@ export interface ZoomAppCreateResponse {
   };
 }
 
+/**
+ * App details returned by GET /marketplace/apps/{appId}
+ */
+export interface ZoomAppInfo {
+  app_id: string;
+  app_name: string;
+  app_type?: string;
+  app_status?: string;
+  app_description?: string;
+  created_at?: string;
+  updated_at?: string;
+  scopes?: string[];
+  [key: string]: unknown;
+}
+
+/**
+ * OAuth settings that can be changed on an existing app
+ */
+export interface ZoomAppOAuthSettings {
+  redirectUri?: string;
+  allowList?: string[];
+}
+
 /**
  * Error response from Zoom API
  */
@@ -140,8 +168,30 @@ interface TokenCache {
 // In-memory token cache (1 hour TTL)
 let tokenCache: TokenCache | null = null;
 
-import { generateProjectId, storeProjectCredentials, getProjectRedirectUri } from '~/lib/services/project-store';
-import { registerZoomApp } from '~/lib/services/zoom-app-registry';
+import {
+  deleteProjectCredentials,
+  generateProjectId,
+  getProjectIdByAppId,
+  storeProjectCredentials,
+  getProjectRedirectUri,
+  updateProjectClientSecret,
+} from '~/lib/services/project-store';
+import {
+  getZoomAppRegistration,
+  registerZoomApp,
+  updateZoomAppSettings,
+  type ZoomAppSettingsSnapshot,
+} from '~/lib/services/zoom-app-registry';
+import {
+  applySnapshotToMarketplaceManifest,
+  applySnapshotToProjectManifest,
+  detectManifestDrift,
+  snapshotFromMarketplaceManifest,
+  snapshotFromProjectManifest,
+  type ManifestDriftReport,
+  type ReconcileDirection,
+} from '~/lib/services/zoom-manifest-drift';
+import type { ZoomManifest } from '~/lib/services/zoom-marketplace';
 
 /**
  * Default values for Zoom App creation
@@ -563,6 +613,8 @@ export async function createZoomAppWithProject(
     appName: options.appName,
     clientId: result.credentials.client_id,
     previewId: options.previewId, // May be undefined initially
+    marketplaceAppId: result.app_id,
+    settings: snapshotFromMarketplaceManifest(request.manifest),
   });
 
   console.log(`[ZoomAPI] Registered app in zoom-app-registry with key: ${projectId}`);
@@ -585,6 +637,353 @@ export async function createZoomAppWithProject(
   };
 }
 
+/**
+ * Send an authenticated request to the Marketplace API
+ *
+ * @param credentials - Zoom S2S OAuth credentials
+ * @param method - HTTP method
+ * @param path - API path below https://api.zoom.us/v2
+ * @param errorCode - ZoomMarketplaceError code used on failure
+ * @param body - Optional JSON body
+ */
+async function marketplaceRequest<T>(
+  credentials: ZoomCredentials,
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+  path: string,
+  errorCode: string,
+  body?: unknown,
+): Promise<T> {
+  const accessToken = await getZoomAccessToken(credentials);
+
+  try {
+    const response = await fetch(`https://api.zoom.us/v2${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData = (await response.json().catch(() => ({}))) as ZoomApiError;
+
+      // Build detailed error message
+      let errorMessage = errorData.message || errorData.error || response.statusText;
+
+      if (errorData.errors && errorData.errors.length > 0) {
+        const details = errorData.errors.map((e) => `${e.setting}: ${e.message}`).join('; ');
+        errorMessage = `${errorMessage} - Details: ${details}`;
+      }
+
+      console.error(`[ZoomAPI] ${method} ${path} failed:`, { status: response.status, message: errorMessage });
+
+      throw new ZoomMarketplaceError(errorMessage, errorCode, response.status);
+    }
+
+    // DELETE and PUT/PATCH may return 204 No Content
+    const text = await response.text();
+
+    return (text ? JSON.parse(text) : {}) as T;
+  } catch (error) {
+    if (error instanceof ZoomMarketplaceError) {
+      throw error;
+    }
+
+    throw new ZoomMarketplaceError(
+      `Marketplace request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      errorCode,
+    );
+  }
+}
+
+/**
+ * Get details of an existing Zoom App
+ *
+ * @param credentials - Zoom S2S OAuth credentials
+ * @param appId - Marketplace app ID
+ */
+export async function getZoomApp(credentials: ZoomCredentials, appId: string): Promise<ZoomAppInfo> {
+  console.log('[ZoomAPI] Fetching Zoom App:', appId);
+
+  return marketplaceRequest<ZoomAppInfo>(
+    credentials,
+    'GET',
+    `/marketplace/apps/${encodeURIComponent(appId)}`,
+    'APP_NOT_FOUND',
+  );
+}
+
+/**
+ * Export the current manifest of a Zoom App
+ *
+ * @param credentials - Zoom S2S OAuth credentials
+ * @param appId - Marketplace app ID
+ */
+export async function getZoomAppManifest(credentials: ZoomCredentials, appId: string): Promise<ZoomAppManifest> {
+  const data = await marketplaceRequest<{ manifest: ZoomAppManifest }>(
+    credentials,
+    'GET',
+    `/marketplace/apps/${encodeURIComponent(appId)}/manifest`,
+    'APP_NOT_FOUND',
+  );
+
+  return data.manifest;
+}
+
+/**
+ * Replace the manifest of a Zoom App
+ *
+ * @param credentials - Zoom S2S OAuth credentials
+ * @param appId - Marketplace app ID
+ * @param manifest - Complete manifest (partial manifests reset omitted settings)
+ */
+export async function updateZoomAppManifest(
+  credentials: ZoomCredentials,
+  appId: string,
+  manifest: ZoomAppManifest,
+): Promise<void> {
+  console.log('[ZoomAPI] Updating manifest for Zoom App:', appId);
+
+  await marketplaceRequest<void>(
+    credentials,
+    'PUT',
+    `/marketplace/apps/${encodeURIComponent(appId)}/manifest`,
+    'APP_UPDATE_FAILED',
+    { manifest },
+  );
+
+  // Remember what was applied so later drift checks can spot changes made outside bolt.diy
+  const projectId = await getProjectIdByAppId(appId);
+
+  if (projectId) {
+    updateZoomAppSettings(projectId, snapshotFromMarketplaceManifest(manifest));
+  }
+}
+
+/**
+ * Replace the OAuth scopes of a Zoom App
+ *
+ * Reads the current manifest and writes it back with the new scope set, so
+ * other settings are preserved.
+ *
+ * @param credentials - Zoom S2S OAuth credentials
+ * @param appId - Marketplace app ID
+ * @param scopes - Complete list of required scopes
+ * @returns The scopes now configured on the app
+ */
+export async function updateZoomAppScopes(
+  credentials: ZoomCredentials,
+  appId: string,
+  scopes: string[],
+): Promise<string[]> {
+  const uniqueScopes = Array.from(new Set(scopes.map((scope) => scope.trim()).filter(Boolean)));
+
+  if (uniqueScopes.length === 0) {
+    throw new ZoomMarketplaceError('At least one scope is required', 'VALIDATION_ERROR', 400);
+  }
+
+  const manifest = await getZoomAppManifest(credentials, appId);
+
+  manifest.oauth_information.scopes = uniqueScopes.map((scope) => ({ scope, optional: false }));
+
+  await updateZoomAppManifest(credentials, appId, manifest);
+  console.log(`[ZoomAPI] Updated scopes for ${appId}:`, uniqueScopes.join(', '));
+
+  return uniqueScopes;
+}
+
+/**
+ * Update the redirect URL and/or OAuth allow list of a Zoom App
+ *
+ * @param credentials - Zoom S2S OAuth credentials
+ * @param appId - Marketplace app ID
+ * @param settings - Settings to change (omitted settings are kept)
+ */
+export async function updateZoomAppOAuthSettings(
+  credentials: ZoomCredentials,
+  appId: string,
+  settings: ZoomAppOAuthSettings,
+): Promise<ZoomAppManifest['oauth_information']> {
+  const manifest = await getZoomAppManifest(credentials, appId);
+  const oauth = manifest.oauth_information;
+
+  if (settings.redirectUri) {
+    oauth.development_redirect_uri = settings.redirectUri;
+    oauth.production_redirect_uri = settings.redirectUri;
+  }
+
+  if (settings.allowList) {
+    oauth.oauth_allow_list = Array.from(new Set(settings.allowList.map((url) => url.trim()).filter(Boolean)));
+  }
+
+  await updateZoomAppManifest(credentials, appId, manifest);
+  console.log(`[ZoomAPI] Updated OAuth settings for ${appId}`);
+
+  return oauth;
+}
+
+/**
+ * Delete a Zoom App from the Marketplace and remove its stored project credentials
+ *
+ * @param credentials - Zoom S2S OAuth credentials
+ * @param appId - Marketplace app ID
+ */
+export async function deleteZoomApp(credentials: ZoomCredentials, appId: string): Promise<void> {
+  console.log('[ZoomAPI] Deleting Zoom App:', appId);
+
+  await marketplaceRequest<void>(
+    credentials,
+    'DELETE',
+    `/marketplace/apps/${encodeURIComponent(appId)}`,
+    'APP_DELETE_FAILED',
+  );
+
+  const projectId = await getProjectIdByAppId(appId);
+
+  if (projectId) {
+    await deleteProjectCredentials(projectId);
+  }
+}
+
+/**
+ * Regenerate the client secret of a Zoom App
+ *
+ * The previous secret stops working immediately, so the app must be linked to a
+ * bolt.diy project whose credentials can take the new secret; otherwise nothing
+ * is rotated. If the project disappears during rotation, the new secret is
+ * returned with `stored: false` so the caller can hand it out once.
+ *
+ * @param credentials - Zoom S2S OAuth credentials
+ * @param appId - Marketplace app ID
+ * @returns The new client credentials and whether they were stored
+ */
+export async function regenerateZoomAppSecret(
+  credentials: ZoomCredentials,
+  appId: string,
+): Promise<{ client_id?: string; client_secret: string; stored: boolean }> {
+  const projectId = await getProjectIdByAppId(appId);
+
+  if (!projectId) {
+    throw new ZoomMarketplaceError(
+      'App is not linked to a bolt.diy project, so a new secret could not be stored. Regenerate it in the Zoom Marketplace instead.',
+      'PROJECT_NOT_FOUND',
+      404,
+    );
+  }
+
+  console.log('[ZoomAPI] Regenerating client secret for Zoom App:', appId);
+
+  const result = await marketplaceRequest<{ client_id?: string; client_secret: string }>(
+    credentials,
+    'POST',
+    `/marketplace/apps/${encodeURIComponent(appId)}/rotate_client_secret`,
+    'SECRET_ROTATION_FAILED',
+  );
+
+  if (!result.client_secret) {
+    throw new ZoomMarketplaceError('Marketplace did not return a new client secret', 'SECRET_ROTATION_FAILED');
+  }
+
+  const stored = await updateProjectClientSecret(projectId, result.client_secret);
+
+  if (!stored) {
+    console.warn(`[ZoomAPI] Project ${projectId} expired during secret rotation for ${appId}`);
+  }
+
+  return { ...result, stored };
+}
+
+/**
+ * Get the settings last applied to an app, if it is still registered
+ */
+async function getRegisteredSettings(appId: string): Promise<ZoomAppSettingsSnapshot | null> {
+  const projectId = await getProjectIdByAppId(appId);
+
+  return projectId ? getZoomAppRegistration(projectId)?.settings || null : null;
+}
+
+/**
+ * Compare public/manifest.json with the registry entry and the Marketplace app
+ *
+ * @param credentials - Zoom S2S OAuth credentials
+ * @param appId - Marketplace app ID
+ * @param projectManifest - Parsed public/manifest.json (null if the project has none)
+ */
+export async function checkZoomAppDrift(
+  credentials: ZoomCredentials,
+  appId: string,
+  projectManifest: ZoomManifest | null,
+): Promise<ManifestDriftReport> {
+  const [marketplaceManifest, registry] = await Promise.all([
+    getZoomAppManifest(credentials, appId),
+    getRegisteredSettings(appId),
+  ]);
+
+  return detectManifestDrift({
+    file: projectManifest ? snapshotFromProjectManifest(projectManifest) : null,
+    registry,
+    marketplace: snapshotFromMarketplaceManifest(marketplaceManifest),
+  });
+}
+
+/**
+ * Reconcile drift between public/manifest.json and the Marketplace app
+ *
+ * - file-to-marketplace: updates the Marketplace manifest from the file
+ * - marketplace-to-file: returns an updated project manifest for the caller to write
+ *
+ * @param credentials - Zoom S2S OAuth credentials
+ * @param appId - Marketplace app ID
+ * @param projectManifest - Parsed public/manifest.json
+ * @param direction - Which side wins
+ * @returns The drift report after reconciliation and the (possibly updated) project manifest
+ */
+export async function reconcileZoomAppDrift(
+  credentials: ZoomCredentials,
+  appId: string,
+  projectManifest: ZoomManifest,
+  direction: ReconcileDirection,
+): Promise<{ report: ManifestDriftReport; projectManifest: ZoomManifest }> {
+  const marketplaceManifest = await getZoomAppManifest(credentials, appId);
+  const fileSnapshot = snapshotFromProjectManifest(projectManifest);
+  let updatedProjectManifest = projectManifest;
+  let updatedMarketplaceManifest = marketplaceManifest;
+
+  if (direction === 'file-to-marketplace') {
+    updatedMarketplaceManifest = applySnapshotToMarketplaceManifest(
+      marketplaceManifest,
+      fileSnapshot,
+      projectManifest.webhooks?.eventSubscription.notificationUrl,
+    );
+    await updateZoomAppManifest(credentials, appId, updatedMarketplaceManifest);
+  } else {
+    updatedProjectManifest = applySnapshotToProjectManifest(
+      projectManifest,
+      snapshotFromMarketplaceManifest(marketplaceManifest),
+      marketplaceManifest.features.event_subscription?.event_webhook_url,
+    );
+
+    // The Marketplace is unchanged, but its settings are now the accepted baseline
+    const projectId = await getProjectIdByAppId(appId);
+
+    if (projectId) {
+      updateZoomAppSettings(projectId, snapshotFromMarketplaceManifest(marketplaceManifest));
+    }
+  }
+
+  console.log(`[ZoomAPI] Reconciled manifest drift for ${appId} (${direction})`);
+
+  return {
+    report: detectManifestDrift({
+      file: snapshotFromProjectManifest(updatedProjectManifest),
+      registry: await getRegisteredSettings(appId),
+      marketplace: snapshotFromMarketplaceManifest(updatedMarketplaceManifest),
+    }),
+    projectManifest: updatedProjectManifest,
+  };
+}
+
 /**
  * Generate .env file content with project-based credentials
  *
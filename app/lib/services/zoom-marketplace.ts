@@ -42,6 +42,7 @@ export interface ZoomManifest {
   oauth: {
     redirectUrl: string;
     scopes: string[];
+    allowList?: string[];
   };
   features: {
     homeUrl: string;
@@ -0,0 +1,50 @@
+import type { LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { action, loader } from '~/routes/api.zoom-mock.$';
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+function callRoute(method: string, splat: string, search = '') {
+  const request = new Request(`http://localhost/api/zoom-mock/${encodeURIComponent(splat)}${search}`, {
+    method,
+    body: method === 'GET' ? undefined : '{}',
+  });
+  const args = {
+    request,
+    context: { cloudflare: { env: { MCP_PROXY_URL: 'http://proxy.test' } } },
+    params: { '*': splat },
+  } as unknown as LoaderFunctionArgs;
+
+  return method === 'GET' ? loader(args) : action(args);
+}
+
+beforeEach(() => {
+  fetchMock = vi.fn(async () => Response.json({ ok: true }));
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('zoom mock route', () => {
+  it('forwards mock API and token requests to the proxy', async () => {
+    expect((await callRoute('GET', 'v2/users/me', '?page_size=1')).status).toBe(200);
+    expect((await callRoute('POST', '_mock/token')).status).toBe(200);
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'http://proxy.test/zoom-mock/v2/users/me?page_size=1',
+      'http://proxy.test/zoom-mock/_mock/token',
+    ]);
+  });
+
+  it.each(['../api/spawn', 'v2/../../api/execute/server', 'v2/%2e%2e/%2e%2e/api/spawn', 'api/spawn', '_mock/tokens'])(
+    'refuses to forward %s',
+    async (splat) => {
+      const response = await callRoute('POST', splat);
+
+      expect(response.status).toBe(404);
+      expect(fetchMock).not.toHaveBeenCalled();
+    },
+  );
+});
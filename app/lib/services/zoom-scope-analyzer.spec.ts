@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeZoomScopes, extractZoomApiCalls, extractZoomSdkUsage, scopeCovers } from './zoom-scope-analyzer';
+
+const files = {
+  'src/api/zoom.ts': `
+const ZOOM_API = 'https://api.zoom.us/v2';
+
+export async function listMeetings(token: string) {
+  return fetch(\`\${ZOOM_API}/users/me/meetings?type=live\`, { headers: { Authorization: token } });
+}
+
+export async function createMeeting(userId: string) {
+  return fetch(\`https://api.zoom.us/v2/users/\${userId}/meetings\`, {
+    method: 'POST',
+    body: JSON.stringify({ topic: 'Demo' }),
+  });
+}
+`,
+  'src/lib/zoom.ts': `
+import zoomSdk from '@zoom/appssdk';
+
+export async function init() {
+  await zoomSdk.config({ capabilities: ['getMeetingContext', 'openUrl'] });
+  const context = await zoomSdk.getMeetingContext();
+  const user = await zoomSdk.getUserContext();
+  return { context, user };
+}
+`,
+  'node_modules/some-lib/index.js': `fetch('https://api.zoom.us/v2/users')`,
+};
+
+describe('zoom-scope-analyzer', () => {
+  it('extracts REST calls with methods and normalized paths', () => {
+    const calls = extractZoomApiCalls(files);
+
+    expect(calls.map(({ method, path, file }) => ({ method, path, file }))).toEqual([
+      { method: 'POST', path: '/users/{param}/meetings', file: 'src/api/zoom.ts' },
+      { method: 'GET', path: '/users/me/meetings', file: 'src/api/zoom.ts' },
+    ]);
+  });
+
+  it('finds capabilities used without being declared in config()', () => {
+    const sdk = extractZoomSdkUsage(files);
+
+    expect(sdk.declaredCapabilities).toEqual(['getMeetingContext', 'openUrl']);
+    expect(sdk.usedCapabilities.map((c) => c.name)).toEqual(['getMeetingContext', 'getUserContext']);
+  });
+
+  it('reports missing and unused scopes against the manifest', () => {
+    const calls = extractZoomApiCalls(files);
+    const report = analyzeZoomScopes({
+      calls,
+      resolved: [
+        {
+          method: 'GET',
+          path: '/users/me/meetings',
+          endpoint: {
+            id: 'list',
+            path: '/users/{userId}/meetings',
+            summary: 'List meetings',
+            scopes: ['meeting:read'],
+            deprecated: true,
+          },
+        },
+        {
+          method: 'POST',
+          path: '/users/{param}/meetings',
+          endpoint: {
+            id: 'create',
+            path: '/users/{userId}/meetings',
+            summary: 'Create a meeting',
+            scopes: ['meeting:write', 'meeting:write:meeting'],
+          },
+        },
+      ],
+      manifestScopes: ['meeting:read', 'user:read', 'zoomapp:inmeeting'],
+      sdk: extractZoomSdkUsage(files),
+    });
+
+    expect(report.missingScopes).toEqual(['meeting:write']);
+    expect(report.unusedScopes).toEqual(['user:read']);
+    expect(report.endpoints.find((endpoint) => endpoint.summary === 'List meetings')?.deprecated).toBe(true);
+    expect(report.capabilities).toMatchObject({ missing: ['getUserContext'], unused: ['openUrl'] });
+    expect(report.hasIssues).toBe(true);
+  });
+
+  it('treats classic scopes as covering their granular variants', () => {
+    expect(scopeCovers('meeting:read', 'meeting:read:meeting')).toBe(true);
+    expect(scopeCovers('meeting:read', 'meeting:write:meeting')).toBe(false);
+  });
+});
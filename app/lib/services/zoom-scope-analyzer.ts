@@ -0,0 +1,346 @@
+/**
+ * Zoom Scope Analyzer
+ *
+ * Statically scans project files for Zoom REST calls and Zoom Apps SDK usage,
+ * so scope and capability mistakes are caught before deploy instead of showing
+ * up as 4700 errors in the Zoom client.
+ *
+ * Extraction runs in the browser on workbench files. REST calls are resolved to
+ * endpoints and scopes by the zoom-api MCP server (zoom_resolve_calls) via
+ * /api/zoom-scope-analysis; analyzeZoomScopes() then compares the result with
+ * the scopes declared in public/manifest.json.
+ *
+ * Detection is heuristic: URLs built from string literals, template literals
+ * and constants holding the API base URL are recognised; fully dynamic URLs are not.
+ */
+
+export const ZOOM_API_BASE_URL = 'https://api.zoom.us/v2';
+
+const SOURCE_FILE_PATTERN = /\.(?:[cm]?[jt]sx?|vue|svelte)$/;
+const IGNORED_PATH_PATTERN = /(?:^|\/)(?:node_modules|dist|build|\.git)\//;
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// SDK members that are not capabilities
+const NON_CAPABILITY_SDK_MEMBERS = new Set(['config', 'addEventListener', 'removeEventListener']);
+
+/**
+ * A Zoom REST call found in the code
+ */
+export interface ZoomApiCallSite {
+  method: string;
+
+  /** Path relative to ZOOM_API_BASE_URL with dynamic segments as {param} */
+  path: string;
+  file: string;
+  line: number;
+}
+
+/**
+ * Zoom Apps SDK usage found in the code
+ */
+export interface ZoomSdkUsage {
+  /** Capabilities passed to zoomSdk.config({ capabilities }) */
+  declaredCapabilities: string[];
+
+  /** SDK methods and events used, with the first place they appear */
+  usedCapabilities: Array<{ name: string; file: string; line: number }>;
+}
+
+/**
+ * Result of zoom_resolve_calls for one call
+ */
+export interface ResolvedZoomCall {
+  method: string;
+  path: string;
+  endpoint: { id: string; path: string; summary: string; scopes: string[]; deprecated?: boolean } | null;
+}
+
+/**
+ * Scope requirements of one endpoint used by the project
+ */
+export interface ZoomEndpointUsage {
+  method: string;
+  path: string;
+  summary: string;
+  scopes: string[];
+  satisfied: boolean;
+
+  /** Marked deprecated in the Zoom API spec; still works, but should be migrated */
+  deprecated: boolean;
+  sites: Array<{ file: string; line: number }>;
+}
+
+/**
+ * Full analysis report
+ */
+export interface ZoomScopeReport {
+  endpoints: ZoomEndpointUsage[];
+  unresolvedCalls: ZoomApiCallSite[];
+
+  /** Scopes to add to the manifest so every endpoint is covered */
+  missingScopes: string[];
+
+  /** Manifest scopes no detected endpoint needs */
+  unusedScopes: string[];
+  capabilities: {
+    declared: string[];
+    used: string[];
+    missing: string[];
+    unused: string[];
+  };
+  hasIssues: boolean;
+  analyzedAt: string;
+}
+
+function isSourceFile(path: string): boolean {
+  return SOURCE_FILE_PATTERN.test(path) && !IGNORED_PATH_PATTERN.test(path);
+}
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Normalize a path found in code: template expressions become {param},
+ * query strings and trailing slashes are dropped
+ */
+export function normalizeZoomApiPath(rawPath: string): string {
+  const path = rawPath
+    .replace(/\$\{[^}]*\}/g, '{param}')
+    .split(/[?#]/)[0]
+    .replace(/\/+$/, '');
+
+  return path.startsWith('/') ? path : `/${path}`;
+}
+
+/**
+ * Guess the HTTP method of a call from the code following the URL
+ * (fetch options object); defaults to GET like fetch and axios do
+ */
+function detectMethodAfter(content: string, index: number): string {
+  const window = content.slice(index, index + 300);
+  const nextCall = window.search(/\b(?:fetch|axios)\s*[.(]/);
+  const scope = nextCall > 0 ? window.slice(0, nextCall) : window;
+  const match = scope.match(/method\s*:\s*['"`](\w+)['"`]/i);
+
+  return match && HTTP_METHODS.includes(match[1].toUpperCase()) ? match[1].toUpperCase() : 'GET';
+}
+
+/**
+ * Guess the HTTP method from an axios-style call preceding the URL (axios.post(url, …))
+ */
+function detectMethodBefore(content: string, index: number): string | null {
+  const match = content.slice(Math.max(0, index - 40), index).match(/\.(get|post|put|patch|delete)\s*\(\s*$/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Find Zoom REST calls in one file
+ */
+function extractCallsFromFile(file: string, content: string): ZoomApiCallSite[] {
+  const calls: ZoomApiCallSite[] = [];
+  const base = escapeRegExp(ZOOM_API_BASE_URL);
+
+  const addCall = (rawPath: string, index: number, method?: string | null) => {
+    calls.push({
+      method: method || detectMethodBefore(content, index) || detectMethodAfter(content, index),
+      path: normalizeZoomApiPath(rawPath),
+      file,
+      line: lineAt(content, index),
+    });
+  };
+
+  // Full URLs in string or template literals
+  const urlPattern = new RegExp(`(['"\`])${base}(/[^'"\`\\s]*)\\1`, 'g');
+
+  for (const match of content.matchAll(urlPattern)) {
+    addCall(match[2], match.index!);
+  }
+
+  // Constants holding the base URL: `${ZOOM_API}/users/me` or ZOOM_API + '/users/me'
+  const constPattern = new RegExp(`(?:const|let|var)\\s+(\\w+)\\s*=\\s*['"\`]${base}/?['"\`]`, 'g');
+
+  for (const [, name] of content.matchAll(constPattern)) {
+    const templateUse = new RegExp(`\`\\$\\{${name}\\}(/[^\`]*)\``, 'g');
+    const concatUse = new RegExp(`\\b${name}\\s*\\+\\s*['"\`](/[^'"\`]*)['"\`]`, 'g');
+
+    for (const match of content.matchAll(templateUse)) {
+      addCall(match[1], match.index!);
+    }
+
+    for (const match of content.matchAll(concatUse)) {
+      addCall(match[1], match.index!);
+    }
+  }
+
+  // axios instances created with the base URL: zoomApi.get('/users/me')
+  const instancePattern = new RegExp(
+    `(?:const|let|var)\\s+(\\w+)\\s*=\\s*axios\\.create\\(\\s*\\{[^}]*baseURL\\s*:\\s*['"\`]${base}/?['"\`]`,
+    'g',
+  );
+
+  for (const [, name] of content.matchAll(instancePattern)) {
+    const usePattern = new RegExp(`\\b${name}\\.(get|post|put|patch|delete)\\s*\\(\\s*(['"\`])(/[^'"\`]*)\\2`, 'gi');
+
+    for (const match of content.matchAll(usePattern)) {
+      addCall(match[3], match.index!, match[1].toUpperCase());
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Find Zoom REST calls in project files
+ *
+ * @param files - File contents keyed by path
+ */
+export function extractZoomApiCalls(files: Record<string, string>): ZoomApiCallSite[] {
+  return Object.entries(files)
+    .filter(([path]) => isSourceFile(path))
+    .flatMap(([path, content]) => extractCallsFromFile(path, content));
+}
+
+/**
+ * Find Zoom Apps SDK capabilities declared in config() and used in code
+ *
+ * @param files - File contents keyed by path
+ */
+export function extractZoomSdkUsage(files: Record<string, string>): ZoomSdkUsage {
+  const declared = new Set<string>();
+  const used = new Map<string, { name: string; file: string; line: number }>();
+
+  for (const [file, content] of Object.entries(files)) {
+    if (!isSourceFile(file) || !content.includes('@zoom/appssdk')) {
+      continue;
+    }
+
+    for (const match of content.matchAll(/\.config\(\s*\{[\s\S]*?capabilities\s*:\s*\[([\s\S]*?)\]/g)) {
+      for (const [, capability] of match[1].matchAll(/['"`](\w+)['"`]/g)) {
+        declared.add(capability);
+      }
+    }
+
+    // Default import name, e.g. `import zoomSdk from '@zoom/appssdk'`
+    const sdkNames = new Set(['zoomSdk']);
+
+    for (const [, name] of content.matchAll(/import\s+(\w+)\s+from\s+['"]@zoom\/appssdk['"]/g)) {
+      sdkNames.add(name);
+    }
+
+    for (const sdkName of sdkNames) {
+      for (const match of content.matchAll(new RegExp(`\\b${sdkName}\\.(\\w+)\\s*\\(`, 'g'))) {
+        const name = match[1];
+
+        if (!NON_CAPABILITY_SDK_MEMBERS.has(name) && !used.has(name)) {
+          used.set(name, { name, file, line: lineAt(content, match.index!) });
+        }
+      }
+
+      // Events registered with addEventListener('onX', …) are capabilities too
+      const listenerPattern = new RegExp(`\\b${sdkName}\\.addEventListener\\(\\s*['"\`](\\w+)['"\`]`, 'g');
+
+      for (const match of content.matchAll(listenerPattern)) {
+        if (!used.has(match[1])) {
+          used.set(match[1], { name: match[1], file, line: lineAt(content, match.index!) });
+        }
+      }
+    }
+  }
+
+  return { declaredCapabilities: Array.from(declared), usedCapabilities: Array.from(used.values()) };
+}
+
+/**
+ * Whether a granted scope covers a required scope
+ * Classic scopes (meeting:read) cover their granular variants (meeting:read:meeting, meeting:read:admin).
+ */
+export function scopeCovers(granted: string, required: string): boolean {
+  return granted === required || required.startsWith(`${granted}:`);
+}
+
+/**
+ * Compare the scopes required by the detected calls with the manifest scopes
+ */
+export function analyzeZoomScopes(options: {
+  calls: ZoomApiCallSite[];
+  resolved: ResolvedZoomCall[];
+  manifestScopes: string[];
+  sdk: ZoomSdkUsage;
+}): ZoomScopeReport {
+  const { calls, resolved, manifestScopes, sdk } = options;
+  const resolvedByKey = new Map(resolved.map((call) => [`${call.method.toUpperCase()} ${call.path}`, call]));
+  const endpoints = new Map<string, ZoomEndpointUsage>();
+  const unresolvedCalls: ZoomApiCallSite[] = [];
+
+  for (const call of calls) {
+    const endpoint = resolvedByKey.get(`${call.method} ${call.path}`)?.endpoint;
+
+    if (!endpoint) {
+      unresolvedCalls.push(call);
+      continue;
+    }
+
+    const key = `${call.method} ${endpoint.path}`;
+    const existing = endpoints.get(key);
+
+    if (existing) {
+      existing.sites.push({ file: call.file, line: call.line });
+      continue;
+    }
+
+    endpoints.set(key, {
+      method: call.method,
+      path: endpoint.path,
+      summary: endpoint.summary,
+      scopes: endpoint.scopes,
+      satisfied:
+        endpoint.scopes.length === 0 ||
+        endpoint.scopes.some((required) => manifestScopes.some((granted) => scopeCovers(granted, required))),
+      deprecated: endpoint.deprecated || false,
+      sites: [{ file: call.file, line: call.line }],
+    });
+  }
+
+  const endpointList = Array.from(endpoints.values());
+  const missingScopes = new Set<string>();
+
+  for (const endpoint of endpointList) {
+    if (!endpoint.satisfied) {
+      // Suggest the classic scope when the endpoint accepts one, since that is what the manifest uses
+      const classic = endpoint.scopes.find((scope) => scope.split(':').length === 2);
+      missingScopes.add(classic || endpoint.scopes[0]);
+    }
+  }
+
+  const requiredScopes = endpointList.flatMap((endpoint) => endpoint.scopes);
+
+  // zoomapp:* scopes are needed by the Zoom client itself, not by REST calls
+  const unusedScopes = manifestScopes.filter(
+    (granted) => !granted.startsWith('zoomapp:') && !requiredScopes.some((required) => scopeCovers(granted, required)),
+  );
+
+  const declared = sdk.declaredCapabilities;
+  const used = sdk.usedCapabilities.map((capability) => capability.name);
+  const missingCapabilities = used.filter((name) => !declared.includes(name));
+  const unusedCapabilities = declared.filter((name) => !used.includes(name));
+
+  return {
+    endpoints: endpointList,
+    unresolvedCalls,
+    missingScopes: Array.from(missingScopes),
+    unusedScopes,
+    capabilities: {
+      declared,
+      used,
+      missing: missingCapabilities,
+      unused: unusedCapabilities,
+    },
+    hasIssues: missingScopes.size > 0 || missingCapabilities.length > 0,
+    analyzedAt: new Date().toISOString(),
+  };
+}
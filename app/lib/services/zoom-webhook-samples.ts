@@ -0,0 +1,170 @@
+/**
+ * Zoom Webhook Samples
+ *
+ * Generates synthetic Zoom webhook events with realistic payloads, so webhook
+ * handlers can be exercised in the preview without scheduling real meetings.
+ * Payload shapes follow the Zoom webhook reference for each event type.
+ */
+
+import { ZOOM_WEBHOOK_EVENTS } from './zoom-marketplace';
+
+export type ZoomWebhookEventType = (typeof ZOOM_WEBHOOK_EVENTS)[number];
+
+/**
+ * A synthetic webhook request (headers + raw JSON body)
+ */
+export interface SyntheticWebhookRequest {
+  eventType: ZoomWebhookEventType;
+  headers: Record<string, string>;
+  body: string;
+}
+
+function randomDigits(length: number): string {
+  return Array.from({ length }, () => Math.floor(Math.random() * 10)).join('');
+}
+
+function randomId(length: number = 22): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from({ length }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
+}
+
+/**
+ * Build the shared meeting object used by meeting.* and recording.* events
+ */
+function buildMeetingObject(now: Date) {
+  return {
+    id: randomDigits(11),
+    uuid: `${randomId(22)}==`,
+    host_id: randomId(22),
+    topic: 'Weekly Team Sync',
+    type: 2,
+    start_time: now.toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    duration: 60,
+    timezone: 'America/Los_Angeles',
+  };
+}
+
+function buildParticipant(now: Date) {
+  return {
+    user_id: randomDigits(8),
+    user_name: 'Jane Doe',
+    id: randomId(22),
+    participant_uuid: randomId(22),
+    email: 'jane.doe@example.com',
+    participant_user_id: randomId(22),
+    join_time: now.toISOString().replace(/\.\d{3}Z$/, 'Z'),
+  };
+}
+
+/**
+ * Build the event-specific payload.object for a Zoom webhook
+ */
+function buildEventObject(eventType: ZoomWebhookEventType, now: Date): Record<string, unknown> {
+  const meeting = buildMeetingObject(now);
+  const timestamp = now.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  switch (eventType) {
+    case 'meeting.started':
+      return meeting;
+
+    case 'meeting.ended':
+      return { ...meeting, end_time: timestamp };
+
+    case 'meeting.participant_joined':
+      return { ...meeting, participant: buildParticipant(now) };
+
+    case 'meeting.participant_left':
+      return {
+        ...meeting,
+        participant: { ...buildParticipant(now), leave_time: timestamp, leave_reason: 'left the meeting' },
+      };
+
+    case 'meeting.created':
+      return {
+        ...meeting,
+        join_url: `https://zoom.us/j/${meeting.id}`,
+        password: randomId(6),
+        settings: { host_video: true, participant_video: true, join_before_host: false },
+      };
+
+    case 'meeting.deleted':
+      return { id: meeting.id, uuid: meeting.uuid, host_id: meeting.host_id, topic: meeting.topic, type: meeting.type };
+
+    case 'meeting.updated':
+      return { id: meeting.id, topic: 'Weekly Team Sync (Updated)', duration: 45 };
+
+    case 'recording.started':
+    case 'recording.stopped':
+      return {
+        ...meeting,
+        recording_file: {
+          recording_start: timestamp,
+          recording_end: eventType === 'recording.stopped' ? timestamp : '',
+        },
+      };
+
+    case 'recording.completed':
+      return {
+        ...meeting,
+        total_size: 52428800,
+        recording_count: 2,
+        share_url: `https://zoom.us/rec/share/${randomId(32)}`,
+        recording_files: [
+          {
+            id: randomId(36),
+            meeting_id: meeting.uuid,
+            recording_start: meeting.start_time,
+            recording_end: timestamp,
+            file_type: 'MP4',
+            file_extension: 'MP4',
+            file_size: 47185920,
+            download_url: `https://zoom.us/rec/webhook_download/${randomId(32)}`,
+            status: 'completed',
+            recording_type: 'shared_screen_with_speaker_view',
+          },
+          {
+            id: randomId(36),
+            meeting_id: meeting.uuid,
+            recording_start: meeting.start_time,
+            recording_end: timestamp,
+            file_type: 'M4A',
+            file_extension: 'M4A',
+            file_size: 5242880,
+            download_url: `https://zoom.us/rec/webhook_download/${randomId(32)}`,
+            status: 'completed',
+            recording_type: 'audio_only',
+          },
+        ],
+      };
+
+    default:
+      return meeting;
+  }
+}
+
+/**
+ * Generate a synthetic Zoom webhook request for an event type
+ */
+export function buildSyntheticZoomEvent(eventType: ZoomWebhookEventType): SyntheticWebhookRequest {
+  const now = new Date();
+
+  const body = {
+    event: eventType,
+    event_ts: now.getTime(),
+    payload: {
+      account_id: randomId(22),
+      operator: 'admin@example.com',
+      operator_id: randomId(22),
+      object: buildEventObject(eventType, now),
+    },
+  };
+
+  return {
+    eventType,
+    headers: {
+      'content-type': 'application/json',
+      'user-agent': 'Zoom Marketplace/1.0a',
+    },
+    body: JSON.stringify(body, null, 2),
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildUrlValidationResponse,
+  computeHmacHex,
+  parseUrlValidationChallenge,
+  verifyZoomSignature,
+} from './zoom-webhook-verification';
+
+const SECRET = 'test_secret_token';
+const BODY = JSON.stringify({ event: 'meeting.started', payload: { object: { id: '123' } } });
+
+describe('verifyZoomSignature', () => {
+  it('should accept a correctly signed request', async () => {
+    const timestamp = String(Date.now());
+    const signature = `v0=${await computeHmacHex(SECRET, `v0:${timestamp}:${BODY}`)}`;
+
+    expect(await verifyZoomSignature(SECRET, BODY, signature, timestamp)).toBe('valid');
+  });
+
+  it('should reject a signature made with another secret', async () => {
+    const timestamp = String(Date.now());
+    const signature = `v0=${await computeHmacHex('other_secret', `v0:${timestamp}:${BODY}`)}`;
+
+    expect(await verifyZoomSignature(SECRET, BODY, signature, timestamp)).toBe('invalid');
+  });
+
+  it('should reject stale timestamps', async () => {
+    const timestamp = String(Date.now() - 10 * 60 * 1000);
+    const signature = `v0=${await computeHmacHex(SECRET, `v0:${timestamp}:${BODY}`)}`;
+
+    expect(await verifyZoomSignature(SECRET, BODY, signature, timestamp)).toBe('invalid');
+  });
+
+  it('should report missing headers', async () => {
+    expect(await verifyZoomSignature(SECRET, BODY, null, null)).toBe('missing');
+  });
+});
+
+describe('URL validation challenge', () => {
+  it('should parse the plain token from a challenge body', () => {
+    const body = JSON.stringify({ event: 'endpoint.url_validation', payload: { plainToken: 'abc123' } });
+
+    expect(parseUrlValidationChallenge(body)).toBe('abc123');
+    expect(parseUrlValidationChallenge(BODY)).toBeNull();
+    expect(parseUrlValidationChallenge('not json')).toBeNull();
+  });
+
+  it('should return the HMAC of the plain token', async () => {
+    const response = await buildUrlValidationResponse(SECRET, 'abc123');
+
+    expect(response.plainToken).toBe('abc123');
+    expect(response.encryptedToken).toBe(await computeHmacHex(SECRET, 'abc123'));
+    expect(response.encryptedToken).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Zoom Webhook Verification
+ *
+ * Implements Zoom's webhook security model for the webhook proxy:
+ * - endpoint.url_validation challenge responses
+ * - x-zm-signature HMAC-SHA256 verification
+ *
+ * Reference: https://developers.zoom.us/docs/api/webhooks/#verify-webhook-events
+ */
+
+export const ZOOM_SIGNATURE_HEADER = 'x-zm-signature';
+export const ZOOM_TIMESTAMP_HEADER = 'x-zm-request-timestamp';
+export const ZOOM_URL_VALIDATION_EVENT = 'endpoint.url_validation';
+
+// Requests older than this are treated as replays
+const MAX_TIMESTAMP_SKEW = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Result of verifying a webhook request signature
+ * - valid: signature matches the session's secret token
+ * - invalid: signature present but wrong, or timestamp outside the allowed window
+ * - missing: session has a secret token but the request was not signed
+ * - unchecked: session has no secret token, so nothing was verified
+ * - replayed: injected through the replay endpoint (fixtures), never signed by Zoom
+ */
+export type WebhookSignatureStatus = 'valid' | 'invalid' | 'missing' | 'unchecked' | 'replayed';
+
+/**
+ * Compute a hex-encoded HMAC-SHA256 digest
+ */
+export async function computeHmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Compare two strings without short-circuiting on the first difference
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+
+  return diff === 0;
+}
+
+/**
+ * Verify the x-zm-signature header of a Zoom webhook request
+ *
+ * @param secretToken - The app's webhook secret token
+ * @param body - Raw request body
+ * @param signature - Value of the x-zm-signature header
+ * @param timestamp - Value of the x-zm-request-timestamp header
+ */
+export async function verifyZoomSignature(
+  secretToken: string,
+  body: string,
+  signature: string | null | undefined,
+  timestamp: string | null | undefined,
+  now: number = Date.now(),
+): Promise<WebhookSignatureStatus> {
+  if (!signature || !timestamp) {
+    return 'missing';
+  }
+
+  // Zoom sends the timestamp in milliseconds
+  const requestTime = parseInt(timestamp, 10);
+
+  if (Number.isNaN(requestTime) || Math.abs(now - requestTime) > MAX_TIMESTAMP_SKEW) {
+    return 'invalid';
+  }
+
+  const expected = `v0=${await computeHmacHex(secretToken, `v0:${timestamp}:${body}`)}`;
+
+  return timingSafeEqual(expected, signature) ? 'valid' : 'invalid';
+}
+
+/**
+ * Extract the plainToken from an endpoint.url_validation request body
+ *
+ * @returns The plain token, or null if the body is not a validation challenge
+ */
+export function parseUrlValidationChallenge(body: string | null): string | null {
+  if (!body) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(body) as { event?: string; payload?: { plainToken?: string } };
+
+    if (parsed.event === ZOOM_URL_VALIDATION_EVENT && typeof parsed.payload?.plainToken === 'string') {
+      return parsed.payload.plainToken;
+    }
+  } catch {
+    // Not JSON, so not a validation challenge
+  }
+
+  return null;
+}
+
+/**
+ * Build the response body Zoom expects for an endpoint.url_validation challenge
+ */
+export async function buildUrlValidationResponse(
+  secretToken: string,
+  plainToken: string,
+): Promise<{ plainToken: string; encryptedToken: string }> {
+  return {
+    plainToken,
+    encryptedToken: await computeHmacHex(secretToken, plainToken),
+  };
+}
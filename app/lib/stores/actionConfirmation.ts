@@ -0,0 +1,131 @@
+import { atom } from 'nanostores';
+import { chatId } from '~/lib/persistence/chatId';
+import { getActionsNeedingConfirmation, type DangerousAction } from '~/lib/services/action-safety';
+import { autoExecutionConfig, autoExecutionState, pauseExecution } from '~/lib/services/autoExecutionService';
+import type { BoltAction } from '~/types/actions';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ActionConfirmation');
+
+/**
+ * Action Confirmation Store
+ *
+ * Holds dangerous bolt actions back until the user confirms them. Requests are
+ * shown one at a time; actions the user always allows are remembered per project
+ * (the chat the app is built in) in localStorage.
+ */
+
+const ACTION_ALLOW_LIST_KEY = 'bolt_action_allow_list';
+
+export interface ActionConfirmationRequest {
+  id: string;
+  actions: DangerousAction[];
+}
+
+// Queue of actions waiting for confirmation, the first one is shown
+export const pendingActionConfirmations = atom<ActionConfirmationRequest[]>([]);
+
+// Allow-listed action keys per project
+export const actionAllowLists = atom<Record<string, string[]>>(loadAllowLists());
+
+const pendingCallbacks = new Map<string, (approved: boolean) => void>();
+let requestCounter = 0;
+
+function loadAllowLists(): Record<string, string[]> {
+  if (typeof localStorage === 'undefined') {
+    return {};
+  }
+
+  try {
+    return JSON.parse(localStorage.getItem(ACTION_ALLOW_LIST_KEY) || '{}');
+  } catch (error) {
+    logger.error('Failed to load the action allow-list', error);
+    return {};
+  }
+}
+
+function saveAllowLists(allowLists: Record<string, string[]>) {
+  actionAllowLists.set(allowLists);
+
+  if (typeof localStorage === 'undefined') {
+    return;
+  }
+
+  try {
+    localStorage.setItem(ACTION_ALLOW_LIST_KEY, JSON.stringify(allowLists));
+  } catch (error) {
+    logger.error('Failed to save the action allow-list', error);
+  }
+}
+
+/**
+ * Resolves to whether the action may run; only asks when it does something dangerous
+ */
+export function confirmDangerousActions(action: BoltAction): Promise<boolean> {
+  const config = autoExecutionConfig.get();
+
+  if (!config.pauseOnDangerousActions) {
+    return Promise.resolve(true);
+  }
+
+  const projectId = chatId.get();
+  const actions = getActionsNeedingConfirmation(action, {
+    types: config.requireConfirmationFor,
+    allowList: projectId ? actionAllowLists.get()[projectId] || [] : [],
+  });
+
+  if (actions.length === 0) {
+    return Promise.resolve(true);
+  }
+
+  return new Promise((resolve) => {
+    const id = `action-confirmation-${++requestCounter}`;
+
+    pendingCallbacks.set(id, resolve);
+    pendingActionConfirmations.set([...pendingActionConfirmations.get(), { id, actions }]);
+  });
+}
+
+/**
+ * Answer a confirmation request, optionally allowing its actions for the rest of the project
+ */
+export function resolveActionConfirmation(id: string, approved: boolean, allowForProject = false) {
+  const request = pendingActionConfirmations.get().find((item) => item.id === id);
+
+  if (!request) {
+    return;
+  }
+
+  const projectId = chatId.get();
+
+  if (approved && allowForProject && projectId) {
+    allowActions(
+      projectId,
+      request.actions.map((action) => action.key),
+    );
+  }
+
+  // Auto-execution would otherwise carry on without what the step needed
+  if (!approved && autoExecutionState.get().isAutoExecuting) {
+    pauseExecution('dangerous_action');
+  }
+
+  logger.info(approved ? 'Actions confirmed' : 'Actions rejected', { actions: request.actions.map((a) => a.key) });
+
+  pendingActionConfirmations.set(pendingActionConfirmations.get().filter((item) => item.id !== id));
+  pendingCallbacks.get(id)?.(approved);
+  pendingCallbacks.delete(id);
+}
+
+export function allowActions(projectId: string, keys: string[]) {
+  const allowLists = actionAllowLists.get();
+  const allowList = allowLists[projectId] || [];
+
+  saveAllowLists({ ...allowLists, [projectId]: [...new Set([...allowList, ...keys])] });
+}
+
+export function removeAllowedAction(projectId: string, key: string) {
+  const allowLists = actionAllowLists.get();
+
+  saveAllowLists({ ...allowLists, [projectId]: (allowLists[projectId] || []).filter((item) => item !== key) });
+}
@@ -1,7 +1,35 @@
 import { map } from 'nanostores';
+import type { TokenUsage } from './tokenUsage';
 
 export const chatStore = map({
   started: false,
   aborted: false,
   showChat: true,
 });
+
+// Outcome of an assistant response, with the usage reported by the provider
+export interface ChatResponseResult {
+  usage?: TokenUsage;
+  error?: string;
+}
+
+let responseListeners: Array<(result: ChatResponseResult) => void> = [];
+
+/**
+ * Wait for the next assistant response to finish streaming, fail or be stopped
+ * Call before sending the message so a fast response is not missed.
+ */
+export function waitForChatResponse(): Promise<ChatResponseResult> {
+  return new Promise((resolve) => {
+    responseListeners.push(resolve);
+  });
+}
+
+export function notifyChatResponseFinished(result: ChatResponseResult): void {
+  const listeners = responseListeners;
+  responseListeners = [];
+
+  for (const listener of listeners) {
+    listener(result);
+  }
+}
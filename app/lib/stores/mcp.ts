@@ -1,14 +1,45 @@
 import { create } from 'zustand';
-import type { MCPConfig, MCPServerTools } from '~/lib/services/mcpService';
+import type {
+  MCPConfig,
+  MCPResource,
+  MCPResourceContent,
+  MCPServerCatalog,
+  MCPServerTools,
+} from '~/lib/services/mcpService';
+import {
+  DEFAULT_TOOL_POLICIES,
+  type ToolApprovalDecision,
+  type ToolApprovalPolicies,
+} from '~/lib/services/mcp-tool-policy';
 
 const MCP_SETTINGS_KEY = 'mcp_settings';
 const MCP_CONFIG_VERSION_KEY = 'mcp_config_version';
+const MCP_TOOL_AUDIT_LOG_KEY = 'mcp_tool_audit_log';
+const MAX_AUDIT_LOG_ENTRIES = 500;
+
+// Longer tool results are cut when the audit log is saved; the in-memory log keeps them whole
+const MAX_STORED_AUDIT_RESULT_LENGTH = 2000;
 const CURRENT_CONFIG_VERSION = 4; // Increment when adding new default servers (v4: context7 uses global stdio install)
 const isBrowser = typeof window !== 'undefined';
 
 type MCPSettings = {
   mcpConfig: MCPConfig;
   maxLLMSteps: number;
+  toolPolicies?: ToolApprovalPolicies;
+};
+
+// An MCP tool call that was approved or denied, with its result once the server has run it
+export type ToolAuditEntry = {
+  toolCallId: string;
+  timestamp: string;
+  chatId?: string;
+  serverName: string;
+  toolName: string;
+  args: unknown;
+  decision: 'approved' | 'denied';
+  decidedBy: 'user' | ToolApprovalDecision['reason'];
+  result?: unknown;
+  completedAt?: string;
 };
 
 /*
@@ -39,7 +70,9 @@ const defaultMCPServers = {
 
   /*
    * Zoom API - Zoom API endpoint documentation and discovery
-   * Provides tools: zoom_list_categories, zoom_search_endpoints, zoom_get_endpoint, zoom_get_scopes
+   * Provides tools: zoom_list_categories, zoom_search_endpoints, zoom_get_endpoint, zoom_get_scopes,
+   * zoom_resolve_calls, zoom_get_schema, zoom_generate_client, zoom_list_events, zoom_get_event,
+   * zoom_get_changes
    * Served by the MCP Proxy sidecar (localhost:3100) when running in Kubernetes
    * Falls back to external URL if MCP_PROXY_URL is not set
    */
@@ -75,7 +108,9 @@ const defaultSettings = {
 
       /*
        * Zoom API - Zoom API endpoint documentation and discovery
-       * Provides tools: zoom_list_categories, zoom_search_endpoints, zoom_get_endpoint, zoom_get_scopes
+       * Provides tools: zoom_list_categories, zoom_search_endpoints, zoom_get_endpoint, zoom_get_scopes,
+       * zoom_resolve_calls, zoom_get_schema, zoom_generate_client, zoom_list_events, zoom_get_event,
+       * zoom_get_changes
        * Served by the MCP Proxy sidecar (localhost:3100) when running in Kubernetes
        */
       'zoom-api': {
@@ -86,32 +121,99 @@ const defaultSettings = {
   },
 } satisfies MCPSettings;
 
+// A resource read from an MCP server, to be sent along with the next chat message
+export type AttachedMCPResource = {
+  serverName: string;
+  uri: string;
+  name: string;
+  mimeType?: string;
+  text: string;
+};
+
 type Store = {
   isInitialized: boolean;
   settings: MCPSettings;
   serverTools: MCPServerTools;
   error: string | null;
   isUpdatingConfig: boolean;
+  serverCatalogs: Record<string, MCPServerCatalog>;
+  attachedResources: AttachedMCPResource[];
+
+  // Tools the user allowed for a chat, as "server/tool" keys by chat id (not persisted)
+  chatGrants: Record<string, string[]>;
+  auditLog: ToolAuditEntry[];
 };
 
 type Actions = {
   initialize: () => Promise<void>;
   updateSettings: (settings: MCPSettings) => Promise<void>;
   checkServersAvailabilities: () => Promise<void>;
+  authorizeServer: (serverName: string) => Promise<void>;
+  signOutServer: (serverName: string) => Promise<void>;
+  loadCatalogs: () => Promise<void>;
+  attachResource: (serverName: string, resource: MCPResource) => Promise<void>;
+  detachResource: (serverName: string, uri: string) => void;
+  clearAttachedResources: () => void;
+  getPrompt: (serverName: string, name: string, args: Record<string, string>) => Promise<string>;
+  updateToolPolicies: (toolPolicies: ToolApprovalPolicies) => void;
+  grantToolForChat: (chatId: string, serverName: string, toolName: string) => void;
+  recordToolDecision: (entry: Omit<ToolAuditEntry, 'timestamp'>) => void;
+  completeToolAudit: (toolCallId: string, result: unknown) => void;
+  clearAuditLog: () => void;
 };
 
+export function chatGrantKey(serverName: string, toolName: string) {
+  return `${serverName}/${toolName}`;
+}
+
+function truncateAuditResult(result: unknown): unknown {
+  const serialized = typeof result === 'string' ? result : JSON.stringify(result);
+
+  if (serialized === undefined || serialized.length <= MAX_STORED_AUDIT_RESULT_LENGTH) {
+    return result;
+  }
+
+  return `${serialized.slice(0, MAX_STORED_AUDIT_RESULT_LENGTH)}… (truncated, ${serialized.length} characters)`;
+}
+
+function saveAuditLog(auditLog: ToolAuditEntry[]) {
+  if (!isBrowser) {
+    return;
+  }
+
+  try {
+    const stored = auditLog.map((entry) =>
+      entry.result === undefined ? entry : { ...entry, result: truncateAuditResult(entry.result) },
+    );
+
+    localStorage.setItem(MCP_TOOL_AUDIT_LOG_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Error saving mcp tool audit log:', error);
+  }
+}
+
 export const useMCPStore = create<Store & Actions>((set, get) => ({
   isInitialized: false,
   settings: defaultSettings,
   serverTools: {},
   error: null,
   isUpdatingConfig: false,
+  serverCatalogs: {},
+  attachedResources: [],
+  chatGrants: {},
+  auditLog: [],
   initialize: async () => {
     if (get().isInitialized) {
       return;
     }
 
     if (isBrowser) {
+      try {
+        set(() => ({ auditLog: JSON.parse(localStorage.getItem(MCP_TOOL_AUDIT_LOG_KEY) || '[]') }));
+      } catch (error) {
+        console.error('Error parsing saved mcp tool audit log:', error);
+      }
+
       const savedConfig = localStorage.getItem(MCP_SETTINGS_KEY);
       const savedVersion = parseInt(localStorage.getItem(MCP_CONFIG_VERSION_KEY) || '0', 10);
 
@@ -199,8 +301,191 @@ export const useMCPStore = create<Store & Actions>((set, get) => ({
 
     set(() => ({ serverTools }));
   },
+  authorizeServer: async (serverName: string) => {
+    const popup = window.open(
+      `/api/mcp-oauth?serverName=${encodeURIComponent(serverName)}`,
+      'mcp-oauth',
+      'width=600,height=700',
+    );
+
+    if (!popup) {
+      throw new Error('Allow popups to sign in to the MCP server');
+    }
+
+    await waitForAuthorization(popup);
+    await get().checkServersAvailabilities();
+  },
+  signOutServer: async (serverName: string) => {
+    const response = await fetch('/api/mcp-oauth', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ serverName }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Server responded with ${response.status}: ${response.statusText}`);
+    }
+
+    const serverTools = (await response.json()) as MCPServerTools;
+
+    set(() => ({ serverTools }));
+  },
+  loadCatalogs: async () => {
+    const response = await fetch('/api/mcp-resources', {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Server responded with ${response.status}: ${response.statusText}`);
+    }
+
+    const serverCatalogs = (await response.json()) as Record<string, MCPServerCatalog>;
+
+    set(() => ({ serverCatalogs }));
+  },
+  attachResource: async (serverName: string, resource: MCPResource) => {
+    if (get().attachedResources.some((item) => item.serverName === serverName && item.uri === resource.uri)) {
+      return;
+    }
+
+    const response = await fetch('/api/mcp-resources', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ serverName, uri: resource.uri }),
+    });
+
+    const data = (await response.json()) as { contents?: MCPResourceContent[]; error?: string };
+
+    if (!response.ok || !data.contents) {
+      throw new Error(data.error || `Server responded with ${response.status}: ${response.statusText}`);
+    }
+
+    // Binary (blob) contents cannot be sent as message text
+    const text = data.contents
+      .map((content) => content.text)
+      .filter((contentText): contentText is string => contentText !== undefined)
+      .join('\n\n');
+
+    if (!text) {
+      throw new Error(`Resource ${resource.uri} has no text content`);
+    }
+
+    set((state) => ({
+      attachedResources: [
+        ...state.attachedResources,
+        { serverName, uri: resource.uri, name: resource.name, mimeType: resource.mimeType, text },
+      ],
+    }));
+  },
+  detachResource: (serverName: string, uri: string) => {
+    set((state) => ({
+      attachedResources: state.attachedResources.filter((item) => item.serverName !== serverName || item.uri !== uri),
+    }));
+  },
+  clearAttachedResources: () => {
+    set(() => ({ attachedResources: [] }));
+  },
+  getPrompt: async (serverName: string, name: string, args: Record<string, string>) => {
+    const response = await fetch('/api/mcp-prompt', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ serverName, name, arguments: args }),
+    });
+
+    const data = (await response.json()) as { text?: string; error?: string };
+
+    if (!response.ok || data.text === undefined) {
+      throw new Error(data.error || `Server responded with ${response.status}: ${response.statusText}`);
+    }
+
+    return data.text;
+  },
+  updateToolPolicies: (toolPolicies: ToolApprovalPolicies) => {
+    // Policies are evaluated in the browser, so the servers do not need to be reconfigured
+    const settings = { ...get().settings, toolPolicies };
+
+    if (isBrowser) {
+      localStorage.setItem(MCP_SETTINGS_KEY, JSON.stringify(settings));
+    }
+
+    set(() => ({ settings }));
+  },
+  grantToolForChat: (chatId: string, serverName: string, toolName: string) => {
+    const key = chatGrantKey(serverName, toolName);
+
+    set((state) => {
+      const grants = state.chatGrants[chatId] || [];
+
+      return grants.includes(key) ? {} : { chatGrants: { ...state.chatGrants, [chatId]: [...grants, key] } };
+    });
+  },
+  recordToolDecision: (entry: Omit<ToolAuditEntry, 'timestamp'>) => {
+    const auditLog = [...get().auditLog, { ...entry, timestamp: new Date().toISOString() }].slice(
+      -MAX_AUDIT_LOG_ENTRIES,
+    );
+
+    saveAuditLog(auditLog);
+    set(() => ({ auditLog }));
+  },
+  completeToolAudit: (toolCallId: string, result: unknown) => {
+    // Only calls decided in this session are pending; results of older chats are not logged again
+    if (!get().auditLog.some((entry) => entry.toolCallId === toolCallId && entry.completedAt === undefined)) {
+      return;
+    }
+
+    const auditLog = get().auditLog.map((entry) =>
+      entry.toolCallId === toolCallId && entry.completedAt === undefined
+        ? { ...entry, result, completedAt: new Date().toISOString() }
+        : entry,
+    );
+
+    saveAuditLog(auditLog);
+    set(() => ({ auditLog }));
+  },
+  clearAuditLog: () => {
+    saveAuditLog([]);
+    set(() => ({ auditLog: [] }));
+  },
 }));
 
+export function getToolPolicies(settings: MCPSettings): ToolApprovalPolicies {
+  return settings.toolPolicies || DEFAULT_TOOL_POLICIES;
+}
+
+/**
+ * Wait until the authorization popup reports its result (see /api/oauth/proxy/callback) or is closed
+ */
+function waitForAuthorization(popup: Window): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const finish = (error?: Error) => {
+      window.removeEventListener('message', handleMessage);
+      clearInterval(closedCheck);
+
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== popup || event.data?.type !== 'oauth-response') {
+        return;
+      }
+
+      finish(event.data.success ? undefined : new Error(event.data.errorDescription || event.data.error));
+    };
+
+    const closedCheck = setInterval(() => {
+      if (popup.closed) {
+        finish();
+      }
+    }, 500);
+
+    window.addEventListener('message', handleMessage);
+  });
+}
+
 async function updateServerConfig(config: MCPConfig) {
   const response = await fetch('/api/mcp-update-config', {
     method: 'POST',
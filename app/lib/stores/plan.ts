@@ -1,6 +1,8 @@
 import { atom, map, computed } from 'nanostores';
-import type { Plan, PlanMode, PlanStep, PlanStepStatus, PlanState } from '~/types/plan';
+import type { Plan, PlanCheckResult, PlanMode, PlanStep, PlanStepStatus, PlanState } from '~/types/plan';
 import { generateId } from 'ai';
+import { getDownstreamStepIds, getReadySteps, resolveStepDependencies } from '~/utils/planGraph';
+import { parseStepChecks } from '~/utils/planChecks';
 
 /**
  * Plan Store
@@ -31,6 +33,24 @@ export const canExecute = computed(
 export const currentStepIndex = atom<number>(-1);
 export const executionPaused = atom<boolean>(false);
 
+/**
+ * Status of an executing plan after a step changed: failed only once no step can run anymore,
+ * since independent branches keep running after a failure
+ */
+function getExecutionStatus(steps: PlanStep[], status: Plan['status']): Plan['status'] {
+  if (steps.every((s) => s.status === 'complete' || s.status === 'skipped')) {
+    return 'completed';
+  }
+
+  const isRunning = steps.some((s) => s.status === 'in-progress');
+
+  if (steps.some((s) => s.status === 'failed') && !isRunning && getReadySteps(steps).length === 0) {
+    return 'failed';
+  }
+
+  return status;
+}
+
 // Actions
 export function toggleMode() {
   const current = planStore.get();
@@ -73,6 +93,25 @@ export function setPlan(plan: Plan) {
   planStore.setKey('isPlanApproved', plan.status === 'approved' || plan.status === 'executing');
 }
 
+/**
+ * Set a plan loaded from the chat history
+ * Steps that were running when the page went away never finished, so they run again on resume.
+ */
+export function restorePlan(plan: Plan): Plan {
+  const restoredPlan: Plan = {
+    ...plan,
+    steps: plan.steps.map((step) =>
+      step.status === 'in-progress' ? { ...step, status: 'pending' as PlanStepStatus, startedAt: undefined } : step,
+    ),
+  };
+
+  setPlan(restoredPlan);
+  currentStepIndex.set(-1);
+  executionPaused.set(restoredPlan.status === 'executing');
+
+  return restoredPlan;
+}
+
 export function approvePlan() {
   const current = planStore.get();
 
@@ -135,22 +174,15 @@ export function updateStepStatus(stepId: string, status: PlanStepStatus, error?:
     return step;
   });
 
+  const planStatus = getExecutionStatus(updatedSteps, current.currentPlan.status);
+
   const updatedPlan: Plan = {
     ...current.currentPlan,
     steps: updatedSteps,
+    status: planStatus,
+    completedAt: planStatus === 'completed' ? Date.now() : current.currentPlan.completedAt,
   };
 
-  // Check if all steps are complete
-  const allComplete = updatedSteps.every((s) => s.status === 'complete' || s.status === 'skipped');
-  const anyFailed = updatedSteps.some((s) => s.status === 'failed');
-
-  if (allComplete) {
-    updatedPlan.status = 'completed';
-    updatedPlan.completedAt = Date.now();
-  } else if (anyFailed) {
-    updatedPlan.status = 'failed';
-  }
-
   planStore.setKey('currentPlan', updatedPlan);
 }
 
@@ -165,8 +197,9 @@ export function startStep(stepIndex: number) {
   updateStepStatus(step.id, 'in-progress');
   currentStepIndex.set(stepIndex);
 
+  // Re-read the plan, so the step's status and start time are kept
   const updatedPlan: Plan = {
-    ...current.currentPlan,
+    ...planStore.get().currentPlan!,
     status: 'executing',
     currentStepIndex: stepIndex,
   };
@@ -194,13 +227,13 @@ export function completeStep(stepIndex: number, tokensUsed?: number) {
     return s;
   });
 
-  const allComplete = updatedSteps.every((s) => s.status === 'complete' || s.status === 'skipped');
+  const status = getExecutionStatus(updatedSteps, 'executing');
 
   const updatedPlan: Plan = {
     ...current.currentPlan,
     steps: updatedSteps,
-    status: allComplete ? 'completed' : 'executing',
-    completedAt: allComplete ? Date.now() : undefined,
+    status,
+    completedAt: status === 'completed' ? Date.now() : undefined,
     totalActualTokens: (current.currentPlan.totalActualTokens || 0) + (tokensUsed || 0),
   };
 
@@ -215,8 +248,128 @@ export function failStep(stepIndex: number, error: string) {
   }
 
   const stepToFail = current.currentPlan.steps[stepIndex];
+  const downstreamIds = new Set(getDownstreamStepIds(current.currentPlan.steps, stepToFail.id));
+
+  // Skip the pending steps that depend on the failed one before the plan status is updated
+  planStore.setKey('currentPlan', {
+    ...current.currentPlan,
+    steps: current.currentPlan.steps.map((s) =>
+      downstreamIds.has(s.id) && s.status === 'pending'
+        ? { ...s, status: 'skipped' as PlanStepStatus, blockedBy: stepToFail.id }
+        : s,
+    ),
+  });
   updateStepStatus(stepToFail.id, 'failed', error);
-  executionPaused.set(true);
+
+  if (getReadySteps(planStore.get().currentPlan!.steps).length === 0) {
+    executionPaused.set(true);
+  }
+}
+
+/**
+ * Reset a failed step, and the steps skipped because of it, so they run again
+ */
+export function retryStep(stepIndex: number) {
+  const current = planStore.get();
+
+  if (!current.currentPlan || current.currentPlan.steps[stepIndex]?.status !== 'failed') {
+    return;
+  }
+
+  const failedStepId = current.currentPlan.steps[stepIndex].id;
+
+  planStore.setKey('currentPlan', {
+    ...current.currentPlan,
+    status: 'executing',
+    steps: current.currentPlan.steps.map((s) =>
+      s.id === failedStepId || s.blockedBy === failedStepId
+        ? {
+            ...s,
+            status: 'pending' as PlanStepStatus,
+            error: undefined,
+            blockedBy: undefined,
+            checkResults: undefined,
+            fixAttempts: undefined,
+          }
+        : s,
+    ),
+  });
+}
+
+// Record the latest acceptance check results of a step
+export function setStepCheckResults(stepId: string, checkResults: PlanCheckResult[], fixAttempts: number) {
+  const current = planStore.get();
+
+  if (!current.currentPlan) {
+    return;
+  }
+
+  planStore.setKey('currentPlan', {
+    ...current.currentPlan,
+    steps: current.currentPlan.steps.map((s) => (s.id === stepId ? { ...s, checkResults, fixAttempts } : s)),
+  });
+}
+
+export function setStepCheckpoint(stepId: string, checkpointId: string) {
+  const current = planStore.get();
+
+  if (!current.currentPlan) {
+    return;
+  }
+
+  planStore.setKey('currentPlan', {
+    ...current.currentPlan,
+    steps: current.currentPlan.steps.map((s) => (s.id === stepId ? { ...s, checkpointId } : s)),
+  });
+}
+
+/**
+ * Reset a step, and every step that started after it, to pending once the files
+ * are back at the step's checkpoint
+ */
+export function revertToStep(stepIndex: number) {
+  const current = planStore.get();
+  const revertedStep = current.currentPlan?.steps[stepIndex];
+
+  if (!current.currentPlan || revertedStep?.startedAt === undefined) {
+    return;
+  }
+
+  const revertedAt = revertedStep.startedAt;
+  const revertedIds = new Set(
+    current.currentPlan.steps
+      .filter((s) => s.id === revertedStep.id || (s.startedAt !== undefined && s.startedAt >= revertedAt))
+      .map((s) => s.id),
+  );
+
+  // Steps skipped because a reverted step failed can run again as well
+  for (const s of current.currentPlan.steps) {
+    if (s.blockedBy && revertedIds.has(s.blockedBy)) {
+      revertedIds.add(s.id);
+    }
+  }
+
+  planStore.setKey('currentPlan', {
+    ...current.currentPlan,
+    status: 'executing',
+    completedAt: undefined,
+    steps: current.currentPlan.steps.map((s) =>
+      revertedIds.has(s.id)
+        ? {
+            ...s,
+            status: 'pending' as PlanStepStatus,
+            startedAt: undefined,
+            completedAt: undefined,
+            actualTokens: undefined,
+            error: undefined,
+            blockedBy: undefined,
+            checkResults: undefined,
+            fixAttempts: undefined,
+            checkpointId: undefined,
+          }
+        : s,
+    ),
+  });
 }
 
 export function skipStep(stepIndex: number) {
@@ -246,7 +399,7 @@ export function setMaxAutoSteps(max: number) {
   planStore.setKey('maxAutoSteps', max);
 }
 
-// Helper to get next pending step
+// Helper to get the next pending step whose dependencies are done
 export function getNextPendingStep(): PlanStep | null {
   const current = planStore.get();
 
@@ -254,7 +407,7 @@ export function getNextPendingStep(): PlanStep | null {
     return null;
   }
 
-  return current.currentPlan.steps.find((step) => step.status === 'pending') || null;
+  return getReadySteps(current.currentPlan.steps)[0] || null;
 }
 
 // Helper to get current step
@@ -293,7 +446,7 @@ export function parsePlanFromResponse(response: string, chatId: string): Plan |
       const planData = JSON.parse(jsonMatch[1]);
 
       if (planData.title && planData.steps && Array.isArray(planData.steps)) {
-        return createPlan(
+        const plan = createPlan(
           chatId,
           planData.title,
           planData.summary || '',
@@ -303,6 +456,7 @@ export function parsePlanFromResponse(response: string, chatId: string): Plan |
             description: step.description || step.details || '',
             status: 'pending' as PlanStepStatus,
             estimatedTokens: step.estimatedTokens,
+            checks: parseStepChecks(step.checks),
             substeps: step.substeps?.map((sub: any) => ({
               id: generateId(),
               title: sub.title || sub,
@@ -310,6 +464,12 @@ export function parsePlanFromResponse(response: string, chatId: string): Plan |
             })),
           })),
         );
+
+        // Step ids only exist once the plan is created
+        const planWithDependencies: Plan = { ...plan, steps: resolveStepDependencies(planData.steps, plan.steps) };
+        planStore.setKey('currentPlan', planWithDependencies);
+
+        return planWithDependencies;
       }
     }
 
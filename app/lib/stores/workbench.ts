@@ -19,6 +19,7 @@ import Cookies from 'js-cookie';
 import { createSampler } from '~/utils/sampler';
 import type { ActionAlert, DeployAlert, SupabaseAlert } from '~/types/actions';
 import { queueDiff, diffState } from '~/lib/stores/diff';
+import { confirmDangerousActions } from '~/lib/stores/actionConfirmation';
 import { planStore } from '~/lib/stores/plan';
 import { createScopedLogger } from '~/utils/logger';
 
@@ -88,6 +89,13 @@ export class WorkbenchStore {
     this.#globalExecutionQueue = this.#globalExecutionQueue.then(() => callback());
   }
 
+  /**
+   * Resolve once every action queued so far has run
+   */
+  async waitForQueuedActions(): Promise<void> {
+    await this.#globalExecutionQueue;
+  }
+
   get previews() {
     return this.#previewsStore.previews;
   }
@@ -510,6 +518,7 @@ export class WorkbenchStore {
 
           this.deployAlert.set(alert);
         },
+        confirmDangerousActions,
       ),
     });
   }
@@ -619,6 +628,13 @@ export class WorkbenchStore {
       const wc = await webcontainer;
       const fullPath = path.join(wc.workdir, data.action.filePath);
 
+      // The editor and the save below write the file, so it is confirmed before either
+      if (!(await artifact.runner.confirmAction(data.actionId, data.action))) {
+        logger.debug('File change rejected:', fullPath);
+
+        return;
+      }
+
       /*
        * For scoped locks, we would need to implement diff checking here
        * to determine if the AI is modifying existing code or just adding new code
@@ -9,6 +9,14 @@ import { atom } from 'nanostores';
 import { logStore } from './logs';
 import { toast } from 'react-toastify';
 import type { ZoomAppCredentials } from '~/types/zoom';
+import type { ManifestDriftReport, ReconcileDirection } from '~/lib/services/zoom-manifest-drift';
+import {
+  analyzeZoomScopes,
+  extractZoomApiCalls,
+  extractZoomSdkUsage,
+  type ResolvedZoomCall,
+  type ZoomScopeReport,
+} from '~/lib/services/zoom-scope-analyzer';
 
 /**
  * Zoom App status types
@@ -32,6 +40,9 @@ export interface ZoomApp {
   webhookSessionId?: string;
   shortDescription?: string;
   longDescription?: string;
+  redirectUri?: string;
+  allowList?: string[];
+  lastSyncedAt?: string;
 }
 
 /**
@@ -43,6 +54,21 @@ export interface ZoomWebhookEvent {
   timestamp: string;
   payload: Record<string, unknown>;
   appId?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Saved webhook request that can be edited and replayed into a session
+ */
+export interface ZoomWebhookFixture {
+  id: string;
+  name: string;
+  eventType: string;
+  headers: Record<string, string>;
+  body: string;
+  source: 'recorded' | 'synthetic';
+  createdAt: string;
+  updatedAt: string;
 }
 
 /**
@@ -86,6 +112,9 @@ export interface ZoomConnection {
   // Recent webhook events
   recentEvents: ZoomWebhookEvent[];
 
+  // Saved webhook fixtures (stored locally)
+  webhookFixtures: ZoomWebhookFixture[];
+
   // Statistics
   stats: ZoomStats;
 
@@ -102,6 +131,7 @@ const defaultConnection: ZoomConnection = {
   apps: [],
   webhookSessions: [],
   recentEvents: [],
+  webhookFixtures: [],
   stats: {
     totalApps: 0,
     publishedApps: 0,
@@ -127,11 +157,27 @@ const loadStoredApps = (): ZoomApp[] => {
   }
 };
 
+// Load stored webhook fixtures from localStorage
+const loadStoredFixtures = (): ZoomWebhookFixture[] => {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const stored = localStorage.getItem('zoom_webhook_fixtures');
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load stored webhook fixtures:', error);
+    return [];
+  }
+};
+
 // Initialize with stored data
 const storedApps = loadStoredApps();
 const initialConnection: ZoomConnection = {
   ...defaultConnection,
   apps: storedApps,
+  webhookFixtures: loadStoredFixtures(),
   stats: {
     ...defaultConnection.stats,
     totalApps: storedApps.length,
@@ -149,6 +195,19 @@ export const isCheckingConfig = atom<boolean>(false);
 export const isCreatingApp = atom<boolean>(false);
 export const isFetchingStats = atom<boolean>(false);
 
+// ID of the app with a Marketplace update in flight
+export const updatingZoomAppId = atom<string | null>(null);
+
+// Latest manifest drift report per app ID (not persisted)
+export const zoomAppDrift = atom<Record<string, ManifestDriftReport>>({});
+
+// Latest scope analysis of the current project (not persisted)
+export const zoomScopeReport = atom<ZoomScopeReport | null>(null);
+export const isAnalyzingScopes = atom<boolean>(false);
+
+// Whether the mock Zoom REST API is being configured for the current project
+export const isConfiguringMockApi = atom<boolean>(false);
+
 /**
  * Update Zoom connection state
  */
@@ -167,6 +226,15 @@ const persistApps = (apps: ZoomApp[]) => {
   }
 };
 
+/**
+ * Persist webhook fixtures to localStorage
+ */
+const persistFixtures = (fixtures: ZoomWebhookFixture[]) => {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem('zoom_webhook_fixtures', JSON.stringify(fixtures));
+  }
+};
+
 /**
  * API configuration response type
  */
@@ -300,6 +368,293 @@ export function getZoomApp(appId: string): ZoomApp | undefined {
   return currentState.apps.find((app) => app.appId === appId);
 }
 
+/**
+ * Marketplace lifecycle response type
+ */
+interface ZoomMarketplaceAppResponse {
+  success?: boolean;
+  error?: string;
+  scopes?: string[];
+  redirectUri?: string;
+  allowList?: string[];
+  clientId?: string;
+  clientSecret?: string;
+  warning?: string;
+  report?: ManifestDriftReport;
+  manifestJson?: string;
+}
+
+/**
+ * Run a lifecycle action against an existing Marketplace app
+ */
+async function runMarketplaceAppAction(
+  appId: string,
+  action: string,
+  params: Record<string, unknown> = {},
+): Promise<ZoomMarketplaceAppResponse | null> {
+  try {
+    updatingZoomAppId.set(appId);
+
+    const response = await fetch('/api/zoom-marketplace', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, appId, ...params }),
+    });
+
+    const data = (await response.json()) as ZoomMarketplaceAppResponse;
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Marketplace request failed (${response.status})`);
+    }
+
+    return data;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    console.error(`Error running Zoom App action ${action}:`, error);
+    logStore.logError(`Failed to ${action.replace('-', ' ')} for Zoom App`, { appId, error: message });
+    toast.error(message);
+
+    return null;
+  } finally {
+    updatingZoomAppId.set(null);
+  }
+}
+
+/**
+ * Pull the current scopes and OAuth settings of an app from the Marketplace
+ */
+export async function syncZoomAppFromMarketplace(appId: string): Promise<boolean> {
+  const data = await runMarketplaceAppAction(appId, 'get-app');
+
+  if (!data) {
+    return false;
+  }
+
+  updateZoomApp(appId, {
+    scopes: data.scopes || [],
+    redirectUri: data.redirectUri,
+    allowList: data.allowList,
+    lastSyncedAt: new Date().toISOString(),
+  });
+
+  return true;
+}
+
+/**
+ * Replace the OAuth scopes of an app in the Marketplace
+ */
+export async function pushZoomAppScopes(appId: string, scopes: string[]): Promise<boolean> {
+  const data = await runMarketplaceAppAction(appId, 'update-scopes', { scopes });
+
+  if (!data) {
+    return false;
+  }
+
+  updateZoomApp(appId, { scopes: data.scopes || scopes, lastSyncedAt: new Date().toISOString() });
+  logStore.logSystem('Zoom App scopes updated', { appId, scopes: data.scopes });
+  toast.success('Scopes updated in Zoom Marketplace');
+
+  return true;
+}
+
+/**
+ * Update the redirect URL and/or OAuth allow list of an app in the Marketplace
+ */
+export async function updateZoomAppOAuthSettings(
+  appId: string,
+  settings: { redirectUri?: string; allowList?: string[] },
+): Promise<boolean> {
+  const data = await runMarketplaceAppAction(appId, 'update-oauth', settings);
+
+  if (!data) {
+    return false;
+  }
+
+  updateZoomApp(appId, {
+    redirectUri: data.redirectUri,
+    allowList: data.allowList,
+    lastSyncedAt: new Date().toISOString(),
+  });
+  toast.success('OAuth settings updated in Zoom Marketplace');
+
+  return true;
+}
+
+/**
+ * Regenerate the client secret of an app
+ * The new secret is kept server-side for the OAuth proxy.
+ */
+export async function regenerateZoomAppSecret(appId: string): Promise<boolean> {
+  const data = await runMarketplaceAppAction(appId, 'regenerate-secret');
+
+  if (!data) {
+    return false;
+  }
+
+  logStore.logSystem('Zoom App client secret regenerated', { appId });
+
+  if (data.clientSecret) {
+    // Only returned when the server could not store it; this is the only copy
+    toast.warning(`${data.warning} New client secret: ${data.clientSecret}`, { autoClose: false });
+
+    return true;
+  }
+
+  toast.success('Client secret regenerated. The previous secret no longer works.');
+
+  return true;
+}
+
+/**
+ * Delete an app from the Marketplace and remove it from the store
+ */
+export async function deleteZoomAppFromMarketplace(appId: string): Promise<boolean> {
+  const data = await runMarketplaceAppAction(appId, 'delete-app');
+
+  if (!data) {
+    return false;
+  }
+
+  removeZoomApp(appId);
+
+  return true;
+}
+
+/**
+ * Compare the project's public/manifest.json with the registered app
+ *
+ * @param manifestJson - Contents of public/manifest.json (omit if the project has none)
+ */
+export async function checkZoomAppManifestDrift(
+  appId: string,
+  manifestJson?: string,
+): Promise<ManifestDriftReport | null> {
+  const data = await runMarketplaceAppAction(appId, 'check-drift', { manifestJson });
+
+  if (!data?.report) {
+    return null;
+  }
+
+  zoomAppDrift.set({ ...zoomAppDrift.get(), [appId]: data.report });
+
+  return data.report;
+}
+
+/**
+ * Reconcile drift between public/manifest.json and the Marketplace app
+ *
+ * @returns The updated manifest.json content for marketplace-to-file, an empty
+ * string for file-to-marketplace, or null on failure
+ */
+export async function reconcileZoomAppManifestDrift(
+  appId: string,
+  manifestJson: string,
+  direction: ReconcileDirection,
+): Promise<string | null> {
+  const data = await runMarketplaceAppAction(appId, 'reconcile-drift', { manifestJson, direction });
+
+  if (!data?.report) {
+    return null;
+  }
+
+  zoomAppDrift.set({ ...zoomAppDrift.get(), [appId]: data.report });
+  logStore.logSystem('Zoom App manifest reconciled', { appId, direction });
+
+  if (direction === 'file-to-marketplace') {
+    await syncZoomAppFromMarketplace(appId);
+  }
+
+  return data.manifestJson || '';
+}
+
+/**
+ * Analyze which scopes and SDK capabilities the project code needs
+ *
+ * @param files - Project source files keyed by path
+ * @param manifestScopes - Scopes declared in public/manifest.json
+ */
+export async function analyzeZoomProjectScopes(
+  files: Record<string, string>,
+  manifestScopes: string[],
+): Promise<ZoomScopeReport | null> {
+  try {
+    isAnalyzingScopes.set(true);
+
+    const calls = extractZoomApiCalls(files);
+    const uniqueCalls = Array.from(
+      new Map(calls.map((call) => [`${call.method} ${call.path}`, { method: call.method, path: call.path }])).values(),
+    );
+
+    let resolved: ResolvedZoomCall[] = [];
+
+    if (uniqueCalls.length > 0) {
+      const response = await fetch('/api/zoom-scope-analysis', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ calls: uniqueCalls }),
+      });
+
+      const data = (await response.json()) as { success: boolean; resolved?: ResolvedZoomCall[]; error?: string };
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to resolve Zoom API calls');
+      }
+
+      resolved = data.resolved || [];
+    }
+
+    const report = analyzeZoomScopes({ calls, resolved, manifestScopes, sdk: extractZoomSdkUsage(files) });
+
+    zoomScopeReport.set(report);
+    logStore.logSystem('Zoom scope analysis completed', {
+      endpoints: report.endpoints.length,
+      missingScopes: report.missingScopes,
+      missingCapabilities: report.capabilities.missing,
+    });
+
+    return report;
+  } catch (error) {
+    console.error('Error analyzing Zoom scopes:', error);
+    logStore.logError('Failed to analyze Zoom scopes', { error });
+    toast.error(error instanceof Error ? error.message : 'Failed to analyze Zoom scopes');
+
+    return null;
+  } finally {
+    isAnalyzingScopes.set(false);
+  }
+}
+
+/**
+ * Issue a fake access token for the mock Zoom REST API (/api/zoom-mock)
+ * The mock only serves endpoints whose scopes are covered by the token.
+ */
+export async function issueZoomMockToken(scopes: string[]): Promise<string | null> {
+  try {
+    const response = await fetch('/api/zoom-mock/_mock/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scopes }),
+    });
+
+    const data = (await response.json()) as { access_token?: string; message?: string };
+
+    if (!response.ok || !data.access_token) {
+      throw new Error(data.message || 'Failed to issue mock Zoom token');
+    }
+
+    logStore.logSystem('Issued mock Zoom API token', { scopes });
+
+    return data.access_token;
+  } catch (error) {
+    console.error('Error issuing mock Zoom token:', error);
+    logStore.logError('Failed to issue mock Zoom token', { error });
+    toast.error(error instanceof Error ? error.message : 'Failed to issue mock Zoom token');
+
+    return null;
+  }
+}
+
 /**
  * Add a webhook event to the recent events
  */
@@ -332,6 +687,109 @@ export function clearWebhookEvents() {
   });
 }
 
+/**
+ * Save a new webhook fixture
+ */
+export function addWebhookFixture(
+  fixture: Omit<ZoomWebhookFixture, 'id' | 'createdAt' | 'updatedAt'>,
+): ZoomWebhookFixture {
+  const currentState = zoomConnection.get();
+  const now = new Date().toISOString();
+  const newFixture: ZoomWebhookFixture = {
+    ...fixture,
+    id: `fixture_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const webhookFixtures = [newFixture, ...currentState.webhookFixtures];
+  updateZoomConnection({ webhookFixtures });
+  persistFixtures(webhookFixtures);
+
+  logStore.logSystem('Webhook fixture saved', { fixtureId: newFixture.id, eventType: newFixture.eventType });
+
+  return newFixture;
+}
+
+/**
+ * Save a received webhook event as a fixture
+ */
+export function saveEventAsFixture(event: ZoomWebhookEvent, name?: string): ZoomWebhookFixture {
+  return addWebhookFixture({
+    name: name || `${event.eventType} (${new Date(event.timestamp).toLocaleString()})`,
+    eventType: event.eventType,
+    headers: event.headers || { 'content-type': 'application/json' },
+    body: JSON.stringify(event.payload, null, 2),
+    source: 'recorded',
+  });
+}
+
+/**
+ * Update an existing webhook fixture
+ */
+export function updateWebhookFixture(
+  fixtureId: string,
+  updates: Partial<Pick<ZoomWebhookFixture, 'name' | 'eventType' | 'headers' | 'body'>>,
+) {
+  const currentState = zoomConnection.get();
+  const webhookFixtures = currentState.webhookFixtures.map((fixture) =>
+    fixture.id === fixtureId ? { ...fixture, ...updates, updatedAt: new Date().toISOString() } : fixture,
+  );
+
+  updateZoomConnection({ webhookFixtures });
+  persistFixtures(webhookFixtures);
+}
+
+/**
+ * Remove a webhook fixture
+ */
+export function removeWebhookFixture(fixtureId: string) {
+  const currentState = zoomConnection.get();
+  const webhookFixtures = currentState.webhookFixtures.filter((fixture) => fixture.id !== fixtureId);
+
+  updateZoomConnection({ webhookFixtures });
+  persistFixtures(webhookFixtures);
+}
+
+/**
+ * Replay a fixture into a webhook session's queue
+ *
+ * @param secretToken - The session's current secret token, required unless logged in as admin
+ */
+export async function replayWebhookFixture(
+  fixture: ZoomWebhookFixture,
+  sessionId: string,
+  secretToken?: string,
+): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/webhook/replay/${sessionId}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(secretToken ? { 'X-Webhook-Secret-Token': secretToken } : {}),
+      },
+      body: JSON.stringify({ headers: fixture.headers, body: fixture.body }),
+    });
+
+    const result = (await response.json()) as { success?: boolean; eventId?: string; error?: string };
+
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || `HTTP ${response.status}`);
+    }
+
+    logStore.logSystem('Webhook fixture replayed', { fixtureId: fixture.id, sessionId, eventId: result.eventId });
+    toast.success(`Replayed "${fixture.name}"`);
+
+    return true;
+  } catch (error) {
+    console.error('Error replaying webhook fixture:', error);
+    logStore.logError('Failed to replay webhook fixture', { error, fixtureId: fixture.id, sessionId });
+    toast.error(`Failed to replay fixture: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+    return false;
+  }
+}
+
 /**
  * Add or update a webhook session
  */
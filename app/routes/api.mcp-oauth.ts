@@ -0,0 +1,74 @@
+/**
+ * MCP Server OAuth Endpoint
+ *
+ * GET /api/mcp-oauth?serverName=xxx
+ * Starts the authorization flow of a remote MCP server and redirects to its authorization server.
+ * The code comes back to /api/oauth/proxy/callback, which stores the tokens and reconnects the server.
+ *
+ * POST /api/mcp-oauth { serverName }
+ * Signs out of a server by dropping its tokens.
+ */
+
+import { type ActionFunctionArgs, type LoaderFunctionArgs, redirect } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPService } from '~/lib/services/mcpService';
+
+const logger = createScopedLogger('api.mcp-oauth');
+
+function getEnvVar(context: any, key: string): string {
+  return (context.cloudflare?.env as any)?.[key] || process.env[key] || '';
+}
+
+/**
+ * Ensure URL uses HTTPS protocol
+ * Authorization servers require HTTPS for redirect URIs, except on localhost
+ */
+function ensureHttps(url: string): string {
+  if (url.startsWith('http://localhost') || url.startsWith('http://127.0.0.1')) {
+    return url;
+  }
+
+  return url.replace(/^http:\/\//i, 'https://');
+}
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const serverName = new URL(request.url).searchParams.get('serverName');
+
+  if (!serverName) {
+    return Response.json({ error: 'Missing serverName parameter' }, { status: 400 });
+  }
+
+  const publicUrl = ensureHttps(getEnvVar(context, 'VITE_PUBLIC_URL') || new URL(request.url).origin);
+
+  try {
+    const authorizationUrl = await MCPService.getInstance().startAuthorization(
+      serverName,
+      `${publicUrl}/api/oauth/proxy/callback`,
+    );
+
+    return redirect(authorizationUrl);
+  } catch (error) {
+    logger.error(`Failed to start authorization for MCP server ${serverName}:`, error);
+    return Response.json(
+      { error: `Could not start authorization: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 502 },
+    );
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  const { serverName } = (await request.json()) as { serverName?: string };
+
+  if (!serverName) {
+    return Response.json({ error: 'serverName is required' }, { status: 400 });
+  }
+
+  try {
+    const serverTools = await MCPService.getInstance().signOut(serverName);
+
+    return Response.json(serverTools);
+  } catch (error) {
+    logger.error(`Failed to sign out of MCP server ${serverName}:`, error);
+    return Response.json({ error: 'Failed to sign out of MCP server' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPService } from '~/lib/services/mcpService';
+
+const logger = createScopedLogger('api.mcp-prompt');
+
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    const {
+      serverName,
+      name,
+      arguments: args,
+    } = (await request.json()) as { serverName?: string; name?: string; arguments?: Record<string, string> };
+
+    if (!serverName || !name) {
+      return Response.json({ error: 'serverName and name are required' }, { status: 400 });
+    }
+
+    const mcpService = MCPService.getInstance();
+    const text = await mcpService.getPrompt(serverName, name, args);
+
+    return Response.json({ text });
+  } catch (error) {
+    logger.error('Error getting MCP prompt:', error);
+    return Response.json({ error: (error as Error).message || 'Failed to get MCP prompt' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { BUNDLED_REGISTRY, mergeRegistries, type MCPRegistry } from '~/lib/services/mcp-registry';
+
+const logger = createScopedLogger('api.mcp-registry');
+
+/**
+ * Get environment variable from Cloudflare context or process.env
+ */
+function getEnvVar(context: any, key: string): string | undefined {
+  return context?.cloudflare?.env?.[key] || (typeof process !== 'undefined' ? process.env[key] : undefined);
+}
+
+export async function loader({ context }: LoaderFunctionArgs) {
+  const registryUrl = getEnvVar(context, 'MCP_REGISTRY_URL');
+  let extraRegistry: MCPRegistry | null = null;
+
+  if (registryUrl) {
+    try {
+      const response = await fetch(registryUrl);
+
+      if (!response.ok) {
+        throw new Error(`Registry responded with ${response.status}`);
+      }
+
+      const data = (await response.json()) as MCPRegistry;
+
+      if (!Array.isArray(data?.servers)) {
+        throw new Error('Registry has no "servers" list');
+      }
+
+      extraRegistry = data;
+    } catch (error) {
+      // The bundled registry is still usable
+      logger.error(`Failed to load MCP registry from ${registryUrl}:`, error);
+    }
+  }
+
+  return Response.json(mergeRegistries(BUNDLED_REGISTRY, extraRegistry));
+}
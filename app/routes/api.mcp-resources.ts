@@ -0,0 +1,35 @@
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPService } from '~/lib/services/mcpService';
+
+const logger = createScopedLogger('api.mcp-resources');
+
+export async function loader() {
+  try {
+    const mcpService = MCPService.getInstance();
+    const catalogs = await mcpService.listResourcesAndPrompts();
+
+    return Response.json(catalogs);
+  } catch (error) {
+    logger.error('Error listing MCP resources and prompts:', error);
+    return Response.json({ error: 'Failed to list MCP resources and prompts' }, { status: 500 });
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    const { serverName, uri } = (await request.json()) as { serverName?: string; uri?: string };
+
+    if (!serverName || !uri) {
+      return Response.json({ error: 'serverName and uri are required' }, { status: 400 });
+    }
+
+    const mcpService = MCPService.getInstance();
+    const contents = await mcpService.readResource(serverName, uri);
+
+    return Response.json({ contents });
+  } catch (error) {
+    logger.error('Error reading MCP resource:', error);
+    return Response.json({ error: (error as Error).message || 'Failed to read MCP resource' }, { status: 500 });
+  }
+}
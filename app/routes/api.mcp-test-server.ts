@@ -0,0 +1,42 @@
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPService, validateServerConfig } from '~/lib/services/mcpService';
+
+const logger = createScopedLogger('api.mcp-test-server');
+
+/**
+ * Validate a server config and, unless validateOnly is set, connect to it and list its tools
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const { serverName, config, validateOnly } = (await request.json()) as {
+    serverName?: string;
+    config?: unknown;
+    validateOnly?: boolean;
+  };
+
+  if (!serverName?.trim()) {
+    return Response.json({ error: 'Server name is required', issues: [] }, { status: 400 });
+  }
+
+  const validation = validateServerConfig(config);
+
+  if (!validation.success) {
+    return Response.json({ error: 'Invalid server configuration', issues: validation.issues }, { status: 400 });
+  }
+
+  if (validateOnly) {
+    return Response.json({ config: validation.config });
+  }
+
+  try {
+    const tools = await MCPService.getInstance().testServerConfig(serverName, validation.config);
+
+    return Response.json({ config: validation.config, tools });
+  } catch (error) {
+    logger.error(`Failed to connect to MCP server ${serverName}:`, error);
+    return Response.json(
+      { error: `Could not connect: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 502 },
+    );
+  }
+}
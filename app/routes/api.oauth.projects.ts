@@ -2,30 +2,110 @@
  * OAuth Projects Admin Endpoint
  *
  * Lists all active projects with their OAuth status.
- * Useful for debugging and administration.
+ * Useful for debugging and administration. Never returns secrets or key material.
  *
  * GET /api/oauth/projects
  *
- * Note: In a production environment, this should be protected with authentication.
+ * POST /api/oauth/projects
+ * Body: { "action": "rotate-keys" }
+ * Re-wraps every project's data key with the current master key
+ * (PROJECT_STORE_ENCRYPTION_KEY). Keep the old key in PROJECT_STORE_PREVIOUS_KEYS
+ * until this reports no failures.
+ *
+ * Both require the admin login when authentication is enabled.
+ */
+
+import { type ActionFunctionArgs, type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
+import {
+  configureProjectStore,
+  getProjectStoreInfo,
+  listProjects,
+  rotateProjectKeys,
+} from '~/lib/services/project-store';
+import { isAdminRequest, isAuthEnabled } from '~/lib/auth.server';
+
+/**
+ * A 401 response unless the request comes from the admin (when auth is enabled)
  */
+async function requireAdmin(request: Request, context: unknown): Promise<Response | null> {
+  const cloudflareEnv = (context as any)?.cloudflare?.env as Record<string, string> | undefined;
 
-import { type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
-import { listProjects } from '~/lib/services/project-store';
+  if (isAuthEnabled(cloudflareEnv) && !(await isAdminRequest(request, cloudflareEnv))) {
+    return json({ success: false, error: 'Unauthorized: admin login required' }, { status: 401 });
+  }
 
-export async function loader(_args: LoaderFunctionArgs) {
-  const projects = listProjects();
+  return null;
+}
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const unauthorized = await requireAdmin(request, context);
+
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  configureProjectStore(context.cloudflare?.env);
+
+  const [projects, store] = await Promise.all([listProjects(), getProjectStoreInfo()]);
 
   return json({
     success: true,
     count: projects.length,
+    store,
     projects: projects.map((p) => ({
       projectId: p.projectId,
       appId: p.appId,
       appName: p.appName,
       clientId: p.clientId.substring(0, 8) + '...', // Partial client ID for security
       createdAt: new Date(p.createdAt).toISOString(),
+      expiresAt: p.expiresAt ? new Date(p.expiresAt).toISOString() : null,
+      keyId: p.keyId,
+      needsKeyRotation: p.keyId !== store.currentKeyId,
       hasTokens: p.hasTokens,
+      hasRefreshToken: p.tokenStatus.hasRefreshToken,
+      accessTokenExpiresAt: p.tokenStatus.accessTokenExpiresAt
+        ? new Date(p.tokenStatus.accessTokenExpiresAt).toISOString()
+        : null,
+      lastRefreshedAt: p.tokenStatus.lastRefreshedAt ? new Date(p.tokenStatus.lastRefreshedAt).toISOString() : null,
+      refreshCount: p.tokenStatus.refreshCount,
     })),
-    note: 'To retrieve tokens for a project, use GET /api/oauth/tokens/{projectId}',
+    note: 'To retrieve tokens for a project, use GET /api/oauth/tokens/{projectId}. To renew them, use POST /api/oauth/tokens/{projectId}/refresh',
+  });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const unauthorized = await requireAdmin(request, context);
+
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  configureProjectStore(context.cloudflare?.env);
+
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  let body: { action?: string };
+
+  try {
+    body = (await request.json()) as { action?: string };
+  } catch {
+    return json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (body.action !== 'rotate-keys') {
+    return json({ success: false, error: `Unknown action: ${body.action}` }, { status: 400 });
+  }
+
+  const result = await rotateProjectKeys();
+
+  return json({
+    success: result.failed.length === 0,
+    ...result,
+    message:
+      result.failed.length === 0
+        ? 'All projects use the current master key. Previous keys can be removed.'
+        : 'Some projects could not be re-wrapped. Check that their master keys are listed in PROJECT_STORE_PREVIOUS_KEYS.',
   });
 }
@@ -16,7 +16,12 @@
  */
 
 import { type LoaderFunctionArgs } from '@remix-run/cloudflare';
-import { getProjectCredentials, storeProjectTokens, getProjectRedirectUri } from '~/lib/services/project-store';
+import {
+  configureProjectStore,
+  getProjectCredentials,
+  storeProjectTokens,
+  getProjectRedirectUri,
+} from '~/lib/services/project-store';
 
 /**
  * Helper to get environment variables from context
@@ -96,6 +101,8 @@ export async function loader({ request, context, params }: LoaderFunctionArgs) {
   const error = url.searchParams.get('error');
   const errorDescription = url.searchParams.get('error_description');
 
+  configureProjectStore(context.cloudflare?.env);
+
   console.log(`[ProjectCallback] Received callback for project: ${projectId}`);
 
   // Handle OAuth errors from Zoom
@@ -20,6 +20,9 @@ import {
   storeOAuthTokens,
   deleteOAuthSession,
 } from '~/lib/services/oauth-proxy';
+import { getOAuthProviderEnvKeys } from '~/lib/services/oauth-providers';
+import { isMCPOAuthSession } from '~/lib/services/mcp-oauth';
+import { MCPService } from '~/lib/services/mcpService';
 
 function getEnvVar(context: any, key: string): string {
   return (context.cloudflare?.env as any)?.[key] || process.env[key] || '';
@@ -101,20 +104,9 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   }
 
   // Get environment variables
-  const env = {
-    ZOOM_OAUTH_CLIENT_ID: getEnvVar(context, 'ZOOM_OAUTH_CLIENT_ID'),
-    ZOOM_CLIENT_ID: getEnvVar(context, 'ZOOM_CLIENT_ID'),
-    ZOOM_OAUTH_CLIENT_SECRET: getEnvVar(context, 'ZOOM_OAUTH_CLIENT_SECRET'),
-    ZOOM_CLIENT_SECRET: getEnvVar(context, 'ZOOM_CLIENT_SECRET'),
-    GITHUB_OAUTH_CLIENT_ID: getEnvVar(context, 'GITHUB_OAUTH_CLIENT_ID'),
-    GITHUB_OAUTH_CLIENT_SECRET: getEnvVar(context, 'GITHUB_OAUTH_CLIENT_SECRET'),
-    GITLAB_OAUTH_CLIENT_ID: getEnvVar(context, 'GITLAB_OAUTH_CLIENT_ID'),
-    GITLAB_OAUTH_CLIENT_SECRET: getEnvVar(context, 'GITLAB_OAUTH_CLIENT_SECRET'),
-    GOOGLE_OAUTH_CLIENT_ID: getEnvVar(context, 'GOOGLE_OAUTH_CLIENT_ID'),
-    GOOGLE_OAUTH_CLIENT_SECRET: getEnvVar(context, 'GOOGLE_OAUTH_CLIENT_SECRET'),
-    VITE_GITLAB_URL: getEnvVar(context, 'VITE_GITLAB_URL'),
-    VITE_PUBLIC_URL: getEnvVar(context, 'VITE_PUBLIC_URL'),
-  };
+  const env: Record<string, string> = Object.fromEntries(
+    [...getOAuthProviderEnvKeys(), 'VITE_PUBLIC_URL'].map((key) => [key, getEnvVar(context, key)]),
+  );
 
   // Get public URL for redirect (ensure HTTPS for OAuth providers)
   const rawPublicUrl = env.VITE_PUBLIC_URL || new URL(request.url).origin;
@@ -201,6 +193,23 @@ Try using the OAuth URL from your project's .env file instead of Marketplace's A
     return renderErrorPage('invalid_state', 'OAuth session expired or invalid. Please try again.');
   }
 
+  // MCP server sessions keep their tokens on the server, so none are posted to the opener
+  if (isMCPOAuthSession(session)) {
+    try {
+      await MCPService.getInstance().completeAuthorization(session, code);
+      deleteOAuthSession(session.id);
+
+      return renderSuccessPage(session.provider, session.id, undefined);
+    } catch (err) {
+      console.error('MCP authorization error:', err);
+
+      return renderErrorPage(
+        'token_exchange_failed',
+        err instanceof Error ? err.message : 'Failed to exchange authorization code for tokens',
+      );
+    }
+  }
+
   try {
     let tokens;
 
@@ -212,14 +221,14 @@ Try using the OAuth URL from your project's .env file instead of Marketplace's A
       tokens = await exchangeCodeForTokensWithDynamicCredentials(session, code, publicUrl);
     } else {
       // Get provider configuration from environment
-      const config = getOAuthProviderConfig(session.provider, env);
+      const config = await getOAuthProviderConfig(session.provider, env);
 
       if (!config) {
         return renderErrorPage('invalid_provider', `Unknown provider: ${session.provider}`);
       }
 
       // Exchange code using environment credentials
-      tokens = await exchangeCodeForTokens(config, code, session.redirectUri);
+      tokens = await exchangeCodeForTokens(config, code, session.redirectUri, session.codeVerifier);
     }
 
     // Store tokens
@@ -240,19 +249,50 @@ Try using the OAuth URL from your project's .env file instead of Marketplace's A
   }
 }
 
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * JSON for an inline script; `<` is escaped so a value cannot close the script element
+ */
+function toScriptValue(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
 function renderSuccessPage(
   provider: string,
   sessionId: string,
   webcontainerId: string | undefined,
-  tokens: { access_token: string; refresh_token?: string; token_type: string; expires_in?: number; scope?: string },
+  tokens?: { access_token: string; refresh_token?: string; token_type: string; expires_in?: number; scope?: string },
 ): Response {
+  const message = {
+    type: 'oauth-response',
+    success: true,
+    provider,
+    sessionId,
+    webcontainerId: webcontainerId || null,
+    tokens: tokens
+      ? {
+          access_token: tokens.access_token,
+          token_type: tokens.token_type,
+          expires_in: tokens.expires_in || null,
+          scope: tokens.scope || null,
+        }
+      : null,
+  };
   const html = `
 <!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>OAuth Success - ${provider}</title>
+  <title>OAuth Success - ${escapeHTML(provider)}</title>
   <style>
     * { margin: 0; padding: 0; box-sizing: border-box; }
     body {
@@ -306,24 +346,12 @@ function renderSuccessPage(
       </svg>
     </div>
     <h1>Authorization Successful!</h1>
-    <p>You have successfully authorized with <span class="provider">${provider}</span></p>
+    <p>You have successfully authorized with <span class="provider">${escapeHTML(provider)}</span></p>
     <p class="closing">This window will close automatically...</p>
   </div>
   <script>
     (function() {
-      const message = {
-        type: 'oauth-response',
-        success: true,
-        provider: '${provider}',
-        sessionId: '${sessionId}',
-        webcontainerId: ${webcontainerId ? `'${webcontainerId}'` : 'null'},
-        tokens: {
-          access_token: '${tokens.access_token}',
-          token_type: '${tokens.token_type}',
-          expires_in: ${tokens.expires_in || 'null'},
-          scope: ${tokens.scope ? `'${tokens.scope}'` : 'null'}
-        }
-      };
+      const message = ${toScriptValue(message)};
 
       // Try posting to opener (popup flow)
       if (window.opener) {
@@ -354,6 +382,7 @@ function renderSuccessPage(
 }
 
 function renderErrorPage(error: string, description: string): Response {
+  const message = { type: 'oauth-response', success: false, error, errorDescription: description };
   const html = `
 <!DOCTYPE html>
 <html lang="en">
@@ -426,18 +455,13 @@ function renderErrorPage(error: string, description: string): Response {
       </svg>
     </div>
     <h1>Authorization Failed</h1>
-    <p>Error: <span class="error-code">${error}</span></p>
-    <div class="description">${description}</div>
+    <p>Error: <span class="error-code">${escapeHTML(error)}</span></p>
+    <div class="description">${escapeHTML(description)}</div>
     <button class="close-btn" onclick="window.close()">Close Window</button>
   </div>
   <script>
     (function() {
-      const message = {
-        type: 'oauth-response',
-        success: false,
-        error: '${error}',
-        errorDescription: '${description.replace(/'/g, "\\'")}'
-      };
+      const message = ${toScriptValue(message)};
 
       if (window.opener) {
         window.opener.postMessage(message, '*');
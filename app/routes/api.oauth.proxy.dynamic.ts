@@ -32,11 +32,31 @@ import {
   buildDynamicAuthorizationUrl,
   getSupportedProviders,
 } from '~/lib/services/oauth-proxy';
+import { getOAuthProviderDefinition, getOAuthProviderEnvKeys } from '~/lib/services/oauth-providers';
 
 function getEnvVar(context: any, key: string): string {
   return (context.cloudflare?.env as any)?.[key] || process.env[key] || '';
 }
 
+/**
+ * Default scopes for newly created apps
+ * Zoom apps default to in-meeting scopes; other providers use the registry defaults.
+ */
+function getDefaultScopes(provider: string): string[] {
+  if (provider.toLowerCase() === 'zoom') {
+    return ['meeting:read:meeting', 'zoomapp:inmeeting'];
+  }
+
+  return getOAuthProviderDefinition(provider)?.defaultScopes || [];
+}
+
+/**
+ * Env values used to fill provider URL parameters (e.g. Microsoft tenant, OIDC issuer)
+ */
+function getProviderEnv(context: any): Record<string, string> {
+  return Object.fromEntries(getOAuthProviderEnvKeys().map((key) => [key, getEnvVar(context, key)]));
+}
+
 interface DynamicOAuthRequest {
   provider: string;
   clientId: string;
@@ -112,14 +132,8 @@ export async function action({ request, context }: ActionFunctionArgs) {
     const publicUrl = getEnvVar(context, 'VITE_PUBLIC_URL') || new URL(request.url).origin;
 
     // Default scopes based on provider
-    const defaultScopes: Record<string, string[]> = {
-      zoom: ['meeting:read:meeting', 'zoomapp:inmeeting'],
-      github: ['repo', 'user'],
-      gitlab: ['api', 'read_user', 'read_repository'],
-      google: ['openid', 'email', 'profile'],
-    };
 
-    const finalScopes = scopes && scopes.length > 0 ? scopes : defaultScopes[provider.toLowerCase()] || [];
+    const finalScopes = scopes && scopes.length > 0 ? scopes : getDefaultScopes(provider);
 
     // Create session with dynamic credentials
     const session = await createDynamicOAuthSession(
@@ -133,6 +147,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
         appName,
       },
       webcontainerId,
+      getProviderEnv(context),
     );
 
     // Build authorization URL
@@ -199,7 +214,11 @@ export async function loader({ request, context }: ActionFunctionArgs) {
         POST: 'Send JSON body with same fields',
       },
       requestSchema: {
-        provider: { type: 'string', required: true, description: 'OAuth provider (zoom, github, gitlab, google)' },
+        provider: {
+          type: 'string',
+          required: true,
+          description: `OAuth provider (${getSupportedProviders().join(', ')})`,
+        },
         clientId: { type: 'string', required: true, description: 'OAuth client ID' },
         clientSecret: { type: 'string', required: true, description: 'OAuth client secret' },
         scopes: { type: 'string or comma-separated string', required: false, description: 'OAuth scopes' },
@@ -239,16 +258,8 @@ export async function loader({ request, context }: ActionFunctionArgs) {
   const publicUrl = getEnvVar(context, 'VITE_PUBLIC_URL') || url.origin;
 
   // Parse scopes (comma-separated string or default)
-  const defaultScopes: Record<string, string[]> = {
-    zoom: ['meeting:read:meeting', 'zoomapp:inmeeting'],
-    github: ['repo', 'user'],
-    gitlab: ['api', 'read_user', 'read_repository'],
-    google: ['openid', 'email', 'profile'],
-  };
 
-  const scopes = scopesParam
-    ? scopesParam.split(',').map((s) => s.trim())
-    : defaultScopes[provider.toLowerCase()] || [];
+  const scopes = scopesParam ? scopesParam.split(',').map((s) => s.trim()) : getDefaultScopes(provider);
 
   try {
     // Create session with dynamic credentials
@@ -263,6 +274,7 @@ export async function loader({ request, context }: ActionFunctionArgs) {
         appName,
       },
       webcontainerId,
+      getProviderEnv(context),
     );
 
     // Build authorization URL
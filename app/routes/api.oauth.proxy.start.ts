@@ -6,6 +6,8 @@
  *
  * Usage:
  * GET /api/oauth/proxy/start?provider=zoom&scopes=meeting:read,meeting:write&webcontainerId=xxx
+ *
+ * Supported providers are defined in ~/lib/services/oauth-providers.ts.
  */
 
 import { type LoaderFunctionArgs, redirect } from '@remix-run/cloudflare';
@@ -15,6 +17,7 @@ import {
   buildAuthorizationUrl,
   getSupportedProviders,
 } from '~/lib/services/oauth-proxy';
+import { getOAuthProviderEnvKeys } from '~/lib/services/oauth-providers';
 
 function getEnvVar(context: any, key: string): string {
   return (context.cloudflare?.env as any)?.[key] || process.env[key] || '';
@@ -41,23 +44,26 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   }
 
   // Get environment variables
-  const env = {
-    ZOOM_OAUTH_CLIENT_ID: getEnvVar(context, 'ZOOM_OAUTH_CLIENT_ID'),
-    ZOOM_CLIENT_ID: getEnvVar(context, 'ZOOM_CLIENT_ID'),
-    ZOOM_OAUTH_CLIENT_SECRET: getEnvVar(context, 'ZOOM_OAUTH_CLIENT_SECRET'),
-    ZOOM_CLIENT_SECRET: getEnvVar(context, 'ZOOM_CLIENT_SECRET'),
-    GITHUB_OAUTH_CLIENT_ID: getEnvVar(context, 'GITHUB_OAUTH_CLIENT_ID'),
-    GITHUB_OAUTH_CLIENT_SECRET: getEnvVar(context, 'GITHUB_OAUTH_CLIENT_SECRET'),
-    GITLAB_OAUTH_CLIENT_ID: getEnvVar(context, 'GITLAB_OAUTH_CLIENT_ID'),
-    GITLAB_OAUTH_CLIENT_SECRET: getEnvVar(context, 'GITLAB_OAUTH_CLIENT_SECRET'),
-    GOOGLE_OAUTH_CLIENT_ID: getEnvVar(context, 'GOOGLE_OAUTH_CLIENT_ID'),
-    GOOGLE_OAUTH_CLIENT_SECRET: getEnvVar(context, 'GOOGLE_OAUTH_CLIENT_SECRET'),
-    VITE_GITLAB_URL: getEnvVar(context, 'VITE_GITLAB_URL'),
-    VITE_PUBLIC_URL: getEnvVar(context, 'VITE_PUBLIC_URL'),
-  };
+  const env: Record<string, string> = Object.fromEntries(
+    [...getOAuthProviderEnvKeys(), 'VITE_PUBLIC_URL'].map((key) => [key, getEnvVar(context, key)]),
+  );
 
   // Get provider configuration
-  const config = getOAuthProviderConfig(provider, env);
+  let config;
+
+  try {
+    config = await getOAuthProviderConfig(provider, env);
+  } catch (error) {
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : `Failed to configure provider: ${provider}`,
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  }
 
   if (!config) {
     return new Response(
@@ -93,7 +99,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   const publicUrl = env.VITE_PUBLIC_URL || new URL(request.url).origin;
 
   // Create OAuth session
-  const session = await createOAuthSession(provider, scopes, publicUrl, webcontainerId);
+  const session = await createOAuthSession(provider.toLowerCase(), scopes, publicUrl, webcontainerId);
 
   // Build authorization URL
   const authorizationUrl = buildAuthorizationUrl(config, session, publicUrl);
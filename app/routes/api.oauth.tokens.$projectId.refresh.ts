@@ -0,0 +1,185 @@
+/**
+ * OAuth Token Refresh Endpoint
+ *
+ * Renews a project's Zoom access token server-side using the stored refresh token
+ * and the project's credentials, so the client secret never leaves the server.
+ *
+ * POST /api/oauth/tokens/:projectId/refresh
+ *
+ * Body:
+ * - { refresh_token } - The refresh token the app currently holds. New tokens are
+ *   returned directly. Must match the latest refresh token (Zoom rotates them).
+ * - {} - Refresh without presenting a token, only for the logged-in admin (e.g. from
+ *   the Zoom settings tab). New tokens are stored for one-time pickup via
+ *   GET /api/oauth/tokens/:projectId.
+ *
+ * Every refresh rotates the app's refresh token, and the project ID is part of the
+ * public callback URL, so anonymous callers must prove they hold the current token.
+ *
+ * Response:
+ * - 200 { success: true, tokens: {...} } - Refreshed, tokens returned to the app
+ * - 200 { success: true, pickup: true } - Refreshed, tokens stored for pickup
+ * - 400 { success: false, error: '...' } - No refresh token available
+ * - 401 { success: false, error: 'refresh_token_required' } - Anonymous refresh without a token
+ * - 404 { success: false, error: '...' } - Project not found
+ * - 409 { success: false, error: 'refresh_token_rotated' } - Presented token is stale
+ * - 502 { success: false, error: '...' } - Zoom rejected the refresh
+ */
+
+import { type ActionFunctionArgs, json } from '@remix-run/cloudflare';
+import { isAdminRequest } from '~/lib/auth.server';
+import { exchangeRefreshToken } from '~/lib/services/oauth-proxy';
+import {
+  configureProjectStore,
+  getProjectCredentials,
+  getProjectRefreshToken,
+  getProjectTokenStatus,
+  recordProjectRefreshState,
+  storeProjectTokens,
+} from '~/lib/services/project-store';
+import { timingSafeEqual } from '~/lib/services/zoom-webhook-verification';
+
+const ZOOM_TOKEN_URL = 'https://zoom.us/oauth/token';
+
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  const { projectId } = params;
+
+  configureProjectStore(context.cloudflare?.env);
+
+  if (request.method.toUpperCase() !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  // Validate projectId
+  if (!projectId) {
+    return json({ success: false, error: 'Missing project ID' }, { status: 400 });
+  }
+
+  const credentials = await getProjectCredentials(projectId);
+
+  if (!credentials) {
+    return json(
+      {
+        success: false,
+        error: 'Project not found or expired',
+        hint: 'The project may have expired. Please recreate the Zoom App.',
+      },
+      { status: 404 },
+    );
+  }
+
+  let presentedToken: string | undefined;
+
+  if (request.headers.get('content-type')?.includes('application/json')) {
+    try {
+      const body = (await request.json()) as { refresh_token?: string };
+      presentedToken = body.refresh_token || undefined;
+    } catch {
+      // Empty or invalid body, treat as a refresh without a presented token
+    }
+  }
+
+  if (!presentedToken && !(await isAdminRequest(request, (context as any)?.cloudflare?.env))) {
+    return json(
+      {
+        success: false,
+        error: 'refresh_token_required',
+        message: 'Present the refresh token the app currently holds.',
+        hint: 'Send { "refresh_token": "..." } as JSON, or log in as admin to refresh for pickup.',
+      },
+      { status: 401 },
+    );
+  }
+
+  const storedToken = await getProjectRefreshToken(projectId);
+
+  if (!storedToken) {
+    return json(
+      {
+        success: false,
+        error: 'No refresh token available',
+        hint: 'Authorize the app again in Zoom Marketplace to obtain a refresh token.',
+      },
+      { status: 400 },
+    );
+  }
+
+  /*
+   * Zoom invalidates a refresh token once it has been used. If the app presents an
+   * older token than the one we hold, another refresh already happened and the app
+   * should pick up the rotated tokens instead.
+   */
+  if (presentedToken && !timingSafeEqual(presentedToken, storedToken)) {
+    return json(
+      {
+        success: false,
+        error: 'refresh_token_rotated',
+        message: 'This refresh token has been rotated.',
+        hint: `Retrieve the latest tokens from GET /api/oauth/tokens/${projectId}`,
+        tokenStatus: await getProjectTokenStatus(projectId),
+      },
+      { status: 409 },
+    );
+  }
+
+  let tokens;
+
+  try {
+    tokens = await exchangeRefreshToken(
+      {
+        name: 'zoom',
+        tokenUrl: ZOOM_TOKEN_URL,
+        clientId: credentials.clientId,
+        clientSecret: credentials.clientSecret,
+      },
+      storedToken,
+    );
+  } catch (error) {
+    console.error(`[TokenRefresh] Refresh failed for project ${projectId}:`, error);
+
+    return json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Token refresh failed',
+        hint: 'The refresh token may have expired or been revoked. Authorize the app again.',
+      },
+      { status: 502 },
+    );
+  }
+
+  console.log(`[TokenRefresh] Refreshed tokens for project: ${projectId}`);
+
+  const project = {
+    projectId,
+    appId: credentials.appId,
+    appName: credentials.appName,
+  };
+
+  // The caller proved it holds the refresh token, so hand the new tokens back directly
+  if (presentedToken) {
+    await recordProjectRefreshState(projectId, tokens, true);
+
+    return json({
+      success: true,
+      tokens: {
+        access_token: tokens.access_token,
+        refresh_token: tokens.refresh_token,
+        token_type: tokens.token_type,
+        expires_in: tokens.expires_in,
+        scope: tokens.scope,
+      },
+      project,
+      tokenStatus: await getProjectTokenStatus(projectId),
+    });
+  }
+
+  await storeProjectTokens(projectId, tokens, true);
+
+  return json({
+    success: true,
+    pickup: true,
+    message: `New tokens are ready for pickup at GET /api/oauth/tokens/${projectId}`,
+    project,
+    tokenStatus: await getProjectTokenStatus(projectId),
+  });
+}
@@ -13,7 +13,12 @@
  */
 
 import { type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
-import { getProjectCredentials, getAndClearProjectTokens, hasProjectTokens } from '~/lib/services/project-store';
+import {
+  configureProjectStore,
+  getProjectCredentials,
+  getAndClearProjectTokens,
+  hasProjectTokens,
+} from '~/lib/services/project-store';
 
 /**
  * GET /api/oauth/tokens/:projectId
@@ -21,9 +26,11 @@ import { getProjectCredentials, getAndClearProjectTokens, hasProjectTokens } fro
  * Poll for OAuth tokens. Returns tokens if available, or pending status.
  * Tokens are cleared after first successful retrieval (one-time read).
  */
-export async function loader({ params }: LoaderFunctionArgs) {
+export async function loader({ params, context }: LoaderFunctionArgs) {
   const { projectId } = params;
 
+  configureProjectStore(context.cloudflare?.env);
+
   // Validate projectId
   if (!projectId) {
     return json(
@@ -54,7 +61,7 @@ export async function loader({ params }: LoaderFunctionArgs) {
   }
 
   // Check if tokens are available (without retrieving)
-  if (!hasProjectTokens(projectId)) {
+  if (!(await hasProjectTokens(projectId))) {
     console.log(`[TokenEndpoint] No tokens yet for project: ${projectId}`);
 
     return json({
@@ -0,0 +1,66 @@
+/**
+ * Webhook Acknowledgement Endpoint
+ *
+ * Removes events delivered via /api/webhook/stream/{sessionId} from the queue.
+ * Events that are not acknowledged are redelivered.
+ *
+ * Usage:
+ * POST /api/webhook/ack/{sessionId}
+ * Body: { "eventIds": ["evt_...", "evt_..."] }
+ */
+
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { ackWebhooks, configureWebhookStorage, getQueueStatus } from '~/lib/services/webhook-proxy';
+
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  const sessionId = params.sessionId;
+
+  configureWebhookStorage(context.cloudflare?.env);
+
+  // Validate session ID
+  if (!sessionId) {
+    return new Response(JSON.stringify({ error: 'Missing session ID' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  let eventIds: unknown;
+
+  try {
+    const body = await request.json();
+    eventIds = (body as any).eventIds;
+  } catch {
+    // Handled by the validation below
+  }
+
+  if (!Array.isArray(eventIds) || !eventIds.every((id) => typeof id === 'string')) {
+    return new Response(JSON.stringify({ error: 'Body must be JSON with an eventIds string array' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const acked = await ackWebhooks(sessionId, eventIds);
+
+  if (acked === null) {
+    return new Response(JSON.stringify({ error: 'Invalid or expired session' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const status = await getQueueStatus(sessionId);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      acked,
+      queue: status,
+    }),
+    {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    },
+  );
+}
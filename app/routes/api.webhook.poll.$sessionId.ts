@@ -9,11 +9,13 @@
  */
 
 import { type LoaderFunctionArgs } from '@remix-run/cloudflare';
-import { pollWebhooks, getWebhookSession, getQueueStatus } from '~/lib/services/webhook-proxy';
+import { pollWebhooks, getWebhookSession, getQueueStatus, configureWebhookStorage } from '~/lib/services/webhook-proxy';
 
-export async function loader({ request, params }: LoaderFunctionArgs) {
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
   const sessionId = params.sessionId;
 
+  configureWebhookStorage(context.cloudflare?.env);
+
   // Validate session ID
   if (!sessionId) {
     return new Response(JSON.stringify({ error: 'Missing session ID' }), {
@@ -23,7 +25,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   }
 
   // Validate session exists
-  const session = getWebhookSession(sessionId);
+  const session = await getWebhookSession(sessionId);
 
   if (!session) {
     return new Response(JSON.stringify({ error: 'Invalid or expired session' }), {
@@ -38,13 +40,13 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   const limit = limitParam ? parseInt(limitParam, 10) : undefined;
 
   // Get queue status before polling
-  const statusBefore = getQueueStatus(sessionId);
+  const statusBefore = await getQueueStatus(sessionId);
 
   // Poll for webhooks (removes them from queue)
-  const events = pollWebhooks(sessionId, limit);
+  const events = await pollWebhooks(sessionId, limit);
 
   // Get queue status after polling
-  const statusAfter = getQueueStatus(sessionId);
+  const statusAfter = await getQueueStatus(sessionId);
 
   return new Response(
     JSON.stringify({
@@ -7,18 +7,35 @@
  * Usage:
  * Configure external service to send webhooks to:
  * https://your-domain.com/api/webhook/proxy/{sessionId}
+ *
+ * Zoom support (when the session has a secret token):
+ * - endpoint.url_validation challenges are answered directly and not queued
+ * - x-zm-signature is verified and the result recorded on the event
+ * - sessions with rejectUnsigned return 401 for events without a valid signature
  */
 
 import { type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
-import { addWebhookEvent, getWebhookSession } from '~/lib/services/webhook-proxy';
+import { addWebhookEvent, getWebhookSession, configureWebhookStorage } from '~/lib/services/webhook-proxy';
+import {
+  buildUrlValidationResponse,
+  parseUrlValidationChallenge,
+  verifyZoomSignature,
+  ZOOM_SIGNATURE_HEADER,
+  ZOOM_TIMESTAMP_HEADER,
+  type WebhookSignatureStatus,
+} from '~/lib/services/zoom-webhook-verification';
 
 // Handle GET requests (some webhooks use GET)
-export async function loader({ request, params }: LoaderFunctionArgs) {
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+  configureWebhookStorage(context.cloudflare?.env);
+
   return handleWebhook(request, params.sessionId, 'GET');
 }
 
 // Handle POST, PUT, DELETE, PATCH requests
-export async function action({ request, params }: ActionFunctionArgs) {
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  configureWebhookStorage(context.cloudflare?.env);
+
   return handleWebhook(request, params.sessionId, request.method);
 }
 
@@ -32,7 +49,7 @@ async function handleWebhook(request: Request, sessionId: string | undefined, me
   }
 
   // Validate session exists
-  const session = getWebhookSession(sessionId);
+  const session = await getWebhookSession(sessionId);
 
   if (!session) {
     return new Response(JSON.stringify({ error: 'Invalid or expired session' }), {
@@ -76,8 +93,36 @@ async function handleWebhook(request: Request, sessionId: string | undefined, me
     }
   }
 
+  let signatureStatus: WebhookSignatureStatus = 'unchecked';
+
+  if (session.secretToken) {
+    // Answer Zoom's URL validation challenge so it does not depend on the app polling in time
+    const plainToken = parseUrlValidationChallenge(body);
+
+    if (plainToken) {
+      return new Response(JSON.stringify(await buildUrlValidationResponse(session.secretToken, plainToken)), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    signatureStatus = await verifyZoomSignature(
+      session.secretToken,
+      body || '',
+      request.headers.get(ZOOM_SIGNATURE_HEADER),
+      request.headers.get(ZOOM_TIMESTAMP_HEADER),
+    );
+
+    if (signatureStatus !== 'valid' && session.rejectUnsigned) {
+      return new Response(JSON.stringify({ error: 'Invalid webhook signature', signatureStatus }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+  }
+
   // Add event to queue
-  const event = addWebhookEvent(sessionId, method, path, headers, query, body, contentType);
+  const event = await addWebhookEvent(sessionId, method, path, headers, query, body, contentType, signatureStatus);
 
   if (!event) {
     return new Response(JSON.stringify({ error: 'Failed to queue webhook' }), {
@@ -91,6 +136,7 @@ async function handleWebhook(request: Request, sessionId: string | undefined, me
     JSON.stringify({
       success: true,
       eventId: event.id,
+      signatureStatus,
       message: 'Webhook received and queued',
     }),
     {
@@ -0,0 +1,122 @@
+/**
+ * Webhook Replay Endpoint
+ *
+ * Injects a recorded or synthetic webhook into a session's queue, as if it had
+ * been received from Zoom. Used by the fixture library in the Zoom settings tab.
+ *
+ * Replayed events are never signed with the session's secret token, so they can
+ * not be mistaken for real Zoom deliveries: any recorded signature is dropped,
+ * the event is stored with signatureStatus 'replayed' and carries an
+ * `x-bolt-webhook-replay: true` header.
+ *
+ * Replaying requires the admin login or the session's current secret token
+ * (see webhook-session-auth.ts), like the other session management operations.
+ *
+ * Usage:
+ * POST /api/webhook/replay/{sessionId}
+ * Body: { "headers": { ... }, "body": "{...}", "method": "POST", "path": "/" }
+ */
+
+import { type ActionFunctionArgs } from '@remix-run/cloudflare';
+import { addWebhookEvent, configureWebhookStorage, getWebhookSession } from '~/lib/services/webhook-proxy';
+import { authorizeWebhookSessionAdmin } from '~/lib/services/webhook-session-auth';
+import { ZOOM_SIGNATURE_HEADER, ZOOM_TIMESTAMP_HEADER } from '~/lib/services/zoom-webhook-verification';
+
+const REPLAY_HEADER = 'x-bolt-webhook-replay';
+
+interface ReplayRequestBody {
+  headers?: Record<string, string>;
+  body?: string | null;
+  method?: string;
+  path?: string;
+}
+
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  const sessionId = params.sessionId;
+
+  configureWebhookStorage(context.cloudflare?.env);
+
+  // Validate session ID
+  if (!sessionId) {
+    return new Response(JSON.stringify({ error: 'Missing session ID' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const session = await getWebhookSession(sessionId);
+
+  if (!session) {
+    return new Response(JSON.stringify({ error: 'Invalid or expired session' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const unauthorized = await authorizeWebhookSessionAdmin(
+    request,
+    session,
+    (context as any)?.cloudflare?.env as Record<string, string> | undefined,
+  );
+
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  let replay: ReplayRequestBody;
+
+  try {
+    replay = (await request.json()) as ReplayRequestBody;
+  } catch {
+    return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const body = replay.body ?? null;
+
+  // Drop any recorded signature; replays must not look like signed Zoom deliveries
+  const headers: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(replay.headers || {})) {
+    const lowerKey = key.toLowerCase();
+
+    if (lowerKey !== ZOOM_SIGNATURE_HEADER && lowerKey !== ZOOM_TIMESTAMP_HEADER) {
+      headers[lowerKey] = value;
+    }
+  }
+
+  headers[REPLAY_HEADER] = 'true';
+
+  const event = await addWebhookEvent(
+    sessionId,
+    (replay.method || 'POST').toUpperCase(),
+    replay.path || '/',
+    headers,
+    {},
+    body,
+    headers['content-type'] || 'application/json',
+    'replayed',
+  );
+
+  if (!event) {
+    return new Response(JSON.stringify({ error: 'Failed to queue webhook' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      eventId: event.id,
+      signatureStatus: 'replayed',
+      message: 'Webhook replayed into session queue',
+    }),
+    {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    },
+  );
+}
@@ -6,10 +6,18 @@
  * Usage:
  * POST /api/webhook/session - Create a new session
  * GET /api/webhook/session?sessionId=xxx - Get session info
+ * PATCH /api/webhook/session?sessionId=xxx - Update secret token / signature policy
  * DELETE /api/webhook/session?sessionId=xxx - Delete session
+ *
+ * POST and PATCH accept an optional Zoom webhook `secretToken` and `rejectUnsigned` flag.
+ * The secret token is never returned; responses only include `hasSecretToken`.
+ *
+ * PATCH and DELETE require the admin login or the session's current secret token
+ * (see webhook-session-auth.ts); listing all sessions requires the admin login.
  */
 
 import { type ActionFunctionArgs, type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { isAdminRequest, isAuthEnabled } from '~/lib/auth.server';
 import {
   createWebhookSession,
   getWebhookSession,
@@ -17,32 +25,57 @@ import {
   getQueueStatus,
   buildWebhookUrl,
   getAllSessions,
+  configureWebhookStorage,
+  updateWebhookSession,
+  type WebhookSession,
 } from '~/lib/services/webhook-proxy';
+import { authorizeWebhookSessionAdmin } from '~/lib/services/webhook-session-auth';
 
 function getEnvVar(context: any, key: string): string {
   return (context.cloudflare?.env as any)?.[key] || process.env[key] || '';
 }
 
+/**
+ * Public view of a session (never exposes the secret token)
+ */
+function toSessionSummary(session: WebhookSession) {
+  return {
+    id: session.id,
+    createdAt: session.createdAt,
+    lastPollAt: session.lastPollAt,
+    webcontainerId: session.webcontainerId,
+    description: session.description,
+    hasSecretToken: Boolean(session.secretToken),
+    rejectUnsigned: Boolean(session.rejectUnsigned),
+  };
+}
+
 // GET - Get session info or list all sessions
 export async function loader({ request, context }: LoaderFunctionArgs) {
+  configureWebhookStorage(context.cloudflare?.env);
+
   const url = new URL(request.url);
   const sessionId = url.searchParams.get('sessionId');
   const listAll = url.searchParams.get('list') === 'true';
 
   // List all sessions (for admin/debugging)
   if (listAll) {
-    const sessions = getAllSessions();
+    // Session IDs grant access to the queues, so only the admin may enumerate them
+    const cloudflareEnv = (context as any)?.cloudflare?.env as Record<string, string> | undefined;
+
+    if (isAuthEnabled(cloudflareEnv) && !(await isAdminRequest(request, cloudflareEnv))) {
+      return new Response(JSON.stringify({ error: 'Unauthorized: admin login required' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const sessions = await getAllSessions();
 
     return new Response(
       JSON.stringify({
         success: true,
-        sessions: sessions.map((s) => ({
-          id: s.id,
-          createdAt: s.createdAt,
-          lastPollAt: s.lastPollAt,
-          webcontainerId: s.webcontainerId,
-          description: s.description,
-        })),
+        sessions: sessions.map(toSessionSummary),
         count: sessions.length,
       }),
       {
@@ -60,7 +93,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
     });
   }
 
-  const session = getWebhookSession(sessionId);
+  const session = await getWebhookSession(sessionId);
 
   if (!session) {
     return new Response(JSON.stringify({ error: 'Session not found or expired' }), {
@@ -69,18 +102,14 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
     });
   }
 
-  const queueStatus = getQueueStatus(sessionId);
+  const queueStatus = await getQueueStatus(sessionId);
   const publicUrl = getEnvVar(context, 'VITE_PUBLIC_URL') || new URL(request.url).origin;
 
   return new Response(
     JSON.stringify({
       success: true,
       session: {
-        id: session.id,
-        createdAt: session.createdAt,
-        lastPollAt: session.lastPollAt,
-        webcontainerId: session.webcontainerId,
-        description: session.description,
+        ...toSessionSummary(session),
         webhookUrl: buildWebhookUrl(publicUrl, session.id),
         queue: queueStatus,
       },
@@ -92,14 +121,18 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   );
 }
 
-// POST - Create new session, DELETE - Delete session
+// POST - Create new session, PATCH - Update session, DELETE - Delete session
 export async function action({ request, context }: ActionFunctionArgs) {
+  configureWebhookStorage(context.cloudflare?.env);
+
   const method = request.method.toUpperCase();
 
   if (method === 'POST') {
     return handleCreateSession(request, context);
+  } else if (method === 'PATCH') {
+    return handleUpdateSession(request, context);
   } else if (method === 'DELETE') {
-    return handleDeleteSession(request);
+    return handleDeleteSession(request, context);
   }
 
   return new Response(JSON.stringify({ error: 'Method not allowed' }), {
@@ -111,6 +144,8 @@ export async function action({ request, context }: ActionFunctionArgs) {
 async function handleCreateSession(request: Request, context: any): Promise<Response> {
   let webcontainerId: string | undefined;
   let description: string | undefined;
+  let secretToken: string | undefined;
+  let rejectUnsigned: boolean | undefined;
 
   // Parse request body if present
   const contentType = request.headers.get('content-type');
@@ -120,13 +155,15 @@ async function handleCreateSession(request: Request, context: any): Promise<Resp
       const body = await request.json();
       webcontainerId = (body as any).webcontainerId;
       description = (body as any).description;
+      secretToken = (body as any).secretToken;
+      rejectUnsigned = (body as any).rejectUnsigned;
     } catch {
       // Ignore parse errors, use defaults
     }
   }
 
   // Create session
-  const session = createWebhookSession(webcontainerId, description);
+  const session = await createWebhookSession({ webcontainerId, description, secretToken, rejectUnsigned });
 
   // Get public URL for webhook URL
   const publicUrl = getEnvVar(context, 'VITE_PUBLIC_URL') || new URL(request.url).origin;
@@ -139,8 +176,12 @@ async function handleCreateSession(request: Request, context: any): Promise<Resp
         createdAt: session.createdAt,
         webcontainerId: session.webcontainerId,
         description: session.description,
+        hasSecretToken: Boolean(session.secretToken),
+        rejectUnsigned: Boolean(session.rejectUnsigned),
         webhookUrl: buildWebhookUrl(publicUrl, session.id),
         pollUrl: `${publicUrl}/api/webhook/poll/${session.id}`,
+        streamUrl: `${publicUrl}/api/webhook/stream/${session.id}`,
+        ackUrl: `${publicUrl}/api/webhook/ack/${session.id}`,
       },
     }),
     {
@@ -150,9 +191,65 @@ async function handleCreateSession(request: Request, context: any): Promise<Resp
   );
 }
 
-async function handleDeleteSession(request: Request): Promise<Response> {
+async function handleUpdateSession(request: Request, context: any): Promise<Response> {
   const url = new URL(request.url);
-  const sessionId = url.searchParams.get('sessionId');
+  let body: Record<string, any> = {};
+
+  try {
+    body = (await request.json()) as Record<string, any>;
+  } catch {
+    return new Response(JSON.stringify({ error: 'Invalid JSON body' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const sessionId = url.searchParams.get('sessionId') || body.sessionId;
+
+  if (!sessionId) {
+    return new Response(JSON.stringify({ error: 'Missing sessionId' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const existing = await getWebhookSession(sessionId);
+
+  if (!existing) {
+    return new Response(JSON.stringify({ error: 'Session not found or expired' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const unauthorized = await authorizeWebhookSessionAdmin(request, existing, context.cloudflare?.env);
+
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const session = await updateWebhookSession(sessionId, {
+    description: body.description,
+    secretToken: body.secretToken,
+    rejectUnsigned: body.rejectUnsigned,
+  });
+
+  if (!session) {
+    return new Response(JSON.stringify({ error: 'Session not found or expired' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  return new Response(JSON.stringify({ success: true, session: toSessionSummary(session) }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function handleDeleteSession(request: Request, context: any): Promise<Response> {
+  const url = new URL(request.url);
+  let sessionId = url.searchParams.get('sessionId');
 
   if (!sessionId) {
     // Try to get from body
@@ -161,28 +258,31 @@ async function handleDeleteSession(request: Request): Promise<Response> {
     if (contentType?.includes('application/json')) {
       try {
         const body = await request.json();
-        const bodySessionId = (body as any).sessionId;
-
-        if (bodySessionId) {
-          deleteWebhookSession(bodySessionId);
-
-          return new Response(JSON.stringify({ success: true, message: 'Session deleted' }), {
-            status: 200,
-            headers: { 'Content-Type': 'application/json' },
-          });
-        }
+        sessionId = (body as any).sessionId || null;
       } catch {
         // Ignore parse errors
       }
     }
+  }
 
+  if (!sessionId) {
     return new Response(JSON.stringify({ error: 'Missing sessionId' }), {
       status: 400,
       headers: { 'Content-Type': 'application/json' },
     });
   }
 
-  deleteWebhookSession(sessionId);
+  const session = await getWebhookSession(sessionId);
+
+  if (session) {
+    const unauthorized = await authorizeWebhookSessionAdmin(request, session, context.cloudflare?.env);
+
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    await deleteWebhookSession(sessionId);
+  }
 
   return new Response(JSON.stringify({ success: true, message: 'Session deleted' }), {
     status: 200,
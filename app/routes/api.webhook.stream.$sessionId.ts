@@ -0,0 +1,172 @@
+/**
+ * Webhook Stream Endpoint
+ *
+ * Pushes queued webhooks to WebContainer apps as they arrive, instead of
+ * requiring the app to poll on a timer. Delivery is at-least-once: events stay
+ * queued until acknowledged via POST /api/webhook/ack/{sessionId}, and are
+ * redelivered if no ack arrives in time.
+ *
+ * Usage:
+ * GET /api/webhook/stream/{sessionId}                  - Server-Sent Events (default)
+ * GET /api/webhook/stream/{sessionId}?mode=longpoll    - Long-poll, returns JSON when events arrive
+ *
+ * SSE messages use `event: webhook`, `id: {eventId}` and the WebhookEvent as JSON data.
+ * Long-poll accepts `timeout` (seconds, max 55) and `limit`.
+ */
+
+import { type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import {
+  configureWebhookStorage,
+  getWebhookSession,
+  receiveWebhooks,
+  waitForWebhookEvent,
+  type WebhookEvent,
+} from '~/lib/services/webhook-proxy';
+
+// Re-check storage at least this often, so events queued by other instances are picked up
+const RECHECK_INTERVAL = 2000;
+
+// Keep-alive comment interval for SSE connections
+const HEARTBEAT_INTERVAL = 15000;
+
+// Close SSE connections after this long; EventSource reconnects automatically
+const MAX_STREAM_DURATION = 5 * 60 * 1000;
+
+const DEFAULT_LONGPOLL_TIMEOUT = 25;
+const MAX_LONGPOLL_TIMEOUT = 55;
+
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+  const sessionId = params.sessionId;
+
+  configureWebhookStorage(context.cloudflare?.env);
+
+  // Validate session ID
+  if (!sessionId) {
+    return new Response(JSON.stringify({ error: 'Missing session ID' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Validate session exists
+  const session = await getWebhookSession(sessionId);
+
+  if (!session) {
+    return new Response(JSON.stringify({ error: 'Invalid or expired session' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const url = new URL(request.url);
+  const limitParam = url.searchParams.get('limit');
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+  if (url.searchParams.get('mode') === 'longpoll') {
+    const timeoutParam = parseInt(url.searchParams.get('timeout') || '', 10);
+    const timeout = Math.min(
+      Number.isNaN(timeoutParam) ? DEFAULT_LONGPOLL_TIMEOUT : Math.max(0, timeoutParam),
+      MAX_LONGPOLL_TIMEOUT,
+    );
+
+    return handleLongPoll(request, sessionId, timeout * 1000, limit);
+  }
+
+  return handleStream(request, sessionId, limit);
+}
+
+async function handleLongPoll(
+  request: Request,
+  sessionId: string,
+  timeoutMs: number,
+  limit?: number,
+): Promise<Response> {
+  const deadline = Date.now() + timeoutMs;
+  let events = await receiveWebhooks(sessionId, limit);
+
+  while (events.length === 0 && Date.now() < deadline && !request.signal.aborted) {
+    await waitForWebhookEvent(sessionId, Math.min(RECHECK_INTERVAL, deadline - Date.now()), request.signal);
+    events = await receiveWebhooks(sessionId, limit);
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      events,
+      count: events.length,
+      ackUrl: `/api/webhook/ack/${sessionId}`,
+    }),
+    {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+      },
+    },
+  );
+}
+
+function handleStream(request: Request, sessionId: string, limit?: number): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const startedAt = Date.now();
+      let lastWriteAt = startedAt;
+
+      const write = (chunk: string) => {
+        controller.enqueue(encoder.encode(chunk));
+        lastWriteAt = Date.now();
+      };
+
+      const sendEvents = (events: WebhookEvent[]) => {
+        for (const event of events) {
+          write(`id: ${event.id}\nevent: webhook\ndata: ${JSON.stringify(event)}\n\n`);
+        }
+      };
+
+      try {
+        // Tell EventSource how long to wait before reconnecting
+        write('retry: 3000\n\n');
+
+        while (!request.signal.aborted && Date.now() - startedAt < MAX_STREAM_DURATION) {
+          const events = await receiveWebhooks(sessionId, limit);
+
+          if (events.length > 0) {
+            sendEvents(events);
+            continue;
+          }
+
+          // Stop if the session was deleted or expired while streaming
+          if (!(await getWebhookSession(sessionId))) {
+            write('event: session-expired\ndata: {}\n\n');
+            break;
+          }
+
+          if (Date.now() - lastWriteAt >= HEARTBEAT_INTERVAL) {
+            write(': heartbeat\n\n');
+          }
+
+          await waitForWebhookEvent(sessionId, RECHECK_INTERVAL, request.signal);
+        }
+      } catch (error) {
+        console.error(`[WebhookStream] Stream error for session ${sessionId}:`, error);
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      Connection: 'keep-alive',
+    },
+  });
+}
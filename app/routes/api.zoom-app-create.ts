@@ -34,6 +34,7 @@ import {
   ZOOM_APP_DEFAULTS,
   type ZoomCredentials,
 } from '~/lib/services/zoom-marketplace-api';
+import { configureProjectStore } from '~/lib/services/project-store';
 
 /**
  * Helper to get environment variables from context
@@ -57,6 +58,8 @@ export async function action({ request, context }: ActionFunctionArgs) {
     return json({ error: 'Method not allowed' }, { status: 405 });
   }
 
+  configureProjectStore(context.cloudflare?.env);
+
   try {
     // Parse request body
     const body = await request.json();
@@ -1,7 +1,9 @@
 /**
  * Zoom Marketplace API Route
  *
- * Provides endpoints for generating and validating Zoom Marketplace manifests.
+ * Provides endpoints for generating and validating Zoom Marketplace manifests,
+ * and for managing apps after creation (scopes, redirect URL, allow list,
+ * client secret, deletion) via the Marketplace API using Server-to-Server OAuth.
  */
 
 import { type ActionFunctionArgs, json } from '@remix-run/cloudflare';
@@ -11,11 +13,57 @@ import {
   getDefaultManifestConfig,
   manifestToJson,
   detectExposedSecrets,
+  parseManifestJson,
   ZOOM_OAUTH_CALLBACK_URL,
   ZOOM_WEBHOOK_PROXY_BASE,
   DEFAULT_ZOOM_SCOPES,
   type ZoomManifestConfig,
 } from '~/lib/services/zoom-marketplace';
+import {
+  checkZoomAppDrift,
+  deleteZoomApp,
+  getZoomApp,
+  getZoomAppManifest,
+  reconcileZoomAppDrift,
+  regenerateZoomAppSecret,
+  updateZoomAppOAuthSettings,
+  updateZoomAppScopes,
+  ZoomMarketplaceError,
+  type ZoomCredentials,
+} from '~/lib/services/zoom-marketplace-api';
+import { isAdminRequest, isAuthEnabled } from '~/lib/auth.server';
+import { configureProjectStore } from '~/lib/services/project-store';
+import type { ReconcileDirection } from '~/lib/services/zoom-manifest-drift';
+
+type MarketplaceAction =
+  | 'generate'
+  | 'validate'
+  | 'check-secrets'
+  | 'get-app'
+  | 'update-scopes'
+  | 'update-oauth'
+  | 'delete-app'
+  | 'regenerate-secret'
+  | 'check-drift'
+  | 'reconcile-drift';
+
+// Actions that call the Marketplace API for an existing app
+const APP_ACTIONS: MarketplaceAction[] = [
+  'get-app',
+  'update-scopes',
+  'update-oauth',
+  'delete-app',
+  'regenerate-secret',
+  'check-drift',
+  'reconcile-drift',
+];
+
+/**
+ * Helper to get environment variables from context
+ */
+function getEnvVar(context: any, key: string): string {
+  return (context.cloudflare?.env as any)?.[key] || process.env[key] || '';
+}
 
 /**
  * GET /api/zoom-marketplace
@@ -34,21 +82,73 @@ export async function loader() {
 
 /**
  * POST /api/zoom-marketplace
- * Generate or validate a manifest
+ * Generate or validate a manifest, or manage an existing app
+ *
+ * App actions take { action, appId } plus:
+ * - update-scopes: { scopes: string[] }
+ * - update-oauth: { redirectUri?: string, allowList?: string[] }
+ * - check-drift: { manifestJson?: string } (contents of public/manifest.json)
+ * - reconcile-drift: { manifestJson: string, direction: 'file-to-marketplace' | 'marketplace-to-file' }
  */
-export async function action({ request }: ActionFunctionArgs) {
+export async function action({ request, context }: ActionFunctionArgs) {
   try {
     const body = await request.json();
     const {
       action: actionType,
       config,
       code,
+      appId,
+      scopes,
+      redirectUri,
+      allowList,
+      manifestJson,
+      direction,
     } = body as {
-      action: 'generate' | 'validate' | 'check-secrets';
+      action: MarketplaceAction;
       config?: ZoomManifestConfig;
       code?: string;
+      appId?: string;
+      scopes?: string[];
+      redirectUri?: string;
+      allowList?: string[];
+      manifestJson?: string;
+      direction?: ReconcileDirection;
     };
 
+    let credentials: ZoomCredentials | undefined;
+
+    if (APP_ACTIONS.includes(actionType)) {
+      // These run with the server's S2S credentials, so only the admin may use them
+      const cloudflareEnv = (context as any)?.cloudflare?.env as Record<string, string> | undefined;
+
+      if (isAuthEnabled(cloudflareEnv) && !(await isAdminRequest(request, cloudflareEnv))) {
+        return json({ error: 'Unauthorized: admin login required', code: 'UNAUTHORIZED' }, { status: 401 });
+      }
+
+      if (!appId) {
+        return json({ error: 'appId is required', code: 'VALIDATION_ERROR' }, { status: 400 });
+      }
+
+      credentials = {
+        clientId: getEnvVar(context, 'ZOOM_CLIENT_ID'),
+        clientSecret: getEnvVar(context, 'ZOOM_CLIENT_SECRET'),
+        accountId: getEnvVar(context, 'ZOOM_ACCOUNT_ID'),
+      };
+
+      if (!credentials.clientId || !credentials.clientSecret || !credentials.accountId) {
+        return json(
+          {
+            error:
+              'Zoom S2S OAuth credentials not configured. Please set ZOOM_CLIENT_ID, ZOOM_CLIENT_SECRET, and ZOOM_ACCOUNT_ID environment variables.',
+            code: 'MISSING_CREDENTIALS',
+          },
+          { status: 500 },
+        );
+      }
+
+      configureProjectStore(context.cloudflare?.env);
+    }
+
     switch (actionType) {
       case 'generate': {
         if (!config) {
@@ -107,12 +207,129 @@ export async function action({ request }: ActionFunctionArgs) {
         });
       }
 
+      case 'get-app': {
+        const [app, manifest] = await Promise.all([
+          getZoomApp(credentials!, appId!),
+          getZoomAppManifest(credentials!, appId!),
+        ]);
+
+        return json({
+          success: true,
+          app,
+          scopes: manifest.oauth_information.scopes.map((s) => s.scope),
+          redirectUri: manifest.oauth_information.development_redirect_uri,
+          allowList: manifest.oauth_information.oauth_allow_list,
+        });
+      }
+
+      case 'update-scopes': {
+        if (!Array.isArray(scopes)) {
+          return json({ error: 'scopes must be an array', code: 'VALIDATION_ERROR' }, { status: 400 });
+        }
+
+        const updatedScopes = await updateZoomAppScopes(credentials!, appId!, scopes);
+
+        return json({ success: true, scopes: updatedScopes });
+      }
+
+      case 'update-oauth': {
+        if (!redirectUri && !allowList) {
+          return json({ error: 'redirectUri or allowList is required', code: 'VALIDATION_ERROR' }, { status: 400 });
+        }
+
+        const oauth = await updateZoomAppOAuthSettings(credentials!, appId!, { redirectUri, allowList });
+
+        return json({
+          success: true,
+          redirectUri: oauth.development_redirect_uri,
+          allowList: oauth.oauth_allow_list,
+        });
+      }
+
+      case 'delete-app': {
+        await deleteZoomApp(credentials!, appId!);
+
+        return json({ success: true });
+      }
+
+      case 'regenerate-secret': {
+        /*
+         * The new secret is stored in the project store for the OAuth proxy.
+         * Like app creation, only the public client ID is returned, unless the
+         * project vanished mid-rotation and this response is the only copy.
+         */
+        const result = await regenerateZoomAppSecret(credentials!, appId!);
+
+        if (!result.stored) {
+          return json({
+            success: true,
+            clientId: result.client_id,
+            clientSecret: result.client_secret,
+            warning: 'The project expired during rotation. Save this secret now; it will not be shown again.',
+          });
+        }
+
+        return json({ success: true, clientId: result.client_id });
+      }
+
+      case 'check-drift': {
+        const projectManifest = manifestJson ? parseManifestJson(manifestJson) : null;
+
+        if (manifestJson && !projectManifest) {
+          return json(
+            { error: 'manifest.json is not a valid Zoom manifest', code: 'VALIDATION_ERROR' },
+            { status: 400 },
+          );
+        }
+
+        const report = await checkZoomAppDrift(credentials!, appId!, projectManifest);
+
+        return json({ success: true, report });
+      }
+
+      case 'reconcile-drift': {
+        const projectManifest = manifestJson ? parseManifestJson(manifestJson) : null;
+
+        if (!projectManifest) {
+          return json({ error: 'A valid manifest.json is required', code: 'VALIDATION_ERROR' }, { status: 400 });
+        }
+
+        if (direction !== 'file-to-marketplace' && direction !== 'marketplace-to-file') {
+          return json(
+            { error: 'direction must be file-to-marketplace or marketplace-to-file', code: 'VALIDATION_ERROR' },
+            { status: 400 },
+          );
+        }
+
+        const result = await reconcileZoomAppDrift(credentials!, appId!, projectManifest, direction);
+
+        return json({
+          success: true,
+          report: result.report,
+          manifestJson: direction === 'marketplace-to-file' ? manifestToJson(result.projectManifest) : undefined,
+        });
+      }
+
       default:
-        return json({ error: 'Invalid action. Use: generate, validate, or check-secrets' }, { status: 400 });
+        return json(
+          {
+            error: `Invalid action. Use: generate, validate, check-secrets, ${APP_ACTIONS.join(', ')}`,
+          },
+          { status: 400 },
+        );
     }
   } catch (error) {
     console.error('Error in zoom-marketplace API:', error);
 
+    if (error instanceof ZoomMarketplaceError) {
+      const statusCode = error.statusCode || 500;
+
+      return json(
+        { error: error.message, code: error.code },
+        { status: statusCode >= 400 && statusCode < 600 ? statusCode : 500 },
+      );
+    }
+
     return json(
       {
         error: 'Internal server error',
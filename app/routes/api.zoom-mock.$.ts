@@ -0,0 +1,114 @@
+/**
+ * Mock Zoom REST API Route
+ *
+ * Forwards requests to the mock Zoom REST API served by the MCP Proxy sidecar
+ * (built from the zoom-api endpoint index). Generated apps running in the
+ * preview use it as their Zoom API base URL, so Zoom integrations can be
+ * developed and tested without network access or a real Zoom account.
+ *
+ * ALL  /api/zoom-mock/v2/*         - Mock Zoom REST API (Bearer token from /_mock/token)
+ * POST /api/zoom-mock/_mock/token  - Body: { scopes: string[] } -> { access_token, ... }
+ */
+
+import { json } from '@remix-run/cloudflare';
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/cloudflare';
+
+const DEFAULT_MCP_PROXY_URL = 'http://localhost:3100';
+
+// The preview runs on a different origin than bolt.diy
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Max-Age': '86400',
+};
+
+// Only the mock API is forwarded, never the other MCP proxy endpoints (spawn, execute, ...)
+const FORWARDED_PATH_PATTERN = /^(v2\/|_mock\/token$)/;
+
+/**
+ * Get environment variable from Cloudflare context or process.env
+ */
+function getEnvVar(context: any, key: string): string | undefined {
+  return context?.cloudflare?.env?.[key] || (typeof process !== 'undefined' ? process.env[key] : undefined);
+}
+
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  return handleMockRequest(request, params['*'], context);
+}
+
+export async function loader({ request, params, context }: LoaderFunctionArgs) {
+  return handleMockRequest(request, params['*'], context);
+}
+
+async function handleMockRequest(request: Request, path: string | undefined, context: unknown) {
+  if (request.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  if (!path) {
+    return json(
+      { code: 404, message: 'Use /api/zoom-mock/v2 as the Zoom API base URL' },
+      { status: 404, headers: CORS_HEADERS },
+    );
+  }
+
+  const proxyUrl = getEnvVar(context, 'MCP_PROXY_URL') || DEFAULT_MCP_PROXY_URL;
+  const targetUrl = getTargetUrl(proxyUrl, path, new URL(request.url).search);
+
+  if (!targetUrl) {
+    return json({ code: 404, message: 'Not found' }, { status: 404, headers: CORS_HEADERS });
+  }
+
+  const headers = new Headers();
+
+  for (const header of ['authorization', 'content-type']) {
+    if (request.headers.has(header)) {
+      headers.set(header, request.headers.get(header)!);
+    }
+  }
+
+  try {
+    const response = await fetch(targetUrl, {
+      method: request.method,
+      headers,
+      body: ['GET', 'HEAD'].includes(request.method) ? undefined : await request.text(),
+    });
+
+    const responseHeaders = new Headers(CORS_HEADERS);
+    const contentType = response.headers.get('content-type');
+
+    if (contentType) {
+      responseHeaders.set('Content-Type', contentType);
+    }
+
+    return new Response(response.status === 204 ? null : await response.text(), {
+      status: response.status,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    console.error('[ZoomMock] Failed to reach the MCP proxy:', error);
+
+    return json(
+      {
+        code: 503,
+        message: 'Mock Zoom API is not available. Check that the MCP proxy is running with the zoom-api package built.',
+      },
+      { status: 503, headers: CORS_HEADERS },
+    );
+  }
+}
+
+/**
+ * The mock API URL for a splat path, or null when the path would leave /zoom-mock/
+ */
+function getTargetUrl(proxyUrl: string, path: string, search: string): string | null {
+  if (!FORWARDED_PATH_PATTERN.test(path) || path.split(/[/\\]/).some((segment) => segment === '..')) {
+    return null;
+  }
+
+  const base = new URL(`${proxyUrl.replace(/\/+$/, '')}/zoom-mock/`).href;
+  const targetUrl = new URL(`${path}${search}`, base).href;
+
+  return targetUrl.startsWith(base) ? targetUrl : null;
+}
@@ -0,0 +1,81 @@
+/**
+ * Zoom Scope Analysis API Route
+ *
+ * Resolves Zoom REST calls found in project code to API endpoints and their
+ * required OAuth scopes, using the zoom-api MCP server (zoom_resolve_calls).
+ * The call extraction and the comparison with the manifest happen in the
+ * browser (see zoom-scope-analyzer.ts); this route only does the lookup.
+ *
+ * POST /api/zoom-scope-analysis
+ * Body: { calls: Array<{ method: string, path: string }> }
+ * Response: { success: true, resolved: ResolvedZoomCall[] }
+ */
+
+import { type ActionFunctionArgs, json } from '@remix-run/cloudflare';
+import { MCPService } from '~/lib/services/mcpService';
+import type { ResolvedZoomCall } from '~/lib/services/zoom-scope-analyzer';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('api.zoom-scope-analysis');
+
+const RESOLVE_TOOL = 'zoom_resolve_calls';
+const MAX_CALLS = 500;
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, { status: 405 });
+  }
+
+  let calls: Array<{ method: string; path: string }>;
+
+  try {
+    const body = (await request.json()) as { calls?: Array<{ method: string; path: string }> };
+    calls = Array.isArray(body.calls) ? body.calls : [];
+  } catch {
+    return json({ success: false, error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (calls.length === 0) {
+    return json({ success: true, resolved: [] });
+  }
+
+  if (calls.length > MAX_CALLS) {
+    return json({ success: false, error: `Too many calls (max ${MAX_CALLS})` }, { status: 400 });
+  }
+
+  const tool = MCPService.getInstance().tools[RESOLVE_TOOL];
+
+  if (!tool?.execute) {
+    return json(
+      {
+        success: false,
+        error: 'The zoom-api MCP server is not connected',
+        hint: 'Enable the zoom-api server in Settings > MCP and check that it is available',
+      },
+      { status: 503 },
+    );
+  }
+
+  try {
+    const result = (await tool.execute({ calls }, { messages: [], toolCallId: `scope-analysis-${Date.now()}` })) as {
+      content?: Array<{ type: string; text?: string }>;
+      isError?: boolean;
+    };
+
+    const text = result.content?.find((part) => part.type === 'text')?.text;
+    const data = text ? (JSON.parse(text) as { resolved?: ResolvedZoomCall[]; error?: string }) : null;
+
+    if (result.isError || !data?.resolved) {
+      throw new Error(data?.error || 'Unexpected response from zoom-api MCP server');
+    }
+
+    return json({ success: true, resolved: data.resolved });
+  } catch (error) {
+    logger.error('Failed to resolve Zoom API calls:', error);
+
+    return json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to resolve Zoom API calls' },
+      { status: 502 },
+    );
+  }
+}
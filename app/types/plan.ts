@@ -20,6 +20,33 @@ export interface PlanStep {
   completedAt?: number;
   error?: string;
   substeps?: PlanSubstep[];
+
+  // Ids of the steps this step needs; without it the step depends on the previous step
+  dependsOn?: string[];
+
+  // Id of the failed step that caused this step to be skipped
+  blockedBy?: string;
+
+  // Acceptance checks run in the WebContainer after the step is auto-executed
+  checks?: PlanStepCheck[];
+  checkResults?: PlanCheckResult[];
+  fixAttempts?: number;
+
+  // Snapshot of the workbench files taken before the step ran
+  checkpointId?: string;
+}
+
+export type PlanStepCheck =
+  | { type: 'command'; command: string }
+  | { type: 'file-exists'; path: string }
+
+  // Probes a preview server; without a port the first running preview is used, without a status any 2xx passes
+  | { type: 'http'; path?: string; port?: number; status?: number };
+
+export interface PlanCheckResult {
+  check: PlanStepCheck;
+  passed: boolean;
+  output: string;
 }
 
 export interface PlanSubstep {
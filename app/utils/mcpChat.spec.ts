@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { formatPromptCommand, formatResourceAttachment, getPromptCommands, parsePromptCommand } from './mcpChat';
+
+const commands = getPromptCommands({
+  'zoom-api': {
+    resources: [],
+    prompts: [
+      {
+        name: 'add-rest-call',
+        arguments: [{ name: 'operation', required: true }],
+      },
+      {
+        name: 'webhook-handler',
+        arguments: [
+          { name: 'event', required: true },
+          { name: 'framework', required: false },
+        ],
+      },
+    ],
+  },
+  other: {
+    resources: [],
+    prompts: [{ name: 'add-rest-call' }],
+  },
+});
+
+describe('getPromptCommands', () => {
+  it('should keep the first server on name clashes', () => {
+    expect(commands.map((command) => [command.serverName, command.prompt.name])).toEqual([
+      ['zoom-api', 'add-rest-call'],
+      ['zoom-api', 'webhook-handler'],
+    ]);
+  });
+});
+
+describe('formatPromptCommand', () => {
+  it('should mark required and optional arguments', () => {
+    expect(formatPromptCommand(commands[1].prompt)).toBe('/webhook-handler <event> [framework]');
+  });
+});
+
+describe('parsePromptCommand', () => {
+  it('should give the rest of the input to the last positional argument', () => {
+    const parsed = parsePromptCommand('/add-rest-call create a meeting', commands);
+
+    expect(parsed?.serverName).toBe('zoom-api');
+    expect(parsed?.args).toEqual({ operation: 'create a meeting' });
+    expect(parsed?.missingArgs).toEqual([]);
+  });
+
+  it('should parse key=value arguments', () => {
+    const parsed = parsePromptCommand('/webhook-handler framework=express event="meeting.started"', commands);
+
+    expect(parsed?.args).toEqual({ framework: 'express', event: 'meeting.started' });
+  });
+
+  it('should report missing required arguments', () => {
+    expect(parsePromptCommand('/webhook-handler', commands)?.missingArgs).toEqual(['event']);
+  });
+
+  it('should ignore input that is not a known command', () => {
+    expect(parsePromptCommand('/unknown foo', commands)).toBeNull();
+    expect(parsePromptCommand('add-rest-call foo', commands)).toBeNull();
+  });
+});
+
+describe('formatResourceAttachment', () => {
+  it('should escape the content and keep it on one line', () => {
+    const html = formatResourceAttachment({
+      serverName: 'zoom-api',
+      uri: 'zoom://api/rate-limits',
+      name: 'Rate "limits"',
+      text: 'a < b\n\nc & d',
+    });
+
+    expect(html).toBe(
+      '<div class="__boltMcpResource__" data-server="zoom-api" data-uri="zoom://api/rate-limits" ' +
+        'data-name="Rate &quot;limits&quot;">a &lt; b&#10;&#10;c &amp; d</div>',
+    );
+  });
+});
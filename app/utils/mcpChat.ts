@@ -0,0 +1,101 @@
+import type { MCPPrompt, MCPServerCatalog } from '~/lib/services/mcpService';
+import type { AttachedMCPResource } from '~/lib/stores/mcp';
+
+export interface PromptCommand {
+  serverName: string;
+  prompt: MCPPrompt;
+}
+
+export interface ParsedPromptCommand extends PromptCommand {
+  args: Record<string, string>;
+  missingArgs: string[];
+}
+
+/**
+ * All MCP prompts as slash commands; on name clashes the first server wins
+ */
+export function getPromptCommands(catalogs: Record<string, MCPServerCatalog>): PromptCommand[] {
+  const commands = new Map<string, PromptCommand>();
+
+  for (const [serverName, catalog] of Object.entries(catalogs)) {
+    for (const prompt of catalog.prompts) {
+      if (!commands.has(prompt.name)) {
+        commands.set(prompt.name, { serverName, prompt });
+      }
+    }
+  }
+
+  return [...commands.values()];
+}
+
+/**
+ * Usage hint for a prompt command, e.g. "/add-rest-call <operation>"
+ */
+export function formatPromptCommand(prompt: MCPPrompt): string {
+  const args = (prompt.arguments || []).map((arg) => (arg.required ? `<${arg.name}>` : `[${arg.name}]`));
+
+  return [`/${prompt.name}`, ...args].join(' ');
+}
+
+/**
+ * Parse "/name args" chat input into prompt arguments
+ *
+ * Arguments are either key=value pairs (values with spaces in double quotes) or positional,
+ * in which case the last argument takes the rest of the input. Returns null if the input
+ * is not a known prompt command.
+ */
+export function parsePromptCommand(input: string, commands: PromptCommand[]): ParsedPromptCommand | null {
+  const match = input.trim().match(/^\/(\S+)(?:\s+([\s\S]*))?$/);
+
+  if (!match) {
+    return null;
+  }
+
+  const command = commands.find((item) => item.prompt.name === match[1]);
+
+  if (!command) {
+    return null;
+  }
+
+  const rest = (match[2] || '').trim();
+  const argDefs = command.prompt.arguments || [];
+  const args: Record<string, string> = {};
+
+  if (/^[\w-]+=/.test(rest)) {
+    for (const [, key, quoted, plain] of rest.matchAll(/([\w-]+)=(?:"([^"]*)"|(\S+))/g)) {
+      args[key] = quoted ?? plain;
+    }
+  } else if (rest) {
+    const tokens = rest.split(/\s+/);
+
+    argDefs.forEach((arg, index) => {
+      const value = index === argDefs.length - 1 ? tokens.slice(index).join(' ') : tokens[index];
+
+      if (value) {
+        args[arg.name] = value;
+      }
+    });
+  }
+
+  const missingArgs = argDefs.filter((arg) => arg.required && !args[arg.name]).map((arg) => arg.name);
+
+  return { ...command, args, missingArgs };
+}
+
+function escapeHTML(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Embed an attached resource in the message text; rendered as a chip by Markdown
+ *
+ * Newlines are encoded so the content stays in a single markdown HTML block.
+ */
+export function formatResourceAttachment(resource: AttachedMCPResource): string {
+  const content = escapeHTML(resource.text).replace(/\r?\n/g, '&#10;');
+
+  return (
+    `<div class="__boltMcpResource__" data-server="${escapeHTML(resource.serverName)}" ` +
+    `data-uri="${escapeHTML(resource.uri)}" data-name="${escapeHTML(resource.name)}">${content}</div>`
+  );
+}
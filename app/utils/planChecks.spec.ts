@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { PlanStep } from '~/types/plan';
+import { formatCheckFailures, parseStepChecks, truncateCheckOutput } from './planChecks';
+
+describe('parseStepChecks', () => {
+  it('should parse commands, file assertions and HTTP probes', () => {
+    const checks = parseStepChecks([
+      'npm run build',
+      { command: 'npx tsc --noEmit' },
+      { type: 'file-exists', path: 'src/App.tsx' },
+      { type: 'http', path: '/health', status: 200 },
+    ]);
+
+    expect(checks).toEqual([
+      { type: 'command', command: 'npm run build' },
+      { type: 'command', command: 'npx tsc --noEmit' },
+      { type: 'file-exists', path: 'src/App.tsx' },
+      { type: 'http', path: '/health', port: undefined, status: 200 },
+    ]);
+  });
+
+  it('should drop invalid checks', () => {
+    expect(parseStepChecks(['', { type: 'file-exists' }, { type: 'unknown' }, 42])).toBeUndefined();
+    expect(parseStepChecks('npm test')).toBeUndefined();
+  });
+});
+
+describe('formatCheckFailures', () => {
+  it('should list only the failed checks with their output', () => {
+    const step: PlanStep = { id: 'api', order: 2, title: 'Add the API', description: '', status: 'in-progress' };
+    const message = formatCheckFailures(step, 1, [
+      { check: { type: 'command', command: 'npm run build' }, passed: false, output: 'error TS2304' },
+      { check: { type: 'file-exists', path: 'src/api.ts' }, passed: true, output: '' },
+    ]);
+
+    expect(message).toContain('step 2 ("Add the API")');
+    expect(message).toContain('- `npm run build` succeeds: FAILED\n```\nerror TS2304\n```');
+    expect(message).not.toContain('src/api.ts');
+  });
+
+  it('should keep the end of long output', () => {
+    const output = truncateCheckOutput(`start${'x'.repeat(3000)}end`);
+
+    expect(output.startsWith('...')).toBe(true);
+    expect(output.endsWith('end')).toBe(true);
+  });
+});
@@ -0,0 +1,100 @@
+import type { PlanCheckResult, PlanStep, PlanStepCheck } from '~/types/plan';
+
+/**
+ * Plan Step Acceptance Checks
+ *
+ * A plan step can carry checks that are run in the WebContainer once the step is
+ * auto-executed: a shell command that has to exit with 0, a file that has to exist,
+ * or an HTTP probe against a preview server.
+ */
+
+// Keeps the feedback to the model and the stored results small
+const MAX_CHECK_OUTPUT_LENGTH = 2000;
+
+/**
+ * Parse the "checks" of a plan JSON step
+ * A check is a command string or an object such as { "type": "file-exists", "path": "src/App.tsx" }.
+ * Invalid checks are dropped.
+ */
+export function parseStepChecks(rawChecks: unknown): PlanStepCheck[] | undefined {
+  if (!Array.isArray(rawChecks)) {
+    return undefined;
+  }
+
+  const checks = rawChecks.map(parseStepCheck).filter((check): check is PlanStepCheck => check !== undefined);
+
+  return checks.length > 0 ? checks : undefined;
+}
+
+function parseStepCheck(raw: unknown): PlanStepCheck | undefined {
+  if (typeof raw === 'string') {
+    return raw.trim() ? { type: 'command', command: raw.trim() } : undefined;
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const check = raw as Record<string, unknown>;
+
+  if ((check.type === 'command' || check.type === undefined) && typeof check.command === 'string') {
+    return check.command.trim() ? { type: 'command', command: check.command.trim() } : undefined;
+  }
+
+  if (check.type === 'file-exists' && typeof check.path === 'string' && check.path.trim()) {
+    return { type: 'file-exists', path: check.path.trim() };
+  }
+
+  if (check.type === 'http') {
+    return {
+      type: 'http',
+      path: typeof check.path === 'string' ? check.path : undefined,
+      port: typeof check.port === 'number' ? check.port : undefined,
+      status: typeof check.status === 'number' ? check.status : undefined,
+    };
+  }
+
+  return undefined;
+}
+
+export function describeCheck(check: PlanStepCheck): string {
+  switch (check.type) {
+    case 'command':
+      return `\`${check.command}\` succeeds`;
+    case 'file-exists':
+      return `${check.path} exists`;
+    default:
+      return `GET ${check.path || '/'}${check.port ? ` on port ${check.port}` : ''} returns ${check.status ?? '2xx'}`;
+  }
+}
+
+/**
+ * Keep the end of the output, where errors usually are
+ */
+export function truncateCheckOutput(output: string): string {
+  const trimmed = output.trim();
+
+  if (trimmed.length <= MAX_CHECK_OUTPUT_LENGTH) {
+    return trimmed;
+  }
+
+  return `...${trimmed.slice(-MAX_CHECK_OUTPUT_LENGTH)}`;
+}
+
+/**
+ * Message asking the model to fix a step whose checks failed
+ */
+export function formatCheckFailures(step: PlanStep, stepIndex: number, results: PlanCheckResult[]): string {
+  const failures = results
+    .filter((result) => !result.passed)
+    .map((result) => {
+      const output = result.output ? `\n\`\`\`\n${result.output}\n\`\`\`` : '';
+      return `- ${describeCheck(result.check)}: FAILED${output}`;
+    });
+
+  return [
+    `The acceptance checks of step ${stepIndex + 1} ("${step.title}") failed:`,
+    ...failures,
+    'Fix the problems so that all checks pass. Only change what is needed for this step.',
+  ].join('\n\n');
+}
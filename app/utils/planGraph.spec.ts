@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { PlanStep, PlanStepStatus } from '~/types/plan';
+import {
+  findDependencyCycle,
+  getDownstreamStepIds,
+  getReadySteps,
+  getStepLayers,
+  resolveStepDependencies,
+} from './planGraph';
+
+function step(id: string, dependsOn?: string[], status: PlanStepStatus = 'pending'): PlanStep {
+  return { id, order: 0, title: id, description: '', status, dependsOn };
+}
+
+const ids = (steps: PlanStep[]) => steps.map((s) => s.id);
+
+describe('getReadySteps', () => {
+  it('should run steps without dependsOn in order', () => {
+    const steps = [step('a', undefined, 'complete'), step('b'), step('c')];
+
+    expect(ids(getReadySteps(steps))).toEqual(['b']);
+  });
+
+  it('should offer independent branches once their dependencies are done', () => {
+    const steps = [step('setup', [], 'complete'), step('api', ['setup']), step('styles', ['setup']), step('docs', [])];
+
+    expect(ids(getReadySteps(steps))).toEqual(['api', 'styles', 'docs']);
+  });
+
+  it('should treat steps skipped by the user as done but not steps blocked by a failure', () => {
+    const steps = [
+      step('a', [], 'skipped'),
+      { ...step('b', [], 'skipped'), blockedBy: 'x' },
+      step('after-a', ['a']),
+      step('after-b', ['b']),
+    ];
+
+    expect(ids(getReadySteps(steps))).toEqual(['after-a']);
+  });
+});
+
+describe('getDownstreamStepIds', () => {
+  it('should return the transitive dependents of a step only', () => {
+    const steps = [step('setup', []), step('api', ['setup']), step('client', ['api']), step('styles', ['setup'])];
+
+    expect(getDownstreamStepIds(steps, 'api')).toEqual(['client']);
+    expect(getDownstreamStepIds(steps, 'setup')).toEqual(['api', 'client', 'styles']);
+  });
+});
+
+describe('getStepLayers', () => {
+  it('should group steps by dependency depth', () => {
+    const steps = [
+      step('setup', []),
+      step('api', ['setup']),
+      step('styles', ['setup']),
+      step('deploy', ['api', 'styles']),
+    ];
+
+    expect(getStepLayers(steps).map(ids)).toEqual([['setup'], ['api', 'styles'], ['deploy']]);
+  });
+});
+
+describe('resolveStepDependencies', () => {
+  const steps = [step('s1'), step('s2'), step('s3')];
+
+  it('should resolve step numbers and JSON ids', () => {
+    const resolved = resolveStepDependencies(
+      [{ id: 'setup', dependsOn: [] }, { dependsOn: [1] }, { dependsOn: ['setup', 2] }],
+      steps,
+    );
+
+    expect(resolved.map((s) => s.dependsOn)).toEqual([[], ['s1'], ['s1', 's2']]);
+  });
+
+  it('should leave steps without dependsOn in plan order', () => {
+    const resolved = resolveStepDependencies([{}, {}, { dependsOn: [1] }], steps);
+
+    expect(resolved.map((s) => s.dependsOn)).toEqual([undefined, undefined, ['s1']]);
+  });
+
+  it('should drop unknown and self references', () => {
+    const resolved = resolveStepDependencies([{}, { dependsOn: ['missing', 2, 9] }, {}], steps);
+
+    expect(resolved[1].dependsOn).toEqual([]);
+  });
+
+  it('should fall back to plan order when the dependencies form a cycle', () => {
+    const resolved = resolveStepDependencies([{ dependsOn: [2] }, { dependsOn: [1] }, {}], steps);
+
+    expect(resolved).toBe(steps);
+    expect(findDependencyCycle([step('a', ['b']), step('b', ['a'])])).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,193 @@
+import type { PlanStep } from '~/types/plan';
+
+/**
+ * Plan Step Graph
+ *
+ * Plan steps form a DAG through their dependsOn ids. A step without dependsOn depends on
+ * the step before it, so plans that declare no dependencies still run strictly in order.
+ * When a step fails, only the steps downstream of it are skipped; independent branches
+ * keep running.
+ */
+
+/**
+ * Ids of the steps a step has to wait for
+ */
+export function getStepDependencies(steps: PlanStep[], step: PlanStep): string[] {
+  if (step.dependsOn) {
+    return step.dependsOn;
+  }
+
+  const index = steps.findIndex((s) => s.id === step.id);
+
+  return index > 0 ? [steps[index - 1].id] : [];
+}
+
+/**
+ * A dependency is satisfied when it completed or the user skipped it;
+ * steps skipped because of a failed dependency block their dependents too.
+ */
+function isSatisfied(step: PlanStep): boolean {
+  return step.status === 'complete' || (step.status === 'skipped' && !step.blockedBy);
+}
+
+/**
+ * Pending steps whose dependencies are all satisfied, in plan order
+ */
+export function getReadySteps(steps: PlanStep[]): PlanStep[] {
+  const stepsById = new Map(steps.map((step) => [step.id, step]));
+
+  return steps.filter(
+    (step) =>
+      step.status === 'pending' &&
+      getStepDependencies(steps, step).every((id) => {
+        const dependency = stepsById.get(id);
+        return !dependency || isSatisfied(dependency);
+      }),
+  );
+}
+
+/**
+ * Ids of all steps that depend on a step, directly or transitively
+ */
+export function getDownstreamStepIds(steps: PlanStep[], stepId: string): string[] {
+  const downstream = new Set<string>();
+  const queue = [stepId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    for (const step of steps) {
+      if (!downstream.has(step.id) && getStepDependencies(steps, step).includes(current)) {
+        downstream.add(step.id);
+        queue.push(step.id);
+      }
+    }
+  }
+
+  return steps.filter((step) => downstream.has(step.id)).map((step) => step.id);
+}
+
+/**
+ * Ids of the steps on a dependency cycle, or null when the steps form a DAG
+ */
+export function findDependencyCycle(steps: PlanStep[]): string[] | null {
+  const stepsById = new Map(steps.map((step) => [step.id, step]));
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (step: PlanStep): string[] | null => {
+    const pathIndex = path.indexOf(step.id);
+
+    if (pathIndex !== -1) {
+      return path.slice(pathIndex);
+    }
+
+    if (visited.has(step.id)) {
+      return null;
+    }
+
+    visited.add(step.id);
+    path.push(step.id);
+
+    for (const id of getStepDependencies(steps, step)) {
+      const dependency = stepsById.get(id);
+      const cycle = dependency ? visit(dependency) : null;
+
+      if (cycle) {
+        return cycle;
+      }
+    }
+
+    path.pop();
+
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step);
+
+    if (cycle) {
+      return cycle;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Group steps by dependency depth: a layer only depends on earlier layers,
+ * so the steps of one layer are independent branches
+ * Expects a DAG (see findDependencyCycle).
+ */
+export function getStepLayers(steps: PlanStep[]): PlanStep[][] {
+  const stepsById = new Map(steps.map((step) => [step.id, step]));
+  const depths = new Map<string, number>();
+
+  const getDepth = (step: PlanStep): number => {
+    const known = depths.get(step.id);
+
+    if (known !== undefined) {
+      return known;
+    }
+
+    // Marks the step while its dependencies are visited, so a cycle cannot recurse forever
+    depths.set(step.id, 0);
+
+    const dependencyDepths = getStepDependencies(steps, step)
+      .map((id) => stepsById.get(id))
+      .filter((dependency): dependency is PlanStep => dependency !== undefined)
+      .map((dependency) => getDepth(dependency) + 1);
+    const depth = Math.max(0, ...dependencyDepths);
+
+    depths.set(step.id, depth);
+
+    return depth;
+  };
+
+  const layers: PlanStep[][] = [];
+
+  for (const step of steps) {
+    const depth = getDepth(step);
+    layers[depth] = [...(layers[depth] || []), step];
+  }
+
+  return layers.filter(Boolean);
+}
+
+/**
+ * Resolve the dependsOn references of plan JSON steps to step ids
+ * References are 1-based step numbers or the "id" given to a step in the JSON.
+ * Unknown references are dropped; a plan with a dependency cycle falls back to plan order.
+ */
+export function resolveStepDependencies(
+  rawSteps: Array<{ id?: unknown; dependsOn?: unknown }>,
+  steps: PlanStep[],
+): PlanStep[] {
+  const resolveReference = (reference: unknown): string | undefined => {
+    if (typeof reference === 'number' || /^\d+$/.test(String(reference))) {
+      return steps[Number(reference) - 1]?.id;
+    }
+
+    const index = rawSteps.findIndex((raw) => raw.id !== undefined && String(raw.id) === String(reference));
+
+    return index === -1 ? undefined : steps[index].id;
+  };
+
+  const resolved = steps.map((step, index) => {
+    const dependsOn = rawSteps[index]?.dependsOn;
+
+    if (!Array.isArray(dependsOn)) {
+      return step;
+    }
+
+    const ids = dependsOn.map(resolveReference).filter((id): id is string => id !== undefined && id !== step.id);
+
+    return { ...step, dependsOn: [...new Set(ids)] };
+  });
+
+  if (findDependencyCycle(resolved)) {
+    return steps;
+  }
+
+  return resolved;
+}
@@ -1,6 +1,7 @@
 import { app } from './server.js';
 import { processManager } from './processManager.js';
-import { initializeZoomApiAdapter, isZoomApiAvailable } from './zoomApiAdapter.js';
+import { getProxyLimits } from './limits.js';
+import { initializeZoomApiAdapter, isZoomApiAvailable, isZoomMockAvailable } from './zoomApiAdapter.js';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
@@ -28,6 +29,8 @@ async function main() {
   // Initialize built-in servers
   await initializeZoomApiAdapter();
 
+  const limits = getProxyLimits();
+
   // Start server
   app.listen(PORT, () => {
     console.log('============================================================');
@@ -36,11 +39,19 @@ async function main() {
     console.log(`  Port: ${PORT}`);
     console.log(`  Health: http://localhost:${PORT}/health`);
     console.log('');
+    console.log('  Default Limits:');
+    console.log(`    Timeout: ${limits.timeoutMs}ms, Output: ${limits.maxOutputBytes} bytes`);
+    console.log(`    Memory: ${limits.maxMemoryMb ? `${limits.maxMemoryMb}MB` : 'unlimited'}`);
+    console.log(`    Cwd roots: ${limits.allowedCwdRoots.join(', ') || 'any'}`);
+    console.log(`    Env allow-list: ${limits.envAllowList?.join(', ') || 'all'}`);
+    console.log('');
     console.log('  Stdio Proxy Endpoints:');
     console.log('    POST   /api/spawn              - Start a stdio MCP server');
     console.log('    GET    /api/sessions           - List active sessions');
+    console.log('    GET    /api/sessions/:id/logs  - Stderr and restarts of a session');
     console.log('    GET    /api/tools/:sessionId   - Get tools for session');
     console.log('    POST   /api/execute/:sessionId - Execute tool');
+    console.log('    POST   /api/request/:sessionId - List/read resources and prompts');
     console.log('    DELETE /api/close/:sessionId   - Close session');
     console.log('');
     console.log('  Built-in MCP Servers:');
@@ -49,6 +60,10 @@ async function main() {
     console.log('    POST /mcp/zoom-api/execute   - Execute Zoom API tool');
     console.log('    GET  /mcp/zoom-api/categories - List API categories');
     console.log('    GET  /mcp/zoom-api/search?q=  - Search endpoints');
+    console.log('');
+    console.log(`  Zoom API Mock: ${isZoomMockAvailable() ? '✓ Available' : '✗ Not available'}`);
+    console.log('    ALL  /zoom-mock/v2/*          - Mock Zoom REST API');
+    console.log('    POST /zoom-mock/_mock/token   - Issue a fake access token');
     console.log('============================================================');
     console.log('');
   });
@@ -0,0 +1,203 @@
+import { isAbsolute, relative, resolve } from 'path';
+import type { EffectiveLimits, ResourceLimits, StdioConfig } from './types.js';
+
+export type LimitViolationCode =
+  | 'TIMEOUT'
+  | 'OUTPUT_TOO_LARGE'
+  | 'MEMORY_LIMIT'
+  | 'CWD_NOT_ALLOWED'
+  | 'ENV_NOT_ALLOWED';
+
+const STATUS_BY_CODE: Record<LimitViolationCode, number> = {
+  TIMEOUT: 504,
+  OUTPUT_TOO_LARGE: 413,
+  MEMORY_LIMIT: 507,
+  CWD_NOT_ALLOWED: 403,
+  ENV_NOT_ALLOWED: 403,
+};
+
+/**
+ * Thrown when a spawn config or tool call violates a resource limit
+ */
+export class ResourceLimitError extends Error {
+  readonly status: number;
+
+  constructor(
+    readonly code: LimitViolationCode,
+    message: string,
+    readonly limit?: number | string[],
+  ) {
+    super(message);
+    this.name = 'ResourceLimitError';
+    this.status = STATUS_BY_CODE[code];
+  }
+}
+
+// Always passed to child processes when an env allow-list is active
+const BASE_ENV = ['PATH', 'HOME', 'USER', 'SHELL', 'LANG', 'TERM', 'TMPDIR', 'NODE_PATH'];
+
+function parseNumberEnv(key: string): number | undefined {
+  const value = Number(process.env[key]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function parseListEnv(key: string): string[] | undefined {
+  const value = process.env[key]?.split(',').map((item) => item.trim()).filter(Boolean);
+  return value && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Proxy-wide limits from the environment
+ *
+ * These are ceilings: a server config can tighten them but never raise them.
+ */
+export function getProxyLimits(): EffectiveLimits {
+  return {
+    timeoutMs: parseNumberEnv('MCP_PROXY_TOOL_TIMEOUT_MS') ?? 60 * 1000,
+    maxOutputBytes: parseNumberEnv('MCP_PROXY_MAX_OUTPUT_BYTES') ?? 1024 * 1024,
+    maxMemoryMb: parseNumberEnv('MCP_PROXY_MAX_MEMORY_MB'),
+    allowedCwdRoots: parseListEnv('MCP_PROXY_ALLOWED_CWD_ROOTS') ?? [],
+    envAllowList: parseListEnv('MCP_PROXY_ENV_ALLOWLIST'),
+  };
+}
+
+function minLimit(server: number | undefined, proxy: number | undefined): number | undefined {
+  return server !== undefined && proxy !== undefined ? Math.min(server, proxy) : (server ?? proxy);
+}
+
+/**
+ * Combine the limits of a server config with the proxy limits
+ *
+ * Numeric limits take the lower of both, server cwd roots outside the proxy roots
+ * are dropped, and server env names must match the proxy allow-list.
+ */
+export function resolveLimits(limits: ResourceLimits | undefined): EffectiveLimits {
+  const proxy = getProxyLimits();
+  const proxyEnv = proxy.envAllowList;
+  const serverEnv = limits?.envAllowList;
+  const proxyRoots = proxy.allowedCwdRoots;
+  const serverRoots = limits?.allowedCwdRoots?.filter(
+    (root) => proxyRoots.length === 0 || proxyRoots.some((proxyRoot) => isWithin(root, proxyRoot)),
+  );
+
+  return {
+    timeoutMs: minLimit(limits?.timeoutMs, proxy.timeoutMs)!,
+    maxOutputBytes: minLimit(limits?.maxOutputBytes, proxy.maxOutputBytes)!,
+    maxMemoryMb: minLimit(limits?.maxMemoryMb, proxy.maxMemoryMb),
+    allowedCwdRoots: serverRoots && serverRoots.length > 0 ? serverRoots : proxyRoots,
+    envAllowList:
+      proxyEnv && serverEnv
+        ? serverEnv.filter((name) => proxyEnv.some((pattern) => matchesEnvPattern(name, pattern)))
+        : proxyEnv || serverEnv,
+  };
+}
+
+function matchesEnvPattern(name: string, pattern: string): boolean {
+  return pattern.endsWith('*') ? name.startsWith(pattern.slice(0, -1)) : name === pattern;
+}
+
+function isWithin(path: string, root: string): boolean {
+  const rel = relative(resolve(root), resolve(path));
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+/**
+ * Check the working directory against the allowed roots of both the proxy and the server
+ */
+export function assertCwdAllowed(cwd: string | undefined, limits: EffectiveLimits): void {
+  if (!cwd) {
+    return;
+  }
+
+  for (const roots of [getProxyLimits().allowedCwdRoots, limits.allowedCwdRoots]) {
+    if (roots.length > 0 && !roots.some((root) => isWithin(cwd, root))) {
+      throw new ResourceLimitError('CWD_NOT_ALLOWED', `Working directory ${cwd} is outside the allowed roots`, roots);
+    }
+  }
+}
+
+/**
+ * Build the child process environment
+ *
+ * Without an allow-list the proxy environment is inherited as before. With one, only
+ * allowed (and basic) variables are inherited, and custom variables must be allowed too.
+ */
+export function buildEnv(config: StdioConfig, limits: EffectiveLimits): Record<string, string> {
+  const inherited = Object.entries(process.env).filter(
+    (entry): entry is [string, string] => entry[1] !== undefined,
+  );
+  const allowList = limits.envAllowList;
+
+  if (!allowList) {
+    return { ...Object.fromEntries(inherited), ...config.env };
+  }
+
+  const isAllowed = (name: string) => allowList.some((pattern) => matchesEnvPattern(name, pattern));
+  const rejected = Object.keys(config.env || {}).filter((name) => !isAllowed(name));
+
+  if (rejected.length > 0) {
+    throw new ResourceLimitError(
+      'ENV_NOT_ALLOWED',
+      `Environment variables not in the allow-list: ${rejected.join(', ')}`,
+      allowList,
+    );
+  }
+
+  return {
+    ...Object.fromEntries(inherited.filter(([name]) => BASE_ENV.includes(name) || isAllowed(name))),
+    ...config.env,
+  };
+}
+
+/**
+ * Wrap the command in a shell that sets a data segment ulimit
+ *
+ * ulimit -d rather than -v: V8 reserves far more address space than it uses,
+ * so an address space limit keeps Node-based servers from starting at all.
+ */
+export function withMemoryLimit(config: StdioConfig, maxMemoryMb: number | undefined): StdioConfig {
+  if (!maxMemoryMb || process.platform === 'win32') {
+    return config;
+  }
+
+  return {
+    ...config,
+    command: '/bin/sh',
+    args: ['-c', `ulimit -d ${Math.floor(maxMemoryMb * 1024)} && exec "$0" "$@"`, config.command, ...(config.args || [])],
+  };
+}
+
+/**
+ * Reject with a TIMEOUT error if the promise does not settle in time
+ */
+export async function withTimeout<T>(promise: PromiseLike<T>, timeoutMs: number, what: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(
+      () => reject(new ResourceLimitError('TIMEOUT', `${what} exceeded the time limit of ${timeoutMs}ms`, timeoutMs)),
+      timeoutMs,
+    );
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Reject tool results whose JSON encoding exceeds the output limit
+ */
+export function assertOutputSize(result: unknown, maxOutputBytes: number, what: string): void {
+  const size = Buffer.byteLength(JSON.stringify(result) ?? '');
+
+  if (size > maxOutputBytes) {
+    throw new ResourceLimitError(
+      'OUTPUT_TOO_LARGE',
+      `${what} returned ${size} bytes, over the output limit of ${maxOutputBytes} bytes`,
+      maxOutputBytes,
+    );
+  }
+}
@@ -1,33 +1,76 @@
-import { spawn, type ChildProcess } from 'child_process';
 import { v4 as uuidv4 } from 'uuid';
 import { experimental_createMCPClient, type ToolSet } from 'ai';
-import { Experimental_StdioMCPTransport } from 'ai/mcp-stdio';
-import type { StdioConfig, MCPSession, ToolInfo, SessionStatus } from './types.js';
+import { StdioProcessTransport } from './stdioTransport.js';
+import {
+  ResourceLimitError,
+  assertCwdAllowed,
+  assertOutputSize,
+  buildEnv,
+  resolveLimits,
+  withMemoryLimit,
+  withTimeout,
+} from './limits.js';
+import type {
+  StdioConfig,
+  MCPSession,
+  ToolInfo,
+  SessionStatus,
+  LogEntry,
+  EffectiveLimits,
+  MCPRequest,
+} from './types.js';
 
 interface ManagedProcess {
-  process: ChildProcess | null;
+  transport: StdioProcessTransport | null;
   client: Awaited<ReturnType<typeof experimental_createMCPClient>> | null;
   session: MCPSession;
   tools: ToolSet;
+  config: StdioConfig;
+  limits: EffectiveLimits;
+  logs: LogEntry[];
+  restartTimer: NodeJS.Timeout | null;
+  backoffAttempt: number;
+  failedProbes: number;
+  closing: boolean;
 }
 
 /**
  * ProcessManager handles the lifecycle of stdio MCP server processes
+ *
+ * Running servers are probed with MCP pings; servers that fail to start, exit
+ * or stop answering are restarted with exponential backoff under the same session ID,
+ * so callers holding the session keep working.
  */
 export class ProcessManager {
   private processes: Map<string, ManagedProcess> = new Map();
   private serverNameToSessionId: Map<string, string> = new Map();
   private sessionTimeout = 30 * 60 * 1000; // 30 minutes inactivity timeout
+  private probeInterval = 30 * 1000;
+  private probeTimeout = 10 * 1000;
+  private maxFailedProbes = 3;
+  private restartBaseDelay = 1000;
+  private restartMaxDelay = 60 * 1000;
+  private maxRestartAttempts = 10;
+  private stableAfter = 60 * 1000; // a crash after this much uptime resets the backoff
+  private maxLogLines = 500;
 
   constructor() {
     // Start cleanup interval
     setInterval(() => this.cleanupInactiveSessions(), 60 * 1000);
+
+    // Start liveness probes
+    setInterval(() => this.probeSessions(), this.probeInterval);
   }
 
   /**
    * Spawn a new stdio MCP server process
+   * Throws ResourceLimitError if the cwd or env violate the limits
    */
   async spawn(serverName: string, config: StdioConfig): Promise<MCPSession> {
+    const limits = resolveLimits(config.limits);
+    assertCwdAllowed(config.cwd, limits);
+    buildEnv(config, limits);
+
     // Check if server already exists
     const existingSessionId = this.serverNameToSessionId.get(serverName);
     if (existingSessionId) {
@@ -36,6 +79,14 @@ export class ProcessManager {
         existing.session.lastActivity = new Date();
         return existing.session;
       }
+      // Restart now instead of waiting for the backoff
+      if (existing && existing.session.status === 'restarting') {
+        existing.config = config;
+        existing.limits = limits;
+        existing.session.limits = limits;
+        await this.restart(existing);
+        return existing.session;
+      }
       // Clean up stale session
       await this.close(existingSessionId);
     }
@@ -49,39 +100,57 @@ export class ProcessManager {
       status: 'starting',
       startedAt: now,
       lastActivity: now,
+      restarts: 0,
+      limits,
     };
 
     const managed: ManagedProcess = {
-      process: null,
+      transport: null,
       client: null,
       session,
       tools: {},
+      config,
+      limits,
+      logs: [],
+      restartTimer: null,
+      backoffAttempt: 0,
+      failedProbes: 0,
+      closing: false,
     };
 
     this.processes.set(sessionId, managed);
     this.serverNameToSessionId.set(serverName, sessionId);
 
+    // A server that fails to come up is retried with the same backoff as a crashed one
+    if (!(await this.start(managed)) && !managed.closing) {
+      this.scheduleRestart(managed);
+    }
+
+    return session;
+  }
+
+  /**
+   * Start the server process of a session and connect the MCP client
+   */
+  private async start(managed: ManagedProcess): Promise<boolean> {
+    const { session, config, limits } = managed;
+
     try {
-      console.log(`[ProcessManager] Spawning ${serverName}: ${config.command} ${config.args?.join(' ') || ''}`);
+      console.log(`[ProcessManager] Spawning ${session.serverName}: ${config.command} ${config.args?.join(' ') || ''}`);
 
-      // Merge custom env with process.env (custom env takes precedence)
+      // Merge custom env with process.env (custom env takes precedence), filtered by the env allow-list
       // This ensures child processes have PATH, HOME, NODE_PATH etc. plus any custom vars
-      const mergedEnv: Record<string, string> = {
-        ...Object.fromEntries(
-          Object.entries(process.env).filter((entry): entry is [string, string] => entry[1] !== undefined)
-        ),
-        ...config.env,
-      };
+      const mergedEnv = buildEnv(config, limits);
 
-      // Create MCP client with stdio transport
-      const client = await experimental_createMCPClient({
-        transport: new Experimental_StdioMCPTransport({
-          command: config.command,
-          args: config.args,
-          cwd: config.cwd,
-          env: mergedEnv,
-        }),
+      const transport: StdioProcessTransport = new StdioProcessTransport(withMemoryLimit(config, limits.maxMemoryMb), {
+        env: mergedEnv,
+        onStderr: (line) => this.appendLog(managed, 'stderr', line),
+        onExit: (code, signal) => this.handleExit(managed, transport, code, signal),
       });
+      managed.transport = transport;
+
+      // Create MCP client with stdio transport
+      const client = await experimental_createMCPClient({ transport });
 
       managed.client = client;
 
@@ -101,16 +170,113 @@ export class ProcessManager {
 
       session.tools = toolInfos;
       session.status = 'running';
+      session.error = undefined;
+      session.startedAt = new Date();
       session.lastActivity = new Date();
+      managed.failedProbes = 0;
 
-      console.log(`[ProcessManager] ${serverName} started with ${Object.keys(tools).length} tools`);
+      console.log(`[ProcessManager] ${session.serverName} started with ${Object.keys(tools).length} tools`);
 
-      return session;
+      return true;
     } catch (error) {
-      console.error(`[ProcessManager] Failed to spawn ${serverName}:`, error);
+      console.error(`[ProcessManager] Failed to spawn ${session.serverName}:`, error);
       session.status = 'error';
       session.error = error instanceof Error ? error.message : String(error);
-      return session;
+      this.appendLog(managed, 'proxy', `Failed to start: ${session.error}`);
+
+      // The process may still be running if the MCP handshake or tool listing failed
+      await managed.transport?.close();
+
+      return false;
+    }
+  }
+
+  /**
+   * Handle a server process exit; unexpected exits of running servers are restarted
+   */
+  private handleExit(
+    managed: ManagedProcess,
+    transport: StdioProcessTransport,
+    code: number | null,
+    signal: NodeJS.Signals | null,
+  ): void {
+    // Exit of a process that was already replaced
+    if (managed.transport !== transport) {
+      return;
+    }
+
+    const { session } = managed;
+    managed.transport = null;
+    session.lastExit = { code, signal, at: new Date() };
+
+    if (managed.closing || session.status !== 'running') {
+      return;
+    }
+
+    const reason = signal ? `signal ${signal}` : `code ${code}`;
+    console.warn(`[ProcessManager] ${session.serverName} exited unexpectedly (${reason})`);
+    this.appendLog(managed, 'proxy', `Process exited unexpectedly (${reason})`);
+
+    session.status = 'error';
+    session.error = `Process exited unexpectedly (${reason})`;
+
+    if (Date.now() - session.startedAt.getTime() >= this.stableAfter) {
+      managed.backoffAttempt = 0;
+    }
+
+    this.scheduleRestart(managed);
+  }
+
+  /**
+   * Schedule a restart with exponential backoff, giving up after maxRestartAttempts in a row
+   */
+  private scheduleRestart(managed: ManagedProcess): void {
+    const { session } = managed;
+
+    if (managed.backoffAttempt >= this.maxRestartAttempts) {
+      console.error(`[ProcessManager] ${session.serverName} failed ${managed.backoffAttempt} restarts, giving up`);
+      this.appendLog(managed, 'proxy', `Giving up after ${managed.backoffAttempt} failed restarts`);
+      session.status = 'error';
+      session.nextRestartAt = undefined;
+      return;
+    }
+
+    const delay = Math.min(this.restartBaseDelay * 2 ** managed.backoffAttempt, this.restartMaxDelay);
+    managed.backoffAttempt++;
+
+    session.status = 'restarting';
+    session.nextRestartAt = new Date(Date.now() + delay);
+    this.appendLog(
+      managed,
+      'proxy',
+      `Restarting in ${delay / 1000}s (attempt ${managed.backoffAttempt}/${this.maxRestartAttempts})`,
+    );
+
+    managed.restartTimer = setTimeout(() => this.restart(managed), delay);
+  }
+
+  /**
+   * Restart the server process of a session, keeping its session ID
+   */
+  private async restart(managed: ManagedProcess): Promise<void> {
+    if (managed.restartTimer) {
+      clearTimeout(managed.restartTimer);
+      managed.restartTimer = null;
+    }
+
+    managed.session.nextRestartAt = undefined;
+
+    if (managed.closing) {
+      return;
+    }
+
+    managed.session.status = 'restarting';
+    managed.session.restarts++;
+
+    if (await this.start(managed)) {
+      this.appendLog(managed, 'proxy', `Restarted (restart #${managed.session.restarts})`);
+    } else if (!managed.closing) {
+      this.scheduleRestart(managed);
     }
   }
 
@@ -175,18 +341,102 @@ export class ProcessManager {
 
     console.log(`[ProcessManager] Executing ${toolName} on ${managed.session.serverName}`);
 
+    const { limits } = managed;
+    const abortController = new AbortController();
+
     try {
-      const result = await tool.execute(args, {
-        messages: [],
-        toolCallId: uuidv4(),
-      });
+      /*
+       * A timed-out call is abandoned, not cancelled on the server; if the server
+       * is stuck for good, the liveness probes restart it.
+       */
+      const result = await withTimeout(
+        tool.execute(args, {
+          messages: [],
+          toolCallId: uuidv4(),
+          abortSignal: abortController.signal,
+        }),
+        limits.timeoutMs,
+        `Tool ${toolName}`,
+      );
+
+      assertOutputSize(result, limits.maxOutputBytes, `Tool ${toolName}`);
+
       return result;
     } catch (error) {
+      abortController.abort();
+
+      if (error instanceof ResourceLimitError) {
+        console.warn(`[ProcessManager] ${toolName} on ${managed.session.serverName}: ${error.message}`);
+        this.appendLog(managed, 'proxy', error.message);
+        throw error;
+      }
+
+      if (limits.maxMemoryMb && this.diedOutOfMemory(managed)) {
+        throw new ResourceLimitError(
+          'MEMORY_LIMIT',
+          `${managed.session.serverName} ran out of memory (limit ${limits.maxMemoryMb}MB) while running ${toolName}`,
+          limits.maxMemoryMb,
+        );
+      }
+
       console.error(`[ProcessManager] Error executing ${toolName}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Send an MCP request (resources, prompts) to a session and return its result
+   * Throws with the server's error message on JSON-RPC errors
+   */
+  async request(sessionId: string, method: MCPRequest['method'], params?: Record<string, unknown>): Promise<unknown> {
+    const managed = this.processes.get(sessionId);
+    if (!managed) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    if (managed.session.status !== 'running' || !managed.transport) {
+      throw new Error(`Session not running: ${managed.session.status}`);
+    }
+
+    managed.session.lastActivity = new Date();
+
+    const { limits } = managed;
+    const response = await managed.transport.request(method, params, limits.timeoutMs);
+
+    if (!response) {
+      if (!managed.transport) {
+        throw new Error('Connection closed');
+      }
+
+      throw new ResourceLimitError('TIMEOUT', `${method} exceeded the time limit of ${limits.timeoutMs}ms`, limits.timeoutMs);
+    }
+
+    if ('error' in response) {
+      throw new Error(response.error.message);
+    }
+
+    const result = 'result' in response ? response.result : undefined;
+    assertOutputSize(result, limits.maxOutputBytes, method);
+
+    return result;
+  }
+
+  /**
+   * Whether the server process exited with an out-of-memory message on stderr
+   */
+  private diedOutOfMemory(managed: ManagedProcess): boolean {
+    return (
+      managed.transport === null &&
+      managed.logs
+        .slice(-50)
+        .some(
+          (entry) =>
+            entry.source === 'stderr' &&
+            /out of memory|allocation failed|cannot allocate memory|ENOMEM|MemoryError/i.test(entry.line)
+        )
+    );
+  }
+
   /**
    * Close a session and its process
    */
@@ -198,10 +448,20 @@ export class ProcessManager {
 
     console.log(`[ProcessManager] Closing session ${sessionId} (${managed.session.serverName})`);
 
+    managed.closing = true;
+
+    if (managed.restartTimer) {
+      clearTimeout(managed.restartTimer);
+      managed.restartTimer = null;
+    }
+
     try {
       if (managed.client) {
         await managed.client.close();
       }
+
+      // Kills the process if the client never connected
+      await managed.transport?.close();
     } catch (error) {
       console.error(`[ProcessManager] Error closing client:`, error);
     }
@@ -231,6 +491,33 @@ export class ProcessManager {
     return count;
   }
 
+  /**
+   * Get restart counters, total and per server
+   */
+  getRestartStats(): { total: number; byServer: Record<string, { status: SessionStatus; restarts: number }> } {
+    const byServer: Record<string, { status: SessionStatus; restarts: number }> = {};
+    let total = 0;
+
+    for (const { session } of this.processes.values()) {
+      byServer[session.serverName] = { status: session.status, restarts: session.restarts };
+      total += session.restarts;
+    }
+
+    return { total, byServer };
+  }
+
+  /**
+   * Get captured stderr and supervisor log lines of a session, oldest first
+   */
+  getLogs(sessionId: string, limit?: number): LogEntry[] | null {
+    const managed = this.processes.get(sessionId);
+    if (!managed) {
+      return null;
+    }
+
+    return limit ? managed.logs.slice(-limit) : [...managed.logs];
+  }
+
   /**
    * Get all sessions
    */
@@ -255,6 +542,45 @@ export class ProcessManager {
 
     await Promise.all(toClose.map(id => this.close(id)));
   }
+
+  /**
+   * Ping running servers; kill ones that miss maxFailedProbes pings in a row so they get restarted
+   */
+  private async probeSessions(): Promise<void> {
+    const running = Array.from(this.processes.values()).filter(
+      (managed) => managed.session.status === 'running' && managed.transport
+    );
+
+    await Promise.all(
+      running.map(async (managed) => {
+        const transport = managed.transport!;
+
+        if (await transport.ping(this.probeTimeout)) {
+          managed.failedProbes = 0;
+          return;
+        }
+
+        managed.failedProbes++;
+        this.appendLog(managed, 'proxy', `Liveness probe failed (${managed.failedProbes}/${this.maxFailedProbes})`);
+
+        if (managed.failedProbes >= this.maxFailedProbes && managed.transport === transport) {
+          console.warn(`[ProcessManager] ${managed.session.serverName} is unresponsive, killing it`);
+          transport.process?.kill('SIGKILL');
+        }
+      })
+    );
+  }
+
+  /**
+   * Append a line to the session's log ring buffer
+   */
+  private appendLog(managed: ManagedProcess, source: LogEntry['source'], line: string): void {
+    managed.logs.push({ timestamp: new Date(), source, line });
+
+    if (managed.logs.length > this.maxLogLines) {
+      managed.logs.splice(0, managed.logs.length - this.maxLogLines);
+    }
+  }
 }
 
 // Singleton instance
@@ -1,15 +1,19 @@
 import express, { type Request, type Response, type NextFunction } from 'express';
 import cors from 'cors';
 import { processManager } from './processManager.js';
-import { createZoomApiRouter, isZoomApiAvailable } from './zoomApiAdapter.js';
+import { ResourceLimitError } from './limits.js';
+import { createZoomApiRouter, createZoomMockRouter, isZoomApiAvailable } from './zoomApiAdapter.js';
 import {
   spawnRequestSchema,
   executeRequestSchema,
+  mcpRequestSchema,
   type SpawnResponse,
   type ToolsResponse,
   type ExecuteResponse,
+  type MCPRequestResponse,
   type CloseResponse,
   type HealthResponse,
+  type LogsResponse,
   type ErrorResponse,
   type ToolInfo,
 } from './types.js';
@@ -27,6 +31,17 @@ app.use((req: Request, _res: Response, next: NextFunction) => {
   next();
 });
 
+/**
+ * Send a structured error for a resource limit violation
+ */
+function sendLimitError(res: Response<ErrorResponse>, error: ResourceLimitError): void {
+  res.status(error.status).json({
+    error: error.message,
+    code: error.code,
+    limit: error.limit,
+  });
+}
+
 /**
  * Health check endpoint
  */
@@ -35,6 +50,7 @@ app.get('/health', (_req: Request, res: Response<HealthResponse & { zoomApiAvail
     status: 'ok',
     activeSessions: processManager.getActiveSessionCount(),
     uptime: Math.floor((Date.now() - startTime) / 1000),
+    restarts: processManager.getRestartStats(),
     zoomApiAvailable: isZoomApiAvailable(),
   });
 });
@@ -45,6 +61,12 @@ app.get('/health', (_req: Request, res: Response<HealthResponse & { zoomApiAvail
  */
 app.use('/mcp/zoom-api', createZoomApiRouter());
 
+/**
+ * Mount the mock Zoom REST API at /zoom-mock
+ * Serves /zoom-mock/v2/* from the zoom-api endpoint index for offline development
+ */
+app.use('/zoom-mock', createZoomMockRouter());
+
 /**
  * List all active sessions
  */
@@ -53,10 +75,33 @@ app.get('/api/sessions', (_req: Request, res: Response) => {
   res.json({ sessions });
 });
 
+/**
+ * Get captured stderr and restart events of a session
+ * GET /api/sessions/:sessionId/logs?limit=100
+ */
+app.get('/api/sessions/:sessionId/logs', (req: Request, res: Response<LogsResponse | ErrorResponse>) => {
+  const { sessionId } = req.params;
+  const session = processManager.getSession(sessionId);
+  const limit = Number(req.query.limit) || undefined;
+  const logs = processManager.getLogs(sessionId, limit);
+
+  if (!session || !logs) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  res.json({
+    sessionId,
+    serverName: session.serverName,
+    logs,
+  });
+});
+
 /**
  * Spawn a new stdio MCP server
  * POST /api/spawn
  * Body: { serverName: string, config: StdioConfig }
+ * config.limits: { timeoutMs, maxOutputBytes, maxMemoryMb, allowedCwdRoots, envAllowList }
  */
 app.post('/api/spawn', async (req: Request, res: Response<SpawnResponse | ErrorResponse>) => {
   try {
@@ -79,6 +124,11 @@ app.post('/api/spawn', async (req: Request, res: Response<SpawnResponse | ErrorR
       error: session.error,
     });
   } catch (error) {
+    if (error instanceof ResourceLimitError) {
+      sendLimitError(res, error);
+      return;
+    }
+
     console.error('[MCP Proxy] Spawn error:', error);
     res.status(500).json({
       error: 'Failed to spawn server',
@@ -200,6 +250,11 @@ app.post('/api/execute/:sessionId', async (req: Request, res: Response<ExecuteRe
       result,
     });
   } catch (error) {
+    if (error instanceof ResourceLimitError) {
+      sendLimitError(res, error);
+      return;
+    }
+
     console.error('[MCP Proxy] Execute error:', error);
     res.status(500).json({
       error: 'Failed to execute tool',
@@ -242,6 +297,11 @@ app.post('/api/execute/server/:serverName', async (req: Request, res: Response<E
       result,
     });
   } catch (error) {
+    if (error instanceof ResourceLimitError) {
+      sendLimitError(res, error);
+      return;
+    }
+
     console.error('[MCP Proxy] Execute by server error:', error);
     res.status(500).json({
       error: 'Failed to execute tool',
@@ -250,6 +310,46 @@ app.post('/api/execute/server/:serverName', async (req: Request, res: Response<E
   }
 });
 
+/**
+ * Send an MCP resources or prompts request to a session
+ * POST /api/request/:sessionId
+ * Body: { method: 'resources/list' | 'resources/read' | 'prompts/list' | 'prompts/get' | ..., params?: object }
+ */
+app.post('/api/request/:sessionId', async (req: Request, res: Response<MCPRequestResponse | ErrorResponse>) => {
+  try {
+    const { sessionId } = req.params;
+    const parsed = mcpRequestSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Invalid request',
+        details: parsed.error.message,
+      });
+      return;
+    }
+
+    const { method, params } = parsed.data;
+    const result = await processManager.request(sessionId, method, params);
+
+    res.json({
+      sessionId,
+      method,
+      result,
+    });
+  } catch (error) {
+    if (error instanceof ResourceLimitError) {
+      sendLimitError(res, error);
+      return;
+    }
+
+    console.error('[MCP Proxy] Request error:', error);
+    res.status(500).json({
+      error: 'Failed to send request',
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 /**
  * Close a session
  * DELETE /api/close/:sessionId
@@ -0,0 +1,167 @@
+import { spawn, type ChildProcess } from 'child_process';
+import type { JSONRPCMessage, MCPTransport } from 'ai';
+import type { StdioConfig } from './types.js';
+
+export interface StdioTransportOptions {
+  env: Record<string, string>;
+  onStderr?: (line: string) => void;
+  onExit?: (code: number | null, signal: NodeJS.Signals | null) => void;
+}
+
+/**
+ * MCP stdio transport that keeps a handle on the child process
+ *
+ * Unlike the transport from ai/mcp-stdio, this exposes the process (for exit
+ * supervision), forwards stderr line by line, and can send requests the MCP
+ * client does not support (ping, resources, prompts) without going through it.
+ */
+export class StdioProcessTransport implements MCPTransport {
+  process: ChildProcess | null = null;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private readBuffer = '';
+  private stderrBuffer = '';
+  private requestId = 0;
+  private pendingRequests: Map<string, (response: JSONRPCMessage | null) => void> = new Map();
+
+  constructor(
+    private config: StdioConfig,
+    private options: StdioTransportOptions,
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.process) {
+      throw new Error('StdioProcessTransport already started');
+    }
+
+    return new Promise((resolve, reject) => {
+      const child: ChildProcess = spawn(this.config.command, this.config.args || [], {
+        cwd: this.config.cwd,
+        env: this.options.env as NodeJS.ProcessEnv,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      this.process = child;
+
+      child.on('spawn', () => resolve());
+
+      child.on('error', (error) => {
+        reject(error);
+        this.onerror?.(error);
+      });
+
+      child.on('close', (code, signal) => {
+        this.flushStderr();
+        this.process = null;
+        this.pendingRequests.forEach((settle) => settle(null));
+        this.pendingRequests.clear();
+        this.options.onExit?.(code, signal);
+        this.onclose?.();
+      });
+
+      child.stdin?.on('error', (error) => this.onerror?.(error));
+
+      child.stdout?.on('data', (chunk: Buffer) => {
+        this.readBuffer += chunk.toString();
+        this.processReadBuffer();
+      });
+
+      child.stderr?.on('data', (chunk: Buffer) => {
+        this.stderrBuffer += chunk.toString();
+
+        const lines = this.stderrBuffer.split('\n');
+        this.stderrBuffer = lines.pop() || '';
+        lines.forEach((line) => this.options.onStderr?.(line));
+      });
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.process?.stdin) {
+        reject(new Error('Not connected'));
+        return;
+      }
+
+      this.process.stdin.write(JSON.stringify(message) + '\n', (error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  async close(): Promise<void> {
+    this.process?.kill();
+  }
+
+  /**
+   * Send an MCP ping and wait for any response (an error response still proves the server is alive)
+   */
+  async ping(timeoutMs: number): Promise<boolean> {
+    return (await this.request('ping', undefined, timeoutMs)) !== null;
+  }
+
+  /**
+   * Send a JSON-RPC request outside of the MCP client; resolves with the response, or null on timeout or exit
+   */
+  async request(method: string, params: Record<string, unknown> | undefined, timeoutMs: number): Promise<JSONRPCMessage | null> {
+    if (!this.process) {
+      return null;
+    }
+
+    const id = `proxy-${++this.requestId}`;
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(id);
+        resolve(null);
+      }, timeoutMs);
+
+      this.pendingRequests.set(id, (response) => {
+        clearTimeout(timer);
+        resolve(response);
+      });
+
+      this.send({ jsonrpc: '2.0', id, method, ...(params ? { params } : {}) }).catch(() => {
+        clearTimeout(timer);
+        this.pendingRequests.delete(id);
+        resolve(null);
+      });
+    });
+  }
+
+  private processReadBuffer(): void {
+    let newlineIndex: number;
+
+    while ((newlineIndex = this.readBuffer.indexOf('\n')) !== -1) {
+      const line = this.readBuffer.slice(0, newlineIndex).replace(/\r$/, '');
+      this.readBuffer = this.readBuffer.slice(newlineIndex + 1);
+
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        const message = JSON.parse(line) as JSONRPCMessage;
+        const responseId = 'id' in message && !('method' in message) ? String(message.id) : null;
+        const settle = responseId ? this.pendingRequests.get(responseId) : undefined;
+
+        if (settle) {
+          this.pendingRequests.delete(responseId!);
+          settle(message);
+          continue;
+        }
+
+        this.onmessage?.(message);
+      } catch (error) {
+        this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  private flushStderr(): void {
+    if (this.stderrBuffer) {
+      this.options.onStderr?.(this.stderrBuffer);
+      this.stderrBuffer = '';
+    }
+  }
+}
@@ -1,5 +1,29 @@
 import { z } from 'zod';
 
+/**
+ * Per-server resource limits schema (unset fields fall back to the proxy limits, which also cap set ones)
+ */
+export const resourceLimitsSchema = z.object({
+  timeoutMs: z.number().int().positive().optional(),
+  maxOutputBytes: z.number().int().positive().optional(),
+  maxMemoryMb: z.number().int().positive().optional(),
+  allowedCwdRoots: z.array(z.string().min(1)).optional(),
+  envAllowList: z.array(z.string().min(1)).optional(),
+});
+
+export type ResourceLimits = z.infer<typeof resourceLimitsSchema>;
+
+/**
+ * Resource limits after applying the proxy defaults
+ */
+export interface EffectiveLimits {
+  timeoutMs: number;
+  maxOutputBytes: number;
+  maxMemoryMb?: number;
+  allowedCwdRoots: string[];
+  envAllowList?: string[];
+}
+
 /**
  * Stdio server configuration schema
  */
@@ -8,6 +32,7 @@ export const stdioConfigSchema = z.object({
   args: z.array(z.string()).optional().default([]),
   cwd: z.string().optional(),
   env: z.record(z.string()).optional(),
+  limits: resourceLimitsSchema.optional(),
 });
 
 export type StdioConfig = z.infer<typeof stdioConfigSchema>;
@@ -32,10 +57,20 @@ export const executeRequestSchema = z.object({
 
 export type ExecuteRequest = z.infer<typeof executeRequestSchema>;
 
+/**
+ * MCP request schema for methods the tool client does not cover (resources and prompts)
+ */
+export const mcpRequestSchema = z.object({
+  method: z.enum(['resources/list', 'resources/read', 'resources/templates/list', 'prompts/list', 'prompts/get']),
+  params: z.record(z.unknown()).optional(),
+});
+
+export type MCPRequest = z.infer<typeof mcpRequestSchema>;
+
 /**
  * Session status
  */
-export type SessionStatus = 'starting' | 'running' | 'error' | 'closed';
+export type SessionStatus = 'starting' | 'running' | 'restarting' | 'error' | 'closed';
 
 /**
  * MCP Session info
@@ -48,6 +83,19 @@ export interface MCPSession {
   tools?: Record<string, ToolInfo>;
   startedAt: Date;
   lastActivity: Date;
+  restarts: number;
+  limits?: EffectiveLimits;
+  lastExit?: { code: number | null; signal: string | null; at: Date };
+  nextRestartAt?: Date;
+}
+
+/**
+ * Captured stderr line (or supervisor message) of a stdio server
+ */
+export interface LogEntry {
+  timestamp: Date;
+  source: 'stderr' | 'proxy';
+  line: string;
 }
 
 /**
@@ -84,6 +132,12 @@ export interface ExecuteResponse {
   error?: string;
 }
 
+export interface MCPRequestResponse {
+  sessionId: string;
+  method: string;
+  result?: unknown;
+}
+
 export interface CloseResponse {
   sessionId: string;
   status: 'closed';
@@ -93,9 +147,23 @@ export interface HealthResponse {
   status: 'ok';
   activeSessions: number;
   uptime: number;
+  restarts: {
+    total: number;
+    byServer: Record<string, { status: SessionStatus; restarts: number }>;
+  };
+}
+
+export interface LogsResponse {
+  sessionId: string;
+  serverName: string;
+  logs: LogEntry[];
 }
 
 export interface ErrorResponse {
   error: string;
   details?: string;
+
+  /** Set when a resource limit was violated */
+  code?: string;
+  limit?: number | string[];
 }
@@ -43,6 +43,44 @@ let zoomApiLoader: {
   getEndpointsByCategory: (category: string) => any[];
   getScopesForEndpoints: (ids: string[]) => Record<string, string[]>;
   getAllScopes: () => string[];
+  matchEndpointByPath: (method: string, path: string) => any;
+  findEvents?: (options: { category?: string; query?: string; limit?: number }) => any[];
+  loadEventsIndex?: () => any[];
+  loadEventDetails?: (name: string) => any;
+  listSnapshots?: () => any[];
+  loadSnapshot?: (id: string) => any;
+} | null = null;
+
+// zoom-api code generation (optional: older zoom-api builds do not ship it)
+let zoomApiCodegen: {
+  generateEndpointSchemas: (endpoint: any, format: 'typescript' | 'zod', target?: 'request' | 'response' | 'all') => any;
+  generateClientFunction: (endpoint: any, options?: { functionName?: string; validate?: boolean }) => string;
+  generateEventSchema?: (event: any, format: 'typescript' | 'zod') => { typeName: string; code: string };
+} | null = null;
+
+// zoom-api snapshot diffing (optional: older zoom-api builds do not ship it)
+let zoomApiChanges: {
+  diffSnapshots: (from: any, to: any) => any;
+  findAffectedCalls: (report: any, calls: Array<{ method?: string; path: string }>) => any[];
+} | null = null;
+
+// zoom-api MCP resources and prompts (optional: older zoom-api builds do not ship them)
+let zoomApiResources: {
+  RESOURCES: any[];
+  PROMPTS: any[];
+  readResource: (uri: string) => { uri: string; mimeType: string; text: string } | null;
+  getPrompt: (name: string, args?: Record<string, string>) => any;
+} | null = null;
+
+// zoom-api mock REST server (optional: older zoom-api builds do not ship it)
+let zoomApiMock: {
+  handleMockRequest: (request: {
+    method: string;
+    path: string;
+    query?: Record<string, any>;
+    headers?: Record<string, any>;
+    body?: unknown;
+  }) => { status: number; headers: Record<string, string>; body?: unknown };
 } | null = null;
 
 /**
@@ -63,7 +101,26 @@ export async function initializeZoomApiAdapter(): Promise<boolean> {
         getEndpointsByCategory: loader.getEndpointsByCategory,
         getScopesForEndpoints: loader.getScopesForEndpoints,
         getAllScopes: loader.getAllScopes,
+        matchEndpointByPath: loader.matchEndpointByPath,
+        findEvents: loader.findEvents,
+        loadEventsIndex: loader.loadEventsIndex,
+        loadEventDetails: loader.loadEventDetails,
+        listSnapshots: loader.listSnapshots,
+        loadSnapshot: loader.loadSnapshot,
       };
+
+      const codegenPath = '../../zoom-api/dist/codegen.js';
+      zoomApiCodegen = await import(codegenPath).catch(() => null);
+
+      const changesPath = '../../zoom-api/dist/changes.js';
+      zoomApiChanges = await import(changesPath).catch(() => null);
+
+      const resourcesPath = '../../zoom-api/dist/resources.js';
+      zoomApiResources = await import(resourcesPath).catch(() => null);
+
+      const mockPath = '../../zoom-api/dist/mock.js';
+      zoomApiMock = await import(mockPath).catch(() => null);
+
       console.log('[ZoomApiAdapter] Initialized successfully');
       return true;
     }
@@ -83,6 +140,13 @@ export function isZoomApiAvailable(): boolean {
   return zoomApiLoader !== null;
 }
 
+/**
+ * Check if the mock Zoom REST API is available
+ */
+export function isZoomMockAvailable(): boolean {
+  return zoomApiMock !== null;
+}
+
 /**
  * Get MCP tool definitions for zoom-api tools
  */
@@ -168,9 +232,181 @@ function getMCPToolDefinitions(): MCPToolDefinition[] {
         },
       },
     },
+    {
+      name: 'zoom_resolve_calls',
+      description:
+        'Resolve concrete Zoom REST calls (e.g. GET /users/me/meetings) to their API endpoints and required OAuth scopes.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          calls: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                method: { type: 'string', description: 'HTTP method (default: GET)' },
+                path: { type: 'string', description: 'Path relative to https://api.zoom.us/v2' },
+              },
+              required: ['path'],
+            },
+            description: 'REST calls to resolve',
+          },
+        },
+        required: ['calls'],
+      },
+    },
+    {
+      name: 'zoom_list_events',
+      description:
+        'List Zoom webhook events (e.g. meeting.started) with summaries and required subscription scopes. Filter by category or keyword.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'string',
+            description: 'Category ID (e.g., "meetings", "users", "phone")',
+          },
+          query: {
+            type: 'string',
+            description: 'Keyword filter (e.g., "participant", "recording")',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of results to return (default: 50)',
+          },
+        },
+      },
+    },
+    {
+      name: 'zoom_get_event',
+      description:
+        'Get a Zoom webhook event definition: payload schema, required subscription scopes and a sample payload.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          event: {
+            type: 'string',
+            description: 'Event type (e.g., "meeting.started")',
+          },
+          format: {
+            type: 'string',
+            enum: ['typescript', 'zod'],
+            description: 'If set, also generate a typed payload definition in this format',
+          },
+        },
+        required: ['event'],
+      },
+    },
+    {
+      name: 'zoom_get_changes',
+      description:
+        'Compare two versioned snapshots of the Zoom API index: added, removed and deprecated endpoints and changed scopes. Pass the REST calls an app makes to find which of them are affected.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          from: {
+            type: 'string',
+            description: 'Snapshot ID to compare from (default: the previous snapshot)',
+          },
+          to: {
+            type: 'string',
+            description: 'Snapshot ID to compare to (default: the latest snapshot)',
+          },
+          calls: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                method: { type: 'string', description: 'HTTP method (default: GET)' },
+                path: { type: 'string', description: 'Path relative to https://api.zoom.us/v2' },
+              },
+              required: ['path'],
+            },
+            description: 'REST calls made by an app',
+          },
+        },
+      },
+    },
+    {
+      name: 'zoom_get_schema',
+      description:
+        'Generate TypeScript interfaces or Zod schemas for the request body and success response of a Zoom API endpoint.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          endpointId: {
+            type: 'string',
+            description: 'The endpoint ID (e.g., "create-meeting")',
+          },
+          method: {
+            type: 'string',
+            description: 'HTTP method (alternative to endpointId)',
+          },
+          path: {
+            type: 'string',
+            description: 'API path (alternative to endpointId)',
+          },
+          format: {
+            type: 'string',
+            enum: ['typescript', 'zod'],
+            description: 'Output format (default: typescript)',
+          },
+          target: {
+            type: 'string',
+            enum: ['request', 'response', 'all'],
+            description: 'Which schemas to generate (default: all)',
+          },
+        },
+      },
+    },
+    {
+      name: 'zoom_generate_client',
+      description: 'Generate a typed fetch-based client function for a Zoom API endpoint.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          endpointId: {
+            type: 'string',
+            description: 'The endpoint ID (e.g., "create-meeting")',
+          },
+          method: {
+            type: 'string',
+            description: 'HTTP method (alternative to endpointId)',
+          },
+          path: {
+            type: 'string',
+            description: 'API path (alternative to endpointId)',
+          },
+          functionName: {
+            type: 'string',
+            description: 'Name of the generated function',
+          },
+          validate: {
+            type: 'boolean',
+            description: 'Set to true to validate the response with a generated Zod schema',
+          },
+        },
+      },
+    },
   ];
 }
 
+/**
+ * Find full endpoint details by ID, or by method and path (exact or templated)
+ */
+function findEndpointDetails(args: { endpointId?: string; method?: string; path?: string }): any {
+  let id = args.endpointId;
+
+  if (!id && args.method && args.path) {
+    const exact = zoomApiLoader!
+      .loadEndpointsIndex()
+      .find((ep: any) => ep.method.toUpperCase() === args.method!.toUpperCase() && ep.path === args.path);
+    id = (exact || zoomApiLoader!.matchEndpointByPath(args.method, args.path))?.id;
+  }
+
+  return id ? zoomApiLoader!.loadEndpointDetails(id) : null;
+}
+
 /**
  * Execute a zoom-api tool and return the result
  */
@@ -279,6 +515,146 @@ function executeZoomApiTool(toolName: string, args: Record<string, unknown>): un
       }
     }
 
+    case 'zoom_resolve_calls': {
+      const { calls } = args as { calls?: Array<{ method?: string; path: string }> };
+
+      if (!Array.isArray(calls)) {
+        throw new Error('calls is required');
+      }
+
+      const resolved = calls.map((call) => {
+        const method = (call.method || 'GET').toUpperCase();
+        const endpoint = zoomApiLoader!.matchEndpointByPath(method, call.path);
+
+        return {
+          method,
+          path: call.path,
+          endpoint: endpoint
+            ? {
+                id: endpoint.id,
+                path: endpoint.path,
+                summary: endpoint.summary,
+                scopes: endpoint.scopes || [],
+                deprecated: endpoint.deprecated || false,
+              }
+            : null,
+        };
+      });
+
+      return { resolved, unresolvedCount: resolved.filter((call) => !call.endpoint).length };
+    }
+
+    case 'zoom_list_events': {
+      if (!zoomApiLoader.findEvents) {
+        throw new Error('Webhook events are not available. Rebuild the zoom-api package.');
+      }
+
+      const { category, query, limit = 50 } = args as { category?: string; query?: string; limit?: number };
+      const events = zoomApiLoader.findEvents({ category, query, limit });
+
+      return {
+        count: events.length,
+        events: events.map((event: any) => ({
+          name: event.name,
+          category: event.category,
+          summary: event.summary,
+          scopes: event.scopes || [],
+        })),
+      };
+    }
+
+    case 'zoom_get_event': {
+      if (!zoomApiLoader.loadEventDetails || !zoomApiLoader.loadEventsIndex) {
+        throw new Error('Webhook events are not available. Rebuild the zoom-api package.');
+      }
+
+      const { event, format } = args as { event: string; format?: 'typescript' | 'zod' };
+
+      if (!event) {
+        throw new Error('event is required');
+      }
+
+      const details = zoomApiLoader.loadEventDetails(event);
+
+      if (!details) {
+        const summary = zoomApiLoader.loadEventsIndex().find((e: any) => e.name === event);
+        return summary || { error: `Event "${event}" not found` };
+      }
+
+      const types = format && zoomApiCodegen?.generateEventSchema?.(details, format);
+
+      return types ? { ...details, types } : details;
+    }
+
+    case 'zoom_get_changes': {
+      if (!zoomApiChanges || !zoomApiLoader.listSnapshots || !zoomApiLoader.loadSnapshot) {
+        throw new Error('zoom-api snapshot diffing is not available. Rebuild the zoom-api package.');
+      }
+
+      const input = args as { from?: string; to?: string; calls?: Array<{ method?: string; path: string }> };
+      const snapshots = zoomApiLoader.listSnapshots();
+      const fromId = input.from || snapshots[snapshots.length - 2]?.id;
+      const toId = input.to || snapshots[snapshots.length - 1]?.id;
+      const from = fromId ? zoomApiLoader.loadSnapshot(fromId) : null;
+      const to = toId ? zoomApiLoader.loadSnapshot(toId) : null;
+
+      if (!from || !to) {
+        return {
+          error: fromId && toId ? `Snapshot not found: ${!from ? fromId : toId}` : 'Need at least two snapshots',
+          snapshots,
+        };
+      }
+
+      const report = zoomApiChanges.diffSnapshots(from, to);
+
+      return input.calls ? { ...report, affectedCalls: zoomApiChanges.findAffectedCalls(report, input.calls) } : report;
+    }
+
+    case 'zoom_get_schema':
+    case 'zoom_generate_client': {
+      if (!zoomApiCodegen) {
+        throw new Error('zoom-api code generation is not available. Rebuild the zoom-api package.');
+      }
+
+      const input = args as {
+        endpointId?: string;
+        method?: string;
+        path?: string;
+        format?: 'typescript' | 'zod';
+        target?: 'request' | 'response' | 'all';
+        functionName?: string;
+        validate?: boolean;
+      };
+      const details = findEndpointDetails(input);
+
+      if (!details) {
+        return { error: 'Endpoint not found. Provide endpointId or both method and path.' };
+      }
+
+      if (toolName === 'zoom_get_schema') {
+        const format = input.format || 'typescript';
+
+        return {
+          endpointId: details.id,
+          method: details.method,
+          path: details.path,
+          format,
+          ...zoomApiCodegen.generateEndpointSchemas(details, format, input.target || 'all'),
+        };
+      }
+
+      return {
+        endpointId: details.id,
+        method: details.method,
+        path: details.path,
+        scopes: details.scopes || [],
+        code: zoomApiCodegen.generateClientFunction(details, {
+          functionName: input.functionName,
+          validate: input.validate,
+        }),
+      };
+    }
+
     default:
       throw new Error(`Unknown tool: ${toolName}`);
   }
@@ -330,6 +706,7 @@ export function createZoomApiRouter(): Router {
             protocolVersion: '2024-11-05',
             capabilities: {
               tools: {},
+              ...(zoomApiResources ? { resources: {}, prompts: {} } : {}),
             },
             serverInfo: {
               name: 'zoom-api',
@@ -345,6 +722,31 @@ export function createZoomApiRouter(): Router {
           };
           break;
 
+        case 'resources/list':
+          result = { resources: zoomApiResources?.RESOURCES || [] };
+          break;
+
+        case 'resources/read': {
+          const uri = String((mcpRequest.params as { uri?: string })?.uri || '');
+          const content = zoomApiResources?.readResource(uri);
+          result = { contents: [content || { uri, mimeType: 'text/plain', text: `Resource not found: ${uri}` }] };
+          break;
+        }
+
+        case 'prompts/list':
+          result = { prompts: zoomApiResources?.PROMPTS || [] };
+          break;
+
+        case 'prompts/get': {
+          if (!zoomApiResources) {
+            throw new Error('zoom-api prompts are not available. Rebuild the zoom-api package.');
+          }
+
+          const params = mcpRequest.params as { name: string; arguments?: Record<string, string> };
+          result = zoomApiResources.getPrompt(params?.name, params?.arguments);
+          break;
+        }
+
         case 'tools/call': {
           // Execute a tool
           const params = mcpRequest.params as { name: string; arguments?: Record<string, unknown> };
@@ -617,3 +1019,36 @@ export function createZoomApiRouter(): Router {
 
   return router;
 }
+
+/**
+ * Create Express router for the mock Zoom REST API
+ * Mount it at /zoom-mock and use <proxy>/zoom-mock/v2 as the Zoom API base URL.
+ */
+export function createZoomMockRouter(): Router {
+  const router = Router();
+
+  router.all('*', (req: Request, res: Response) => {
+    if (!zoomApiMock) {
+      res.status(503).json({ code: 503, message: 'Zoom API mock server not available' });
+      return;
+    }
+
+    const response = zoomApiMock.handleMockRequest({
+      method: req.method,
+      path: req.path,
+      query: req.query as Record<string, any>,
+      headers: req.headers,
+      body: req.body,
+    });
+
+    res.status(response.status).set(response.headers);
+
+    if (response.body === undefined) {
+      res.end();
+    } else {
+      res.json(response.body);
+    }
+  });
+
+  return router;
+}
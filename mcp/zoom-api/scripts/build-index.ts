@@ -17,6 +17,9 @@ const __dirname = dirname(__filename);
 const RAW_SPECS_DIR = join(__dirname, '..', 'data', 'raw-specs');
 const OUTPUT_DIR = join(__dirname, '..', 'src', 'data');
 const ENDPOINTS_DIR = join(OUTPUT_DIR, 'endpoints');
+const RAW_EVENTS_DIR = join(RAW_SPECS_DIR, 'events');
+const EVENTS_DIR = join(OUTPUT_DIR, 'events');
+const SNAPSHOTS_DIR = join(OUTPUT_DIR, 'snapshots');
 
 // Types for processed data
 interface EndpointSummary {
@@ -28,6 +31,7 @@ interface EndpointSummary {
   description?: string;
   tags?: string[];
   scopes?: string[];
+  deprecated?: boolean;
 }
 
 interface EndpointDetails {
@@ -77,6 +81,29 @@ interface PropertyInfo {
   description?: string;
   enum?: string[];
   required?: boolean;
+  /** Nested object or array schema (only kept for webhook event payloads) */
+  schema?: SchemaInfo;
+}
+
+interface EventSummary {
+  name: string;
+  category: string;
+  summary: string;
+  description?: string;
+  scopes?: string[];
+}
+
+interface EventDetails extends EventSummary {
+  schema?: SchemaInfo;
+  sample?: unknown;
+}
+
+interface IndexSnapshot {
+  id: string;
+  createdAt: string;
+  label?: string;
+  specVersions: Record<string, string>;
+  endpoints: Array<Pick<EndpointSummary, 'id' | 'method' | 'path' | 'summary' | 'scopes' | 'deprecated'>>;
 }
 
 interface CategoryInfo {
@@ -193,6 +220,9 @@ function extractResponses(responses: any): Record<string, ResponseInfo> | undefi
   return result;
 }
 
+// info.version of each processed spec, recorded in the snapshot
+const specVersions: Record<string, string> = {};
+
 // Process a single spec file
 function processSpec(category: string, specPath: string): { 
   summaries: EndpointSummary[]; 
@@ -233,6 +263,7 @@ function processSpec(category: string, specPath: string): {
         description: operation.description?.substring(0, 200),
         tags: operation.tags,
         scopes,
+        deprecated: operation.deprecated || undefined,
       });
 
       // Create detailed info
@@ -253,6 +284,8 @@ function processSpec(category: string, specPath: string): {
     }
   }
 
+  specVersions[category] = rawSpec.info?.version || 'unknown';
+
   const categoryInfo: CategoryInfo = {
     id: category,
     name: category.split('-').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' '),
@@ -266,6 +299,161 @@ function processSpec(category: string, specPath: string): {
   return { summaries, details, categoryInfo };
 }
 
+// Simplify a webhook payload schema, keeping nested objects (handlers read payload.object.*)
+function simplifyEventSchema(schema: any, depth = 0): SchemaInfo | undefined {
+  if (!schema || depth > 5) return undefined;
+
+  // Merge allOf parts into a single object schema
+  if (schema.allOf) {
+    const merged = { type: 'object', properties: {}, required: [] as string[] };
+    for (const part of schema.allOf) {
+      Object.assign(merged.properties, part.properties || {});
+      merged.required.push(...(part.required || []));
+    }
+    return simplifyEventSchema(merged, depth);
+  }
+
+  const result: SchemaInfo = {
+    type: schema.type || 'object',
+  };
+
+  if (schema.properties) {
+    result.properties = {};
+    for (const [name, prop] of Object.entries(schema.properties) as [string, any][]) {
+      const nested = prop.properties || prop.allOf || prop.items ? simplifyEventSchema(prop, depth + 1) : undefined;
+      result.properties[name] = {
+        type: prop.type || (prop.properties || prop.allOf ? 'object' : 'unknown'),
+        description: prop.description,
+        enum: prop.enum,
+        schema: nested,
+      };
+    }
+    result.required = schema.required?.length ? schema.required : undefined;
+  }
+
+  if (schema.items) {
+    result.items = simplifyEventSchema(schema.items, depth + 1);
+  }
+
+  return result;
+}
+
+// Build an example value from a simplified schema
+function sampleFromSchema(schema: SchemaInfo | undefined): unknown {
+  if (!schema) return null;
+
+  if (schema.type === 'array') {
+    return schema.items ? [sampleFromSchema(schema.items)] : [];
+  }
+
+  if (schema.type !== 'object') {
+    return samplePrimitive(schema.type);
+  }
+
+  const sample: Record<string, unknown> = {};
+  for (const [name, prop] of Object.entries(schema.properties || {})) {
+    sample[name] = prop.schema ? sampleFromSchema(prop.schema) : prop.enum?.[0] ?? samplePrimitive(prop.type);
+  }
+  return sample;
+}
+
+function samplePrimitive(type: string): unknown {
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'string':
+      return 'string';
+    case 'array':
+      return [];
+    default:
+      return {};
+  }
+}
+
+// Event subscription scopes: security requirements, or any x-*scope* extension holding a string list
+function extractEventScopes(operation: any): string[] {
+  const scopes = extractScopes(operation);
+  for (const [key, value] of Object.entries(operation)) {
+    if (key.startsWith('x-') && key.toLowerCase().includes('scope') && Array.isArray(value)) {
+      scopes.push(...value.filter((scope): scope is string => typeof scope === 'string'));
+    }
+  }
+  return [...new Set(scopes)];
+}
+
+// Process a single webhook event spec file
+function processEventSpec(category: string, specPath: string): EventDetails[] {
+  console.log(`Processing ${category} events...`);
+
+  const rawSpec = JSON.parse(readFileSync(specPath, 'utf-8'));
+  const webhooks = rawSpec.webhooks || {};
+  const events: EventDetails[] = [];
+
+  for (const [key, item] of Object.entries(webhooks) as [string, any][]) {
+    const operation = item.post || item;
+    const content = operation.requestBody?.content || {};
+    const mediaType = content['application/json'] || content[Object.keys(content)[0]];
+    const schema = simplifyEventSchema(mediaType?.schema);
+
+    // The event type is the enum of the "event" field; fall back to the webhook key
+    const name = schema?.properties?.event?.enum?.[0] || key;
+    const example = mediaType?.example ?? Object.values(mediaType?.examples || {})[0];
+
+    events.push({
+      name,
+      category,
+      summary: operation.summary || operation.operationId || name,
+      description: operation.description,
+      scopes: extractEventScopes(operation),
+      schema,
+      sample: (example as any)?.value ?? example ?? sampleFromSchema(schema),
+    });
+  }
+
+  console.log(`  ✓ Found ${events.length} events`);
+
+  return events;
+}
+
+// Write a versioned snapshot of the endpoint index, unless it matches the latest one
+function writeSnapshot(summaries: EndpointSummary[], label?: string): string | null {
+  mkdirSync(SNAPSHOTS_DIR, { recursive: true });
+
+  const endpoints = summaries
+    .map(({ id, method, path, summary, scopes, deprecated }) => ({ id, method, path, summary, scopes, deprecated }))
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  const existing = readdirSync(SNAPSHOTS_DIR)
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => JSON.parse(readFileSync(join(SNAPSHOTS_DIR, f), 'utf-8')) as IndexSnapshot)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const latest = existing[existing.length - 1];
+
+  if (latest && JSON.stringify(latest.endpoints) === JSON.stringify(endpoints)) {
+    return null;
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  let id = date;
+  for (let n = 2; existing.some((snapshot) => snapshot.id === id); n++) {
+    id = `${date}-${n}`;
+  }
+
+  const snapshot: IndexSnapshot = {
+    id,
+    createdAt: new Date().toISOString(),
+    label,
+    specVersions,
+    endpoints,
+  };
+  writeFileSync(join(SNAPSHOTS_DIR, `${id}.json`), JSON.stringify(snapshot, null, 2));
+
+  return id;
+}
+
 async function main(): Promise<void> {
   console.log('='.repeat(60));
   console.log('Zoom API Index Builder');
@@ -334,6 +522,46 @@ async function main(): Promise<void> {
   writeFileSync(scopesPath, JSON.stringify(scopesMap, null, 2));
   console.log(`✓ Wrote scopes map: ${scopesPath}`);
 
+  // Versioned snapshot (npm run build-index -- --label "<name>")
+  const labelIndex = process.argv.indexOf('--label');
+  const snapshotId = writeSnapshot(allSummaries, labelIndex >= 0 ? process.argv[labelIndex + 1] : undefined);
+  console.log(snapshotId ? `✓ Wrote index snapshot: ${snapshotId}` : '✓ Index unchanged since the latest snapshot');
+
+  // Webhook events (optional: older raw-specs directories have none)
+  const allEvents: EventSummary[] = [];
+  const eventSpecFiles = existsSync(RAW_EVENTS_DIR)
+    ? readdirSync(RAW_EVENTS_DIR).filter((f) => f.endsWith('.json'))
+    : [];
+
+  if (eventSpecFiles.length > 0) {
+    mkdirSync(EVENTS_DIR, { recursive: true });
+  }
+
+  for (const specFile of eventSpecFiles) {
+    const category = basename(specFile, '.json');
+
+    try {
+      for (const event of processEventSpec(category, join(RAW_EVENTS_DIR, specFile))) {
+        const eventPath = join(EVENTS_DIR, `${event.name.replace(/[^a-zA-Z0-9._-]/g, '-')}.json`);
+        writeFileSync(eventPath, JSON.stringify(event, null, 2));
+
+        allEvents.push({
+          name: event.name,
+          category: event.category,
+          summary: event.summary,
+          description: event.description?.substring(0, 200),
+          scopes: event.scopes,
+        });
+      }
+    } catch (error) {
+      console.error(`  ✗ Failed to process ${category} events:`, error);
+    }
+  }
+
+  const eventsIndexPath = join(OUTPUT_DIR, 'events-index.json');
+  writeFileSync(eventsIndexPath, JSON.stringify(allEvents, null, 2));
+  console.log(`✓ Wrote events index: ${eventsIndexPath}`);
+
   // Summary
   console.log('\n' + '='.repeat(60));
   console.log('Summary');
@@ -341,6 +569,7 @@ async function main(): Promise<void> {
   console.log(`Categories processed: ${categories.length}`);
   console.log(`Total endpoints: ${allSummaries.length}`);
   console.log(`Endpoint detail files: ${allSummaries.length}`);
+  console.log(`Webhook events: ${allEvents.length}`);
   console.log(`\nOutput directory: ${OUTPUT_DIR}`);
 }
 
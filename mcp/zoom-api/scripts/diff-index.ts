@@ -0,0 +1,68 @@
+#!/usr/bin/env tsx
+/**
+ * Print the changes between two index snapshots
+ * Run with: npm run diff-index [-- <from> <to>]
+ *
+ * Defaults to the two most recent snapshots written by build-index.
+ */
+
+import { diffSnapshots } from '../src/changes.js';
+import { listSnapshots, loadSnapshot } from '../src/data/loader.js';
+
+function main(): void {
+  console.log('='.repeat(60));
+  console.log('Zoom API Index Changes');
+  console.log('='.repeat(60));
+  console.log('');
+
+  const snapshots = listSnapshots();
+  const [fromArg, toArg] = process.argv.slice(2);
+  const fromId = fromArg || snapshots[snapshots.length - 2]?.id;
+  const toId = toArg || snapshots[snapshots.length - 1]?.id;
+
+  if (!fromId || !toId) {
+    console.error('Need at least two snapshots. Run "npm run build-index" after the specs change.');
+    process.exit(1);
+  }
+
+  const from = loadSnapshot(fromId);
+  const to = loadSnapshot(toId);
+
+  if (!from || !to) {
+    console.error(`Snapshot not found: ${!from ? fromId : toId}`);
+    console.error(`Available: ${snapshots.map((s) => s.id).join(', ') || 'none'}`);
+    process.exit(1);
+  }
+
+  const report = diffSnapshots(from, to);
+
+  console.log(`From: ${report.from.id}${report.from.label ? ` (${report.from.label})` : ''}`);
+  console.log(`To:   ${report.to.id}${report.to.label ? ` (${report.to.label})` : ''}`);
+
+  for (const [category, versions] of Object.entries(report.specVersionChanges)) {
+    console.log(`  ${category}: ${versions.from || '-'} -> ${versions.to || '-'}`);
+  }
+
+  const sections: Array<[string, string[]]> = [
+    ['Added', report.added.map((ep) => `+ ${ep.method} ${ep.path}`)],
+    ['Removed', report.removed.map((ep) => `- ${ep.method} ${ep.path}`)],
+    ['Deprecated', report.deprecated.map((ep) => `! ${ep.method} ${ep.path}`)],
+    [
+      'Scope changes',
+      report.scopeChanges.map(
+        (change) =>
+          `~ ${change.endpoint.method} ${change.endpoint.path}` +
+          `${change.addedScopes.length ? ` +[${change.addedScopes.join(', ')}]` : ''}` +
+          `${change.removedScopes.length ? ` -[${change.removedScopes.join(', ')}]` : ''}`,
+      ),
+    ],
+  ];
+
+  for (const [title, lines] of sections) {
+    console.log('');
+    console.log(`${title}: ${lines.length}`);
+    lines.forEach((line) => console.log(`  ${line}`));
+  }
+}
+
+main();
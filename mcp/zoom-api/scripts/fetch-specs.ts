@@ -22,9 +22,19 @@ const API_SPECS: Record<string, string> = {
   marketplace: 'https://developers.zoom.us/api-hub/marketplace/methods/endpoints.json',
 };
 
+// Webhook event specs (OpenAPI "webhooks" documents) for the same products
+const WEBHOOK_SPECS: Record<string, string> = {
+  meetings: 'https://developers.zoom.us/api-hub/meetings/events/webhooks.json',
+  users: 'https://developers.zoom.us/api-hub/users/events/webhooks.json',
+  phone: 'https://developers.zoom.us/api-hub/phone/events/webhooks.json',
+  'contact-center': 'https://developers.zoom.us/api-hub/contact-center/events/webhooks.json',
+  accounts: 'https://developers.zoom.us/api-hub/accounts/events/webhooks.json',
+};
+
 const RAW_SPECS_DIR = join(__dirname, '..', 'data', 'raw-specs');
+const RAW_EVENTS_DIR = join(RAW_SPECS_DIR, 'events');
 
-async function fetchSpec(category: string, url: string): Promise<void> {
+async function fetchSpec(category: string, url: string, outputDir = RAW_SPECS_DIR): Promise<void> {
   console.log(`Fetching ${category} spec from ${url}...`);
   
   try {
@@ -40,7 +50,7 @@ async function fetchSpec(category: string, url: string): Promise<void> {
     }
 
     const data = await response.json();
-    const outputPath = join(RAW_SPECS_DIR, `${category}.json`);
+    const outputPath = join(outputDir, `${category}.json`);
     
     writeFileSync(outputPath, JSON.stringify(data, null, 2));
     console.log(`  ✓ Saved to ${outputPath}`);
@@ -56,10 +66,10 @@ async function main(): Promise<void> {
   console.log('='.repeat(60));
   console.log('');
 
-  // Create output directory
-  if (!existsSync(RAW_SPECS_DIR)) {
-    mkdirSync(RAW_SPECS_DIR, { recursive: true });
-    console.log(`Created directory: ${RAW_SPECS_DIR}`);
+  // Create output directories
+  if (!existsSync(RAW_EVENTS_DIR)) {
+    mkdirSync(RAW_EVENTS_DIR, { recursive: true });
+    console.log(`Created directory: ${RAW_EVENTS_DIR}`);
   }
 
   // Fetch all specs
@@ -78,6 +88,20 @@ async function main(): Promise<void> {
     }
   }
 
+  // Fetch webhook event specs
+  for (const [category, url] of Object.entries(WEBHOOK_SPECS)) {
+    try {
+      await fetchSpec(category, url, RAW_EVENTS_DIR);
+      results.push({ category: `${category} events`, success: true });
+    } catch (error) {
+      results.push({ 
+        category: `${category} events`, 
+        success: false, 
+        error: error instanceof Error ? error.message : String(error) 
+      });
+    }
+  }
+
   // Summary
   console.log('');
   console.log('='.repeat(60));
@@ -0,0 +1,130 @@
+/**
+ * Change reports between index snapshots
+ * Compares two versioned snapshots of the endpoint index (see build-index.ts)
+ * and finds which REST calls of an app are affected by the changes.
+ */
+
+import { findBestTemplateMatch } from './data/loader.js';
+import type { IndexChangeReport, IndexSnapshot, SnapshotEndpoint, SnapshotInfo } from './types.js';
+
+export type ChangeKind = 'removed' | 'deprecated' | 'scopes-changed';
+
+export interface AffectedCall {
+  method: string;
+  path: string;
+  change: ChangeKind;
+  endpoint: SnapshotEndpoint;
+  addedScopes?: string[];
+  removedScopes?: string[];
+}
+
+function toInfo(snapshot: IndexSnapshot): SnapshotInfo {
+  return {
+    id: snapshot.id,
+    createdAt: snapshot.createdAt,
+    label: snapshot.label,
+    endpointCount: snapshot.endpoints.length,
+  };
+}
+
+/**
+ * Endpoints are keyed by method and path; IDs are derived from both, so this also survives ID scheme changes
+ */
+function endpointKey(endpoint: SnapshotEndpoint): string {
+  return `${endpoint.method.toUpperCase()} ${endpoint.path}`;
+}
+
+/**
+ * Diff two index snapshots
+ */
+export function diffSnapshots(from: IndexSnapshot, to: IndexSnapshot): IndexChangeReport {
+  const before = new Map(from.endpoints.map((endpoint) => [endpointKey(endpoint), endpoint]));
+  const after = new Map(to.endpoints.map((endpoint) => [endpointKey(endpoint), endpoint]));
+  const report: IndexChangeReport = {
+    from: toInfo(from),
+    to: toInfo(to),
+    added: [],
+    removed: [],
+    deprecated: [],
+    scopeChanges: [],
+    specVersionChanges: {},
+  };
+
+  for (const [key, endpoint] of after) {
+    const previous = before.get(key);
+
+    if (!previous) {
+      report.added.push(endpoint);
+      continue;
+    }
+
+    if (endpoint.deprecated && !previous.deprecated) {
+      report.deprecated.push(endpoint);
+    }
+
+    const previousScopes = previous.scopes || [];
+    const scopes = endpoint.scopes || [];
+    const addedScopes = scopes.filter((scope) => !previousScopes.includes(scope));
+    const removedScopes = previousScopes.filter((scope) => !scopes.includes(scope));
+
+    if (addedScopes.length > 0 || removedScopes.length > 0) {
+      report.scopeChanges.push({ endpoint, addedScopes, removedScopes });
+    }
+  }
+
+  for (const [key, endpoint] of before) {
+    if (!after.has(key)) {
+      report.removed.push(endpoint);
+    }
+  }
+
+  for (const category of new Set([...Object.keys(from.specVersions), ...Object.keys(to.specVersions)])) {
+    if (from.specVersions[category] !== to.specVersions[category]) {
+      report.specVersionChanges[category] = { from: from.specVersions[category], to: to.specVersions[category] };
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Find the calls (e.g. from an app's source) hit by removed, deprecated or re-scoped endpoints
+ */
+export function findAffectedCalls(
+  report: IndexChangeReport,
+  calls: Array<{ method?: string; path: string }>,
+): AffectedCall[] {
+  const affected: AffectedCall[] = [];
+
+  for (const call of calls) {
+    const method = (call.method || 'GET').toUpperCase();
+    const removed = findBestTemplateMatch(report.removed, method, call.path);
+    const deprecated = findBestTemplateMatch(report.deprecated, method, call.path);
+    const scopeChange = findBestTemplateMatch(
+      report.scopeChanges.map((change) => ({ ...change, method: change.endpoint.method, path: change.endpoint.path })),
+      method,
+      call.path,
+    );
+
+    if (removed) {
+      affected.push({ method, path: call.path, change: 'removed', endpoint: removed });
+    }
+
+    if (deprecated) {
+      affected.push({ method, path: call.path, change: 'deprecated', endpoint: deprecated });
+    }
+
+    if (scopeChange) {
+      affected.push({
+        method,
+        path: call.path,
+        change: 'scopes-changed',
+        endpoint: scopeChange.endpoint,
+        addedScopes: scopeChange.addedScopes,
+        removedScopes: scopeChange.removedScopes,
+      });
+    }
+  }
+
+  return affected;
+}
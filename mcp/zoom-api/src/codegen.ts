@@ -0,0 +1,393 @@
+/**
+ * Code generation for Zoom API endpoints
+ * Turns the simplified schemas in the endpoint index into TypeScript
+ * interfaces, Zod schemas and typed client functions.
+ *
+ * The index keeps schemas shallow (see scripts/build-index.ts), so nested
+ * objects without properties are typed as Record<string, unknown>.
+ */
+
+import type { EndpointDetails, EventDetails, ParameterInfo, PropertyInfo, SchemaInfo } from './types.js';
+
+export type SchemaFormat = 'typescript' | 'zod';
+
+export interface GeneratedSchemas {
+  /** Type names, e.g. CreateMeetingRequest / CreateMeetingResponse */
+  requestType?: string;
+  responseType?: string;
+  code: string;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Build a PascalCase type name base from an endpoint summary (e.g. "Create a meeting" -> "CreateMeeting")
+ */
+export function getTypeBaseName(endpoint: EndpointDetails): string {
+  const words = (endpoint.summary || endpoint.id)
+    .replace(/[^A-Za-z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !['a', 'an', 'the'].includes(word.toLowerCase()));
+
+  const name = words.map((word) => word[0].toUpperCase() + word.slice(1)).join('');
+
+  return /^[A-Za-z]/.test(name) ? name : `Zoom${name}`;
+}
+
+/**
+ * camelCase function name from the type base name
+ */
+export function getFunctionName(endpoint: EndpointDetails): string {
+  const base = getTypeBaseName(endpoint);
+  return base[0].toLowerCase() + base.slice(1);
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER_PATTERN.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(description: string | undefined, indent: string): string {
+  if (!description) {
+    return '';
+  }
+
+  const text = description.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ').trim();
+
+  return `${indent}/** ${text} */\n`;
+}
+
+function isNumericType(type: string): boolean {
+  return type === 'integer' || type === 'number';
+}
+
+/**
+ * Render enum values as literals (numeric enums are stored as strings in the index)
+ */
+function enumLiterals(type: string, enumValues: string[]): string[] {
+  return enumValues.map((value) =>
+    isNumericType(type) && !Number.isNaN(Number(value)) ? String(Number(value)) : JSON.stringify(value),
+  );
+}
+
+function primitiveToTs(type: string, enumValues?: string[]): string {
+  if (enumValues && enumValues.length > 0) {
+    return enumLiterals(type, enumValues).join(' | ');
+  }
+
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'string':
+      return 'string';
+    case 'array':
+      return 'unknown[]';
+    case 'object':
+      return 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+function primitiveToZod(type: string, enumValues?: string[]): string {
+  if (enumValues && enumValues.length > 0) {
+    if (!isNumericType(type)) {
+      return `z.enum([${enumLiterals(type, enumValues).join(', ')}])`;
+    }
+
+    const literals = enumLiterals(type, enumValues).map((value) => `z.literal(${value})`);
+
+    return literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`;
+  }
+
+  switch (type) {
+    case 'integer':
+      return 'z.number().int()';
+    case 'number':
+      return 'z.number()';
+    case 'boolean':
+      return 'z.boolean()';
+    case 'string':
+      return 'z.string()';
+    case 'array':
+      return 'z.array(z.unknown())';
+    case 'object':
+      return 'z.record(z.unknown())';
+    default:
+      return 'z.unknown()';
+  }
+}
+
+function isRequired(schema: SchemaInfo, name: string, property: PropertyInfo): boolean {
+  return !!schema.required?.includes(name) || !!property.required;
+}
+
+/**
+ * Render a schema as a TypeScript type expression
+ */
+export function schemaToTypeScript(schema: SchemaInfo, indent = ''): string {
+  if (schema.type === 'array') {
+    const itemType = schema.items ? schemaToTypeScript(schema.items, indent) : 'unknown';
+    return /^[\w<>, ]+$/.test(itemType) ? `${itemType}[]` : `Array<${itemType}>`;
+  }
+
+  if (schema.type !== 'object' || !schema.properties) {
+    return primitiveToTs(schema.type);
+  }
+
+  const inner = `${indent}  `;
+  const lines = Object.entries(schema.properties).map(([name, property]) => {
+    const optional = isRequired(schema, name, property) ? '' : '?';
+    const type = property.schema
+      ? schemaToTypeScript(property.schema, inner)
+      : primitiveToTs(property.type, property.enum);
+
+    return `${docComment(property.description, inner)}${inner}${propertyKey(name)}${optional}: ${type};`;
+  });
+
+  return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, unknown>';
+}
+
+/**
+ * Render a schema as a Zod schema expression
+ */
+export function schemaToZod(schema: SchemaInfo, indent = ''): string {
+  if (schema.type === 'array') {
+    return `z.array(${schema.items ? schemaToZod(schema.items, indent) : 'z.unknown()'})`;
+  }
+
+  if (schema.type !== 'object' || !schema.properties) {
+    return primitiveToZod(schema.type);
+  }
+
+  const inner = `${indent}  `;
+  const lines = Object.entries(schema.properties).map(([name, property]) => {
+    const optional = isRequired(schema, name, property) ? '' : '.optional()';
+    const describe = property.description
+      ? `.describe(${JSON.stringify(property.description.replace(/\s+/g, ' ').trim())})`
+      : '';
+
+    const type = property.schema ? schemaToZod(property.schema, inner) : primitiveToZod(property.type, property.enum);
+
+    return `${inner}${propertyKey(name)}: ${type}${optional}${describe},`;
+  });
+
+  return lines.length > 0 ? `z.object({\n${lines.join('\n')}\n${indent}})` : 'z.record(z.unknown())';
+}
+
+/**
+ * Pick the success response (lowest 2xx status) of an endpoint
+ */
+export function getSuccessResponse(endpoint: EndpointDetails): { status: string; schema?: SchemaInfo } | null {
+  const status = Object.keys(endpoint.responses || {})
+    .filter((code) => /^2\d\d$/.test(code))
+    .sort()[0];
+
+  return status ? { status, schema: endpoint.responses![status].schema } : null;
+}
+
+function renderDeclaration(name: string, schema: SchemaInfo, format: SchemaFormat, description?: string): string {
+  const doc = docComment(description, '');
+
+  if (format === 'zod') {
+    return `${doc}export const ${name}Schema = ${schemaToZod(schema)};\n\nexport type ${name} = z.infer<typeof ${name}Schema>;`;
+  }
+
+  const type = schemaToTypeScript(schema);
+
+  return type.startsWith('{') ? `${doc}export interface ${name} ${type}` : `${doc}export type ${name} = ${type};`;
+}
+
+/**
+ * Generate request and/or response types for an endpoint
+ *
+ * @param endpoint - Endpoint details from the index
+ * @param format - TypeScript interfaces or Zod schemas
+ * @param target - Which types to generate
+ */
+export function generateEndpointSchemas(
+  endpoint: EndpointDetails,
+  format: SchemaFormat,
+  target: 'request' | 'response' | 'all' = 'all',
+): GeneratedSchemas {
+  const base = getTypeBaseName(endpoint);
+  const blocks: string[] = [];
+  const result: GeneratedSchemas = { code: '' };
+
+  if (format === 'zod') {
+    blocks.push(`import { z } from 'zod';`);
+  }
+
+  if (target !== 'response' && endpoint.requestBody) {
+    result.requestType = `${base}Request`;
+    blocks.push(
+      renderDeclaration(
+        result.requestType,
+        endpoint.requestBody.schema,
+        format,
+        `Request body for ${endpoint.method} ${endpoint.path}`,
+      ),
+    );
+  }
+
+  const success = target !== 'request' ? getSuccessResponse(endpoint) : null;
+
+  if (success?.schema) {
+    result.responseType = `${base}Response`;
+    blocks.push(
+      renderDeclaration(
+        result.responseType,
+        success.schema,
+        format,
+        `${success.status} response of ${endpoint.method} ${endpoint.path}`,
+      ),
+    );
+  }
+
+  result.code = blocks.join('\n\n');
+
+  return result;
+}
+
+/**
+ * Generate the webhook request body type for an event (e.g. meeting.started -> MeetingStartedEvent)
+ */
+export function generateEventSchema(event: EventDetails, format: SchemaFormat): { typeName: string; code: string } {
+  const base = event.name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  const typeName = `${base}Event`;
+  const declaration = renderDeclaration(
+    typeName,
+    event.schema || { type: 'object' },
+    format,
+    `Webhook body for the ${event.name} event`,
+  );
+
+  return {
+    typeName,
+    code: format === 'zod' ? `import { z } from 'zod';\n\n${declaration}` : declaration,
+  };
+}
+
+function parameterToTs(parameter: ParameterInfo): string {
+  return primitiveToTs(parameter.type, parameter.enum);
+}
+
+/**
+ * Generate a typed fetch-based client function for an endpoint
+ *
+ * The function takes the OAuth access token, path parameters, query parameters
+ * and request body, and returns the typed success response.
+ *
+ * @param endpoint - Endpoint details from the index
+ * @param options.functionName - Override the name derived from the endpoint summary
+ * @param options.validate - Parse the response with the generated Zod schema
+ */
+export function generateClientFunction(
+  endpoint: EndpointDetails,
+  options: { functionName?: string; validate?: boolean } = {},
+): string {
+  const format: SchemaFormat = options.validate ? 'zod' : 'typescript';
+  const schemas = generateEndpointSchemas(endpoint, format);
+  const functionName = options.functionName || getFunctionName(endpoint);
+  const pathParams = (endpoint.parameters || []).filter((p) => p.in === 'path');
+  const queryParams = (endpoint.parameters || []).filter((p) => p.in === 'query');
+  const responseType = schemas.responseType || 'void';
+  const queryRequired = queryParams.some((p) => p.required);
+
+  const args: string[] = ['accessToken: string'];
+
+  if (pathParams.length > 0) {
+    args.push(
+      `params: { ${pathParams.map((p) => `${propertyKey(p.name)}: ${parameterToTs(p) === 'number' ? 'number | string' : 'string'}`).join('; ')} }`,
+    );
+  }
+
+  if (schemas.requestType) {
+    if (endpoint.requestBody?.required) {
+      args.push(`body: ${schemas.requestType}`);
+    } else if (queryRequired) {
+      // An optional parameter cannot precede the required query parameter
+      args.push(`body: ${schemas.requestType} | undefined`);
+    } else {
+      args.push(`body?: ${schemas.requestType}`);
+    }
+  }
+
+  if (queryParams.length > 0) {
+    const queryType = `{ ${queryParams.map((p) => `${propertyKey(p.name)}${p.required ? '' : '?'}: ${parameterToTs(p)}`).join('; ')} }`;
+
+    // Callers must pass required query parameters, so only an all-optional query gets a default
+    args.push(queryRequired ? `query: ${queryType}` : `query: ${queryType} = {}`);
+  }
+
+  const path = endpoint.path.replace(/\{(\w+)\}/g, (_match, name: string) => {
+    return `\${encodeURIComponent(String(params.${name}))}`;
+  });
+
+  const bodyLines: string[] = [];
+
+  if (queryParams.length > 0) {
+    bodyLines.push(
+      '  const search = new URLSearchParams();',
+      '',
+      '  for (const [key, value] of Object.entries(query)) {',
+      '    if (value !== undefined) {',
+      '      search.set(key, String(value));',
+      '    }',
+      '  }',
+      '',
+      '  const queryString = search.toString();',
+      `  const url = \`https://api.zoom.us/v2${path}\${queryString ? \`?\${queryString}\` : ''}\`;`,
+    );
+  } else {
+    bodyLines.push(`  const url = \`https://api.zoom.us/v2${path}\`;`);
+  }
+
+  bodyLines.push(
+    '',
+    '  const response = await fetch(url, {',
+    `    method: '${endpoint.method.toUpperCase()}',`,
+    '    headers: {',
+    '      Authorization: `Bearer ${accessToken}`,',
+    ...(schemas.requestType ? ["      'Content-Type': 'application/json',"] : []),
+    '    },',
+    ...(schemas.requestType ? ['    body: body === undefined ? undefined : JSON.stringify(body),'] : []),
+    '  });',
+    '',
+    '  if (!response.ok) {',
+    '    const error = (await response.json().catch(() => ({}))) as { code?: number; message?: string };',
+    `    throw new Error(\`${functionName} failed (\${response.status}): \${error.message || response.statusText}\`);`,
+    '  }',
+  );
+
+  if (responseType === 'void') {
+    bodyLines.push('}');
+  } else {
+    bodyLines.push(
+      '',
+      options.validate
+        ? `  return ${responseType}Schema.parse(await response.json());`
+        : `  return (await response.json()) as ${responseType};`,
+      '}',
+    );
+  }
+
+  const doc = [
+    '/**',
+    ` * ${endpoint.summary}`,
+    ` * ${endpoint.method.toUpperCase()} ${endpoint.path}`,
+    ...(endpoint.scopes && endpoint.scopes.length > 0 ? [` * Scopes: ${endpoint.scopes.join(', ')}`] : []),
+    ...(endpoint.deprecated ? [' * @deprecated'] : []),
+    ' */',
+  ].join('\n');
+
+  const fn = `${doc}\nexport async function ${functionName}(${args.join(', ')}): Promise<${responseType}> {\n${bodyLines.join('\n')}`;
+
+  return [schemas.code, fn].filter(Boolean).join('\n\n');
+}
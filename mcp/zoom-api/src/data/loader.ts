@@ -3,10 +3,18 @@
  * Loads pre-processed JSON data from disk
  */
 
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, readdirSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import type { CategoryInfo, EndpointSummary, EndpointDetails } from '../types.js';
+import type {
+  CategoryInfo,
+  EndpointSummary,
+  EndpointDetails,
+  EventSummary,
+  EventDetails,
+  IndexSnapshot,
+  SnapshotInfo,
+} from '../types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -14,11 +22,14 @@ const __dirname = dirname(__filename);
 // Data directory path
 const DATA_DIR = __dirname;
 const ENDPOINTS_DIR = join(DATA_DIR, 'endpoints');
+const EVENTS_DIR = join(DATA_DIR, 'events');
+const SNAPSHOTS_DIR = join(DATA_DIR, 'snapshots');
 
 // Cached data
 let categoriesCache: CategoryInfo[] | null = null;
 let endpointsIndexCache: EndpointSummary[] | null = null;
 let scopesMapCache: Record<string, string[]> | null = null;
+let eventsIndexCache: EventSummary[] | null = null;
 
 /**
  * Load categories index
@@ -203,6 +214,177 @@ export function getScopesForEndpoints(endpointIds: string[]): Record<string, str
   return result;
 }
 
+/**
+ * Find the endpoint that serves a concrete request path
+ * Literal segments must match exactly; {param} segments match any value.
+ * When several templates match, the one with the most literal segments wins
+ * (e.g. /users/me beats /users/{userId} if both exist).
+ */
+export function matchEndpointByPath(method: string, path: string): EndpointSummary | null {
+  return findBestTemplateMatch(loadEndpointsIndex(), method, path);
+}
+
+/**
+ * Match a request path against a path template
+ * Returns the number of literal segments matched, or null if the path does not match.
+ */
+export function matchPathTemplate(templatePath: string, path: string): number | null {
+  const segments = path.split('?')[0].split('/').filter(Boolean);
+  const templateSegments = templatePath.split('/').filter(Boolean);
+
+  if (templateSegments.length !== segments.length) {
+    return null;
+  }
+
+  let literals = 0;
+
+  for (let i = 0; i < templateSegments.length; i++) {
+    const template = templateSegments[i];
+
+    if (template.startsWith('{') && template.endsWith('}')) {
+      continue;
+    }
+
+    if (template !== segments[i]) {
+      return null;
+    }
+
+    literals++;
+  }
+
+  return literals;
+}
+
+/**
+ * Pick the endpoint whose template matches the path with the most literal segments
+ */
+export function findBestTemplateMatch<T extends { method: string; path: string }>(
+  endpoints: T[],
+  method: string,
+  path: string,
+): T | null {
+  let best: { endpoint: T; literals: number } | null = null;
+
+  for (const endpoint of endpoints) {
+    if (endpoint.method.toUpperCase() !== method.toUpperCase()) {
+      continue;
+    }
+
+    const literals = matchPathTemplate(endpoint.path, path);
+
+    if (literals !== null && (!best || literals > best.literals)) {
+      best = { endpoint, literals };
+    }
+  }
+
+  return best?.endpoint || null;
+}
+
+/**
+ * Load webhook events index (summaries only)
+ */
+export function loadEventsIndex(): EventSummary[] {
+  if (eventsIndexCache) {
+    return eventsIndexCache;
+  }
+
+  const filePath = join(DATA_DIR, 'events-index.json');
+
+  if (!existsSync(filePath)) {
+    console.warn(`Events index file not found: ${filePath}`);
+
+    return getPlaceholderEvents();
+  }
+
+  try {
+    eventsIndexCache = JSON.parse(readFileSync(filePath, 'utf-8'));
+
+    return eventsIndexCache!;
+  } catch (error) {
+    console.error('Failed to load events index:', error);
+
+    return getPlaceholderEvents();
+  }
+}
+
+/**
+ * Load webhook event details by event type (e.g. "meeting.started")
+ */
+export function loadEventDetails(eventName: string): EventDetails | null {
+  const filePath = join(EVENTS_DIR, `${eventName.replace(/[^a-zA-Z0-9._-]/g, '-')}.json`);
+
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    console.error(`Failed to load event ${eventName}:`, error);
+
+    return null;
+  }
+}
+
+/**
+ * List webhook events, optionally filtered by category and a keyword query
+ */
+export function findEvents(options: { category?: string; query?: string; limit?: number } = {}): EventSummary[] {
+  const terms = (options.query || '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  const events = loadEventsIndex().filter((event) => {
+    if (options.category && event.category !== options.category) {
+      return false;
+    }
+
+    const searchableText = [event.name, event.summary, event.description || ''].join(' ').toLowerCase();
+
+    return terms.every((term) => searchableText.includes(term));
+  });
+
+  return options.limit ? events.slice(0, options.limit) : events;
+}
+
+/**
+ * Load an index snapshot by ID
+ */
+export function loadSnapshot(snapshotId: string): IndexSnapshot | null {
+  const filePath = join(SNAPSHOTS_DIR, `${snapshotId.replace(/[^a-zA-Z0-9._-]/g, '-')}.json`);
+
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    console.error(`Failed to load snapshot ${snapshotId}:`, error);
+
+    return null;
+  }
+}
+
+/**
+ * List index snapshots, oldest first
+ */
+export function listSnapshots(): SnapshotInfo[] {
+  if (!existsSync(SNAPSHOTS_DIR)) {
+    return [];
+  }
+
+  return readdirSync(SNAPSHOTS_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => loadSnapshot(file.slice(0, -'.json'.length)))
+    .filter((snapshot): snapshot is IndexSnapshot => snapshot !== null)
+    .map((snapshot) => ({
+      id: snapshot.id,
+      createdAt: snapshot.createdAt,
+      label: snapshot.label,
+      endpointCount: snapshot.endpoints.length,
+    }))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
 /**
  * Get all unique scopes used by the API
  */
@@ -306,6 +488,32 @@ function getPlaceholderEndpoints(): EndpointSummary[] {
   ];
 }
 
+function getPlaceholderEvents(): EventSummary[] {
+  return [
+    {
+      name: 'meeting.started',
+      category: 'meetings',
+      summary: 'Meeting started',
+      description: 'Triggered when a meeting starts. Run "npm run prepare-data" to load actual events.',
+      scopes: ['meeting:read:admin', 'meeting:read'],
+    },
+    {
+      name: 'meeting.ended',
+      category: 'meetings',
+      summary: 'Meeting ended',
+      description: 'Triggered when a meeting ends. Run "npm run prepare-data" to load actual events.',
+      scopes: ['meeting:read:admin', 'meeting:read'],
+    },
+    {
+      name: 'meeting.participant_joined',
+      category: 'meetings',
+      summary: 'Participant joined meeting',
+      description: 'Triggered when a participant joins a meeting. Run "npm run prepare-data" to load actual events.',
+      scopes: ['meeting:read:admin', 'meeting:read'],
+    },
+  ];
+}
+
 /**
  * Clear all caches (useful for testing or hot-reloading)
  */
@@ -313,4 +521,5 @@ export function clearCaches(): void {
   categoriesCache = null;
   endpointsIndexCache = null;
   scopesMapCache = null;
+  eventsIndexCache = null;
 }
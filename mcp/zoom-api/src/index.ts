@@ -1,23 +1,29 @@
 #!/usr/bin/env node
 /**
  * Zoom API MCP Server - Entry Point
- * 
+ *
  * Supports both stdio and HTTP transports:
  * - stdio: Default, for local MCP clients (Claude Desktop, etc.)
  * - http: For remote hosting (use --http flag)
- * 
+ * - mock: Offline mock of the Zoom REST API (use --mock flag)
+ *
  * Usage:
  *   npx @zoom/mcp-api-server          # stdio mode
  *   npx @zoom/mcp-api-server --http   # HTTP mode (port 3001)
+ *   npx @zoom/mcp-api-server --mock   # Mock Zoom REST API (port 3002, ZOOM_MOCK_PORT)
  */
 
+import { runMockServer } from './mock.js';
 import { runStdioServer } from './server.js';
 
-// Check for HTTP mode flag
+// Check for HTTP and mock mode flags
 const isHttpMode = process.argv.includes('--http');
+const isMockMode = process.argv.includes('--mock');
 
 async function main(): Promise<void> {
-  if (isHttpMode) {
+  if (isMockMode) {
+    await runMockServer(Number(process.env.ZOOM_MOCK_PORT) || 3002);
+  } else if (isHttpMode) {
     // HTTP mode - for remote hosting
     console.error('HTTP mode not yet implemented. Use stdio mode for now.');
     console.error('For remote hosting, deploy behind a reverse proxy that converts HTTP to stdio.');
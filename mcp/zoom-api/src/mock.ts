@@ -0,0 +1,445 @@
+/**
+ * Mock Zoom REST API
+ * Serves every indexed Zoom REST path with example responses generated from
+ * the endpoint schemas, validates requests against the parameter and body
+ * schemas, and enforces the endpoint's scopes using fake access tokens.
+ *
+ * The handler is transport-agnostic: runMockServer() serves it over node:http,
+ * and the MCP proxy mounts it as an Express router.
+ */
+
+import { createServer } from 'http';
+import { getSuccessResponse } from './codegen.js';
+import { loadEndpointDetails, matchEndpointByPath } from './data/loader.js';
+import type { EndpointDetails, ParameterInfo, PropertyInfo, SchemaInfo } from './types.js';
+
+export interface MockRequest {
+  method: string;
+
+  /** Path relative to the API base, e.g. /v2/users/me or /users/me */
+  path: string;
+  query?: Record<string, string | string[] | undefined>;
+  headers?: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+export interface MockResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface MockTokenClaims {
+  scopes: string[];
+  userId: string;
+  accountId: string;
+}
+
+const TOKEN_PREFIX = 'mock_';
+const MOCK_USER_ID = 'mock-user-id';
+const MOCK_ACCOUNT_ID = 'mock-account-id';
+
+/**
+ * Create a fake access token carrying the given scopes
+ */
+export function createMockToken(scopes: string[], claims: Partial<Omit<MockTokenClaims, 'scopes'>> = {}): string {
+  const payload: MockTokenClaims = {
+    scopes: [...new Set(scopes)],
+    userId: claims.userId || MOCK_USER_ID,
+    accountId: claims.accountId || MOCK_ACCOUNT_ID,
+  };
+
+  return TOKEN_PREFIX + Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a fake access token (null if it was not created by createMockToken)
+ */
+export function parseMockToken(token: string): MockTokenClaims | null {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(token.slice(TOKEN_PREFIX.length), 'base64url').toString('utf-8'));
+    return Array.isArray(claims.scopes) ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a granted scope satisfies a required one (meeting:read covers meeting:read:meeting)
+ */
+function scopeCovers(granted: string, required: string): boolean {
+  return granted === required || required.startsWith(`${granted}:`);
+}
+
+/**
+ * Zoom-style error body ({ code, message })
+ */
+function zoomError(status: number, code: number, message: string): MockResponse {
+  return { status, headers: { 'Content-Type': 'application/json' }, body: { code, message } };
+}
+
+function describeType(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+/**
+ * Enum check; the index keeps enum values as they appear in the spec (strings or numbers)
+ */
+function enumIncludes(values: unknown[], value: unknown): boolean {
+  return values.some((allowed) => String(allowed) === String(value));
+}
+
+function typeMatches(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string':
+      return typeof value === 'string';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Validate query/path parameter strings against their declared type and enum
+ */
+function validateParameter(parameter: ParameterInfo, raw: string): string | null {
+  if ((parameter.type === 'integer' || parameter.type === 'number') && Number.isNaN(Number(raw))) {
+    return `Invalid field: ${parameter.name} must be ${describeType(parameter.type)}`;
+  }
+
+  if (parameter.type === 'boolean' && raw !== 'true' && raw !== 'false') {
+    return `Invalid field: ${parameter.name} must be a boolean`;
+  }
+
+  if (parameter.enum && parameter.enum.length > 0 && !enumIncludes(parameter.enum, raw)) {
+    return `Invalid field: ${parameter.name} must be one of ${parameter.enum.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a JSON value against a simplified schema and collect error messages
+ */
+export function validateAgainstSchema(schema: SchemaInfo, value: unknown, path = 'body'): string[] {
+  if (!typeMatches(schema.type, value)) {
+    return [`Invalid field: ${path} must be ${describeType(schema.type)}`];
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    return (value as unknown[]).flatMap((item, index) =>
+      validateAgainstSchema(schema.items!, item, `${path}[${index}]`),
+    );
+  }
+
+  if (schema.type !== 'object' || !schema.properties) {
+    return [];
+  }
+
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const name of schema.required || []) {
+    if (record[name] === undefined) {
+      errors.push(`Missing field: ${path}.${name}`);
+    }
+  }
+
+  for (const [name, property] of Object.entries(schema.properties)) {
+    if (record[name] === undefined || record[name] === null) {
+      continue;
+    }
+
+    errors.push(...validateProperty(property, record[name], `${path}.${name}`));
+  }
+
+  return errors;
+}
+
+function validateProperty(property: PropertyInfo, value: unknown, path: string): string[] {
+  if (property.schema) {
+    return validateAgainstSchema(property.schema, value, path);
+  }
+
+  if (!typeMatches(property.type, value)) {
+    return [`Invalid field: ${path} must be ${describeType(property.type)}`];
+  }
+
+  if (property.enum && property.enum.length > 0 && !enumIncludes(property.enum, value)) {
+    return [`Invalid field: ${path} must be one of ${property.enum.join(', ')}`];
+  }
+
+  return [];
+}
+
+/**
+ * Example value for a property, based on its name and type
+ */
+function exampleValue(name: string, property: PropertyInfo, claims: MockTokenClaims): unknown {
+  if (property.schema) {
+    return exampleFromSchema(property.schema, claims);
+  }
+
+  if (property.enum && property.enum.length > 0) {
+    return property.type === 'integer' || property.type === 'number' ? Number(property.enum[0]) : property.enum[0];
+  }
+
+  const key = name.toLowerCase();
+
+  switch (property.type) {
+    case 'integer':
+    case 'number':
+      if (key === 'id' || key.endsWith('_id')) {
+        return 85746065432;
+      }
+
+      return key.includes('page_size') ? 30 : key.includes('total') || key.includes('count') ? 1 : 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [];
+    case 'object':
+      return {};
+    case 'string':
+      if (key === 'account_id') {
+        return claims.accountId;
+      }
+
+      if (key === 'user_id' || key === 'host_id' || key === 'id') {
+        return claims.userId;
+      }
+
+      if (key.includes('email')) {
+        return 'user@example.com';
+      }
+
+      if (key.endsWith('_url') || key === 'url') {
+        return 'https://example.com/mock';
+      }
+
+      if (key.endsWith('_time') || key.endsWith('_at') || key === 'timestamp') {
+        return '2024-01-01T00:00:00Z';
+      }
+
+      if (key === 'timezone') {
+        return 'America/Los_Angeles';
+      }
+
+      if (key === 'next_page_token') {
+        return '';
+      }
+
+      return `mock ${name}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build an example value that satisfies a simplified schema
+ */
+export function exampleFromSchema(schema: SchemaInfo, claims: MockTokenClaims): unknown {
+  if (schema.type === 'array') {
+    return schema.items ? [exampleFromSchema(schema.items, claims)] : [];
+  }
+
+  if (schema.type !== 'object') {
+    return exampleValue('value', { type: schema.type }, claims);
+  }
+
+  const example: Record<string, unknown> = {};
+
+  for (const [name, property] of Object.entries(schema.properties || {})) {
+    example[name] = exampleValue(name, property, claims);
+  }
+
+  return example;
+}
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Handle a request against the mock Zoom REST API
+ *
+ * Besides the indexed endpoints, POST /_mock/token with { scopes: string[] }
+ * issues a fake access token for local testing.
+ */
+export function handleMockRequest(request: MockRequest): MockResponse {
+  const method = request.method.toUpperCase();
+  const path = request.path.split('?')[0].replace(/^\/v2(?=\/)/, '') || '/';
+
+  if (method === 'POST' && path === '/_mock/token') {
+    const scopes = (request.body as { scopes?: unknown } | undefined)?.scopes;
+
+    if (!Array.isArray(scopes) || scopes.some((scope) => typeof scope !== 'string')) {
+      return zoomError(400, 300, 'scopes must be an array of strings');
+    }
+
+    return {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+      body: { access_token: createMockToken(scopes), token_type: 'bearer', expires_in: 3600, scope: scopes.join(' ') },
+    };
+  }
+
+  const summary = matchEndpointByPath(method, path);
+  const endpoint: EndpointDetails | null = summary ? loadEndpointDetails(summary.id) : null;
+
+  if (!summary || !endpoint) {
+    return zoomError(404, 404, `No Zoom API endpoint matches ${method} ${path}`);
+  }
+
+  // Authentication and scopes
+  const authorization = firstValue(request.headers?.authorization || request.headers?.Authorization) || '';
+  const claims = parseMockToken(authorization.replace(/^Bearer\s+/i, ''));
+
+  if (!claims) {
+    return zoomError(401, 124, 'Invalid access token.');
+  }
+
+  const requiredScopes = endpoint.scopes || [];
+
+  if (
+    requiredScopes.length > 0 &&
+    !requiredScopes.some((required) => claims.scopes.some((granted) => scopeCovers(granted, required)))
+  ) {
+    return zoomError(400, 4711, `Invalid access token, does not contain scopes:[${requiredScopes.join(', ')}].`);
+  }
+
+  // Parameters
+  const errors: string[] = [];
+  const segments = path.split('/').filter(Boolean);
+  const templateSegments = endpoint.path.split('/').filter(Boolean);
+
+  for (const parameter of endpoint.parameters || []) {
+    let raw: string | undefined;
+
+    if (parameter.in === 'path') {
+      const index = templateSegments.indexOf(`{${parameter.name}}`);
+      raw = index >= 0 ? decodeURIComponent(segments[index]) : undefined;
+    } else if (parameter.in === 'query') {
+      raw = firstValue(request.query?.[parameter.name]);
+    } else {
+      continue;
+    }
+
+    if (raw === undefined || raw === '') {
+      if (parameter.required) {
+        errors.push(`Missing field: ${parameter.name}`);
+      }
+
+      continue;
+    }
+
+    const error = validateParameter(parameter, raw);
+
+    if (error) {
+      errors.push(error);
+    }
+  }
+
+  // Request body
+  if (endpoint.requestBody) {
+    const isEmpty =
+      request.body === undefined ||
+      request.body === null ||
+      (typeof request.body === 'object' && Object.keys(request.body).length === 0);
+
+    if (isEmpty && endpoint.requestBody.required) {
+      errors.push('Request body is required');
+    } else if (!isEmpty) {
+      errors.push(...validateAgainstSchema(endpoint.requestBody.schema, request.body));
+    }
+  }
+
+  if (errors.length > 0) {
+    return {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+      body: { code: 300, message: errors[0], errors: errors.map((message) => ({ message })) },
+    };
+  }
+
+  const success = getSuccessResponse(endpoint);
+
+  if (!success?.schema) {
+    return { status: success ? Number(success.status) : 204, headers: {} };
+  }
+
+  let body = exampleFromSchema(success.schema, claims);
+
+  // Echo fields sent on create/update so follow-up UI shows what the user entered
+  if (method !== 'GET' && request.body && typeof request.body === 'object' && body && typeof body === 'object') {
+    const known = Object.keys(success.schema.properties || {});
+    const echoed = Object.fromEntries(Object.entries(request.body).filter(([key]) => known.includes(key)));
+    body = { ...body, ...echoed };
+  }
+
+  return { status: Number(success.status), headers: { 'Content-Type': 'application/json' }, body };
+}
+
+/**
+ * Run the mock API as a standalone HTTP server (used by --mock)
+ */
+export async function runMockServer(port: number): Promise<void> {
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const corsHeaders = {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+    };
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders).end();
+      return;
+    }
+
+    let body: unknown;
+
+    try {
+      body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf-8')) : undefined;
+    } catch {
+      const error = zoomError(400, 300, 'Request body is not valid JSON');
+      res.writeHead(error.status, { ...corsHeaders, ...error.headers }).end(JSON.stringify(error.body));
+
+      return;
+    }
+
+    const response = handleMockRequest({
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: req.headers,
+      body,
+    });
+
+    res
+      .writeHead(response.status, { ...corsHeaders, ...response.headers })
+      .end(response.body === undefined ? undefined : JSON.stringify(response.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  console.error(`Zoom API mock server running on http://localhost:${port}/v2`);
+}
@@ -0,0 +1,169 @@
+/**
+ * MCP resources and prompts of the Zoom API server
+ * Shared by the stdio/HTTP server and the MCP proxy adapter.
+ */
+
+export interface ResourceInfo {
+  uri: string;
+  name: string;
+  mimeType: string;
+  description: string;
+}
+
+export interface PromptInfo {
+  name: string;
+  description: string;
+  arguments?: Array<{ name: string; description: string; required?: boolean }>;
+}
+
+export interface PromptResult {
+  description: string;
+  messages: Array<{ role: 'user'; content: { type: 'text'; text: string } }>;
+}
+
+export const RESOURCES: ResourceInfo[] = [
+  {
+    uri: 'zoom://api/rate-limits',
+    mimeType: 'application/json',
+    name: 'Zoom API Rate Limits',
+    description: 'Rate limit information for Zoom APIs',
+  },
+  {
+    uri: 'zoom://sdk/capabilities',
+    mimeType: 'application/json',
+    name: 'Zoom Apps SDK Capabilities',
+    description: 'Available capabilities in @zoom/appssdk',
+  },
+];
+
+const RESOURCE_CONTENTS: Record<string, unknown> = {
+  'zoom://api/rate-limits': {
+    description: 'Zoom API Rate Limits',
+    defaultLimits: {
+      perSecond: 10,
+      perDay: 5000,
+    },
+    categoryLimits: {
+      meetings: { perSecond: 10, perDay: 5000 },
+      users: { perSecond: 10, perDay: 5000 },
+      phone: { perSecond: 10, perDay: 5000 },
+      reports: { perSecond: 1, perDay: 1000 },
+    },
+    notes: [
+      'Rate limits vary by endpoint and account type',
+      'Pro accounts have higher limits than Basic',
+      'Use Retry-After header for 429 responses',
+      'See https://developers.zoom.us/docs/api/rest/rate-limits/',
+    ],
+  },
+  'zoom://sdk/capabilities': {
+    description: 'Zoom Apps SDK (@zoom/appssdk) Capabilities',
+    commonCapabilities: [
+      'getRunningContext',
+      'getSupportedJsApis',
+      'openUrl',
+      'getMeetingContext',
+      'getUserContext',
+      'getPhoneContext',
+      'sendAppInvitation',
+      'showNotification',
+      'cloudRecording',
+      'authorize',
+    ],
+    meetingCapabilities: [
+      'getMeetingParticipants',
+      'getMeetingUUID',
+      'getUserMediaAudio',
+      'getUserMediaVideo',
+      'setUserMediaAudio',
+      'setUserMediaVideo',
+      'allowParticipantToRecord',
+      'drawParticipant',
+      'clearParticipant',
+      'drawImage',
+      'clearImage',
+    ],
+    initialization: {
+      example: `import zoomSdk from '@zoom/appssdk';
+
+await zoomSdk.config({
+  capabilities: [
+    'getRunningContext',
+    'getMeetingContext',
+    'getUserContext'
+  ]
+});`,
+    },
+    docs: 'https://developers.zoom.us/docs/zoom-apps/js-sdk/',
+  },
+};
+
+/**
+ * Read a resource by URI
+ */
+export function readResource(uri: string): { uri: string; mimeType: string; text: string } | null {
+  const content = RESOURCE_CONTENTS[uri];
+
+  if (!content) {
+    return null;
+  }
+
+  return { uri, mimeType: 'application/json', text: JSON.stringify(content, null, 2) };
+}
+
+export const PROMPTS: PromptInfo[] = [
+  {
+    name: 'new-zoom-app',
+    description: 'Scaffold a Zoom App with the SDK, manifest and scopes set up',
+    arguments: [{ name: 'description', description: 'What the app should do', required: true }],
+  },
+  {
+    name: 'add-rest-call',
+    description: 'Add a typed Zoom REST API call to the current app',
+    arguments: [
+      { name: 'operation', description: 'What the call should do, e.g. "list upcoming meetings"', required: true },
+    ],
+  },
+  {
+    name: 'webhook-handler',
+    description: 'Add a verified webhook handler for a Zoom event',
+    arguments: [{ name: 'event', description: 'Event name, e.g. "meeting.started"', required: true }],
+  },
+];
+
+const PROMPT_TEMPLATES: Record<string, (args: Record<string, string>) => string> = {
+  'new-zoom-app': (args) =>
+    `Build a Zoom App that does the following: ${args.description}\n\n` +
+    'Use @zoom/appssdk and call zoomSdk.config() with only the capabilities the app uses. ' +
+    'Use zoom_get_scopes to find the OAuth scopes for every Zoom REST endpoint the app calls and list them in public/manifest.json.',
+  'add-rest-call': (args) =>
+    `Add a call to the Zoom REST API that does the following: ${args.operation}\n\n` +
+    'Use zoom_search_endpoints to find the endpoint and zoom_generate_client to generate a typed client function for it. ' +
+    'Add the scopes it requires to public/manifest.json.',
+  'webhook-handler': (args) =>
+    `Add a webhook handler for the Zoom "${args.event}" event.\n\n` +
+    'Use zoom_get_event to get the payload schema and the subscription scopes. ' +
+    'Verify the x-zm-signature header with the webhook secret token and answer endpoint.url_validation challenges.',
+};
+
+/**
+ * Render a prompt with its arguments; throws if the prompt is unknown or a required argument is missing
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): PromptResult {
+  const prompt = PROMPTS.find((p) => p.name === name);
+
+  if (!prompt) {
+    throw new Error(`Prompt not found: ${name}`);
+  }
+
+  const missing = (prompt.arguments || []).filter((arg) => arg.required && !args[arg.name]?.trim());
+
+  if (missing.length > 0) {
+    throw new Error(`Missing required arguments: ${missing.map((arg) => arg.name).join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: PROMPT_TEMPLATES[name](args) } }],
+  };
+}
@@ -10,6 +10,8 @@ import {
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
   ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import {
@@ -20,7 +22,17 @@ import {
   getEndpointsByCategory,
   getScopesForEndpoints,
   getAllScopes,
+  matchEndpointByPath,
+  findEvents,
+  loadEventDetails,
+  loadEventsIndex,
+  listSnapshots,
+  loadSnapshot,
 } from './data/loader.js';
+import { diffSnapshots, findAffectedCalls } from './changes.js';
+import { generateClientFunction, generateEndpointSchemas, generateEventSchema } from './codegen.js';
+import { PROMPTS, RESOURCES, getPrompt, readResource } from './resources.js';
+import type { EndpointDetails } from './types.js';
 
 // Tool input schemas
 const ListCategoriesSchema = z.object({});
@@ -45,6 +57,84 @@ const GetScopesSchema = z.object({
   listAll: z.boolean().optional().describe('If true, returns all available OAuth scopes'),
 });
 
+const ResolveCallsSchema = z.object({
+  calls: z
+    .array(
+      z.object({
+        method: z.string().optional().default('GET'),
+        path: z.string(),
+      }),
+    )
+    .describe('REST calls found in code, with paths relative to https://api.zoom.us/v2'),
+});
+
+const GetSchemaSchema = GetEndpointSchema.extend({
+  format: z.enum(['typescript', 'zod']).optional().default('typescript').describe('Output format'),
+  target: z.enum(['request', 'response', 'all']).optional().default('all').describe('Which schemas to generate'),
+});
+
+const GenerateClientSchema = GetEndpointSchema.extend({
+  functionName: z.string().optional().describe('Name of the generated function'),
+  validate: z.boolean().optional().default(false).describe('Validate the response with a generated Zod schema'),
+});
+
+const ListEventsSchema = z.object({
+  category: z.string().optional().describe('Category ID (e.g., "meetings", "phone")'),
+  query: z.string().optional().describe('Keyword filter (e.g., "participant", "recording")'),
+  limit: z.number().optional().default(50).describe('Maximum results to return (default: 50)'),
+});
+
+const GetEventSchema = z.object({
+  event: z.string().describe('Event type (e.g., "meeting.started")'),
+  format: z.enum(['typescript', 'zod']).optional().describe('Also generate a typed payload definition'),
+});
+
+const GetChangesSchema = z.object({
+  from: z.string().optional().describe('Snapshot ID to compare from (default: the previous snapshot)'),
+  to: z.string().optional().describe('Snapshot ID to compare to (default: the latest snapshot)'),
+  calls: z
+    .array(z.object({ method: z.string().optional().default('GET'), path: z.string() }))
+    .optional()
+    .describe('REST calls made by an app; returns which of them are affected by the changes'),
+});
+
+/**
+ * Find full endpoint details by ID, or by method and path (exact or templated, e.g. /users/me/meetings)
+ */
+function findEndpointDetails(input: z.infer<typeof GetEndpointSchema>): EndpointDetails | null {
+  let endpointId = input.endpointId;
+
+  if (!endpointId && input.method && input.path) {
+    const exact = loadEndpointsIndex().find(
+      (ep) => ep.method.toUpperCase() === input.method!.toUpperCase() && ep.path === input.path,
+    );
+    endpointId = (exact || matchEndpointByPath(input.method, input.path))?.id;
+  }
+
+  return endpointId ? loadEndpointDetails(endpointId) : null;
+}
+
+function endpointNotFound(input: z.infer<typeof GetEndpointSchema>) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify(
+          {
+            error: input.endpointId
+              ? `Endpoint details for "${input.endpointId}" not found`
+              : 'Endpoint not found. Provide either endpointId or both method and path.',
+            hint: 'Use zoom_search_endpoints to find endpoint IDs. If the ID is valid, run "npm run prepare-data" in the zoom-api directory.',
+          },
+          null,
+          2,
+        ),
+      },
+    ],
+    isError: true,
+  };
+}
+
 /**
  * Create and configure the MCP server
  */
@@ -58,6 +148,7 @@ export function createServer(): Server {
       capabilities: {
         tools: {},
         resources: {},
+        prompts: {},
       },
     },
   );
@@ -153,6 +244,167 @@ export function createServer(): Server {
             required: [],
           },
         },
+        {
+          name: 'zoom_resolve_calls',
+          description:
+            'Resolve concrete Zoom REST calls (e.g. GET /users/me/meetings) to their API endpoints and required OAuth scopes. Use this to check which scopes an app needs.',
+          inputSchema: {
+            type: 'object' as const,
+            properties: {
+              calls: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    method: { type: 'string', description: 'HTTP method (default: GET)' },
+                    path: { type: 'string', description: 'Path relative to https://api.zoom.us/v2' },
+                  },
+                  required: ['path'],
+                },
+                description: 'REST calls to resolve',
+              },
+            },
+            required: ['calls'],
+          },
+        },
+        {
+          name: 'zoom_list_events',
+          description:
+            'List Zoom webhook events (e.g. meeting.started) with summaries and required subscription scopes. Filter by category or keyword.',
+          inputSchema: {
+            type: 'object' as const,
+            properties: {
+              category: {
+                type: 'string',
+                description: 'Category ID (e.g., "meetings", "users", "phone")',
+              },
+              query: {
+                type: 'string',
+                description: 'Keyword filter (e.g., "participant", "recording")',
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum results to return (default: 50)',
+              },
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'zoom_get_event',
+          description:
+            'Get a Zoom webhook event definition: payload schema, required subscription scopes and a sample payload. Optionally generates a TypeScript or Zod type for the webhook body. Use this before writing webhook handlers.',
+          inputSchema: {
+            type: 'object' as const,
+            properties: {
+              event: {
+                type: 'string',
+                description: 'Event type (e.g., "meeting.started")',
+              },
+              format: {
+                type: 'string',
+                enum: ['typescript', 'zod'],
+                description: 'If set, also generate a typed payload definition in this format',
+              },
+            },
+            required: ['event'],
+          },
+        },
+        {
+          name: 'zoom_get_changes',
+          description:
+            'Compare two versioned snapshots of the Zoom API index: added, removed and deprecated endpoints and changed scopes. Pass the REST calls an app makes to find which of them are affected.',
+          inputSchema: {
+            type: 'object' as const,
+            properties: {
+              from: {
+                type: 'string',
+                description: 'Snapshot ID to compare from (default: the previous snapshot)',
+              },
+              to: {
+                type: 'string',
+                description: 'Snapshot ID to compare to (default: the latest snapshot)',
+              },
+              calls: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    method: { type: 'string', description: 'HTTP method (default: GET)' },
+                    path: { type: 'string', description: 'Path relative to https://api.zoom.us/v2' },
+                  },
+                  required: ['path'],
+                },
+                description: 'REST calls made by an app',
+              },
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'zoom_get_schema',
+          description:
+            'Generate TypeScript interfaces or Zod schemas for the request body and success response of a Zoom API endpoint. Use this instead of guessing payload shapes.',
+          inputSchema: {
+            type: 'object' as const,
+            properties: {
+              endpointId: {
+                type: 'string',
+                description: 'Endpoint ID from list_endpoints or search_endpoints',
+              },
+              method: {
+                type: 'string',
+                description: 'HTTP method (GET, POST, PUT, PATCH, DELETE)',
+              },
+              path: {
+                type: 'string',
+                description: 'API path (e.g., "/users/{userId}/meetings")',
+              },
+              format: {
+                type: 'string',
+                enum: ['typescript', 'zod'],
+                description: 'Output format (default: typescript)',
+              },
+              target: {
+                type: 'string',
+                enum: ['request', 'response', 'all'],
+                description: 'Which schemas to generate (default: all)',
+              },
+            },
+            required: [],
+          },
+        },
+        {
+          name: 'zoom_generate_client',
+          description:
+            'Generate a typed fetch-based client function for a Zoom API endpoint, including its request and response types, path and query parameters and Bearer authentication.',
+          inputSchema: {
+            type: 'object' as const,
+            properties: {
+              endpointId: {
+                type: 'string',
+                description: 'Endpoint ID from list_endpoints or search_endpoints',
+              },
+              method: {
+                type: 'string',
+                description: 'HTTP method (GET, POST, PUT, PATCH, DELETE)',
+              },
+              path: {
+                type: 'string',
+                description: 'API path (e.g., "/users/{userId}/meetings")',
+              },
+              functionName: {
+                type: 'string',
+                description: 'Name of the generated function (default: derived from the endpoint summary)',
+              },
+              validate: {
+                type: 'boolean',
+                description: 'If true, generate Zod schemas and validate the response at runtime',
+              },
+            },
+            required: [],
+          },
+        },
       ],
     };
   });
@@ -238,6 +490,7 @@ export function createServer(): Server {
             const found = allEndpoints.find(
               (ep) => ep.method.toUpperCase() === input.method!.toUpperCase() && ep.path === input.path,
             );
+
             if (found) {
               endpointId = found.id;
             }
@@ -402,6 +655,226 @@ export function createServer(): Server {
           };
         }
 
+        case 'zoom_resolve_calls': {
+          const input = ResolveCallsSchema.parse(args);
+
+          const resolved = input.calls.map((call) => {
+            const endpoint = matchEndpointByPath(call.method, call.path);
+
+            return {
+              method: call.method.toUpperCase(),
+              path: call.path,
+              endpoint: endpoint
+                ? {
+                    id: endpoint.id,
+                    path: endpoint.path,
+                    summary: endpoint.summary,
+                    scopes: endpoint.scopes || [],
+                    deprecated: endpoint.deprecated || false,
+                  }
+                : null,
+            };
+          });
+
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify(
+                  {
+                    resolved,
+                    unresolvedCount: resolved.filter((call) => !call.endpoint).length,
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+
+        case 'zoom_list_events': {
+          const input = ListEventsSchema.parse(args);
+          const events = findEvents(input);
+
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify(
+                  {
+                    count: events.length,
+                    events: events.map((event) => ({
+                      name: event.name,
+                      category: event.category,
+                      summary: event.summary,
+                      scopes: event.scopes || [],
+                    })),
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+
+        case 'zoom_get_event': {
+          const input = GetEventSchema.parse(args);
+          const details = loadEventDetails(input.event);
+
+          if (!details) {
+            const summary = loadEventsIndex().find((event) => event.name === input.event);
+
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: JSON.stringify(
+                    summary
+                      ? {
+                          ...summary,
+                          note: 'Full details not available. Run "npm run prepare-data" in the zoom-api directory.',
+                        }
+                      : {
+                          error: `Event "${input.event}" not found`,
+                          hint: 'Use zoom_list_events to find valid event types',
+                        },
+                    null,
+                    2,
+                  ),
+                },
+              ],
+            };
+          }
+
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify(
+                  {
+                    ...details,
+                    ...(input.format ? { types: generateEventSchema(details, input.format) } : {}),
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+
+        case 'zoom_get_changes': {
+          const input = GetChangesSchema.parse(args);
+          const snapshots = listSnapshots();
+          const fromId = input.from || snapshots[snapshots.length - 2]?.id;
+          const toId = input.to || snapshots[snapshots.length - 1]?.id;
+          const from = fromId ? loadSnapshot(fromId) : null;
+          const to = toId ? loadSnapshot(toId) : null;
+
+          if (!from || !to) {
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: JSON.stringify(
+                    {
+                      error:
+                        fromId && toId ? `Snapshot not found: ${!from ? fromId : toId}` : 'Need at least two snapshots',
+                      snapshots,
+                      hint: 'Snapshots are written by "npm run build-index" when the specs change.',
+                    },
+                    null,
+                    2,
+                  ),
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const report = diffSnapshots(from, to);
+
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify(
+                  {
+                    ...report,
+                    ...(input.calls ? { affectedCalls: findAffectedCalls(report, input.calls) } : {}),
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+
+        case 'zoom_get_schema': {
+          const input = GetSchemaSchema.parse(args);
+          const details = findEndpointDetails(input);
+
+          if (!details) {
+            return endpointNotFound(input);
+          }
+
+          const generated = generateEndpointSchemas(details, input.format, input.target);
+
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify(
+                  {
+                    endpointId: details.id,
+                    method: details.method,
+                    path: details.path,
+                    format: input.format,
+                    ...generated,
+                    note: 'Nested objects are typed loosely because the index only keeps top-level properties.',
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+
+        case 'zoom_generate_client': {
+          const input = GenerateClientSchema.parse(args);
+          const details = findEndpointDetails(input);
+
+          if (!details) {
+            return endpointNotFound(input);
+          }
+
+          return {
+            content: [
+              {
+                type: 'text' as const,
+                text: JSON.stringify(
+                  {
+                    endpointId: details.id,
+                    method: details.method,
+                    path: details.path,
+                    scopes: details.scopes || [],
+                    code: generateClientFunction(details, {
+                      functionName: input.functionName,
+                      validate: input.validate,
+                    }),
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+
         default:
           return {
             content: [
@@ -430,128 +903,28 @@ export function createServer(): Server {
 
   // Register resources
   server.setRequestHandler(ListResourcesRequestSchema, async () => {
-    return {
-      resources: [
-        {
-          uri: 'zoom://api/rate-limits',
-          mimeType: 'application/json',
-          name: 'Zoom API Rate Limits',
-          description: 'Rate limit information for Zoom APIs',
-        },
-        {
-          uri: 'zoom://sdk/capabilities',
-          mimeType: 'application/json',
-          name: 'Zoom Apps SDK Capabilities',
-          description: 'Available capabilities in @zoom/appssdk',
-        },
-      ],
-    };
+    return { resources: RESOURCES };
   });
 
   // Handle resource reads
   server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     const { uri } = request.params;
-
-    if (uri === 'zoom://api/rate-limits') {
-      return {
-        contents: [
-          {
-            uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(
-              {
-                description: 'Zoom API Rate Limits',
-                defaultLimits: {
-                  perSecond: 10,
-                  perDay: 5000,
-                },
-                categoryLimits: {
-                  meetings: { perSecond: 10, perDay: 5000 },
-                  users: { perSecond: 10, perDay: 5000 },
-                  phone: { perSecond: 10, perDay: 5000 },
-                  reports: { perSecond: 1, perDay: 1000 },
-                },
-                notes: [
-                  'Rate limits vary by endpoint and account type',
-                  'Pro accounts have higher limits than Basic',
-                  'Use Retry-After header for 429 responses',
-                  'See https://developers.zoom.us/docs/api/rest/rate-limits/',
-                ],
-              },
-              null,
-              2,
-            ),
-          },
-        ],
-      };
-    }
-
-    if (uri === 'zoom://sdk/capabilities') {
-      return {
-        contents: [
-          {
-            uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(
-              {
-                description: 'Zoom Apps SDK (@zoom/appssdk) Capabilities',
-                commonCapabilities: [
-                  'getRunningContext',
-                  'getSupportedJsApis',
-                  'openUrl',
-                  'getMeetingContext',
-                  'getUserContext',
-                  'getPhoneContext',
-                  'sendAppInvitation',
-                  'showNotification',
-                  'cloudRecording',
-                  'authorize',
-                ],
-                meetingCapabilities: [
-                  'getMeetingParticipants',
-                  'getMeetingUUID',
-                  'getUserMediaAudio',
-                  'getUserMediaVideo',
-                  'setUserMediaAudio',
-                  'setUserMediaVideo',
-                  'allowParticipantToRecord',
-                  'drawParticipant',
-                  'clearParticipant',
-                  'drawImage',
-                  'clearImage',
-                ],
-                initialization: {
-                  example: `import zoomSdk from '@zoom/appssdk';
-
-await zoomSdk.config({
-  capabilities: [
-    'getRunningContext',
-    'getMeetingContext',
-    'getUserContext'
-  ]
-});`,
-                },
-                docs: 'https://developers.zoom.us/docs/zoom-apps/js-sdk/',
-              },
-              null,
-              2,
-            ),
-          },
-        ],
-      };
-    }
+    const content = readResource(uri);
 
     return {
-      contents: [
-        {
-          uri,
-          mimeType: 'text/plain',
-          text: `Resource not found: ${uri}`,
-        },
-      ],
+      contents: [content || { uri, mimeType: 'text/plain', text: `Resource not found: ${uri}` }],
     };
   });
 
+  // Register prompts (offered as slash commands by the chat)
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return { ...getPrompt(request.params.name, request.params.arguments) };
+  });
+
   return server;
 }
 
@@ -11,6 +11,7 @@ export interface EndpointSummary {
   description?: string;
   tags?: string[];
   scopes?: string[];
+  deprecated?: boolean;
 }
 
 export interface EndpointDetails {
@@ -60,6 +61,68 @@ export interface PropertyInfo {
   description?: string;
   enum?: string[];
   required?: boolean;
+  /** Nested object or array schema (only kept for webhook event payloads) */
+  schema?: SchemaInfo;
+}
+
+export interface EventSummary {
+  /** Event type, e.g. "meeting.started" */
+  name: string;
+  category: string;
+  summary: string;
+  description?: string;
+  scopes?: string[];
+}
+
+export interface EventDetails extends EventSummary {
+  /** Schema of the webhook request body ({ event, event_ts, payload }) */
+  schema?: SchemaInfo;
+  /** Example request body, from the spec or generated from the schema */
+  sample?: unknown;
+}
+
+/**
+ * Versioned snapshot of the endpoint index, written by build-index when the specs change
+ */
+export interface IndexSnapshot {
+  /** e.g. "2024-06-01" or "2024-06-01-2" */
+  id: string;
+  createdAt: string;
+  label?: string;
+
+  /** info.version of each category spec */
+  specVersions: Record<string, string>;
+  endpoints: SnapshotEndpoint[];
+}
+
+export type SnapshotEndpoint = Pick<EndpointSummary, 'id' | 'method' | 'path' | 'summary' | 'scopes' | 'deprecated'>;
+
+export interface SnapshotInfo {
+  id: string;
+  createdAt: string;
+  label?: string;
+  endpointCount: number;
+}
+
+export interface ScopeChange {
+  endpoint: SnapshotEndpoint;
+  addedScopes: string[];
+  removedScopes: string[];
+}
+
+/**
+ * Differences between two index snapshots
+ */
+export interface IndexChangeReport {
+  from: SnapshotInfo;
+  to: SnapshotInfo;
+  added: SnapshotEndpoint[];
+  removed: SnapshotEndpoint[];
+
+  /** Endpoints that became deprecated */
+  deprecated: SnapshotEndpoint[];
+  scopeChanges: ScopeChange[];
+  specVersionChanges: Record<string, { from?: string; to?: string }>;
 }
 
 export interface CategoryInfo {
@@ -20,6 +20,9 @@
  * if (status.success && status.tokens) {
  *   // Use tokens
  * }
+ *
+ * // Get an access token, refreshing it server-side if it has expired
+ * const accessToken = await getValidAccessToken();
  * ```
  */
 
@@ -188,6 +191,11 @@ export async function pollForTokens(options: PollingOptions = {}): Promise<OAuth
 export function storeTokens(tokens: OAuthTokens): void {
   localStorage.setItem('zoom_tokens', JSON.stringify(tokens));
 
+  // Kept separately so it survives access token expiry
+  if (tokens.refresh_token) {
+    localStorage.setItem('zoom_refresh_token', tokens.refresh_token);
+  }
+
   // Also store expiration time if available
   if (tokens.expires_in) {
     const expiresAt = Date.now() + tokens.expires_in * 1000;
@@ -214,8 +222,9 @@ export function getStoredTokens(): OAuthTokens | null {
     const expiresAt = parseInt(expiresAtStr, 10);
 
     if (Date.now() > expiresAt) {
-      // Tokens expired, clear storage
-      clearStoredTokens();
+      // Access token expired, clear it but keep the refresh token
+      localStorage.removeItem('zoom_tokens');
+      localStorage.removeItem('zoom_tokens_expires_at');
 
       return null;
     }
@@ -234,6 +243,78 @@ export function getStoredTokens(): OAuthTokens | null {
 export function clearStoredTokens(): void {
   localStorage.removeItem('zoom_tokens');
   localStorage.removeItem('zoom_tokens_expires_at');
+  localStorage.removeItem('zoom_refresh_token');
+}
+
+/**
+ * Refresh the access token via bolt.diy
+ *
+ * The client secret stays on the server; the app only presents its refresh
+ * token. Zoom rotates refresh tokens, so the new one replaces the stored one.
+ * If another tab already refreshed, the latest tokens are picked up instead.
+ *
+ * @returns New OAuth tokens
+ */
+export async function refreshTokens(): Promise<OAuthTokens> {
+  const refreshToken = localStorage.getItem('zoom_refresh_token');
+
+  if (!refreshToken) {
+    throw new Error('No refresh token stored. Please authorize the app again.');
+  }
+
+  const response = await fetch(`${getTokenPollingUrl()}/refresh`, {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ refresh_token: refreshToken }),
+  });
+
+  // Our refresh token was rotated by an earlier refresh; pick up the latest tokens
+  if (response.status === 409) {
+    const status = await checkTokenStatus();
+
+    if (status.success && status.tokens) {
+      storeTokens(status.tokens);
+
+      return status.tokens;
+    }
+
+    throw new Error('Refresh token was rotated and no new tokens are available. Please authorize the app again.');
+  }
+
+  const data = (await response.json()) as TokenPollingResponse;
+
+  if (!response.ok || !data.success || !data.tokens) {
+    throw new Error(data.error || `Token refresh failed: HTTP ${response.status}`);
+  }
+
+  storeTokens(data.tokens);
+  console.log('[OAuth] Access token refreshed');
+
+  return data.tokens;
+}
+
+/**
+ * Get a valid access token, refreshing it if it has expired
+ *
+ * @returns Access token or null if not authorized
+ */
+export async function getValidAccessToken(): Promise<string | null> {
+  const accessToken = getAccessToken();
+
+  if (accessToken) {
+    return accessToken;
+  }
+
+  if (!localStorage.getItem('zoom_refresh_token')) {
+    return null;
+  }
+
+  const tokens = await refreshTokens();
+
+  return tokens.access_token;
 }
 
 /**
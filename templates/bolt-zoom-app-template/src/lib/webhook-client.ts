@@ -0,0 +1,213 @@
+/**
+ * Webhook Client Utility
+ *
+ * Receives Zoom webhooks forwarded by bolt.diy's webhook proxy.
+ *
+ * Delivery modes:
+ * - sse (default): events are pushed over Server-Sent Events as they arrive
+ * - longpoll: a request stays open until events arrive (for environments without EventSource)
+ * - poll: legacy timer-based polling; events are removed from the queue on read
+ *
+ * In sse and longpoll modes each event is acknowledged after the handler resolves.
+ * If the handler throws, the event is not acknowledged and will be redelivered.
+ *
+ * Usage:
+ * ```typescript
+ * import { subscribeToWebhooks } from './lib/webhook-client';
+ *
+ * const unsubscribe = subscribeToWebhooks({
+ *   onEvent: async (event) => {
+ *     const payload = JSON.parse(event.body ?? '{}');
+ *     console.log('Webhook received:', payload.event);
+ *   },
+ * });
+ * ```
+ */
+
+/**
+ * Webhook event as delivered by the proxy
+ */
+export interface WebhookEvent {
+  id: string;
+  sessionId: string;
+  timestamp: number;
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  body: string | null;
+  contentType: string | null;
+
+  /** 'valid' when the proxy verified the x-zm-signature header, 'replayed' for fixtures replayed from bolt.diy */
+  signatureStatus?: 'valid' | 'invalid' | 'missing' | 'unchecked' | 'replayed';
+  deliveryCount?: number;
+}
+
+export type WebhookDeliveryMode = 'sse' | 'longpoll' | 'poll';
+
+/**
+ * Subscription options
+ */
+export interface WebhookSubscriptionOptions {
+  /** Webhook session ID (defaults to VITE_ZOOM_WEBHOOK_SESSION_ID) */
+  sessionId?: string;
+
+  /** Delivery mode (default: sse, falls back to longpoll when EventSource is unavailable) */
+  mode?: WebhookDeliveryMode;
+
+  /** Interval between polls in poll mode, in milliseconds (default: 5 seconds) */
+  pollInterval?: number;
+
+  /** Called for each event */
+  onEvent: (event: WebhookEvent) => void | Promise<void>;
+
+  /** Called when a request fails (the client keeps retrying) */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Get the bolt.diy base URL for API calls
+ */
+function getBoltBaseUrl(): string {
+  return import.meta.env.ZOOM_BOLT_BASE_URL || 'https://zoomvibes.j4red4llen.com';
+}
+
+/**
+ * Acknowledge delivered events so they are not redelivered
+ */
+export async function ackWebhooks(sessionId: string, eventIds: string[]): Promise<void> {
+  if (eventIds.length === 0) {
+    return;
+  }
+
+  const response = await fetch(`${getBoltBaseUrl()}/api/webhook/ack/${sessionId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ eventIds }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to acknowledge webhooks: HTTP ${response.status}`);
+  }
+}
+
+/**
+ * Run the handler for each event and return the IDs that were handled successfully
+ */
+async function handleEvents(events: WebhookEvent[], options: WebhookSubscriptionOptions): Promise<string[]> {
+  const handled: string[] = [];
+
+  for (const event of events) {
+    try {
+      await options.onEvent(event);
+      handled.push(event.id);
+    } catch (error) {
+      options.onError?.(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  return handled;
+}
+
+/**
+ * Subscribe to webhook events for a session
+ *
+ * @param options - Subscription options
+ * @returns Function that stops the subscription
+ */
+export function subscribeToWebhooks(options: WebhookSubscriptionOptions): () => void {
+  const sessionId = options.sessionId || import.meta.env.VITE_ZOOM_WEBHOOK_SESSION_ID;
+
+  if (!sessionId) {
+    throw new Error(
+      'Missing webhook session ID. Pass sessionId or set VITE_ZOOM_WEBHOOK_SESSION_ID in your .env file.',
+    );
+  }
+
+  let mode = options.mode || 'sse';
+
+  if (mode === 'sse' && typeof EventSource === 'undefined') {
+    mode = 'longpoll';
+  }
+
+  if (mode === 'sse') {
+    return subscribeWithEventSource(sessionId, options);
+  }
+
+  return subscribeWithPolling(sessionId, mode, options);
+}
+
+function subscribeWithEventSource(sessionId: string, options: WebhookSubscriptionOptions): () => void {
+  const source = new EventSource(`${getBoltBaseUrl()}/api/webhook/stream/${sessionId}`);
+
+  source.addEventListener('webhook', async (message) => {
+    try {
+      const event = JSON.parse((message as MessageEvent<string>).data) as WebhookEvent;
+      const handled = await handleEvents([event], options);
+      await ackWebhooks(sessionId, handled);
+    } catch (error) {
+      options.onError?.(error instanceof Error ? error : new Error(String(error)));
+    }
+  });
+
+  source.addEventListener('session-expired', () => {
+    options.onError?.(new Error('Webhook session expired. Create a new session.'));
+    source.close();
+  });
+
+  return () => source.close();
+}
+
+function subscribeWithPolling(
+  sessionId: string,
+  mode: 'longpoll' | 'poll',
+  options: WebhookSubscriptionOptions,
+): () => void {
+  const { pollInterval = 5000 } = options;
+  const controller = new AbortController();
+
+  const url =
+    mode === 'longpoll'
+      ? `${getBoltBaseUrl()}/api/webhook/stream/${sessionId}?mode=longpoll`
+      : `${getBoltBaseUrl()}/api/webhook/poll/${sessionId}`;
+
+  const loop = async () => {
+    while (!controller.signal.aborted) {
+      try {
+        const response = await fetch(url, { signal: controller.signal });
+
+        if (!response.ok) {
+          throw new Error(`Webhook request failed: HTTP ${response.status}`);
+        }
+
+        const data = (await response.json()) as { events: WebhookEvent[] };
+        const handled = await handleEvents(data.events, options);
+
+        // Poll mode removes events on read, so only long-poll needs acknowledgements
+        if (mode === 'longpoll') {
+          await ackWebhooks(sessionId, handled);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        options.onError?.(error instanceof Error ? error : new Error(String(error)));
+
+        // Avoid a tight retry loop while the server is unreachable
+        if (mode === 'longpoll') {
+          await new Promise((resolve) => setTimeout(resolve, pollInterval));
+        }
+      }
+
+      // Long-poll waits on the server; only back off between plain polls
+      if (mode === 'poll') {
+        await new Promise((resolve) => setTimeout(resolve, pollInterval));
+      }
+    }
+  };
+
+  loop();
+
+  return () => controller.abort();
+}
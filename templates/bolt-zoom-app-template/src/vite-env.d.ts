@@ -17,6 +17,9 @@ interface ImportMetaEnv {
   /** Zoom App Name (for display purposes) */
   readonly VITE_ZOOM_APP_NAME?: string;
 
+  /** Webhook proxy session ID for src/lib/webhook-client.ts */
+  readonly VITE_ZOOM_WEBHOOK_SESSION_ID?: string;
+
   /** bolt.diy base URL (defaults to zoomvibes) */
   readonly ZOOM_BOLT_BASE_URL?: string;
 }
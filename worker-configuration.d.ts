@@ -17,10 +17,31 @@ interface Env {
   GITLAB_OAUTH_CLIENT_SECRET: string;
   GOOGLE_OAUTH_CLIENT_ID: string;
   GOOGLE_OAUTH_CLIENT_SECRET: string;
+  SLACK_OAUTH_CLIENT_ID: string;
+  SLACK_OAUTH_CLIENT_SECRET: string;
+  MICROSOFT_OAUTH_CLIENT_ID: string;
+  MICROSOFT_OAUTH_CLIENT_SECRET: string;
+  MICROSOFT_OAUTH_TENANT: string;
+  SALESFORCE_OAUTH_CLIENT_ID: string;
+  SALESFORCE_OAUTH_CLIENT_SECRET: string;
+  SALESFORCE_LOGIN_URL: string;
+  OIDC_OAUTH_CLIENT_ID: string;
+  OIDC_OAUTH_CLIENT_SECRET: string;
+  OIDC_ISSUER: string;
 
   // Webhook Proxy Configuration
   WEBHOOK_PROXY_TTL: string;
   WEBHOOK_PROXY_MAX_QUEUE: string;
+  WEBHOOK_PROXY_STORAGE: string;
+  WEBHOOK_PROXY_STORAGE_DIR: string;
+  WEBHOOK_PROXY_KV: KVNamespace;
+
+  // Project Credential Store
+  PROJECT_STORE_ENCRYPTION_KEY: string;
+  PROJECT_STORE_PREVIOUS_KEYS: string;
+  PROJECT_STORE_STORAGE: string;
+  PROJECT_STORE_DIR: string;
+  PROJECT_STORE_KV: KVNamespace;
 
   // GitHub Integration
   GITHUB_TOKEN: string;